@@ -21,6 +21,7 @@ export default [
         setTimeout: 'readonly',
         setInterval: 'readonly',
         clearInterval: 'readonly',
+        clearTimeout: 'readonly',
         Buffer: 'readonly',
         Response: 'readonly', // Node.js 18+ Web API
         fetch: 'readonly', // Node.js 18+ Web API
@@ -5,6 +5,14 @@ import * as path from "path"
 export class Database {
   public initPromise?: Promise<void>
 
+  static getVersion(): string {
+    return "0.11.3"
+  }
+
+  static getStorageVersion(): number {
+    return 39
+  }
+
   constructor(
     public dbPath: string,
     public bufferPoolSize = 0,
@@ -12,21 +20,38 @@ export class Database {
     public compress = true,
   ) {
     // Create mock database files synchronously to avoid race conditions
+    const fullPath = path.resolve(dbPath)
+    // Kuzu 0.11 keeps a database in one file that starts with its magic bytes
+    if (fsSync.existsSync(fullPath) && fsSync.statSync(fullPath).isFile()) {
+      if (!fsSync.readFileSync(fullPath).subarray(0, 4).equals(Buffer.from("KUZU"))) {
+        throw new Error(`Unable to open database: ${dbPath} is not a Kuzu database file`)
+      }
+      return
+    }
     if (!readonly) {
-      const fullPath = path.resolve(dbPath)
       // Create directory synchronously
       fsSync.mkdirSync(fullPath, { recursive: true })
       fsSync.writeFileSync(path.join(fullPath, "catalog.kz"), "mock catalog")
       fsSync.writeFileSync(path.join(fullPath, "data.kz"), "mock data")
     }
   }
+
+  close(): Promise<void> {
+    return Promise.resolve()
+  }
 }
 
 export class Connection {
   constructor(public db: Database) {}
 
+  close(): Promise<void> {
+    return Promise.resolve()
+  }
+
   query(cypher: string): Promise<{
     getAll: () => Promise<Record<string, unknown>[]>
+    getColumnNames?: () => Promise<string[]>
+    getColumnDataTypes?: () => Promise<string[]>
     close: () => void
   }> {
     // Mock different query responses
@@ -87,7 +112,18 @@ export class Connection {
       })
     }
 
-    if (cypher === "RETURN 1 as test") {
+    const exportPath = /^EXPORT DATABASE '(.+?)'/.exec(cypher)?.[1]
+    if (exportPath) {
+      fsSync.mkdirSync(exportPath, { recursive: true })
+      fsSync.writeFileSync(
+        path.join(exportPath, "schema.cypher"),
+        "CREATE NODE TABLE Person(name STRING, PRIMARY KEY(name));\n",
+      )
+      fsSync.writeFileSync(path.join(exportPath, "copy.cypher"), `COPY Person FROM "Person.csv";\n`)
+      fsSync.writeFileSync(path.join(exportPath, "Person.csv"), "Christopher Nolan\n")
+    }
+
+    if (cypher.replace(/;$/, "") === "RETURN 1 as test") {
       return Promise.resolve({
         getAll: () => Promise.resolve([{ test: 1 }]),
         close: () => {},
@@ -126,6 +162,8 @@ export class Connection {
     // Default response for CREATE, INSERT operations
     return Promise.resolve({
       getAll: () => Promise.resolve([]),
+      getColumnNames: () => Promise.resolve([]),
+      getColumnDataTypes: () => Promise.resolve([]),
       close: () => {},
     })
   }
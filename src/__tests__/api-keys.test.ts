@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest"
+import { MemoryAuthStore } from "../auth-store"
+import { API_KEY_PREFIX, createApiKey, describeApiKey, parseExpiry, verifyApiKey } from "../api-keys"
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe("API keys", () => {
+  it("should store only a digest and verify the key", async () => {
+    const store = new MemoryAuthStore()
+
+    const { key, record } = await createApiKey(store, { name: "ci-agent", scope: "read write" })
+
+    expect(key.startsWith(`${API_KEY_PREFIX}${record.id}_`)).toBe(true)
+    expect(JSON.stringify(await store.listApiKeys())).not.toContain(key)
+    expect(await verifyApiKey(store, key)).toMatchObject({ userId: "ci-agent", scope: "read write" })
+  })
+
+  it("should default to a read-only key acting as its name", async () => {
+    const { record } = await createApiKey(new MemoryAuthStore(), { name: "reporter" })
+
+    expect(record).toMatchObject({ userId: "reporter", scope: "read", expiresAt: undefined })
+  })
+
+  it("should reject tampered, revoked and expired keys", async () => {
+    const store = new MemoryAuthStore()
+    const { key, record } = await createApiKey(store, { name: "a" })
+    const expired = await createApiKey(store, { name: "b", expiresAt: Date.now() - 1000 })
+    const tampered = key.slice(0, -1) + (key.endsWith("A") ? "B" : "A")
+
+    expect(await verifyApiKey(store, tampered)).toBeUndefined()
+    expect(await verifyApiKey(store, expired.key)).toBeUndefined()
+    expect(await verifyApiKey(store, "kz_not-a-key")).toBeUndefined()
+
+    expect(await store.deleteApiKey(record.id)).toBe(true)
+    expect(await verifyApiKey(store, key)).toBeUndefined()
+  })
+
+  it("should describe keys without their digest", async () => {
+    const { record } = await createApiKey(new MemoryAuthStore(), { name: "a", expiresAt: Date.now() + DAY })
+
+    const info = describeApiKey(record)
+
+    expect(info).not.toHaveProperty("keyHash")
+    expect(info).toMatchObject({ id: record.id, name: "a", expired: false })
+    expect(describeApiKey(record, Date.now() + 2 * DAY).expired).toBe(true)
+  })
+})
+
+describe("parseExpiry", () => {
+  it("should accept durations and future dates", () => {
+    const now = Date.parse("2030-01-01T00:00:00Z")
+
+    expect(parseExpiry("90d", now)).toBe(now + 90 * DAY)
+    expect(parseExpiry("12h", now)).toBe(now + DAY / 2)
+    expect(parseExpiry("2030-02-01", now)).toBe(Date.parse("2030-02-01"))
+    expect(() => parseExpiry("2029-01-01", now)).toThrow("is in the past")
+    expect(() => parseExpiry("soon", now)).toThrow('Invalid expiry "soon"')
+  })
+})
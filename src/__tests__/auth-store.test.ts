@@ -0,0 +1,193 @@
+import { describe, it, expect, afterAll } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import {
+  JsonFileAuthStore,
+  KuzuAuthStore,
+  MemoryAuthStore,
+  REFRESH_TOKEN_TTL,
+  authenticateUser,
+  hashPassword,
+  openAuthStore,
+  verifyPassword,
+  type AuthStore,
+  type RefreshTokenRecord,
+} from "../auth-store"
+import type * as kuzu from "kuzu"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kuzu-auth-store-"))
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+function refreshToken(overrides: Partial<RefreshTokenRecord> = {}): RefreshTokenRecord {
+  return { createdAt: Date.now(), userId: "u", scope: "read", familyId: "family", ...overrides }
+}
+
+// Just enough of a connection for the four statements KuzuAuthStore runs
+function fakeKuzuConnection(): kuzu.Connection {
+  const tables = new Map<string, Map<string, string>>()
+  const table = (cypher: string): Map<string, string> => {
+    const name = /\(r:(\w+)/.exec(cypher)![1]!
+    if (!tables.has(name)) tables.set(name, new Map())
+    return tables.get(name)!
+  }
+  const execute = (statement: { cypher: string }, params: Record<string, string> = {}): unknown => {
+    const { cypher } = statement
+    const rows = table(cypher)
+    let result: Record<string, unknown>[] = []
+    if (cypher.startsWith("MERGE")) rows.set(params.key!, params.data!)
+    else if (cypher.includes("DELETE")) rows.delete(params.key!)
+    else if (cypher.includes("{key: $key}")) result = rows.has(params.key!) ? [{ data: rows.get(params.key!) }] : []
+    else result = [...rows.entries()].map(([key, data]) => ({ key, data }))
+    return Promise.resolve({ getAll: () => Promise.resolve(result), close: () => {} })
+  }
+  return {
+    prepare: (cypher: string) => Promise.resolve({ cypher, isSuccess: () => true, getErrorMessage: () => "" }),
+    execute,
+  } as unknown as kuzu.Connection
+}
+
+describe("passwords", () => {
+  it("should hash with a random salt and verify", async () => {
+    const hash = await hashPassword("s3cret")
+
+    expect(hash).toMatch(/^scrypt\$/)
+    expect(hash).not.toBe(await hashPassword("s3cret"))
+    expect(await verifyPassword("s3cret", hash)).toBe(true)
+    expect(await verifyPassword("wrong", hash)).toBe(false)
+    expect(await verifyPassword("s3cret", "plain-text")).toBe(false)
+  })
+
+  it("should authenticate store users", async () => {
+    const store = new MemoryAuthStore()
+    await store.saveUser({
+      username: "alice",
+      userId: "u-1",
+      scope: "read",
+      passwordHash: await hashPassword("pw"),
+    })
+
+    expect((await authenticateUser(store, "alice", "pw"))?.userId).toBe("u-1")
+    expect(await authenticateUser(store, "alice", "nope")).toBeUndefined()
+    expect(await authenticateUser(store, "bob", "pw")).toBeUndefined()
+  })
+})
+
+describe.each<[string, () => Promise<AuthStore>]>([
+  ["memory", () => Promise.resolve(new MemoryAuthStore())],
+  ["json", () => JsonFileAuthStore.open(path.join(dir, `store-${Date.now()}-${Math.random()}.json`))],
+  ["kuzu", () => Promise.resolve(new KuzuAuthStore(fakeKuzuConnection(), "fake"))],
+])("%s store", (_name, open) => {
+  it("should hand out authorization codes once", async () => {
+    const store = await open()
+    await store.saveAuthorizationCode("code-1", { createdAt: Date.now(), userId: "u", scope: "read" })
+
+    const [first, second] = await Promise.all([
+      store.takeAuthorizationCode("code-1"),
+      store.takeAuthorizationCode("code-1"),
+    ])
+    expect([first?.scope, second]).toEqual(["read", undefined])
+  })
+
+  it("should report a refresh token presented after rotation as reused", async () => {
+    const store = await open()
+    await store.saveRefreshToken("token-1", refreshToken())
+
+    const [first, second] = await Promise.all([store.useRefreshToken("token-1"), store.useRefreshToken("token-1")])
+    expect([first?.reused, second?.reused]).toEqual([false, true])
+    expect((await store.findRefreshToken("token-1"))?.rotatedAt).toBeDefined()
+    expect(await store.useRefreshToken("unknown")).toBeUndefined()
+  })
+
+  it("should revoke a token family and single access tokens", async () => {
+    const store = await open()
+    await store.saveRefreshToken("a1", refreshToken({ familyId: "a" }))
+    await store.saveRefreshToken("a2", refreshToken({ familyId: "a" }))
+    await store.saveRefreshToken("b1", refreshToken({ familyId: "b" }))
+
+    await store.revokeTokenFamily("a", Date.now() + 60000)
+    await store.revokeAccessToken("jti-1", Date.now() + 60000)
+
+    expect(await store.findRefreshToken("a2")).toBeUndefined()
+    expect(await store.findRefreshToken("b1")).toBeDefined()
+    expect(await store.isRevoked(undefined, "a")).toBe(true)
+    expect(await store.isRevoked("jti-1", "b")).toBe(true)
+    expect(await store.isRevoked("jti-2", "b")).toBe(false)
+  })
+
+  it("should drop expired refresh tokens and revocations", async () => {
+    const store = await open()
+    const old = Date.now() - REFRESH_TOKEN_TTL - 1000
+    await store.saveRefreshToken("stale", refreshToken({ createdAt: old }))
+    await store.saveRefreshToken("fresh", refreshToken())
+    await store.revokeAccessToken("expired", Date.now() - 1000)
+
+    expect(await store.findRefreshToken("stale")).toBeUndefined()
+    await store.purgeExpired(Date.now())
+    expect(await store.useRefreshToken("fresh")).toBeDefined()
+    expect(await store.isRevoked("expired", undefined)).toBe(false)
+  })
+
+  it("should save users and clients", async () => {
+    const store = await open()
+    await store.saveUser({ username: "a", userId: "a", scope: "admin", passwordHash: "x" })
+    await store.saveClient({
+      clientId: "client-1",
+      clientSecretHash: "y",
+      issuedAt: 1,
+      grantTypes: ["authorization_code"],
+      responseTypes: ["code"],
+      redirectUris: ["http://localhost/cb"],
+      tokenEndpointAuthMethod: "client_secret_post",
+    })
+
+    expect((await store.listUsers()).map((user) => user.username)).toEqual(["a"])
+    expect((await store.findClient("client-1"))?.redirectUris).toEqual(["http://localhost/cb"])
+    expect(await store.deleteUser("a")).toBe(true)
+    expect(await store.deleteUser("a")).toBe(false)
+  })
+
+  it("should save and delete API keys", async () => {
+    const store = await open()
+    await store.saveApiKey({ id: "k1", name: "ci", userId: "ci", scope: "read", keyHash: "z", createdAt: 1 })
+
+    expect((await store.findApiKey("k1"))?.name).toBe("ci")
+    expect((await store.listApiKeys()).map((key) => key.id)).toEqual(["k1"])
+    expect(await store.deleteApiKey("k1")).toBe(true)
+    expect(await store.findApiKey("k1")).toBeUndefined()
+  })
+})
+
+describe("JsonFileAuthStore", () => {
+  it("should keep records across reopening without storing raw tokens", async () => {
+    const file = path.join(dir, "persist.json")
+    const store = await JsonFileAuthStore.open(file)
+    await store.saveUser({ username: "alice", userId: "alice", scope: "read write", passwordHash: "h" })
+    await store.saveRefreshToken("raw-refresh-token", refreshToken({ userId: "alice" }))
+
+    const reopened = await JsonFileAuthStore.open(file)
+
+    expect((await reopened.findUser("alice"))?.scope).toBe("read write")
+    expect(fs.readFileSync(file, "utf-8")).not.toContain("raw-refresh-token")
+    expect((await reopened.findRefreshToken("raw-refresh-token"))?.userId).toBe("alice")
+  })
+
+  it("should refuse a corrupt file", async () => {
+    const file = path.join(dir, "corrupt.json")
+    fs.writeFileSync(file, "{")
+
+    await expect(JsonFileAuthStore.open(file)).rejects.toThrow(`Cannot read auth store ${file}`)
+  })
+})
+
+describe("openAuthStore", () => {
+  it("should pick the backend from the spec", async () => {
+    expect((await openAuthStore(undefined)).description).toBe("memory")
+    expect((await openAuthStore(`json:${path.join(dir, "spec.json")}`)).description).toContain("JSON file")
+    await expect(openAuthStore("json:")).rejects.toThrow("needs a path")
+    await expect(openAuthStore("redis:localhost")).rejects.toThrow('Unknown auth store "redis:localhost"')
+  })
+})
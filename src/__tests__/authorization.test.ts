@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import {
+  checkPermissions,
+  filterSchema,
+  parsePermissionsConfig,
+  permissionsFromScope,
+  resolvePermissions,
+  setPermissionsConfig,
+  PermissionDeniedError,
+  type UserPermissions,
+} from "../authorization"
+import { classifyQuery } from "../statement-policy"
+import {
+  executeQuery,
+  explainQuery,
+  invalidateSchemaCache,
+  lintQuery,
+  type DatabaseManager,
+  type Schema,
+} from "../server-core"
+import { CursorManager } from "../cursor-manager"
+import { TransactionManager } from "../transaction-manager"
+import { WriteGate } from "../lock-manager"
+import type * as kuzu from "kuzu"
+
+const reader = permissionsFromScope("reader", "read")
+const writer = permissionsFromScope("writer", "read write")
+// Writes movies, reads people, cannot see salaries
+const editor: UserPermissions = {
+  userId: "editor",
+  role: "writer",
+  defaultAccess: "read",
+  tables: { movie: "write", salary: "none" },
+}
+
+function denial(cypher: string, permissions: UserPermissions): string | null {
+  try {
+    checkPermissions(classifyQuery(cypher), permissions)
+    return null
+  } catch (error) {
+    if (error instanceof PermissionDeniedError) return error.message
+    throw error
+  }
+}
+
+describe("permissionsFromScope", () => {
+  it("should map scopes to roles and table grants", () => {
+    expect(permissionsFromScope("u", "read write")).toMatchObject({ role: "writer", defaultAccess: "write" })
+    expect(permissionsFromScope("u", "admin")).toMatchObject({ role: "admin" })
+    expect(permissionsFromScope("u", "")).toMatchObject({ role: "reader", defaultAccess: "read" })
+    expect(permissionsFromScope("u", "read table:Salary:none").tables).toEqual({ salary: "none" })
+  })
+})
+
+describe("permissions file", () => {
+  afterEach(() => {
+    setPermissionsConfig(null)
+  })
+
+  it("should prefer the user's entry, then the default entry, then the token scope", () => {
+    setPermissionsConfig(
+      parsePermissionsConfig(
+        JSON.stringify({
+          default: { tables: { Salary: "none" } },
+          users: { alice: { role: "admin" } },
+        }),
+      ),
+    )
+
+    expect(resolvePermissions({ userId: "alice", scope: "read" })?.role).toBe("admin")
+    expect(resolvePermissions({ userId: "bob", scope: "read write" })).toEqual({
+      userId: "bob",
+      role: "writer",
+      defaultAccess: "write",
+      tables: { salary: "none" },
+    })
+    expect(resolvePermissions(undefined)).toBeUndefined()
+  })
+
+  it("should reject unknown roles and access levels", () => {
+    expect(() => parsePermissionsConfig('{"users": {"a": {"role": "owner"}}}')).toThrow(
+      'Invalid role of user a "owner"',
+    )
+    expect(() => parsePermissionsConfig('{"default": {"tables": {"T": "full"}}}')).toThrow(
+      "Invalid access for table T of default",
+    )
+  })
+})
+
+describe("checkPermissions", () => {
+  it.each([
+    ["MATCH (p:Person) RETURN p.name", reader, null],
+    ["CREATE (:Person {name: 'a'})", reader, "Role reader cannot run write statements"],
+    ["CREATE (:Person {name: 'a'})", writer, null],
+    ["INSTALL json", writer, "Role writer cannot run extension statements"],
+    ["INSTALL json", permissionsFromScope("root", "admin"), null],
+    ["MATCH (m:Movie) SET m.title = 'x'", editor, null],
+    ["MATCH (p:Person) SET p.name = 'x'", editor, "No write access to table Person"],
+    ["MATCH (p:Person)-[:Paid]->(s:Salary) RETURN s", editor, "No access to table Salary"],
+    ["DROP TABLE Person", editor, "No write access to table Person"],
+    ["COPY Movie FROM 'movies.csv'", editor, null],
+    ["MATCH (n) RETURN n", editor, "Patterns without a label could reach tables you cannot access"],
+    ["MATCH (a:Person)--(b:Person) RETURN b", editor, "Patterns without a label could reach tables you cannot access"],
+    ["MATCH (n) RETURN n", writer, null],
+    ["MATCH (a:Person)-[:Likes]->(m:Movie) WITH m MATCH (m) DELETE m", editor, null],
+    ["MATCH (m:Movie) WITH m AS x SET x.title = 'y'", editor, "Cannot tell which table this statement writes"],
+  ])("should check %s", (cypher, permissions, message) => {
+    const result = denial(cypher, permissions)
+    if (message === null) expect(result).toBeNull()
+    else expect(result).toContain(message)
+  })
+})
+
+describe("filterSchema", () => {
+  it("should hide tables without access and relationships to them", () => {
+    const schema: Schema = {
+      nodeTables: [
+        { name: "Person", properties: [] },
+        { name: "Salary", properties: [] },
+      ],
+      relTables: [
+        { name: "Paid", properties: [], connectivity: [{ src: "Person", dst: "Salary" }] },
+        { name: "Knows", properties: [], connectivity: [{ src: "Person", dst: "Person" }] },
+      ],
+    } as unknown as Schema
+
+    const filtered = filterSchema(schema, editor)
+
+    expect(filtered.nodeTables.map((table) => table.name)).toEqual(["Person"])
+    expect(filtered.relTables.map((table) => table.name)).toEqual(["Knows"])
+    expect(filterSchema(schema, undefined)).toBe(schema)
+  })
+})
+
+describe("executeQuery with permissions", () => {
+  it("should reject denied queries as PERMISSION_DENIED without running them", async () => {
+    const query = vi.fn()
+    const dbManager: DatabaseManager = {
+      db: {} as kuzu.Database,
+      conn: { query } as unknown as kuzu.Connection,
+      lockManager: null,
+      writeGate: new WriteGate(),
+      cursorManager: new CursorManager(),
+      transactionManager: new TransactionManager(null),
+      currentDatabasePath: "/tmp/unused",
+      currentIsReadOnly: false,
+      activeQueries: 0,
+    }
+
+    const result = await executeQuery("MATCH (s:Salary) RETURN s", dbManager, { permissions: editor })
+
+    expect(result.isError).toBe(true)
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({
+      error: "PERMISSION_DENIED",
+      userId: "editor",
+      table: "Salary",
+      statement: "MATCH (s:Salary) RETURN s",
+    })
+    expect(query).not.toHaveBeenCalled()
+  })
+})
+
+describe("validateQuery and lintCypher with permissions", () => {
+  // Person and Salary node tables, each with an id and one other column
+  function tables(cypher: string): Record<string, unknown>[] {
+    if (cypher.startsWith("CALL show_tables()")) {
+      return [
+        { name: "Person", type: "NODE", comment: "" },
+        { name: "Salary", type: "NODE", comment: "" },
+      ]
+    }
+    const name = /TABLE_INFO\('(\w+)'\)/.exec(cypher)?.[1]
+    return [
+      { name: "id", type: "INT64", "primary key": true },
+      { name: name === "Salary" ? "amount" : "name", type: "STRING", "primary key": false },
+    ]
+  }
+
+  function createDbManager(): DatabaseManager {
+    const query = vi.fn((cypher: string) =>
+      Promise.resolve({
+        getAll: () => Promise.resolve(cypher.startsWith("EXPLAIN") ? [{ plan: `plan of ${cypher}` }] : tables(cypher)),
+        close: () => {},
+      }),
+    )
+    return {
+      db: {} as kuzu.Database,
+      conn: { query } as unknown as kuzu.Connection,
+      lockManager: null,
+      writeGate: new WriteGate(),
+      cursorManager: new CursorManager(),
+      transactionManager: new TransactionManager(null),
+      currentDatabasePath: "/tmp/unused",
+      currentIsReadOnly: false,
+      activeQueries: 0,
+    }
+  }
+
+  it("should reject hidden tables before EXPLAIN can plan them", async () => {
+    const dbManager = createDbManager()
+
+    const result = await explainQuery("MATCH (s:Salary) RETURN s.amount", dbManager, undefined, editor)
+
+    const validation = JSON.parse(result.content[0]!.text) as Record<string, unknown>
+    expect(validation).toMatchObject({
+      valid: false,
+      permissionDenied: { error: "PERMISSION_DENIED", table: "Salary" },
+      statements: [{ valid: false }],
+    })
+    expect(JSON.stringify(validation)).not.toContain("plan")
+    expect(dbManager.conn.query).not.toHaveBeenCalled()
+  })
+
+  it("should still plan queries the caller may run", async () => {
+    const dbManager = createDbManager()
+
+    const result = await explainQuery("MATCH (p:Person) RETURN p.name", dbManager, undefined, editor)
+
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({
+      valid: true,
+      statements: [{ valid: true, plan: "plan of EXPLAIN MATCH (p:Person) RETURN p.name" }],
+    })
+  })
+
+  it("should lint against the tables the caller may access", async () => {
+    invalidateSchemaCache()
+    const dbManager = createDbManager()
+
+    const hidden = await lintQuery("MATCH (s:Salary) RETURN s.salary", dbManager, editor)
+    const visible = await lintQuery("MATCH (s:Salary) RETURN s.salary", dbManager)
+    invalidateSchemaCache()
+
+    const text = hidden.content[0]!.text
+    expect(JSON.parse(text)).toMatchObject({ issues: [{ rule: "unknown-node-label" }] })
+    expect(text).toContain("Known node tables: Person")
+    expect(text).not.toContain("amount")
+    expect(visible.content[0]!.text).toContain("Known properties: id, amount")
+  })
+})
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, afterAll } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import {
+  BackupScheduler,
+  backupsToPrune,
+  listBackups,
+  loadBackupSchedule,
+  parseSchedule,
+  type BackupFileInfo,
+} from "../backup-scheduler"
+import { executeQuery, initializeDatabaseManager, type DatabaseManager } from "../server-core"
+import { WriteGate, type LockManager, type WriteLock } from "../lock-manager"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kuzu-scheduler-"))
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+function backupName(iso: string): string {
+  return `kuzu-backup-${iso.replace(/[:.]/g, "-")}.tar.gz`
+}
+
+function backupAt(iso: string): BackupFileInfo {
+  return { name: backupName(iso), time: new Date(iso) }
+}
+
+function manager(dbPath: string, lockManager: LockManager | null = null): DatabaseManager {
+  return {
+    currentDatabasePath: dbPath,
+    lockManager,
+    writeGate: new WriteGate(),
+    activeQueries: 0,
+  } as unknown as DatabaseManager
+}
+
+describe("parseSchedule", () => {
+  it("should parse intervals", () => {
+    const start = new Date(2025, 0, 31, 1, 30)
+
+    expect(parseSchedule("6h").next(start)).toEqual(new Date(2025, 0, 31, 7, 30))
+    expect(parseSchedule("30m").next(start)).toEqual(new Date(2025, 0, 31, 2, 0))
+    expect(parseSchedule("1d").description).toBe("every 1d")
+  })
+
+  it("should find the next matching minute of a cron expression", () => {
+    const nightly = parseSchedule("0 2 * * *")
+
+    expect(nightly.next(new Date(2025, 0, 31, 1, 30))).toEqual(new Date(2025, 0, 31, 2, 0))
+    expect(nightly.next(new Date(2025, 0, 31, 2, 0))).toEqual(new Date(2025, 1, 1, 2, 0))
+    // Friday evening to Monday morning
+    expect(parseSchedule("*/15 9-17 * * 1-5").next(new Date(2025, 0, 31, 17, 50))).toEqual(new Date(2025, 1, 3, 9, 0))
+    expect(parseSchedule("@weekly").next(new Date(2025, 0, 1, 12, 0))).toEqual(new Date(2025, 0, 5, 0, 0))
+  })
+
+  it("should run on either day field when both are restricted", () => {
+    const schedule = parseSchedule("0 0 13 * 5")
+
+    expect(schedule.next(new Date(2025, 0, 1))).toEqual(new Date(2025, 0, 3))
+    expect(schedule.next(new Date(2025, 0, 11))).toEqual(new Date(2025, 0, 13))
+  })
+
+  it("should reject malformed schedules", () => {
+    expect(() => parseSchedule("0 2 * *")).toThrow("expected 5 fields")
+    expect(() => parseSchedule("61 * * * *")).toThrow('Cron minute "61" is outside 0-59')
+    expect(() => parseSchedule("0 0 30 2 *")).toThrow("never matches")
+    expect(() => parseSchedule("0m")).toThrow("must be longer than zero")
+    expect(() => parseSchedule("weekly")).toThrow("expected 5 fields")
+  })
+})
+
+describe("loadBackupSchedule", () => {
+  it("should read the schedule, directory and retention from the environment", () => {
+    expect(loadBackupSchedule({})).toBeUndefined()
+    expect(
+      loadBackupSchedule({ KUZU_BACKUP_SCHEDULE: "1d", KUZU_BACKUP_DIR: "/backups", KUZU_BACKUP_KEEP_WEEKLY: "0" }),
+    ).toMatchObject({ outputDir: "/backups", retention: { keepDaily: 7, keepWeekly: 0 } })
+    expect(() => loadBackupSchedule({ KUZU_BACKUP_SCHEDULE: "1d" })).toThrow("needs KUZU_BACKUP_DIR")
+    expect(() =>
+      loadBackupSchedule({ KUZU_BACKUP_SCHEDULE: "1d", KUZU_BACKUP_DIR: "/backups", KUZU_BACKUP_KEEP_DAILY: "-1" }),
+    ).toThrow("KUZU_BACKUP_KEEP_DAILY must be a whole number")
+  })
+})
+
+describe("backupsToPrune", () => {
+  // Nightly backups from Wednesday 1 to Monday 20 January, and one more on the 20th
+  const backups = [
+    ...Array.from({ length: 20 }, (_, i) => backupAt(`2025-01-${String(i + 1).padStart(2, "0")}T02:00:00.000Z`)),
+    backupAt("2025-01-20T14:00:00.000Z"),
+  ]
+
+  it("should keep the newest backup of the recent days and weeks", () => {
+    const pruned = backupsToPrune(backups, { keepDaily: 3, keepWeekly: 3 })
+    const kept = backups.filter((backup) => !pruned.includes(backup)).map((backup) => backup.time.toISOString())
+
+    expect(kept).toEqual([
+      "2025-01-12T02:00:00.000Z",
+      "2025-01-18T02:00:00.000Z",
+      "2025-01-19T02:00:00.000Z",
+      "2025-01-20T14:00:00.000Z",
+    ])
+  })
+
+  it("should always keep the newest backup", () => {
+    const pruned = backupsToPrune(backups, { keepDaily: 0, keepWeekly: 0 })
+
+    expect(pruned).toHaveLength(20)
+    expect(pruned).not.toContain(backups[20])
+  })
+})
+
+describe("BackupScheduler", () => {
+  it("should back up under the write lock and prune old backups", async () => {
+    const dbPath = path.join(dir, "locked.kuzu")
+    const outputDir = path.join(dir, "locked-backups")
+    fs.writeFileSync(dbPath, "KUZU data")
+    fs.mkdirSync(outputDir)
+    fs.writeFileSync(path.join(outputDir, backupName("2020-01-01T02:00:00.000Z")), "old")
+    fs.writeFileSync(path.join(outputDir, "notes.txt"), "not a backup")
+    const lock = { agentId: "backup" } as WriteLock
+    const lockManager = {
+      acquireWriteLock: vi.fn().mockResolvedValue(lock),
+      releaseLock: vi.fn().mockResolvedValue(undefined),
+    }
+    const scheduler = new BackupScheduler(manager(dbPath, lockManager as unknown as LockManager), {
+      schedule: parseSchedule("1d"),
+      outputDir,
+      retention: { keepDaily: 1, keepWeekly: 0 },
+    })
+
+    const running = scheduler.runNow()
+    expect(scheduler.runNow()).toBe(running)
+    expect(scheduler.status().running).toBe(true)
+    const backupPath = await running
+
+    expect(lockManager.acquireWriteLock).toHaveBeenCalledOnce()
+    expect(lockManager.releaseLock).toHaveBeenCalledWith(lock)
+    expect(fs.readdirSync(outputDir).sort()).toEqual([path.basename(backupPath), "notes.txt"])
+    expect(scheduler.status()).toMatchObject({ running: false, lastBackupFile: backupPath, schedule: "every 1d" })
+    expect(scheduler.status().lastBackupAt).toBeDefined()
+  })
+
+  it("should hold writes until the snapshot has been copied", async () => {
+    const dbPath = path.join(dir, "gated.kuzu")
+    const outputDir = path.join(dir, "gated-backups")
+    fs.writeFileSync(dbPath, "KUZU data")
+    fs.mkdirSync(outputDir)
+    let grantLock = (): void => undefined
+    const lockManager = {
+      acquireWriteLock: vi.fn().mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            grantLock = (): void => {
+              resolve({ agentId: "backup" })
+            }
+          }),
+      ),
+      releaseLock: vi.fn().mockResolvedValue(undefined),
+    }
+    lockManager.acquireWriteLock.mockResolvedValue({ agentId: "writer" })
+    const dbManager = { ...initializeDatabaseManager(dbPath, false), lockManager } as unknown as DatabaseManager
+    const querySpy = vi.spyOn(dbManager.conn, "query")
+    const scheduler = new BackupScheduler(dbManager, {
+      schedule: parseSchedule("1d"),
+      outputDir,
+      retention: { keepDaily: 1, keepWeekly: 0 },
+    })
+
+    const backup = scheduler.runNow()
+    const write = executeQuery("CREATE (:Person {id: 1})", dbManager)
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(querySpy).not.toHaveBeenCalled()
+
+    grantLock()
+    await backup
+    await write
+    expect(querySpy).toHaveBeenCalledWith("CREATE (:Person {id: 1})")
+    expect(lockManager.acquireWriteLock).toHaveBeenCalledTimes(2)
+  })
+
+  it("should report failures in its status", async () => {
+    const scheduler = new BackupScheduler(manager(path.join(dir, "missing.kuzu")), {
+      schedule: parseSchedule("1d"),
+      outputDir: path.join(dir, "failed-backups"),
+      retention: { keepDaily: 1, keepWeekly: 0 },
+    })
+
+    await expect(scheduler.runNow()).rejects.toThrow()
+    expect(scheduler.status().lastError).toBeDefined()
+    expect(scheduler.status().lastBackupAt).toBeUndefined()
+  })
+
+  it("should pick up the newest existing backup and schedule the next one on start", async () => {
+    const outputDir = path.join(dir, "existing-backups")
+    fs.mkdirSync(outputDir)
+    for (const iso of ["2025-01-01T02:00:00.000Z", "2025-01-02T02:00:00.000Z"]) {
+      fs.writeFileSync(path.join(outputDir, backupName(iso)), "")
+    }
+    const scheduler = new BackupScheduler(manager(path.join(dir, "unused.kuzu")), {
+      schedule: parseSchedule("6h"),
+      outputDir,
+      retention: { keepDaily: 7, keepWeekly: 4 },
+    })
+
+    await scheduler.start()
+    const status = scheduler.status()
+    scheduler.stop()
+
+    expect((await listBackups(outputDir)).map((backup) => backup.name)).toEqual([
+      backupName("2025-01-01T02:00:00.000Z"),
+      backupName("2025-01-02T02:00:00.000Z"),
+    ])
+    expect(status.lastBackupAt).toBe("2025-01-02T02:00:00.000Z")
+    expect(new Date(status.nextBackupAt!).getTime()).toBeGreaterThan(Date.now() + 5 * 60 * 60 * 1000)
+    expect(scheduler.status().nextBackupAt).toBeUndefined()
+  })
+})
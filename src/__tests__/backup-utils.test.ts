@@ -0,0 +1,172 @@
+import { describe, it, expect, afterAll, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { Readable } from "stream"
+import { createHash } from "crypto"
+import { Connection, Database } from "kuzu"
+import {
+  BACKUP_FORMAT_VERSION,
+  MANIFEST_NAME,
+  createBackup,
+  createBackupArchive,
+  importDatabaseArchive,
+  restoreBackup,
+  restoreBackupArchive,
+  type BackupManifest,
+} from "../backup-utils"
+import { packEntries, readTarGz, streamToBuffer, type TarEntry } from "../tar-archive"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kuzu-backup-"))
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+function entry(name: string, data: Buffer): TarEntry {
+  return { name, size: data.length, open: () => Readable.from([data]) }
+}
+
+async function archiveEntries(archive: Buffer): Promise<Map<string, Buffer>> {
+  const entries = new Map<string, Buffer>()
+  await readTarGz(Readable.from([archive]), async (item) => {
+    entries.set(item.name, await streamToBuffer(item.contents))
+  })
+  return entries
+}
+
+// A backup archive with a hand-written manifest
+function craftedArchive(manifest: Partial<BackupManifest>, files: Record<string, string>): Readable {
+  const base: BackupManifest = {
+    formatVersion: BACKUP_FORMAT_VERSION,
+    kuzuVersion: "0.11.3",
+    storageVersion: 39,
+    layout: "file",
+    createdAt: new Date().toISOString(),
+    files: [],
+  }
+  return packEntries([
+    entry(MANIFEST_NAME, Buffer.from(JSON.stringify({ ...base, ...manifest }))),
+    ...Object.entries(files).map(([name, data]) => entry(name, Buffer.from(data))),
+  ])
+}
+
+describe("backup archives", () => {
+  it("should lead with a manifest describing a single-file database", async () => {
+    const dbPath = path.join(dir, "single.kuzu")
+    fs.writeFileSync(dbPath, "KUZU main")
+    fs.writeFileSync(`${dbPath}.wal`, "wal")
+
+    const entries = await archiveEntries(await streamToBuffer(await createBackupArchive(dbPath)))
+
+    expect([...entries.keys()]).toEqual([MANIFEST_NAME, "database", "database.wal"])
+    const manifest = JSON.parse(entries.get(MANIFEST_NAME)!.toString()) as BackupManifest
+    expect(manifest).toMatchObject({ formatVersion: BACKUP_FORMAT_VERSION, kuzuVersion: "0.11.3", layout: "file" })
+    expect(manifest.files[0]).toEqual({
+      path: "database",
+      size: 9,
+      sha256: createHash("sha256").update("KUZU main").digest("hex"),
+    })
+  })
+
+  it("should round-trip a directory database without the write lock", async () => {
+    const dbPath = path.join(dir, "directory")
+    fs.mkdirSync(path.join(dbPath, "nested"), { recursive: true })
+    fs.writeFileSync(path.join(dbPath, "catalog.kz"), "catalog")
+    fs.writeFileSync(path.join(dbPath, "nested", "data.kz"), Buffer.alloc(100_000, 3))
+    fs.writeFileSync(path.join(dbPath, ".mcp_write_lock"), "{}")
+    const target = path.join(dir, "directory-restored")
+
+    const manifest = await restoreBackupArchive(await createBackupArchive(dbPath), target)
+
+    expect(manifest.layout).toBe("directory")
+    expect(fs.readdirSync(target).sort()).toEqual(["catalog.kz", "nested"])
+    expect(fs.readFileSync(path.join(target, "nested", "data.kz"))).toEqual(Buffer.alloc(100_000, 3))
+  })
+
+  it("should refuse files whose checksum does not match and remove what was written", async () => {
+    const target = path.join(dir, "corrupt")
+    const archive = craftedArchive(
+      { files: [{ path: "database", size: 9, sha256: "0".repeat(64) }] },
+      { database: "KUZU main" },
+    )
+
+    await expect(restoreBackupArchive(archive, target)).rejects.toThrow("Checksum mismatch for database")
+    expect(fs.existsSync(target)).toBe(false)
+  })
+
+  it("should refuse archives from an incompatible Kuzu before writing anything", async () => {
+    const target = path.join(dir, "incompatible")
+    const archive = craftedArchive({ kuzuVersion: "0.9.0", storageVersion: 37 }, { database: "KUZU old" })
+
+    await expect(restoreBackupArchive(archive, target)).rejects.toThrow(
+      "Backup was made with Kuzu 0.9.0 (storage version 37), which Kuzu 0.11.3 (storage version 39) cannot open",
+    )
+    expect(fs.existsSync(target)).toBe(false)
+  })
+
+  it("should refuse newer formats, unlisted files and missing files", async () => {
+    await expect(
+      restoreBackupArchive(craftedArchive({ formatVersion: 99 }, {}), path.join(dir, "newer")),
+    ).rejects.toThrow("Backup format version 99 is newer than this server supports")
+    await expect(
+      restoreBackupArchive(craftedArchive({}, { "database/../../escape": "x" }), path.join(dir, "unlisted")),
+    ).rejects.toThrow("is not listed in the backup manifest")
+    await expect(
+      restoreBackupArchive(
+        craftedArchive({ files: [{ path: "database", size: 1, sha256: "0".repeat(64) }] }, {}),
+        path.join(dir, "missing"),
+      ),
+    ).rejects.toThrow("missing database")
+    await expect(
+      restoreBackupArchive(packEntries([entry("schema.cypher", Buffer.from(""))]), path.join(dir, "export")),
+    ).rejects.toThrow("Not a Kuzu backup archive")
+  })
+
+  it("should write backups to a directory and restore them from disk", async () => {
+    const dbPath = path.join(dir, "on-disk.kuzu")
+    fs.writeFileSync(dbPath, "KUZU on disk")
+    const target = path.join(dir, "on-disk-restored.kuzu")
+
+    const backupPath = await createBackup(dbPath, path.join(dir, "backups"))
+    await restoreBackup(backupPath, target)
+
+    expect(path.basename(backupPath)).toMatch(/^kuzu-backup-.*\.tar\.gz$/)
+    expect(fs.readFileSync(target, "utf-8")).toBe("KUZU on disk")
+  })
+
+  it("should still restore legacy .kuzu backups", async () => {
+    const header = Buffer.from(JSON.stringify({ mainFileSize: 11, hasWal: true, walFileSize: 3 }))
+    const length = Buffer.alloc(4)
+    length.writeUInt32BE(header.length, 0)
+    const legacyPath = path.join(dir, "legacy.kuzu")
+    fs.writeFileSync(legacyPath, Buffer.concat([length, header, Buffer.from("KUZU old dbwal")]))
+    const target = path.join(dir, "legacy-restored.kuzu")
+
+    expect(await restoreBackup(legacyPath, target)).toBeNull()
+    expect(fs.readFileSync(target, "utf-8")).toBe("KUZU old db")
+    expect(fs.readFileSync(`${target}.wal`, "utf-8")).toBe("wal")
+  })
+})
+
+describe("export archives", () => {
+  it("should close the import connection and remove the database when the import fails", async () => {
+    const closeConnection = vi.spyOn(Connection.prototype, "close")
+    const closeDatabase = vi.spyOn(Database.prototype, "close")
+    const target = path.join(dir, "imported")
+    // schema.cypher without copy.cypher
+    const archive = packEntries([
+      entry("export/schema.cypher", Buffer.from("CREATE NODE TABLE A(id INT64, PRIMARY KEY(id));")),
+    ])
+
+    try {
+      await expect(importDatabaseArchive(archive, target)).rejects.toThrow("copy.cypher")
+      expect(closeConnection).toHaveBeenCalledOnce()
+      expect(closeDatabase).toHaveBeenCalledOnce()
+      expect(fs.existsSync(target)).toBe(false)
+    } finally {
+      closeConnection.mockRestore()
+      closeDatabase.mockRestore()
+    }
+  })
+})
@@ -71,6 +71,73 @@ describe("CLI Functions", () => {
       })
     })
 
+    it("should parse policy option", () => {
+      expect(parseArgs(["./db", "--policy", "./policy.yaml"])).toEqual({
+        databasePath: "./db",
+        policy: "./policy.yaml",
+      })
+    })
+
+    it("should parse add-user command", () => {
+      expect(parseArgs(["--auth-store", "json:./auth.json", "--add-user", "alice", "--scope", "read"])).toEqual({
+        authStore: "json:./auth.json",
+        command: "add-user",
+        username: "alice",
+        scope: "read",
+      })
+    })
+
+    it("should parse api-key commands", () => {
+      expect(parseArgs(["--api-key", "create", "ci", "--scope", "read write", "--expires", "90d"])).toEqual({
+        command: "api-key",
+        apiKeyAction: "create",
+        apiKeyTarget: "ci",
+        scope: "read write",
+        expires: "90d",
+      })
+      expect(parseArgs(["--auth-store", "json:./auth.json", "--api-key", "list"])).toEqual({
+        authStore: "json:./auth.json",
+        command: "api-key",
+        apiKeyAction: "list",
+      })
+      expect(parseArgs(["--api-key", "revoke", "0123abcd"])).toMatchObject({ apiKeyTarget: "0123abcd" })
+    })
+
+    it("should parse jwt key directory option", () => {
+      expect(parseArgs(["./db", "--transport", "http", "--jwt-key-dir", "./keys"])).toEqual({
+        databasePath: "./db",
+        transport: "http",
+        jwtKeyDir: "./keys",
+      })
+    })
+
+    it("should parse permissions option", () => {
+      expect(parseArgs(["./db", "--transport", "http", "--permissions", "./users.json"])).toEqual({
+        databasePath: "./db",
+        transport: "http",
+        permissions: "./users.json",
+      })
+    })
+
+    it("should parse backup and restore commands", () => {
+      expect(parseArgs(["--backup", "./db", "--backup-dir", "./backups"])).toEqual({
+        command: "backup",
+        databasePath: "./db",
+        backupDir: "./backups",
+      })
+      expect(parseArgs(["--restore", "./backups/kuzu-backup.tar.gz", "./db", "--force"])).toEqual({
+        command: "restore",
+        backupFile: "./backups/kuzu-backup.tar.gz",
+        databasePath: "./db",
+        force: true,
+      })
+      expect(parseArgs(["./db", "--backup-schedule", "0 2 * * *", "--backup-dir", "./backups"])).toEqual({
+        databasePath: "./db",
+        backupSchedule: "0 2 * * *",
+        backupDir: "./backups",
+      })
+    })
+
     it("should parse database path as default argument", () => {
       expect(parseArgs(["./mydb"])).toEqual({
         databasePath: "./mydb",
@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { CursorManager, CursorNotFoundError } from "../cursor-manager"
+import { executeBatchQuery } from "../query-helpers"
+import { executeQuery, fetchMoreResults, initializeDatabaseManager, type DatabaseManager } from "../server-core"
+import { TransactionManager } from "../transaction-manager"
+import { WriteGate } from "../lock-manager"
+import type * as kuzu from "kuzu"
+
+// Build a fake QueryResult that yields the given rows through hasNext/getNext
+function createStreamingResult(rows: Record<string, unknown>[]) {
+  let index = 0
+  return {
+    hasNext: vi.fn(() => index < rows.length),
+    getNext: vi.fn(() => Promise.resolve(index < rows.length ? rows[index++]! : null)),
+    getAll: vi.fn(() => Promise.resolve(rows.slice(index))),
+    getNumTuples: vi.fn(() => rows.length),
+    getColumnNames: vi.fn(() => Promise.resolve(Object.keys(rows[0] ?? {}))),
+    getColumnDataTypes: vi.fn(() => Promise.resolve(Object.keys(rows[0] ?? {}).map(() => "ANY"))),
+    close: vi.fn(),
+  }
+}
+
+const makeRows = (count: number) => Array.from({ length: count }, (_, i) => ({ id: i + 1 }))
+
+describe("CursorManager", () => {
+  let cursors: CursorManager
+
+  beforeEach(() => {
+    cursors = new CursorManager(1000, 100)
+  })
+
+  afterEach(() => {
+    cursors.closeAll()
+    vi.useRealTimers()
+  })
+
+  it("should return all rows without a cursor when they fit in one page", async () => {
+    const result = createStreamingResult(makeRows(3))
+
+    const page = await cursors.openCursor(result as unknown as kuzu.QueryResult, "MATCH (n) RETURN n", 10)
+
+    expect(page.rows).toHaveLength(3)
+    expect(page.hasMore).toBe(false)
+    expect(page.cursor).toBeUndefined()
+    expect(result.close).toHaveBeenCalledOnce()
+    expect(cursors.size).toBe(0)
+  })
+
+  it("should keep the result open behind a cursor when more rows remain", async () => {
+    const result = createStreamingResult(makeRows(5))
+
+    const page = await cursors.openCursor(result as unknown as kuzu.QueryResult, "MATCH (n) RETURN n", 2)
+
+    expect(page.rows).toEqual([{ id: 1 }, { id: 2 }])
+    expect(page.hasMore).toBe(true)
+    expect(page.cursor).toBeDefined()
+    expect(result.close).not.toHaveBeenCalled()
+    expect(result.getAll).not.toHaveBeenCalled()
+    expect(cursors.size).toBe(1)
+  })
+
+  it("should page through the remaining rows and close the cursor when exhausted", async () => {
+    const result = createStreamingResult(makeRows(5))
+    const first = await cursors.openCursor(result as unknown as kuzu.QueryResult, "MATCH (n) RETURN n", 2)
+
+    const second = await cursors.fetchMore(first.cursor!, 2)
+    expect(second.rows).toEqual([{ id: 3 }, { id: 4 }])
+    expect(second.cursor).toBe(first.cursor)
+    expect(second.hasMore).toBe(true)
+
+    const third = await cursors.fetchMore(first.cursor!, 2)
+    expect(third.rows).toEqual([{ id: 5 }])
+    expect(third.hasMore).toBe(false)
+    expect(third.cursor).toBeUndefined()
+    expect(result.close).toHaveBeenCalledOnce()
+    expect(cursors.size).toBe(0)
+  })
+
+  it("should throw CursorNotFoundError for unknown cursors", async () => {
+    await expect(cursors.fetchMore("does-not-exist")).rejects.toThrow(CursorNotFoundError)
+  })
+
+  it("should close the cursor if reading a page fails", async () => {
+    const result = createStreamingResult(makeRows(5))
+    const first = await cursors.openCursor(result as unknown as kuzu.QueryResult, "MATCH (n) RETURN n", 2)
+    result.getNext.mockRejectedValueOnce(new Error("Connection lost"))
+
+    await expect(cursors.fetchMore(first.cursor!, 2)).rejects.toThrow("Connection lost")
+    expect(result.close).toHaveBeenCalledOnce()
+    expect(cursors.size).toBe(0)
+  })
+
+  it("should close cursors that have been idle past the timeout", async () => {
+    vi.useFakeTimers()
+    const result = createStreamingResult(makeRows(5))
+    await cursors.openCursor(result as unknown as kuzu.QueryResult, "MATCH (n) RETURN n", 2)
+
+    vi.advanceTimersByTime(500)
+    expect(cursors.cleanupExpired()).toBe(0)
+
+    vi.advanceTimersByTime(1000)
+    expect(cursors.size).toBe(0)
+    expect(result.close).toHaveBeenCalledOnce()
+  })
+
+  it("should refuse cursors that expired before the cleanup ran", async () => {
+    vi.useFakeTimers()
+    const result = createStreamingResult(makeRows(5))
+    const first = await cursors.openCursor(result as unknown as kuzu.QueryResult, "MATCH (n) RETURN n", 2)
+    vi.spyOn(cursors, "cleanupExpired").mockReturnValue(0)
+
+    vi.advanceTimersByTime(1500)
+
+    await expect(cursors.fetchMore(first.cursor!, 2)).rejects.toThrow(CursorNotFoundError)
+    expect(result.close).toHaveBeenCalledOnce()
+  })
+
+  it("should stop at maxRows and report the total row count", async () => {
+    const result = createStreamingResult(makeRows(10))
+
+    const first = await cursors.openCursor(result as unknown as kuzu.QueryResult, "MATCH (n) RETURN n", 3, 5)
+    expect(first.rows).toHaveLength(3)
+    expect(first.hasMore).toBe(true)
+
+    const second = await cursors.fetchMore(first.cursor!, 3)
+    expect(second.rows).toEqual([{ id: 4 }, { id: 5 }])
+    expect(second).toMatchObject({ hasMore: false, truncated: true, totalRows: 10 })
+    expect(second.cursor).toBeUndefined()
+    expect(result.close).toHaveBeenCalledOnce()
+  })
+
+  it("should not report truncation when the result has exactly maxRows rows", async () => {
+    const result = createStreamingResult(makeRows(5))
+
+    const page = await cursors.openCursor(result as unknown as kuzu.QueryResult, "MATCH (n) RETURN n", 10, 5)
+
+    expect(page.rows).toHaveLength(5)
+    expect(page.truncated).toBeUndefined()
+  })
+
+  it("should return requeued rows before reading further", async () => {
+    const result = createStreamingResult(makeRows(5))
+    const first = await cursors.openCursor(result as unknown as kuzu.QueryResult, "MATCH (n) RETURN n", 3)
+
+    cursors.requeue(first.cursor, first.rows.slice(1), "MATCH (n) RETURN n")
+    const second = await cursors.fetchMore(first.cursor!, 3)
+
+    expect(second.rows).toEqual([{ id: 2 }, { id: 3 }, { id: 4 }])
+  })
+
+  it("should open a buffered cursor when requeueing without one", async () => {
+    const cursorId = cursors.requeue(undefined, makeRows(3), "MATCH (n) RETURN n")
+
+    const page = await cursors.fetchMore(cursorId, 2)
+    expect(page.rows).toEqual([{ id: 1 }, { id: 2 }])
+    expect(page.cursor).toBe(cursorId)
+
+    const last = await cursors.fetchMore(cursorId, 2)
+    expect(last).toEqual({ rows: [{ id: 3 }], hasMore: false })
+    expect(cursors.size).toBe(0)
+  })
+
+  it("should close every cursor on closeAll", async () => {
+    const first = createStreamingResult(makeRows(5))
+    const second = createStreamingResult(makeRows(5))
+    await cursors.openCursor(first as unknown as kuzu.QueryResult, "q1", 1)
+    await cursors.openCursor(second as unknown as kuzu.QueryResult, "q2", 1)
+
+    cursors.closeAll()
+
+    expect(cursors.size).toBe(0)
+    expect(first.close).toHaveBeenCalledOnce()
+    expect(second.close).toHaveBeenCalledOnce()
+  })
+})
+
+describe("executeBatchQuery with pagination", () => {
+  it("should return a page with a cursor for large single-statement results", async () => {
+    const cursors = new CursorManager()
+    const result = createStreamingResult(makeRows(3))
+    const connection = {
+      query: vi.fn().mockResolvedValue(result),
+    } as unknown as kuzu.Connection
+
+    const page = await executeBatchQuery(connection, "MATCH (n) RETURN n", { cursors, pageSize: 2 })
+
+    expect(page).toMatchObject({ rows: [{ id: 1 }, { id: 2 }], hasMore: true })
+    cursors.closeAll()
+  })
+
+  it("should return plain rows when the result fits in one page", async () => {
+    const cursors = new CursorManager()
+    const result = createStreamingResult(makeRows(2))
+    const connection = {
+      query: vi.fn().mockResolvedValue(result),
+    } as unknown as kuzu.Connection
+
+    const rows = await executeBatchQuery(connection, "MATCH (n) RETURN n", { cursors, pageSize: 2 })
+
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }])
+  })
+})
+
+describe("executeBatchQuery with maxRows", () => {
+  it("should truncate multi-statement results", async () => {
+    const first = { getAll: vi.fn().mockResolvedValue(makeRows(3)), close: vi.fn() }
+    const second = { getAll: vi.fn().mockResolvedValue(makeRows(3)), close: vi.fn() }
+    const connection = {
+      query: vi.fn().mockResolvedValue([first, second]),
+    } as unknown as kuzu.Connection
+
+    const page = await executeBatchQuery(connection, "MATCH (a) RETURN a; MATCH (b) RETURN b", { maxRows: 4 })
+
+    expect(page).toMatchObject({ hasMore: false, truncated: true, totalRows: 6 })
+    expect((page as { rows: unknown[] }).rows).toHaveLength(4)
+  })
+})
+
+describe("executeQuery response size budget", () => {
+  afterEach(() => {
+    delete process.env.KUZU_MAX_RESPONSE_BYTES
+  })
+
+  function createDbManager(rows: Record<string, unknown>[]): DatabaseManager {
+    return {
+      db: {} as kuzu.Database,
+      conn: { query: vi.fn().mockResolvedValue(createStreamingResult(rows)) } as unknown as kuzu.Connection,
+      lockManager: null,
+      writeGate: new WriteGate(),
+      cursorManager: new CursorManager(),
+      transactionManager: new TransactionManager(null),
+      currentDatabasePath: "/tmp/unused",
+      currentIsReadOnly: false,
+      activeQueries: 0,
+    }
+  }
+
+  it("should move rows that do not fit into a cursor", async () => {
+    process.env.KUZU_MAX_RESPONSE_BYTES = "2000"
+    const rows = Array.from({ length: 20 }, (_, i) => ({ id: i + 1, text: "x".repeat(100) }))
+    const dbManager = createDbManager(rows)
+
+    const result = await executeQuery("MATCH (n) RETURN n", dbManager)
+    expect(result.isError).toBe(false)
+    expect(Buffer.byteLength(result.content[0]!.text)).toBeLessThanOrEqual(2000)
+    const page = JSON.parse(result.content[0]!.text) as { rows: { id: number }[]; cursor: string; hasMore: boolean }
+    expect(page.hasMore).toBe(true)
+    expect(page.rows.length).toBeGreaterThan(0)
+
+    // Every row is still reachable through fetchMore
+    const seen = page.rows.map((row) => row.id)
+    let cursor: string | undefined = page.cursor
+    while (cursor) {
+      const next = await fetchMoreResults(cursor, dbManager)
+      expect(Buffer.byteLength(next.content[0]!.text)).toBeLessThanOrEqual(2000)
+      const nextPage = JSON.parse(next.content[0]!.text) as { rows: { id: number }[]; cursor?: string }
+      seen.push(...nextPage.rows.map((row) => row.id))
+      cursor = nextPage.cursor
+    }
+    expect(seen).toEqual(rows.map((row) => row.id))
+  })
+
+  it("should report CURSOR_NOT_FOUND for missing and unknown cursors", async () => {
+    const dbManager = createDbManager([])
+
+    for (const cursor of ["", "does-not-exist"]) {
+      const result = await fetchMoreResults(cursor, dbManager)
+      expect(result.isError).toBe(true)
+      expect(JSON.parse(result.content[0]!.text)).toMatchObject({ error: "CURSOR_NOT_FOUND", type: "cursor_error" })
+    }
+  })
+
+  it("should report RESPONSE_TOO_LARGE when a single row exceeds the budget", async () => {
+    process.env.KUZU_MAX_RESPONSE_BYTES = "100"
+    const dbManager = createDbManager([{ text: "x".repeat(200) }])
+
+    const result = await executeQuery("MATCH (n) RETURN n", dbManager)
+
+    expect(result.isError).toBe(true)
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({ error: "RESPONSE_TOO_LARGE" })
+    expect(dbManager.cursorManager.size).toBe(0)
+  })
+})
+
+describe("idle timeout settings", () => {
+  afterEach(() => {
+    delete process.env.KUZU_CURSOR_TIMEOUT
+    delete process.env.KUZU_TRANSACTION_TIMEOUT
+  })
+
+  it.each([
+    ["KUZU_CURSOR_TIMEOUT", "5m"],
+    ["KUZU_CURSOR_TIMEOUT", "0"],
+    ["KUZU_TRANSACTION_TIMEOUT", "-1"],
+  ])("should refuse to start with %s=%s", (name, value) => {
+    process.env[name] = value
+
+    expect(() => initializeDatabaseManager("/nonexistent/never-opened", false)).toThrow(
+      `${name} must be a positive number of milliseconds, got "${value}"`,
+    )
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest"
+import { tokenize, splitStatements, maskLiterals, isDDLStatement } from "../cypher-lexer"
+import { detectMutation } from "../lock-manager"
+import { detectCompositePrimaryKey } from "../query-helpers"
+import { extractMergeStatements } from "../merge-validation"
+import { isDDLQuery } from "../server-core"
+
+describe("tokenize", () => {
+  it("should split a query into typed tokens", () => {
+    const tokens = tokenize("MATCH (n:`My Label`) WHERE n.x = $p AND n.s = 'a\\'b' RETURN 1.5 // done")
+
+    expect(tokens.filter((token) => token.type !== "symbol").map((token) => [token.type, token.text])).toEqual([
+      ["word", "MATCH"],
+      ["word", "n"],
+      ["quoted-name", "`My Label`"],
+      ["word", "WHERE"],
+      ["word", "n"],
+      ["word", "x"],
+      ["parameter", "$p"],
+      ["word", "AND"],
+      ["word", "n"],
+      ["word", "s"],
+      ["string", "'a\\'b'"],
+      ["word", "RETURN"],
+      ["number", "1.5"],
+      ["comment", "// done"],
+    ])
+  })
+
+  it("should keep offsets into the original query", () => {
+    const cypher = "RETURN /* a; b */ 'x'"
+
+    for (const token of tokenize(cypher)) {
+      expect(cypher.slice(token.start, token.end)).toBe(token.text)
+    }
+  })
+
+  it("should run unterminated literals to the end of the query", () => {
+    expect(tokenize("RETURN 'abc; DROP TABLE x").at(-1)).toMatchObject({ type: "string", text: "'abc; DROP TABLE x" })
+  })
+})
+
+// Queries that tripped the old regexes
+const corpus: Array<{ cypher: string; statements: number; write: boolean }> = [
+  { cypher: "MATCH (n) WHERE n.name = 'a;b' RETURN n", statements: 1, write: false },
+  { cypher: 'RETURN "it\\"s; fine"', statements: 1, write: false },
+  { cypher: "MATCH (n) RETURN n // ; CREATE (m)", statements: 1, write: false },
+  { cypher: "MATCH (n) /* SET n.x = 1; */ RETURN n", statements: 1, write: false },
+  { cypher: "MATCH (n:`semi;colon`) RETURN n", statements: 1, write: false },
+  { cypher: "MATCH (n) WHERE n.note = 'CREATE something' RETURN n", statements: 1, write: false },
+  { cypher: "MATCH (n) RETURN n.set, n.delete", statements: 1, write: false },
+  { cypher: "MATCH (n:Set)-[:Merge]->(m) RETURN {create: 1}", statements: 1, write: false },
+  { cypher: "CREATE (:A {s: ';'}); MATCH (a:A) RETURN a;", statements: 2, write: true },
+  { cypher: "MATCH (a:A) CREATE (a)-[:R]->(:B)", statements: 1, write: true },
+  { cypher: "MATCH (n)\nDETACH DELETE n", statements: 1, write: true },
+  { cypher: ";;  ; // only a comment", statements: 0, write: false },
+]
+
+describe("splitStatements and detectMutation", () => {
+  it.each(corpus)("should handle $cypher", ({ cypher, statements, write }) => {
+    expect(splitStatements(cypher)).toHaveLength(statements)
+    expect(detectMutation(cypher)).toBe(write)
+  })
+
+  it("should return each statement trimmed, with literals intact", () => {
+    expect(splitStatements("CREATE (:A {s: 'x;y'});\n MATCH (a) RETURN a ;")).toEqual([
+      "CREATE (:A {s: 'x;y'})",
+      "MATCH (a) RETURN a",
+    ])
+  })
+})
+
+describe("maskLiterals", () => {
+  it("should blank strings and comments but keep backquoted names and offsets", () => {
+    const cypher = "MATCH (n:`A B`) WHERE n.s = 'REMOVE' // FOREACH\nRETURN n"
+    const masked = maskLiterals(cypher)
+
+    expect(masked).toHaveLength(cypher.length)
+    expect(masked).toBe("MATCH (n: A B ) WHERE n.s =                    \nRETURN n")
+  })
+})
+
+describe("DDL and primary key detection", () => {
+  it("should recognise DDL statements anywhere in the query", () => {
+    expect(isDDLStatement("/* schema */ CREATE NODE TABLE A(id INT64, PRIMARY KEY(id))")).toBe(true)
+    expect(isDDLStatement("CREATE (:Table {name: 'x'})")).toBe(false)
+    expect(isDDLQuery("MATCH (n) RETURN n; DROP TABLE A")).toBe(true)
+    expect(isDDLQuery("RETURN 'CREATE NODE TABLE A'")).toBe(false)
+  })
+
+  it("should ignore composite keys inside strings", () => {
+    expect(detectCompositePrimaryKey("CREATE NODE TABLE A(a INT64, b INT64, PRIMARY KEY (a, b))")).toBe(true)
+    expect(detectCompositePrimaryKey("RETURN 'PRIMARY KEY(a, b)'")).toBe(false)
+  })
+
+  it("should not read MERGE patterns inside strings", () => {
+    expect(extractMergeStatements("RETURN 'MERGE (n:Person {id: 1})'")).toEqual([])
+    expect(extractMergeStatements("MERGE (n:Person {name: 'a}b', age: 3})")).toEqual([
+      { label: "Person", properties: ["name", "age"] },
+    ])
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from "vitest"
+import { lintCypher } from "../cypher-linter"
+import { executeQuery, invalidateSchemaCache, type DatabaseManager, type Schema } from "../server-core"
+import { CursorManager } from "../cursor-manager"
+import { TransactionManager } from "../transaction-manager"
+import { WriteGate } from "../lock-manager"
+import type * as kuzu from "kuzu"
+
+const schema: Schema = {
+  nodeTables: [
+    {
+      name: "Person",
+      comment: "",
+      properties: [
+        { name: "name", type: "STRING", isPrimaryKey: true },
+        { name: "age", type: "INT64", isPrimaryKey: false },
+      ],
+    },
+    { name: "Movie", comment: "", properties: [{ name: "title", type: "STRING", isPrimaryKey: true }] },
+  ],
+  relTables: [
+    {
+      name: "ActedIn",
+      comment: "",
+      properties: [{ name: "role", type: "STRING" }],
+      connectivity: [{ src: "Person", dst: "Movie" }],
+    },
+  ],
+}
+
+const rules = (cypher: string, withSchema?: Schema): string[] =>
+  lintCypher(cypher, withSchema).issues.map((issue) => issue.rule)
+
+describe("lintCypher", () => {
+  it("should accept queries that follow the Kuzu dialect and schema", () => {
+    const result = lintCypher("MATCH (p:Person)-[r:ActedIn]->(m:Movie) WHERE p.age > 30 RETURN p.name, r.role", schema)
+
+    expect(result).toEqual({ valid: true, issues: [] })
+  })
+
+  it.each([
+    ["MATCH (p:Person) FOREACH (x IN [1] | SET p.age = x)", "no-foreach"],
+    ["MATCH (p:Person) REMOVE p.age", "no-remove"],
+    ["MATCH (p:Person WHERE p.age > 3) RETURN p", "no-where-in-pattern"],
+    ["MATCH (a:Person)-->(b:Person) RETURN a", "no-bare-relationship"],
+    ["MATCH (a)--(b) RETURN a", "no-bare-relationship"],
+    ["LOAD CSV FROM 'people.csv' RETURN *", "no-load-csv"],
+    ["MATCH (n) WHERE n:Person RETURN n", "no-label-filter"],
+    ["MATCH (p:Person) SET p += {age: 3}", "no-map-update"],
+    ["USE movies MATCH (n) RETURN n", "no-use-graph"],
+    ["SHOW FUNCTIONS", "no-show-clause"],
+    ["MATCH (p:Person) CALL { RETURN 1 AS x } RETURN p", "no-call-subquery"],
+    ["MATCH (p:Person) SET p.age = 1 FINISH", "no-finish"],
+  ])("should flag %s", (cypher, rule) => {
+    const result = lintCypher(cypher)
+
+    expect(result.valid).toBe(false)
+    expect(result.issues.map((issue) => issue.rule)).toContain(rule)
+    expect(result.issues[0]!.suggestion).toBeDefined()
+  })
+
+  it("should warn about variable-length relationships without an upper bound", () => {
+    const result = lintCypher("MATCH (a:Person)-[:ActedIn*]->(b:Movie) RETURN b")
+
+    expect(result.valid).toBe(true)
+    expect(result.issues).toEqual([expect.objectContaining({ rule: "unbounded-variable-length", severity: "warning" })])
+    expect(rules("MATCH (a:Person)-[:ActedIn*1..3]->(b:Movie) RETURN b")).toEqual([])
+  })
+
+  it("should report line and column of each issue", () => {
+    const result = lintCypher("MATCH (p:Person)\nREMOVE p.age")
+
+    expect(result.issues[0]).toMatchObject({ rule: "no-remove", line: 2, column: 1 })
+  })
+
+  it("should ignore keywords inside strings and comments", () => {
+    expect(rules("MATCH (p:Person) WHERE p.name = 'REMOVE -->' RETURN p // FOREACH")).toEqual([])
+  })
+
+  it("should check labels, relationship types and properties against the schema", () => {
+    const result = lintCypher(
+      "MATCH (p:Persn)-[:Directed]->(m:Movie {year: 2010}) WHERE m.titel = 'x' RETURN m",
+      schema,
+    )
+
+    expect(result.issues.map((issue) => issue.rule)).toEqual([
+      "unknown-node-label",
+      "unknown-rel-type",
+      "unknown-property",
+      "unknown-property",
+    ])
+    expect(result.issues[0]).toMatchObject({ line: 1, column: 10 })
+    expect(result.issues[0]!.message).toContain("Known node tables: Person, Movie")
+  })
+
+  it("should accept tables created by the same query", () => {
+    expect(
+      rules("CREATE NODE TABLE City(name STRING, PRIMARY KEY(name)); CREATE (:City {name: 'Oslo'})", schema),
+    ).toEqual([])
+  })
+})
+
+describe("executeQuery lint gate", () => {
+  function createDbManager(): DatabaseManager {
+    return {
+      db: {} as kuzu.Database,
+      conn: { query: vi.fn().mockRejectedValue(new Error("no schema")) } as unknown as kuzu.Connection,
+      lockManager: null,
+      writeGate: new WriteGate(),
+      cursorManager: new CursorManager(),
+      transactionManager: new TransactionManager(null),
+      currentDatabasePath: "/tmp/unused",
+      currentIsReadOnly: false,
+      activeQueries: 0,
+    }
+  }
+
+  it("should reject queries with lint errors before running them", async () => {
+    invalidateSchemaCache()
+    const dbManager = createDbManager()
+
+    const result = await executeQuery("MATCH (p:Person) REMOVE p.age", dbManager, { lint: true })
+
+    expect(result.isError).toBe(true)
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({
+      error: "LINT_ERROR",
+      issues: [{ rule: "no-remove", line: 1, column: 18 }],
+    })
+    // Only the schema lookup ran, never the query itself
+    expect(dbManager.conn.query).not.toHaveBeenCalledWith("MATCH (p:Person) REMOVE p.age")
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from "vitest"
+import { translateCypher } from "../cypher-translator"
+import { lintCypher } from "../cypher-linter"
+import { executeQuery, type DatabaseManager } from "../server-core"
+import { CursorManager } from "../cursor-manager"
+import { TransactionManager } from "../transaction-manager"
+import { WriteGate } from "../lock-manager"
+import type * as kuzu from "kuzu"
+
+describe("translateCypher", () => {
+  it.each([
+    ["MATCH (p:Person) REMOVE p.age, p.city", "MATCH (p:Person) SET p.age = NULL, p.city = NULL", "no-remove"],
+    [
+      "MATCH (p:Person) SET p += {age: 3, name: 'a, b'}",
+      "MATCH (p:Person) SET p.age = 3, p.name = 'a, b'",
+      "no-map-update",
+    ],
+    [
+      "LOAD CSV WITH HEADERS FROM 'people.csv' AS row CREATE (:Person {name: row.name})",
+      "LOAD FROM 'people.csv' (header = true) CREATE (:Person {name: name})",
+      "no-load-csv",
+    ],
+    ["SHOW FUNCTIONS", "CALL show_functions() RETURN *", "no-show-clause"],
+    ["MATCH (n) WHERE n:Person RETURN n", "MATCH (n) WHERE label(n) = 'Person' RETURN n", "no-label-filter"],
+    [
+      "MATCH (n) WHERE n:Person|Movie RETURN n",
+      "MATCH (n) WHERE label(n) IN ['Person', 'Movie'] RETURN n",
+      "no-label-filter",
+    ],
+    ["MATCH (a)-->(b)<--(c) RETURN a", "MATCH (a)-[]->(b)<-[]-(c) RETURN a", "no-bare-relationship"],
+    [
+      "MATCH (p:Person) FOREACH (x IN [1, 2] | CREATE (:Tag {n: x}))",
+      "MATCH (p:Person) UNWIND [1, 2] AS x CREATE (:Tag {n: x})",
+      "no-foreach",
+    ],
+    ["MATCH (p:Person) SET p.age = 1 FINISH", "MATCH (p:Person) SET p.age = 1 RETURN COUNT(*)", "no-finish"],
+  ])("should translate %s", (cypher, expected, rule) => {
+    const result = translateCypher(cypher)
+
+    expect(result.cypher).toBe(expected)
+    expect(result.rewrites.map((rewrite) => rewrite.rule)).toContain(rule)
+    expect(lintCypher(result.cypher).valid).toBe(true)
+  })
+
+  it("should leave Kuzu queries, strings and comments untouched", () => {
+    const cypher = "MATCH (p:Person) WHERE p.name = 'REMOVE x.y' RETURN p // SHOW FUNCTIONS"
+
+    expect(translateCypher(cypher)).toEqual({ cypher, rewrites: [], warnings: [] })
+  })
+
+  it("should report what each rewrite replaced", () => {
+    const result = translateCypher("MATCH (p:Person) REMOVE p.age")
+
+    expect(result.rewrites).toEqual([{ rule: "no-remove", original: "REMOVE p.age", replacement: "SET p.age = NULL" }])
+  })
+
+  it("should warn instead of rewriting constructs without a safe equivalent", () => {
+    const cypher = "MATCH (p:Person) FOREACH (x IN [1] | SET p.age = x) RETURN p"
+    const result = translateCypher(cypher)
+
+    expect(result.cypher).toBe(cypher)
+    expect(result.warnings).toHaveLength(1)
+    expect(translateCypher("MATCH (p) REMOVE p:Person").warnings).toHaveLength(1)
+  })
+})
+
+describe("executeQuery translate mode", () => {
+  it("should run the translated query and report the rewrites", async () => {
+    const query = vi.fn().mockRejectedValue(new Error("stop"))
+    const dbManager: DatabaseManager = {
+      db: {} as kuzu.Database,
+      conn: { query } as unknown as kuzu.Connection,
+      lockManager: null,
+      writeGate: new WriteGate(),
+      cursorManager: new CursorManager(),
+      transactionManager: new TransactionManager(null),
+      currentDatabasePath: "/tmp/unused",
+      currentIsReadOnly: false,
+      activeQueries: 0,
+    }
+
+    const result = await executeQuery("SHOW FUNCTIONS", dbManager, { translate: true })
+
+    expect(query).toHaveBeenCalledWith("CALL show_functions() RETURN *")
+    expect(JSON.parse(result.content[1]!.text)).toMatchObject({
+      translation: { cypher: "CALL show_functions() RETURN *", rewrites: [{ rule: "no-show-clause" }] },
+    })
+  })
+})
@@ -1,7 +1,11 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
 import * as fs from "fs/promises"
 import * as path from "path"
-import { LockManager, detectMutation, LockTimeoutError, type WriteLock } from "../lock-manager.js"
+import { LockManager, detectMutation, LockTimeoutError, WriteGate, type WriteLock } from "../lock-manager.js"
+import { executeQuery, type DatabaseManager } from "../server-core.js"
+import { CursorManager } from "../cursor-manager.js"
+import { TransactionManager } from "../transaction-manager.js"
+import type * as kuzu from "kuzu"
 
 describe("LockManager", () => {
   const testDbPath = "/tmp/test-kuzu-db"
@@ -117,6 +121,32 @@ describe("LockManager", () => {
       await lockManager.releaseLock(lock)
     })
   })
+
+  describe("with query timeouts", () => {
+    it("should release the write lock when a write query times out", async () => {
+      const dbManager: DatabaseManager = {
+        db: {} as kuzu.Database,
+        conn: {
+          query: vi.fn().mockRejectedValue(new Error("Interrupted.")),
+          setQueryTimeout: vi.fn(),
+        } as unknown as kuzu.Connection,
+        lockManager,
+        writeGate: new WriteGate(),
+        cursorManager: new CursorManager(),
+        transactionManager: new TransactionManager(lockManager),
+        currentDatabasePath: testDbPath,
+        currentIsReadOnly: false,
+        activeQueries: 0,
+      }
+
+      const result = await executeQuery("MATCH (a:Person) SET a.visited = true", dbManager, { timeout: 50 })
+
+      expect(result.isError).toBe(true)
+      expect(JSON.parse(result.content[0]!.text)).toMatchObject({ error: "QUERY_TIMEOUT", timeoutMs: 50 })
+      expect(dbManager.conn.setQueryTimeout).toHaveBeenCalledWith(50)
+      await expect(fs.access(lockFilePath)).rejects.toThrow()
+    })
+  })
 })
 
 describe("detectMutation", () => {
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest"
+import { parseMultipart } from "../multipart"
+
+const CONTENT_TYPE = "multipart/form-data; boundary=----KuzuUpload42"
+
+function body(...parts: string[]): string {
+  return parts.map((part) => `------KuzuUpload42\r\n${part}\r\n`).join("") + "------KuzuUpload42--\r\n"
+}
+
+describe("parseMultipart", () => {
+  it("should decode base64 file parts and plain text fields", () => {
+    const binary = Buffer.from([0, 255, 1, 254, 0x4b])
+    const upload = parseMultipart(
+      body(
+        `Content-Disposition: form-data; name="mainFile"; filename="graph.kuzu"\r\nContent-Transfer-Encoding: base64\r\n\r\n${binary.toString("base64")}`,
+        'Content-Disposition: form-data; name="type"\r\n\r\nmain',
+      ),
+      CONTENT_TYPE,
+    )
+
+    expect(upload.get("mainFile")).toEqual({ name: "mainFile", filename: "graph.kuzu", data: binary })
+    expect(upload.get("type")?.data.toString()).toBe("main")
+  })
+
+  it("should keep CRLFs inside part contents", () => {
+    const upload = parseMultipart(
+      body('Content-Disposition: form-data; name="notes"\r\n\r\nline one\r\nline two'),
+      'multipart/form-data; boundary="----KuzuUpload42"',
+    )
+
+    expect(upload.get("notes")?.data.toString()).toBe("line one\r\nline two")
+  })
+
+  it("should refuse binary parts that were decoded as text", () => {
+    const mangled = Buffer.from([0xff, 0xfe, 0x00]).toString("utf-8")
+
+    expect(() =>
+      parseMultipart(body(`Content-Disposition: form-data; name="backup"\r\n\r\n${mangled}`), CONTENT_TYPE),
+    ).toThrow('Part "backup" is binary')
+  })
+
+  it("should reject bodies that are not complete multipart forms", () => {
+    expect(() => parseMultipart("abc", "application/octet-stream")).toThrow("Expected a multipart/form-data request")
+    expect(() => parseMultipart("abc", "multipart/form-data")).toThrow("without a boundary")
+    expect(() =>
+      parseMultipart('------KuzuUpload42\r\nContent-Disposition: form-data; name="a"\r\n\r\nx', CONTENT_TYPE),
+    ).toThrow("missing its closing boundary")
+  })
+})
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest"
-import { processQueryResults, executeBatchQuery, formatKuzuError } from "../query-helpers"
+import {
+  processQueryResults,
+  executeBatchQuery,
+  formatKuzuError,
+  applyQueryTimeout,
+  QueryTimeoutError,
+} from "../query-helpers"
 import type * as kuzu from "kuzu"
 
 // Mock kuzu types and functions
@@ -380,4 +386,43 @@ describe("Query Helpers", () => {
       })
     })
   })
+
+  describe("query timeouts", () => {
+    it("should set the Kuzu query timeout only when it changes", () => {
+      const connection = { setQueryTimeout: vi.fn() } as unknown as kuzu.Connection
+
+      applyQueryTimeout(connection, undefined)
+      expect(connection.setQueryTimeout).not.toHaveBeenCalled()
+
+      applyQueryTimeout(connection, 5000)
+      applyQueryTimeout(connection, 5000)
+      expect(connection.setQueryTimeout).toHaveBeenCalledTimes(1)
+      expect(connection.setQueryTimeout).toHaveBeenCalledWith(5000)
+
+      // Kuzu cannot clear a timeout, so "none" becomes a very large one
+      applyQueryTimeout(connection, undefined)
+      expect(connection.setQueryTimeout).toHaveBeenLastCalledWith(2 ** 31 - 1)
+    })
+
+    it("should turn interrupted queries into QueryTimeoutError without re-running statements", async () => {
+      const connection = {
+        query: vi.fn().mockRejectedValue(new Error("Interrupted.")),
+        setQueryTimeout: vi.fn(),
+      } as unknown as kuzu.Connection
+
+      await expect(
+        executeBatchQuery(connection, "CREATE (:A {id: 1}); MATCH (a)-[*1..30]->(b) RETURN count(*)", {
+          timeout: 100,
+        }),
+      ).rejects.toThrow(QueryTimeoutError)
+      expect(connection.query).toHaveBeenCalledTimes(1)
+    })
+
+    it("should format QueryTimeoutError as QUERY_TIMEOUT", () => {
+      const result = formatKuzuError(new QueryTimeoutError(100))
+
+      expect(result.error).toBe("QUERY_TIMEOUT")
+      expect(result.timeoutMs).toBe(100)
+    })
+  })
 })
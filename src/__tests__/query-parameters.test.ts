@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from "vitest"
+import {
+  prepareParameters,
+  coerceValue,
+  replaceParameterReference,
+  isTypedParameter,
+  ParameterTypeError,
+} from "../query-parameters"
+import { executeBatchQuery, formatKuzuError } from "../query-helpers"
+import type * as kuzu from "kuzu"
+
+describe("Query Parameters", () => {
+  describe("isTypedParameter", () => {
+    it("should recognize { type, value } objects", () => {
+      expect(isTypedParameter({ type: "DATE", value: "2024-01-01" })).toBe(true)
+      expect(isTypedParameter({ type: "DATE" })).toBe(false)
+      expect(isTypedParameter({ type: "DATE", value: "x", extra: 1 })).toBe(false)
+      expect(isTypedParameter([1, 2])).toBe(false)
+      expect(isTypedParameter("DATE")).toBe(false)
+    })
+  })
+
+  describe("coerceValue", () => {
+    it("should keep safe INT64 values as numbers and large ones as BigInt", () => {
+      expect(coerceValue("id", "INT64", 42)).toBe(42)
+      expect(coerceValue("id", "INT64", "42")).toBe(42)
+      expect(coerceValue("id", "INT64", "9223372036854775807")).toBe(9223372036854775807n)
+    })
+
+    it("should reject non-integer and out-of-range INT64 values", () => {
+      expect(() => coerceValue("id", "INT64", 1.5)).toThrow(ParameterTypeError)
+      expect(() => coerceValue("id", "INT64", "abc")).toThrow(ParameterTypeError)
+      expect(() => coerceValue("id", "INT64", "9223372036854775808")).toThrow("out of range")
+      expect(() => coerceValue("id", "UINT8", -1)).toThrow("out of range")
+    })
+
+    it("should validate DATE and TIMESTAMP strings", () => {
+      expect(coerceValue("d", "DATE", "2024-02-29")).toBe("2024-02-29")
+      expect(coerceValue("t", "TIMESTAMP", "2024-01-01 12:30:00")).toBe("2024-01-01 12:30:00")
+      expect(coerceValue("t", "TIMESTAMP", "2024-01-01T12:30:00.123Z")).toBe("2024-01-01T12:30:00.123Z")
+      expect(() => coerceValue("d", "DATE", "2023-02-29")).toThrow("not a valid calendar date")
+      expect(() => coerceValue("d", "DATE", "01/02/2024")).toThrow(ParameterTypeError)
+      expect(() => coerceValue("t", "TIMESTAMP", 1700000000)).toThrow(ParameterTypeError)
+    })
+
+    it("should coerce list elements recursively", () => {
+      expect(coerceValue("ids", "INT64[]", [1, "2"])).toEqual([1, 2])
+      expect(() => coerceValue("ids", "INT64[]", [1, "x"])).toThrow('Parameter "ids[1]" expects INT64')
+      expect(() => coerceValue("ids", "INT64[]", 1)).toThrow(ParameterTypeError)
+    })
+
+    it("should pass null through for any type", () => {
+      expect(coerceValue("d", "DATE", null)).toBeNull()
+    })
+
+    it("should reject unsupported types", () => {
+      expect(() => coerceValue("x", "GEOMETRY", "POINT(0 0)")).toThrow("unsupported parameter type")
+    })
+  })
+
+  describe("replaceParameterReference", () => {
+    it("should replace references outside strings and comments", () => {
+      const query = "MATCH (n) WHERE n.d = $d AND n.s = '$d' // $d\nRETURN $d, $dd"
+      expect(replaceParameterReference(query, "d", "CAST($d AS DATE)")).toBe(
+        "MATCH (n) WHERE n.d = CAST($d AS DATE) AND n.s = '$d' // $d\nRETURN CAST($d AS DATE), $dd",
+      )
+    })
+  })
+
+  describe("prepareParameters", () => {
+    it("should pass untyped parameters through unchanged", () => {
+      const prepared = prepareParameters("MATCH (p:Person {name: $name}) RETURN p", { name: "O'Brien", age: 30 })
+      expect(prepared.cypher).toBe("MATCH (p:Person {name: $name}) RETURN p")
+      expect(prepared.values).toEqual({ name: "O'Brien", age: 30 })
+    })
+
+    it("should cast typed parameters to their declared type", () => {
+      const prepared = prepareParameters("MATCH (u:User) WHERE u.joined > $since RETURN u", {
+        since: { type: "timestamp", value: "2024-01-01 00:00:00" },
+      })
+      expect(prepared.cypher).toBe("MATCH (u:User) WHERE u.joined > CAST($since AS TIMESTAMP) RETURN u")
+      expect(prepared.values).toEqual({ since: "2024-01-01 00:00:00" })
+    })
+
+    it("should split MAP parameters into key and value lists", () => {
+      const prepared = prepareParameters("RETURN $m", {
+        m: { type: "MAP(STRING, INT64)", value: { a: 1, b: "2" } },
+      })
+      expect(prepared.cypher).toBe("RETURN map(CAST($m__keys AS STRING[]), CAST($m__values AS INT64[]))")
+      expect(prepared.values).toEqual({ m__keys: ["a", "b"], m__values: [1, 2] })
+    })
+
+    it("should reject unsafe plain integers", () => {
+      expect(() => prepareParameters("RETURN $x", { x: 2 ** 60 })).toThrow("integer exceeds 2^53")
+    })
+
+    it("should validate STRUCT types and their fields", () => {
+      const prepared = prepareParameters("RETURN $s", {
+        s: { type: "struct(name string, tags int64[])", value: { name: "a", tags: ["1"] } },
+      })
+      expect(prepared.cypher).toBe("RETURN CAST($s AS STRUCT(name STRING, tags INT64[]))")
+      expect(prepared.values).toEqual({ s: { name: "a", tags: [1] } })
+      expect(() => coerceValue("s", "STRUCT(name STRING)", { other: 1 })).toThrow("unknown field other")
+    })
+
+    // The declared type is written into the query, so it is checked even when there is no value to coerce
+    it.each([
+      ["a null value", { type: "STRING) AS x MATCH (n) DETACH DELETE n RETURN CAST(1", value: null }],
+      ["an empty map", { type: "MAP(STRING, INT64) AS x MATCH (n) DETACH DELETE n RETURN CAST(1", value: {} }],
+      ["an empty map's key type", { type: "MAP(STRING) DETACH DELETE (n, INT64)", value: {} }],
+      ["an empty list", { type: "INT64[]) MATCH (n) DELETE n //[]", value: [] }],
+    ])("should reject a type that is not a Kuzu type name for %s", (_case, parameter) => {
+      expect(() => prepareParameters("RETURN $x", { x: parameter })).toThrow("unsupported parameter type")
+    })
+
+    it("should reject invalid parameter names", () => {
+      expect(() => prepareParameters("RETURN 1", { "bad name": 1 })).toThrow(ParameterTypeError)
+    })
+  })
+
+  describe("executeBatchQuery with parameters", () => {
+    it("should execute through prepare and execute", async () => {
+      const statement = { isSuccess: () => true, getErrorMessage: () => "" }
+      const result = { getAll: vi.fn().mockResolvedValue([{ name: "Alice" }]), close: vi.fn() }
+      const connection = {
+        query: vi.fn(),
+        prepare: vi.fn().mockResolvedValue(statement),
+        execute: vi.fn().mockResolvedValue(result),
+      }
+
+      const rows = await executeBatchQuery(
+        connection as unknown as kuzu.Connection,
+        "MATCH (p:Person) WHERE p.born = $born RETURN p.name AS name",
+        { parameters: { born: { type: "DATE", value: "1956-07-09" } } },
+      )
+
+      expect(rows).toEqual([{ name: "Alice" }])
+      expect(connection.query).not.toHaveBeenCalled()
+      expect(connection.prepare).toHaveBeenCalledWith(
+        "MATCH (p:Person) WHERE p.born = CAST($born AS DATE) RETURN p.name AS name",
+      )
+      expect(connection.execute).toHaveBeenCalledWith(statement, { born: "1956-07-09" })
+    })
+
+    it("should surface prepare errors without falling back to statement splitting", async () => {
+      const connection = {
+        query: vi.fn(),
+        prepare: vi.fn().mockResolvedValue({
+          isSuccess: () => false,
+          getErrorMessage: () => "Binder exception: Parameter x not found.",
+        }),
+        execute: vi.fn(),
+      }
+
+      await expect(
+        executeBatchQuery(connection as unknown as kuzu.Connection, "RETURN $y; RETURN $y", {
+          parameters: { x: 1 },
+        }),
+      ).rejects.toThrow("Parameter x not found")
+      expect(connection.query).not.toHaveBeenCalled()
+      expect(connection.execute).not.toHaveBeenCalled()
+    })
+
+    it("should format type mismatches as PARAMETER_TYPE_ERROR", () => {
+      const error = new ParameterTypeError("born", "DATE", "yesterday")
+      const formatted = formatKuzuError(error)
+      expect(formatted.error).toBe("PARAMETER_TYPE_ERROR")
+      expect(formatted.parameter).toBe("born")
+      expect(formatted.expectedType).toBe("DATE")
+    })
+  })
+})
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, afterEach, afterAll } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import {
+  parsePolicy,
+  checkQueryPolicy,
+  setQueryPolicy,
+  watchPolicyFile,
+  stopWatchingPolicyFile,
+  getQueryPolicy,
+  PolicyViolationError,
+  type QueryPolicy,
+} from "../query-policy"
+import { classifyQuery } from "../statement-policy"
+import { executeQuery, type DatabaseManager } from "../server-core"
+import { CursorManager } from "../cursor-manager"
+import { TransactionManager } from "../transaction-manager"
+import { WriteGate } from "../lock-manager"
+import type * as kuzu from "kuzu"
+
+const policy: QueryPolicy = {
+  allowedStatements: ["read", "write"],
+  forbiddenTables: ["Salary"],
+  forbiddenProperties: ["Person.ssn", "password"],
+  maxPathDepth: 3,
+  bannedFunctions: ["current_setting"],
+}
+
+function violation(cypher: string, rules: QueryPolicy = policy): string | null {
+  try {
+    checkQueryPolicy(classifyQuery(cypher), rules)
+    return null
+  } catch (error) {
+    if (error instanceof PolicyViolationError) return error.rule
+    throw error
+  }
+}
+
+describe("parsePolicy", () => {
+  it("should read JSON policies", () => {
+    expect(parsePolicy('{"forbiddenTables": ["Salary"], "maxPathDepth": 4}', "policy.json")).toEqual({
+      allowedStatements: undefined,
+      deniedStatements: undefined,
+      forbiddenTables: ["Salary"],
+      forbiddenProperties: [],
+      maxPathDepth: 4,
+      bannedFunctions: [],
+    })
+  })
+
+  it("should read YAML policies with flow and block lists", () => {
+    const yaml = [
+      "# agents with read access only",
+      "allowedStatements: [read, load]",
+      "forbiddenProperties:",
+      "  - Person.ssn",
+      '  - "password"',
+      "maxPathDepth: 5 # hops",
+    ].join("\n")
+
+    expect(parsePolicy(yaml, "policy.yaml")).toMatchObject({
+      allowedStatements: ["read", "load"],
+      forbiddenProperties: ["Person.ssn", "password"],
+      maxPathDepth: 5,
+    })
+  })
+
+  it("should reject unknown fields, classes and malformed values", () => {
+    expect(() => parsePolicy('{"forbidTables": []}')).toThrow("Unknown policy field forbidTables")
+    expect(() => parsePolicy("allowedStatements: [reads]")).toThrow('Unknown statement class "reads"')
+    expect(() => parsePolicy("maxPathDepth: deep")).toThrow("maxPathDepth must be a positive integer")
+    expect(() => parsePolicy("forbiddenTables:\n  nested: true")).toThrow("Unsupported YAML on line 2")
+  })
+})
+
+describe("checkQueryPolicy", () => {
+  it.each([
+    ["MATCH (p:Person) RETURN p.name", null],
+    ["COPY Person FROM 'p.csv'", "statement-class"],
+    ["MATCH (s:Salary) RETURN s", "forbidden-table"],
+    ["MATCH (p:Person)-[:Earns|Salary]->(x) RETURN x", "forbidden-table"],
+    ["MATCH (p:Person) RETURN p.ssn", "forbidden-property"],
+    ["UNWIND $people AS n RETURN n.ssn", "forbidden-property"],
+    ["MATCH (c:Company) RETURN c.ssn", null],
+    ["CREATE (:Person {name: 'a', ssn: '1'})", "forbidden-property"],
+    ["MATCH (u:User) RETURN u.password", "forbidden-property"],
+    ["MATCH (p:Person) WHERE p.name = 'ssn Salary current_setting()' RETURN p.name", null],
+    ["RETURN current_setting('threads')", "banned-function"],
+    ["MATCH (a:Person)-[:Knows*1..3]->(b:Person) RETURN b.name", null],
+    ["MATCH (a:Person)-[:Knows*1..5]->(b:Person) RETURN b.name", "max-path-depth"],
+    ["MATCH (a:Person)-[:Knows*]->(b:Person) RETURN b.name", "max-path-depth"],
+    ["MATCH p = (a:Person)-[:Knows* SHORTEST 2]->(b:Person) RETURN length(p)", null],
+  ])("should check %s", (cypher, rule) => {
+    expect(violation(cypher)).toBe(rule)
+  })
+
+  it.each([
+    ["MATCH (n) RETURN n", "forbidden-table"],
+    ["MATCH (p:Person)-[r]->(x:Company) RETURN x.name", "forbidden-table"],
+    ["MATCH (a:Person)-->(b:Person) RETURN b.name", "forbidden-table"],
+    ["MATCH (p:Person) RETURN p", "forbidden-property"],
+    ["MATCH (p:Person) RETURN properties(p)", "forbidden-property"],
+    ["MATCH (p:Person) WITH collect(p) AS people RETURN people", "forbidden-property"],
+    ["MATCH (p:Person) WITH p AS q RETURN q.name", "forbidden-property"],
+    ["MATCH path = (a:Person)-[:Knows]->(b:Person) RETURN nodes(path)", "forbidden-property"],
+    ["MATCH (p:Person) RETURN count(p), id(p), label(p)", null],
+    ["MATCH (p:Person)-[k:Knows]->(q:Person) DELETE k", null],
+  ])("should close the unlabelled and whole-variable bypass %s", (cypher, rule) => {
+    expect(violation(cypher)).toBe(rule)
+  })
+
+  it("should only refuse whole variables whose tables have forbidden properties", () => {
+    const rules: QueryPolicy = { ...policy, forbiddenTables: [], forbiddenProperties: ["Person.ssn"] }
+
+    expect(violation("MATCH (c:Company) RETURN c", rules)).toBeNull()
+    expect(violation("MATCH (p:Person) RETURN p", rules)).toBe("forbidden-property")
+    // Unlabelled nodes could be people
+    expect(violation("MATCH (n) RETURN n", rules)).toBe("forbidden-property")
+    expect(violation("MATCH (n) RETURN n.name", rules)).toBeNull()
+  })
+})
+
+describe("policy file", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kuzu-policy-"))
+  const file = path.join(dir, "policy.yaml")
+
+  afterEach(() => {
+    stopWatchingPolicyFile()
+    setQueryPolicy(null)
+  })
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should reload the policy when the file changes and keep it when the change is invalid", async () => {
+    fs.writeFileSync(file, "forbiddenTables: [Salary]\n")
+    watchPolicyFile(file, 20)
+    expect(getQueryPolicy()?.forbiddenTables).toEqual(["Salary"])
+
+    fs.writeFileSync(file, "forbiddenTables: [Salary, Bonus]\n")
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 5000))
+    await vi.waitFor(() => expect(getQueryPolicy()?.forbiddenTables).toEqual(["Salary", "Bonus"]), { timeout: 2000 })
+
+    fs.writeFileSync(file, "forbiddenTables: {\n")
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 10000))
+    await new Promise((resolve) => setTimeout(resolve, 200))
+    expect(getQueryPolicy()?.forbiddenTables).toEqual(["Salary", "Bonus"])
+  })
+
+  it("should reject violating queries in executeQuery as POLICY_VIOLATION", async () => {
+    setQueryPolicy(policy)
+    const query = vi.fn()
+    const dbManager: DatabaseManager = {
+      db: {} as kuzu.Database,
+      conn: { query } as unknown as kuzu.Connection,
+      lockManager: null,
+      writeGate: new WriteGate(),
+      cursorManager: new CursorManager(),
+      transactionManager: new TransactionManager(null),
+      currentDatabasePath: "/tmp/unused",
+      currentIsReadOnly: false,
+      activeQueries: 0,
+    }
+
+    const result = await executeQuery("MATCH (s:Salary) RETURN s", dbManager)
+
+    expect(result.isError).toBe(true)
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({
+      error: "POLICY_VIOLATION",
+      rule: "forbidden-table",
+      statement: "MATCH (s:Salary) RETURN s",
+    })
+    expect(query).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { validateQuery } from "../query-validation"
+import { clearSchemaCache } from "../merge-validation"
+import type * as kuzu from "kuzu"
+
+// Fake connection that answers EXPLAIN with a plan and fails on unknown tables
+function createConnection() {
+  return {
+    query: vi.fn((cypher: string) => {
+      if (cypher.includes("Missing")) {
+        return Promise.reject(new Error("Binder exception: Table Missing does not exist."))
+      }
+      if (cypher.startsWith("CALL TABLE_INFO")) {
+        return Promise.resolve({
+          getAll: () => Promise.resolve([{ name: "name" }]),
+          close: vi.fn(),
+        })
+      }
+      return Promise.resolve({
+        getAll: () => Promise.resolve([{ "explain result": `PLAN FOR ${cypher}` }]),
+        close: vi.fn(),
+      })
+    }),
+    prepare: vi.fn(),
+    execute: vi.fn(),
+  }
+}
+
+describe("validateQuery", () => {
+  afterEach(() => {
+    clearSchemaCache()
+    delete process.env.KUZU_READ_ONLY
+  })
+
+  it("should only ever run EXPLAIN", async () => {
+    const connection = createConnection()
+
+    const result = await validateQuery(
+      connection as unknown as kuzu.Connection,
+      "CREATE (:Person {name: 'Ann'}); MATCH (p:Person) RETURN p",
+    )
+
+    expect(result.valid).toBe(true)
+    expect(result.isWrite).toBe(true)
+    expect(result.statements).toHaveLength(2)
+    expect(result.statements[0]!.plan).toBe("PLAN FOR EXPLAIN CREATE (:Person {name: 'Ann'})")
+    for (const call of connection.query.mock.calls) {
+      expect(call[0]).toMatch(/^EXPLAIN /)
+    }
+  })
+
+  it("should report binder errors per statement", async () => {
+    const connection = createConnection()
+
+    const result = await validateQuery(connection as unknown as kuzu.Connection, "MATCH (m:Missing) RETURN m")
+
+    expect(result.valid).toBe(false)
+    expect(result.isWrite).toBe(false)
+    expect(result.statements[0]!.valid).toBe(false)
+    expect(result.statements[0]!.error?.message).toContain("Table Missing does not exist")
+  })
+
+  it("should note statements that depend on earlier DDL", async () => {
+    const connection = createConnection()
+
+    const result = await validateQuery(
+      connection as unknown as kuzu.Connection,
+      "CREATE NODE TABLE Missing(id INT64, PRIMARY KEY(id)); MATCH (m:Person) RETURN m",
+    )
+
+    expect(result.statements[0]!.valid).toBe(false)
+    expect(result.statements[0]!.note).toBeUndefined()
+
+    const dependent = await validateQuery(
+      connection as unknown as kuzu.Connection,
+      "CREATE NODE TABLE Other(id INT64, PRIMARY KEY(id)); MATCH (m:Missing) RETURN m",
+    )
+    expect(dependent.statements[1]!.note).toContain("earlier statement")
+  })
+
+  it("should explain parameterized queries through a prepared statement", async () => {
+    const connection = createConnection()
+    const statement = { isSuccess: () => true, getErrorMessage: () => "" }
+    connection.prepare.mockResolvedValue(statement)
+    connection.execute.mockResolvedValue({
+      getAll: () => Promise.resolve([{ "explain result": "PLAN" }]),
+      close: vi.fn(),
+    })
+
+    const result = await validateQuery(
+      connection as unknown as kuzu.Connection,
+      "MATCH (p:Person {name: $name}) RETURN p",
+      {
+        name: "Ann",
+      },
+    )
+
+    expect(result.valid).toBe(true)
+    expect(connection.prepare).toHaveBeenCalledWith("EXPLAIN MATCH (p:Person {name: $name}) RETURN p")
+    expect(connection.execute).toHaveBeenCalledWith(statement, { name: "Ann" })
+  })
+
+  it("should flag writes in read-only mode", async () => {
+    process.env.KUZU_READ_ONLY = "true"
+    const connection = createConnection()
+
+    const result = await validateQuery(connection as unknown as kuzu.Connection, "CREATE (:Person {name: 'Ann'})")
+
+    expect(result.valid).toBe(false)
+    expect(result.readOnlyViolation).toBe(true)
+  })
+
+  it("should include MERGE validation", async () => {
+    const connection = createConnection()
+
+    const result = await validateQuery(
+      connection as unknown as kuzu.Connection,
+      "MERGE (p:Person {name: 'Ann', age: 30})",
+    )
+
+    expect(result.valid).toBe(false)
+    expect(result.merge?.valid).toBe(false)
+    expect(result.merge?.errors[0]).toContain("age")
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from "vitest"
+import { z } from "zod"
+import { TOOLS, PROMPTS, RESOURCES, findTool, findPrompt } from "../registry"
+import { CursorManager } from "../cursor-manager"
+import { TransactionManager } from "../transaction-manager"
+import { WriteGate } from "../lock-manager"
+import type { DatabaseManager } from "../server-core"
+import type * as kuzu from "kuzu"
+
+function createDbManager(): DatabaseManager {
+  const result = {
+    getAll: () => Promise.resolve([{ name: "Person", type: "NODE", comment: "" }]),
+    close: vi.fn(),
+  }
+  return {
+    db: {} as kuzu.Database,
+    conn: { query: vi.fn().mockResolvedValue(result) } as unknown as kuzu.Connection,
+    lockManager: null,
+    writeGate: new WriteGate(),
+    cursorManager: new CursorManager(),
+    transactionManager: new TransactionManager(null),
+    currentDatabasePath: "/tmp/unused",
+    currentIsReadOnly: false,
+    activeQueries: 0,
+  }
+}
+
+describe("Registry", () => {
+  it("should define every tool once", () => {
+    const names = TOOLS.map((tool) => tool.name)
+
+    expect(names).toEqual([
+      "query",
+      "fetchMore",
+      "validateQuery",
+      "lintCypher",
+      "translateCypher",
+      "beginTransaction",
+      "commit",
+      "rollback",
+      "getSchema",
+    ])
+    expect(new Set(names).size).toBe(names.length)
+  })
+
+  it("should produce JSON schemas for the stdio transport", () => {
+    const schema = z.toJSONSchema(findTool("query")!.parameters) as {
+      type: string
+      properties: Record<string, unknown>
+      required: string[]
+    }
+
+    expect(schema.type).toBe("object")
+    expect(Object.keys(schema.properties)).toContain("format")
+    expect(schema.required).toEqual(["cypher"])
+  })
+
+  it("should validate tool arguments", () => {
+    const fetchMore = findTool("fetchMore")!
+
+    expect(fetchMore.parameters.safeParse({ cursor: "abc", pageSize: 10 }).success).toBe(true)
+    expect(fetchMore.parameters.safeParse({ pageSize: -1 }).success).toBe(false)
+  })
+
+  it("should run tools with the caller's session", async () => {
+    const dbManager = createDbManager()
+
+    const result = await findTool("getSchema")!.execute({}, { dbManager, sessionId: "alice" })
+
+    expect(result.isError).toBe(false)
+    expect(JSON.parse(result.content[0]!.text)).toHaveProperty("nodeTables")
+  })
+
+  it("should expose generateKuzuCypher as a prompt with a required question", async () => {
+    const prompt = findPrompt("generateKuzuCypher")!
+
+    expect(PROMPTS).toHaveLength(1)
+    expect(prompt.arguments).toEqual([expect.objectContaining({ name: "question", required: true })])
+    await expect(prompt.load({}, createDbManager())).rejects.toThrow("Missing required argument: question")
+    await expect(prompt.load({ question: "Who acted in Inception?" }, createDbManager())).resolves.toContain(
+      "Who acted in Inception?",
+    )
+  })
+
+  it("should list the schema resource", () => {
+    expect(RESOURCES.map((resource) => resource.uri)).toEqual(["kuzu://schema"])
+  })
+})
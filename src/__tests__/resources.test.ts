@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import * as fs from "fs/promises"
+import * as kuzu from "kuzu"
+import { listResources, readResource, ResourceNotFoundError, SCHEMA_RESOURCE_URI } from "../resources"
+import { executeQuery, beginTransaction, endTransaction, onSchemaChange, DatabaseManager } from "../server-core"
+import { CursorManager } from "../cursor-manager"
+import { TransactionManager } from "../transaction-manager"
+import { WriteGate } from "../lock-manager"
+
+describe("Schema resources", () => {
+  const testDbPath = "/tmp/test-kuzu-resources"
+  let db: kuzu.Database
+  let conn: kuzu.Connection
+
+  beforeEach(async () => {
+    await fs.mkdir(testDbPath, { recursive: true })
+    db = new kuzu.Database(testDbPath)
+    conn = new kuzu.Connection(db)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(testDbPath, { recursive: true, force: true })
+  })
+
+  it("should list the schema and a metadata and sample resource per table", async () => {
+    const resources = await listResources(conn)
+
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      SCHEMA_RESOURCE_URI,
+      "kuzu://table/Movie",
+      "kuzu://table/Movie/sample",
+      "kuzu://table/Person",
+      "kuzu://table/Person/sample",
+      "kuzu://table/DIRECTED",
+      "kuzu://table/DIRECTED/sample",
+    ])
+  })
+
+  it("should read the schema resource", async () => {
+    const content = await readResource(conn, SCHEMA_RESOURCE_URI)
+
+    expect(content.mimeType).toBe("application/json")
+    const schema = JSON.parse(content.text) as { nodeTables: { name: string }[] }
+    expect(schema.nodeTables.map((table) => table.name)).toEqual(["Movie", "Person"])
+  })
+
+  it("should read table metadata", async () => {
+    const content = await readResource(conn, "kuzu://table/Person")
+
+    expect(JSON.parse(content.text)).toMatchObject({ kind: "node", name: "Person", properties: [] })
+  })
+
+  it("should sample a table with a limited query", async () => {
+    const querySpy = vi.spyOn(conn, "query")
+
+    await readResource(conn, "kuzu://table/DIRECTED/sample")
+
+    expect(querySpy).toHaveBeenCalledWith("MATCH ()-[r:`DIRECTED`]->() RETURN r LIMIT 5")
+  })
+
+  it("should reject unknown tables and URIs", async () => {
+    await expect(readResource(conn, "kuzu://table/Missing")).rejects.toThrow(ResourceNotFoundError)
+    await expect(readResource(conn, "kuzu://other")).rejects.toThrow(ResourceNotFoundError)
+  })
+})
+
+describe("Schema change notifications", () => {
+  const testDbPath = "/tmp/test-kuzu-schema-changes"
+  let dbManager: DatabaseManager
+  let removeListener: () => void
+  const listener = vi.fn()
+
+  beforeEach(async () => {
+    await fs.mkdir(testDbPath, { recursive: true })
+    const db = new kuzu.Database(testDbPath)
+    dbManager = {
+      db,
+      conn: new kuzu.Connection(db),
+      lockManager: null,
+      writeGate: new WriteGate(),
+      cursorManager: new CursorManager(),
+      transactionManager: new TransactionManager(null),
+      currentDatabasePath: testDbPath,
+      currentIsReadOnly: false,
+      activeQueries: 0,
+    }
+    listener.mockClear()
+    removeListener = onSchemaChange(listener)
+  })
+
+  afterEach(async () => {
+    removeListener()
+    await dbManager.transactionManager.rollbackAll()
+    await fs.rm(testDbPath, { recursive: true, force: true })
+  })
+
+  it("should notify after DDL but not after other queries", async () => {
+    const emptyResult = {
+      hasNext: () => false,
+      getNext: () => Promise.resolve(null),
+      getAll: () => Promise.resolve([]),
+      getNumTuples: () => 0,
+      getColumnNames: () => Promise.resolve([]),
+      getColumnDataTypes: () => Promise.resolve([]),
+      close: vi.fn(),
+    }
+    dbManager.conn = { query: vi.fn().mockResolvedValue(emptyResult) } as unknown as kuzu.Connection
+
+    await executeQuery("MATCH (p:Person) RETURN p.name", dbManager)
+    expect(listener).not.toHaveBeenCalled()
+
+    await executeQuery("CREATE NODE TABLE City(name STRING, PRIMARY KEY(name))", dbManager)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it("should notify for DDL in a transaction only once it commits", async () => {
+    const begun = await beginTransaction(dbManager, "alice")
+    const { transactionId } = JSON.parse(begun.content[0]!.text) as { transactionId: string }
+
+    await executeQuery("CREATE NODE TABLE City(name STRING, PRIMARY KEY(name))", dbManager, {
+      transactionId,
+      sessionId: "alice",
+    })
+    expect(listener).not.toHaveBeenCalled()
+
+    await endTransaction(transactionId, "commit", dbManager, "alice")
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from "vitest"
+import { executeQuery, fetchMoreResults, type DatabaseManager } from "../server-core"
+import { executeBatchQuery } from "../query-helpers"
+import { CursorManager } from "../cursor-manager"
+import { TransactionManager } from "../transaction-manager"
+import { WriteGate } from "../lock-manager"
+import type * as kuzu from "kuzu"
+
+function createResult(rows: Record<string, unknown>[], names: string[], types: string[]) {
+  let index = 0
+  return {
+    hasNext: vi.fn(() => index < rows.length),
+    getNext: vi.fn(() => Promise.resolve(index < rows.length ? rows[index++]! : null)),
+    getAll: vi.fn(() => Promise.resolve(rows.slice(index))),
+    getNumTuples: vi.fn(() => rows.length),
+    getColumnNames: vi.fn(() => Promise.resolve(names)),
+    getColumnDataTypes: vi.fn(() => Promise.resolve(types)),
+    close: vi.fn(),
+  }
+}
+
+const people = [
+  { name: "Alice", age: 30 },
+  { name: "Bob", age: 25 },
+  { name: "Carol", age: 41 },
+]
+
+function createDbManager(result: unknown): DatabaseManager {
+  return {
+    db: {} as kuzu.Database,
+    conn: { query: vi.fn().mockResolvedValue(result) } as unknown as kuzu.Connection,
+    lockManager: null,
+    writeGate: new WriteGate(),
+    cursorManager: new CursorManager(),
+    transactionManager: new TransactionManager(null),
+    currentDatabasePath: "/tmp/unused",
+    currentIsReadOnly: false,
+    activeQueries: 0,
+  }
+}
+
+describe("Result formats", () => {
+  it("should keep the plain row format by default", async () => {
+    const dbManager = createDbManager(createResult(people, ["name", "age"], ["STRING", "INT64"]))
+
+    const response = await executeQuery("MATCH (p:Person) RETURN p.name AS name, p.age AS age", dbManager)
+
+    expect(JSON.parse(response.content[0]!.text)).toEqual(people)
+  })
+
+  it("should serialize values using the column types", async () => {
+    const born = new Date(Date.UTC(1990, 4, 17))
+    const dbManager = createDbManager(createResult([{ name: "Alice", born }], ["name", "born"], ["STRING", "DATE"]))
+
+    const response = await executeQuery("MATCH (p:Person) RETURN p.name AS name, p.born AS born", dbManager)
+
+    expect(JSON.parse(response.content[0]!.text)).toEqual([{ name: "Alice", born: "1990-05-17" }])
+  })
+
+  it("should return results with column types and timing in the standard format", async () => {
+    const dbManager = createDbManager(createResult(people, ["name", "age"], ["STRING", "INT64"]))
+
+    const response = await executeQuery("MATCH (p:Person) RETURN p.name AS name, p.age AS age", dbManager, {
+      format: "standard",
+    })
+
+    const body = JSON.parse(response.content[0]!.text) as {
+      success: boolean
+      results: unknown[]
+      metadata: Record<string, unknown>
+    }
+    expect(body.success).toBe(true)
+    expect(body.results).toEqual(people)
+    expect(body.metadata).toMatchObject({
+      statementsExecuted: 1,
+      hasMore: false,
+      columns: [
+        { name: "name", type: "STRING" },
+        { name: "age", type: "INT64" },
+      ],
+    })
+    expect(body.metadata.executionTime).toMatch(/^\d+ms$/)
+  })
+
+  it("should return one array per column in the columnar format", async () => {
+    const dbManager = createDbManager(createResult(people, ["name", "age"], ["STRING", "INT64"]))
+
+    const response = await executeQuery("MATCH (p:Person) RETURN p.name AS name, p.age AS age", dbManager, {
+      format: "columnar",
+    })
+
+    expect(JSON.parse(response.content[0]!.text)).toMatchObject({
+      columns: [
+        { name: "name", type: "STRING" },
+        { name: "age", type: "INT64" },
+      ],
+      data: { name: ["Alice", "Bob", "Carol"], age: [30, 25, 41] },
+      rowCount: 3,
+      hasMore: false,
+    })
+  })
+
+  it("should keep column types on later pages", async () => {
+    const dbManager = createDbManager(createResult(people, ["name", "age"], ["STRING", "INT64"]))
+
+    const first = await executeQuery("MATCH (p:Person) RETURN p.name AS name, p.age AS age", dbManager, {
+      format: "columnar",
+      pageSize: 2,
+    })
+    const { cursor } = JSON.parse(first.content[0]!.text) as { cursor: string }
+    const next = await fetchMoreResults(cursor, dbManager, 2, "columnar")
+
+    expect(JSON.parse(next.content[0]!.text)).toMatchObject({
+      columns: [
+        { name: "name", type: "STRING" },
+        { name: "age", type: "INT64" },
+      ],
+      data: { name: ["Carol"], age: [41] },
+      hasMore: false,
+    })
+  })
+
+  it("should merge columns across statements", async () => {
+    const connection = {
+      query: vi
+        .fn()
+        .mockResolvedValue([
+          createResult([{ name: "Alice" }], ["name"], ["STRING"]),
+          createResult([{ total: 3 }], ["total"], ["INT64"]),
+        ]),
+    } as unknown as kuzu.Connection
+
+    const page = await executeBatchQuery(
+      connection,
+      "MATCH (p) RETURN p.name AS name; MATCH (p) RETURN count(*) AS total",
+      {
+        columns: true,
+      },
+    )
+
+    expect(page).toMatchObject({
+      columns: [
+        { name: "name", type: "STRING" },
+        { name: "total", type: "INT64" },
+      ],
+    })
+  })
+})
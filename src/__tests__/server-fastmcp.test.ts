@@ -0,0 +1,440 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { gzipSync } from "zlib"
+import { createFastMCPServer } from "../server-fastmcp"
+import { MemoryAuthStore, REFRESH_TOKEN_TTL, digestSecret, type RefreshTokenRecord } from "../auth-store"
+import { createApiKey } from "../api-keys"
+import { executeQuery, recoverDatabase, replaceDatabase, withDatabase } from "../server-core"
+import { parseSchedule } from "../backup-scheduler"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kuzu-fastmcp-"))
+const port = 41000 + Math.floor(Math.random() * 1000)
+const baseUrl = `http://localhost:${port}`
+const writer = `Basic ${Buffer.from("writer:secret").toString("base64")}`
+const dbPath = path.join(dir, "db")
+
+// A multipart body with base64-encoded file parts, as the admin page sends it
+function upload(authorization: string, files: Record<string, Buffer>): Parameters<typeof fetch>[1] {
+  const boundary = "----KuzuTest"
+  const parts = Object.entries(files).map(
+    ([field, data]) =>
+      `--${boundary}\r\nContent-Disposition: form-data; name="${field}"; filename="${field}"\r\n` +
+      `Content-Transfer-Encoding: base64\r\n\r\n${data.toString("base64")}\r\n`,
+  )
+  return {
+    method: "POST",
+    headers: { Authorization: authorization, "Content-Type": `multipart/form-data; boundary=${boundary}` },
+    body: `${parts.join("")}--${boundary}--\r\n`,
+  }
+}
+
+describe("admin routes with Basic Auth", () => {
+  let server: ReturnType<typeof createFastMCPServer>["server"]
+  let dbManager: ReturnType<typeof createFastMCPServer>["dbManager"]
+  let backupScheduler: ReturnType<typeof createFastMCPServer>["backupScheduler"]
+  let admin: string
+
+  beforeAll(async () => {
+    const authStore = new MemoryAuthStore()
+    admin = `Bearer ${(await createApiKey(authStore, { name: "ops", scope: "admin" })).key}`
+    ;({ server, dbManager, backupScheduler } = createFastMCPServer({
+      databasePath: dbPath,
+      isReadOnly: false,
+      port,
+      basicAuth: { username: "writer", password: "secret", scope: "read write" },
+      authStore,
+      backups: {
+        schedule: parseSchedule("1d"),
+        outputDir: path.join(dir, "scheduled"),
+        retention: { keepDaily: 7, keepWeekly: 4 },
+      },
+    }))
+    await server.start({ transportType: "httpStream", httpStream: { port, endpoint: "/mcp" } })
+  })
+
+  afterAll(async () => {
+    backupScheduler?.stop()
+    await server.stop()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should reject unauthenticated backup downloads", async () => {
+    const response = await fetch(`${baseUrl}/api/backup`)
+
+    expect(response.status).toBe(401)
+    expect(response.headers.get("content-type")).toContain("application/json")
+  })
+
+  it.each(["/api/info", "/api/export"])("should require credentials for %s", async (route) => {
+    expect((await fetch(`${baseUrl}${route}`)).status).toBe(401)
+    const wrong = `Basic ${Buffer.from("writer:wrong").toString("base64")}`
+    expect((await fetch(`${baseUrl}${route}`, { headers: { Authorization: wrong } })).status).toBe(401)
+  })
+
+  it("should let authenticated users read database info", async () => {
+    const response = await fetch(`${baseUrl}/api/info`, { headers: { Authorization: writer } })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ isReadOnly: false })
+  })
+
+  it("should reserve restore and API key management for admins", async () => {
+    const restore = (authorization: string): Promise<Response> =>
+      fetch(`${baseUrl}/api/restore`, { method: "POST", headers: { Authorization: authorization } })
+
+    expect((await restore(writer)).status).toBe(403)
+    // Past the role check, but without a multipart body
+    expect((await restore(admin)).status).toBe(400)
+    expect((await fetch(`${baseUrl}/api/keys`, { headers: { Authorization: writer } })).status).toBe(403)
+    expect((await fetch(`${baseUrl}/api/keys`, { headers: { Authorization: admin } })).status).toBe(200)
+  })
+
+  it("should export the database and import the archive back", async () => {
+    const exported = await fetch(`${baseUrl}/api/export?format=parquet`, { headers: { Authorization: writer } })
+
+    expect(exported.status).toBe(200)
+    expect(exported.headers.get("content-disposition")).toMatch(/kuzu-export-.*-parquet\.tar\.gz/)
+    const archive = Buffer.from(await exported.arrayBuffer())
+    const importArchive = (authorization: string): Promise<Response> =>
+      fetch(`${baseUrl}/api/import`, upload(authorization, { export: archive }))
+
+    expect((await importArchive(writer)).status).toBe(403)
+    const imported = await importArchive(admin)
+    expect(await imported.json()).toMatchObject({ success: true })
+    expect(fs.readdirSync(dir).filter((name) => name.includes(".import-") || name.includes(".previous-"))).toEqual([])
+
+    // A second swap while one is running is a conflict, and its staged import is removed
+    dbManager.replacing = Promise.resolve()
+    try {
+      const conflict = await importArchive(admin)
+      expect(conflict.status).toBe(409)
+      expect(await conflict.json()).toMatchObject({ error: expect.stringContaining("already in progress") })
+    } finally {
+      dbManager.replacing = undefined
+    }
+    expect(fs.readdirSync(dir).filter((name) => name.includes(".import-"))).toEqual([])
+  })
+
+  it("should refuse downloads larger than the in-memory limit", async () => {
+    process.env.KUZU_MAX_DOWNLOAD_BYTES = "10"
+    try {
+      const backup = await fetch(`${baseUrl}/api/backup`, { headers: { Authorization: writer } })
+      expect(backup.status).toBe(413)
+      expect(((await backup.json()) as { error: string }).error).toContain("--backup")
+      const exported = await fetch(`${baseUrl}/api/export`, { headers: { Authorization: writer } })
+      expect(exported.status).toBe(413)
+      expect(((await exported.json()) as { error: string }).error).toContain("standalone Web UI server")
+    } finally {
+      delete process.env.KUZU_MAX_DOWNLOAD_BYTES
+    }
+  })
+
+  it("should reject unknown export formats", async () => {
+    const response = await fetch(`${baseUrl}/api/export?format=xml`, { headers: { Authorization: writer } })
+
+    expect(response.status).toBe(400)
+  })
+
+  it("should restore uploaded main and WAL files", async () => {
+    const response = await fetch(
+      `${baseUrl}/api/restore`,
+      upload(admin, { mainFile: Buffer.from("KUZU restored"), walFile: Buffer.from("wal") }),
+    )
+
+    expect(await response.json()).toMatchObject({ success: true })
+    expect(fs.readFileSync(dbPath, "utf-8")).toBe("KUZU restored")
+    expect(fs.readFileSync(`${dbPath}.wal`, "utf-8")).toBe("wal")
+  })
+
+  it("should put the previous database back when the restored one does not open", async () => {
+    const response = await fetch(`${baseUrl}/api/restore`, upload(admin, { mainFile: Buffer.from("garbage") }))
+
+    expect(response.status).toBe(500)
+    expect(fs.readFileSync(dbPath, "utf-8")).toBe("KUZU restored")
+    expect(fs.readdirSync(dir).filter((name) => name.includes(".restore-") || name.includes(".previous-"))).toEqual([])
+    const info = await fetch(`${baseUrl}/api/info`, { headers: { Authorization: admin } })
+    expect(await info.json()).toMatchObject({ connected: true })
+  })
+
+  it("should hold new queries until a restore finishes", async () => {
+    const staged = `${dbPath}.staged`
+    fs.writeFileSync(staged, "KUZU staged")
+
+    const restore = replaceDatabase(dbManager, staged)
+    let waited = false
+    const query = withDatabase(dbManager, () => {
+      waited = dbManager.replacing === undefined && fs.readFileSync(dbPath, "utf-8") === "KUZU staged"
+      return Promise.resolve()
+    })
+    await expect(replaceDatabase(dbManager, staged)).rejects.toThrow("already in progress")
+    await Promise.all([restore, query])
+
+    expect(waited).toBe(true)
+  })
+
+  it("should let running queries finish and close the old connection before moving the files", async () => {
+    const staged = `${dbPath}.staged`
+    fs.writeFileSync(staged, "KUZU swapped")
+    const previous = fs.readFileSync(dbPath, "utf-8")
+    const oldConn = dbManager.conn
+    // The files must still be in place when the old connection is closed
+    const closedOver: string[] = []
+    const closeConnection = vi.spyOn(oldConn, "close").mockImplementation(() => {
+      closedOver.push(fs.readFileSync(dbPath, "utf-8"))
+      return Promise.resolve()
+    })
+    const queryOldConnection = vi.spyOn(oldConn, "query")
+    let finishRunning = (): void => {}
+    const running = withDatabase(dbManager, () => new Promise<void>((resolve) => (finishRunning = resolve)))
+
+    const restore = replaceDatabase(dbManager, staged)
+    // Called directly, as the stdio server does, not through a FastMCP wrapper
+    const query = executeQuery("MATCH (n) RETURN n", dbManager)
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(fs.readFileSync(dbPath, "utf-8")).toBe(previous)
+    expect(closeConnection).not.toHaveBeenCalled()
+    expect(dbManager.activeQueries).toBe(1)
+
+    finishRunning()
+    await Promise.all([running, restore])
+    expect(closedOver[0]).toBe(previous)
+    expect(fs.readFileSync(dbPath, "utf-8")).toBe("KUZU swapped")
+    expect(dbManager.conn).not.toBe(oldConn)
+    await query
+    expect(queryOldConnection).not.toHaveBeenCalled()
+    expect(dbManager.activeQueries).toBe(0)
+  })
+
+  it("should recover through the same drain and close steps as a restore", async () => {
+    const oldDb = dbManager.db
+    const oldConn = dbManager.conn
+    const closeConnection = vi.spyOn(oldConn, "close")
+    const closeDatabase = vi.spyOn(oldDb, "close")
+    let finishRunning = (): void => {}
+    const running = withDatabase(dbManager, () => new Promise<void>((resolve) => (finishRunning = resolve)))
+
+    const recovery = recoverDatabase(dbManager)
+    let queryConn: unknown
+    const query = withDatabase(dbManager, () => {
+      queryConn = dbManager.conn
+      return Promise.resolve()
+    })
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(closeConnection).not.toHaveBeenCalled()
+
+    finishRunning()
+    await Promise.all([running, recovery, query])
+    expect(closeConnection).toHaveBeenCalledOnce()
+    expect(closeDatabase).toHaveBeenCalledOnce()
+    expect(queryConn).toBe(dbManager.conn)
+    expect(dbManager.conn).not.toBe(oldConn)
+    expect(dbManager.activeQueries).toBe(0)
+  })
+
+  it("should restore its own backup archives", async () => {
+    const backup = await fetch(`${baseUrl}/api/backup`, { headers: { Authorization: writer } })
+    expect(backup.headers.get("content-disposition")).toMatch(/kuzu-backup-.*\.tar\.gz/)
+    const archive = Buffer.from(await backup.arrayBuffer())
+    fs.writeFileSync(dbPath, "KUZU changed since")
+
+    const response = await fetch(`${baseUrl}/api/restore`, upload(admin, { backup: archive }))
+
+    expect(await response.json()).toMatchObject({ success: true })
+    expect(fs.readFileSync(dbPath, "utf-8")).toBe("KUZU swapped")
+    const notAnArchive = gzipSync(Buffer.alloc(100, 1))
+    expect((await fetch(`${baseUrl}/api/restore`, upload(admin, { backup: notAnArchive }))).status).toBe(400)
+  })
+
+  it("should keep the login page and health check public", async () => {
+    const page = await fetch(`${baseUrl}/admin`)
+
+    expect(page.status).toBe(200)
+    const html = await page.text()
+    expect(html).toContain('id="loginCard"')
+    expect(html).not.toContain(dbPath)
+    expect((await fetch(`${baseUrl}/api/health`)).status).toBe(200)
+  })
+
+  it("should report scheduled backups on the health check", async () => {
+    await backupScheduler!.runNow()
+
+    const health = (await (await fetch(`${baseUrl}/health`)).json()) as { backups: Record<string, unknown> }
+
+    expect(health.backups).toMatchObject({ schedule: "every 1d", running: false })
+    expect(health.backups.lastBackupFile).toContain(path.join(dir, "scheduled", "kuzu-backup-"))
+    expect(health.backups.nextBackupAt).toBeDefined()
+  })
+})
+
+describe("OAuth with a configured single user", () => {
+  const oauthPort = port + 1
+  const oauthUrl = `http://localhost:${oauthPort}`
+  const oauthDir = fs.mkdtempSync(path.join(os.tmpdir(), "kuzu-oauth-"))
+  const authStore = new MemoryAuthStore()
+  const clientAuth = `Basic ${Buffer.from("client-a:secret-a").toString("base64")}`
+  let server: ReturnType<typeof createFastMCPServer>["server"]
+
+  const grant = (token: string, clientId?: string, clientSecret?: string): Promise<Response> =>
+    fetch(`${oauthUrl}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: token,
+        ...(clientId && { client_id: clientId }),
+        ...(clientSecret && { client_secret: clientSecret }),
+      }).toString(),
+    })
+
+  const introspect = async (token: string): Promise<{ active: boolean }> => {
+    const response = await fetch(`${oauthUrl}/oauth/introspect`, {
+      method: "POST",
+      headers: { Authorization: clientAuth, "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ token }).toString(),
+    })
+    return (await response.json()) as { active: boolean }
+  }
+
+  const saveToken = (token: string, record: Partial<RefreshTokenRecord> = {}): Promise<void> =>
+    authStore.saveRefreshToken(token, {
+      createdAt: Date.now(),
+      userId: "alice",
+      scope: "read",
+      clientId: "client-a",
+      familyId: `family-${token}`,
+      ...record,
+    })
+
+  beforeAll(async () => {
+    await authStore.saveClient({
+      clientId: "client-a",
+      clientSecretHash: digestSecret("secret-a"),
+      issuedAt: Date.now(),
+      grantTypes: ["authorization_code", "refresh_token"],
+      responseTypes: ["code"],
+      redirectUris: [],
+      tokenEndpointAuthMethod: "client_secret_basic",
+    })
+    ;({ server } = createFastMCPServer({
+      databasePath: path.join(oauthDir, "db"),
+      isReadOnly: false,
+      port: oauthPort,
+      oauth: { enabled: true, username: "alice", password: "secret", issuer: oauthUrl },
+      basicAuth: { username: "owner", password: "secret" },
+      authStore,
+    }))
+    await server.start({ transportType: "httpStream", httpStream: { port: oauthPort, endpoint: "/mcp" } })
+  })
+
+  afterAll(async () => {
+    await server.stop()
+    fs.rmSync(oauthDir, { recursive: true, force: true })
+  })
+
+  it("should give the configured user the admin role by default", async () => {
+    const owner = `Basic ${Buffer.from("owner:secret").toString("base64")}`
+
+    expect((await fetch(`${oauthUrl}/api/keys`, { headers: { Authorization: owner } })).status).toBe(200)
+    const restore = await fetch(`${oauthUrl}/api/restore`, { method: "POST", headers: { Authorization: owner } })
+    // Past the role check, but without a multipart body
+    expect(restore.status).toBe(400)
+  })
+
+  it("should only refresh for the client the token was issued to", async () => {
+    await saveToken("bound")
+
+    const stolen = await grant("bound", "client-b")
+    expect(stolen.status).toBe(400)
+    expect(await stolen.json()).toMatchObject({ error: "invalid_grant" })
+    expect((await grant("bound")).status).toBe(400)
+
+    // The rejected attempts did not spend the token
+    const refreshed = await grant("bound", "client-a", "secret-a")
+    expect(refreshed.status).toBe(200)
+    expect(await refreshed.json()).toMatchObject({ token_type: "Bearer", scope: "read" })
+  })
+
+  it("should require confidential clients to authenticate when refreshing", async () => {
+    await saveToken("confidential")
+
+    const unauthenticated = await grant("confidential", "client-a")
+    expect(unauthenticated.status).toBe(401)
+    expect(await unauthenticated.json()).toMatchObject({ error: "invalid_client" })
+    expect((await grant("confidential", "client-a", "wrong")).status).toBe(401)
+
+    const refreshed = await fetch(`${oauthUrl}/oauth/token`, {
+      method: "POST",
+      headers: { Authorization: clientAuth, "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ grant_type: "refresh_token", refresh_token: "confidential" }).toString(),
+    })
+    expect(refreshed.status).toBe(200)
+  })
+
+  it("should refresh public clients by client_id alone", async () => {
+    await authStore.saveClient({
+      clientId: "client-public",
+      clientSecretHash: digestSecret("unused"),
+      issuedAt: Date.now(),
+      grantTypes: ["authorization_code", "refresh_token"],
+      responseTypes: ["code"],
+      redirectUris: [],
+      tokenEndpointAuthMethod: "none",
+    })
+    await saveToken("public", { clientId: "client-public" })
+
+    expect((await grant("public", "client-public")).status).toBe(200)
+  })
+
+  it("should escape client and request values on the login page", async () => {
+    // Stored before registration rejected markup in names
+    await authStore.saveClient({
+      clientId: "client-x",
+      clientSecretHash: digestSecret("secret-x"),
+      issuedAt: Date.now(),
+      grantTypes: ["authorization_code"],
+      responseTypes: ["code"],
+      redirectUris: [],
+      tokenEndpointAuthMethod: "client_secret_basic",
+      clientName: "<script>alert(1)</script>",
+    })
+    const authorize = new URL(`${oauthUrl}/oauth/authorize`)
+    authorize.search = new URLSearchParams({
+      response_type: "code",
+      client_id: "client-x",
+      redirect_uri: "http://localhost/callback",
+      state: '"><img src=x onerror=alert(1)>',
+    }).toString()
+
+    const html = await (await fetch(authorize)).text()
+
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;")
+    expect(html).toContain('value="&quot;&gt;&lt;img src=x onerror=alert(1)&gt;"')
+    expect(html).not.toContain("<script>")
+    expect(html).not.toContain("<img")
+  })
+
+  it("should reject client names with markup at registration", async () => {
+    const register = (clientName: string): Promise<Response> =>
+      fetch(`${oauthUrl}/oauth/register`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ client_name: clientName, redirect_uris: ["http://localhost/callback"] }),
+      })
+
+    const rejected = await register("<script>alert(1)</script>")
+    expect(rejected.status).toBe(400)
+    expect(await rejected.json()).toMatchObject({ error: "invalid_client_metadata" })
+    expect((await register("Claude Desktop")).status).toBe(201)
+  })
+
+  it("should report expired refresh tokens as inactive", async () => {
+    await saveToken("current")
+    await saveToken("expired", { createdAt: Date.now() - REFRESH_TOKEN_TTL - 1000 })
+
+    expect(await introspect("current")).toMatchObject({ active: true, client_id: "client-a" })
+    expect(await introspect("expired")).toEqual({ active: false })
+    expect((await grant("expired", "client-a", "secret-a")).status).toBe(400)
+  })
+})
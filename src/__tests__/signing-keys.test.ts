@@ -0,0 +1,119 @@
+import { describe, it, expect, afterAll, vi, afterEach } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { createPublicKey, type JsonWebKey } from "crypto"
+import * as jwt from "jsonwebtoken"
+import { KEYS_FILE, KeyRing, parseSigningAlgorithm } from "../signing-keys"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kuzu-signing-keys-"))
+const HOUR = 60 * 60 * 1000
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("KeyRing", () => {
+  it.each(["RS256", "ES256"] as const)("should sign and verify %s tokens with a kid", (algorithm) => {
+    const ring = KeyRing.ephemeral({ algorithm, retention: HOUR })
+
+    const token = ring.sign({ sub: "alice" })
+
+    expect(jwt.decode(token, { complete: true })?.header).toMatchObject({ alg: algorithm, kid: ring.currentKey.kid })
+    expect(ring.verify(token).sub).toBe("alice")
+  })
+
+  it("should reject tokens from unknown keys and expired tokens", () => {
+    const ring = KeyRing.ephemeral({ retention: HOUR })
+    const other = KeyRing.ephemeral({ retention: HOUR })
+    const expired = ring.sign({ sub: "alice", exp: Math.floor(Date.now() / 1000) - 10 })
+
+    expect(() => ring.verify(other.sign({ sub: "alice" }))).toThrow("Unknown signing key")
+    expect(() => ring.verify(expired)).toThrow("jwt expired")
+    expect(ring.verify(expired, { ignoreExpiration: true }).sub).toBe("alice")
+  })
+
+  it("should keep keys across reopening", async () => {
+    const directory = path.join(dir, "persist")
+    const ring = await KeyRing.open({ directory, retention: HOUR })
+    const token = ring.sign({ sub: "alice" })
+
+    const reopened = await KeyRing.open({ directory, retention: HOUR })
+
+    expect(reopened.currentKey.kid).toBe(ring.currentKey.kid)
+    expect(reopened.verify(token).sub).toBe("alice")
+    expect(fs.statSync(path.join(directory, KEYS_FILE)).mode & 0o777).toBe(0o600)
+  })
+
+  it("should verify tokens of the previous key after rotation", async () => {
+    const ring = await KeyRing.open({ directory: path.join(dir, "rotate"), retention: HOUR })
+    const previous = ring.currentKey.kid
+    const token = ring.sign({ sub: "alice" })
+
+    await ring.rotate()
+
+    expect(ring.currentKey.kid).not.toBe(previous)
+    expect(ring.verify(token).sub).toBe("alice")
+    expect(jwt.decode(ring.sign({ sub: "bob" }), { complete: true })?.header.kid).toBe(ring.currentKey.kid)
+  })
+
+  it("should rotate when due and drop keys retired past the retention", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const ring = await KeyRing.open({ directory: path.join(dir, "due"), rotationInterval: 24 * HOUR, retention: HOUR })
+    const first = ring.currentKey.kid
+
+    expect(await ring.rotateIfDue()).toBe(false)
+    vi.advanceTimersByTime(25 * HOUR)
+    expect(await ring.rotateIfDue()).toBe(true)
+    expect(ring.verificationKeys.map((key) => key.kid)).toContain(first)
+
+    vi.advanceTimersByTime(2 * HOUR)
+    await ring.rotate()
+
+    expect(ring.verificationKeys.map((key) => key.kid)).not.toContain(first)
+    expect(ring.verificationKeys).toHaveLength(2)
+  })
+
+  it("should replace the signing key when the algorithm changes", async () => {
+    const directory = path.join(dir, "algorithm")
+    await KeyRing.open({ directory, algorithm: "RS256", retention: HOUR })
+
+    const ring = await KeyRing.open({ directory, algorithm: "ES256", retention: HOUR })
+
+    expect(ring.currentKey.algorithm).toBe("ES256")
+    expect(ring.verificationKeys.map((key) => key.algorithm)).toEqual(["ES256", "RS256"])
+  })
+
+  it("should publish public keys as a JWKS", async () => {
+    const ring = KeyRing.ephemeral({ algorithm: "ES256", retention: HOUR })
+    await ring.rotate()
+    const token = ring.sign({ sub: "alice" })
+
+    const { keys } = ring.jwks() as { keys: (jwt.JwtHeader & { kty: string; d?: string; crv?: string })[] }
+
+    expect(keys).toHaveLength(2)
+    expect(keys[0]).toMatchObject({ kty: "EC", crv: "P-256", alg: "ES256", use: "sig", kid: ring.currentKey.kid })
+    expect(keys.some((key) => key.d !== undefined)).toBe(false)
+    const publicKey = createPublicKey({ key: keys[0] as unknown as JsonWebKey, format: "jwk" })
+    expect((jwt.verify(token, publicKey) as jwt.JwtPayload).sub).toBe("alice")
+  })
+
+  it("should accept HS256 tokens only with the legacy secret", () => {
+    const legacy = jwt.sign({ sub: "alice" }, "old-secret")
+
+    expect(KeyRing.ephemeral({ retention: HOUR, legacySecret: "old-secret" }).verify(legacy).sub).toBe("alice")
+    expect(() => KeyRing.ephemeral({ retention: HOUR }).verify(legacy)).toThrow("Unknown signing key")
+  })
+})
+
+describe("parseSigningAlgorithm", () => {
+  it("should default to RS256 and reject unsupported algorithms", () => {
+    expect(parseSigningAlgorithm(undefined)).toBe("RS256")
+    expect(parseSigningAlgorithm("es256")).toBe("ES256")
+    expect(() => parseSigningAlgorithm("HS256")).toThrow('Unsupported JWT algorithm "HS256"')
+  })
+})
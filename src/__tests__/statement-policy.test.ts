@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import {
+  classifyStatement,
+  classifyQuery,
+  resolveStatementPolicy,
+  checkStatementPolicy,
+  StatementNotAllowedError,
+} from "../statement-policy"
+import { executeQuery, type DatabaseManager } from "../server-core"
+import { CursorManager } from "../cursor-manager"
+import { TransactionManager } from "../transaction-manager"
+import { WriteGate } from "../lock-manager"
+import type * as kuzu from "kuzu"
+
+describe("classifyStatement", () => {
+  it.each([
+    ["MATCH (n) RETURN n", ["read"]],
+    ["MATCH (n) WHERE n.note = 'CREATE' RETURN n.set", ["read"]],
+    ["MATCH (a) CREATE (a)-[:R]->(:B)", ["write"]],
+    ["MATCH (n) DETACH DELETE n", ["write"]],
+    ["CREATE NODE TABLE A(id INT64, PRIMARY KEY(id))", ["ddl"]],
+    ["CREATE SEQUENCE seq", ["ddl"]],
+    ["ALTER TABLE A ADD b STRING", ["ddl"]],
+    ["DROP TABLE A", ["ddl"]],
+    ["COPY Person FROM 'people.csv'", ["copy-from"]],
+    ["COPY (MATCH (p:Person) RETURN p.name) TO '/tmp/out.csv'", ["copy-to"]],
+    ["LOAD FROM 'people.csv' RETURN *", ["load"]],
+    ["LOAD WITH HEADERS (name STRING) FROM 'people.csv' CREATE (:Person {name: name})", ["load", "write"]],
+    ["LOAD EXTENSION json", ["extension"]],
+    ["LOAD json", ["extension"]],
+    ["INSTALL json", ["extension"]],
+    ["ATTACH 'other.kuzu' AS other (dbtype kuzu)", ["attach"]],
+    ["CALL show_tables() RETURN *", ["read"]],
+    ["CALL threads = 4", ["call-write"]],
+    ["CALL create_fts_index('Book', 'idx', ['title'])", ["call-write"]],
+    ["EXPORT DATABASE '/tmp/dump'", ["export"]],
+    ["IMPORT DATABASE '/tmp/dump'", ["import"]],
+    ["BEGIN TRANSACTION", ["transaction"]],
+  ])("should classify %s", (statement, classes) => {
+    expect(classifyStatement(statement)).toEqual(classes)
+  })
+
+  it("should classify each statement of a query", () => {
+    expect(classifyQuery("MATCH (n) RETURN n; COPY (MATCH (n) RETURN n) TO 'x.csv'")).toEqual([
+      { statement: "MATCH (n) RETURN n", classes: ["read"] },
+      { statement: "COPY (MATCH (n) RETURN n) TO 'x.csv'", classes: ["copy-to"] },
+    ])
+  })
+})
+
+describe("statement policy", () => {
+  afterEach(() => {
+    delete process.env.KUZU_ALLOW_STATEMENTS
+    delete process.env.KUZU_DENY_STATEMENTS
+  })
+
+  it("should deny the modifying classes in read-only mode", () => {
+    const policy = resolveStatementPolicy(true)
+
+    expect(() => checkStatementPolicy(classifyQuery("MATCH (n) RETURN n"), policy, true)).not.toThrow()
+    expect(() => checkStatementPolicy(classifyQuery("COPY A FROM 'a.csv'"), policy, true)).toThrow(
+      "Cannot execute copy-from statements in read-only mode",
+    )
+    expect(() => checkStatementPolicy(classifyQuery("COPY (RETURN 1) TO 'a.csv'"), policy, true)).not.toThrow()
+  })
+
+  it("should read extra denied and allowed classes from the environment", () => {
+    process.env.KUZU_DENY_STATEMENTS = "copy-to, extension"
+    const denied = resolveStatementPolicy(true)
+
+    expect(denied.deny).toEqual(expect.arrayContaining(["write", "copy-to", "extension"]))
+    expect(() => checkStatementPolicy(classifyQuery("INSTALL json"), denied)).toThrow(StatementNotAllowedError)
+
+    process.env.KUZU_ALLOW_STATEMENTS = "read"
+    expect(() =>
+      checkStatementPolicy(classifyQuery("LOAD FROM 'a.csv' RETURN *"), resolveStatementPolicy(false)),
+    ).toThrow("load statements are not allowed on this server")
+  })
+
+  it("should reject unknown class names", () => {
+    process.env.KUZU_DENY_STATEMENTS = "writes"
+
+    expect(() => resolveStatementPolicy(false)).toThrow('Unknown statement class "writes" in KUZU_DENY_STATEMENTS')
+  })
+})
+
+describe("executeQuery statement policy", () => {
+  it("should honour the database's read-only flag", async () => {
+    const query = vi.fn()
+    const dbManager: DatabaseManager = {
+      db: {} as kuzu.Database,
+      conn: { query } as unknown as kuzu.Connection,
+      lockManager: null,
+      writeGate: new WriteGate(),
+      cursorManager: new CursorManager(),
+      transactionManager: new TransactionManager(null),
+      currentDatabasePath: "/tmp/unused",
+      currentIsReadOnly: true,
+      activeQueries: 0,
+    }
+
+    const result = await executeQuery("CREATE NODE TABLE A(id INT64, PRIMARY KEY(id))", dbManager)
+
+    expect(result.isError).toBe(true)
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({
+      error: "STATEMENT_NOT_ALLOWED",
+      statementClass: "ddl",
+    })
+    expect(query).not.toHaveBeenCalled()
+  })
+
+  it("should not let a typed parameter smuggle a write into a read-only query", async () => {
+    const prepare = vi.fn()
+    const dbManager: DatabaseManager = {
+      db: {} as kuzu.Database,
+      conn: { prepare, query: vi.fn() } as unknown as kuzu.Connection,
+      lockManager: null,
+      writeGate: new WriteGate(),
+      cursorManager: new CursorManager(),
+      transactionManager: new TransactionManager(null),
+      currentDatabasePath: "/tmp/unused",
+      currentIsReadOnly: true,
+      activeQueries: 0,
+    }
+
+    const result = await executeQuery("RETURN $x", dbManager, {
+      parameters: { x: { type: "STRING) AS x MATCH (n) DETACH DELETE n RETURN CAST(1", value: null } },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(prepare).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect, afterAll } from "vitest"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { Readable } from "stream"
+import { gzipSync } from "zlib"
+import {
+  extractTarGz,
+  packDirectory,
+  packEntries,
+  safeEntryPath,
+  streamToBuffer,
+  StreamTooLargeError,
+  type TarEntry,
+} from "../tar-archive"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kuzu-tar-"))
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+function entry(name: string, contents: string): TarEntry {
+  const data = Buffer.from(contents)
+  return { name, size: data.length, open: () => Readable.from([data]) }
+}
+
+describe("tar archives", () => {
+  it("should round-trip a directory", async () => {
+    const source = path.join(dir, "source")
+    fs.mkdirSync(path.join(source, "nested"), { recursive: true })
+    fs.writeFileSync(path.join(source, "schema.cypher"), "CREATE NODE TABLE Person(name STRING, PRIMARY KEY(name));")
+    fs.writeFileSync(path.join(source, "nested", "big.bin"), Buffer.alloc(70_000, 7))
+    fs.writeFileSync(path.join(source, "empty.csv"), "")
+
+    const archive = await streamToBuffer(await packDirectory(source))
+    const names = await extractTarGz(Readable.from([archive]), path.join(dir, "copy"))
+
+    expect(names).toEqual(["empty.csv", "nested/big.bin", "schema.cypher"])
+    expect(fs.readFileSync(path.join(dir, "copy", "nested", "big.bin"))).toEqual(Buffer.alloc(70_000, 7))
+    expect(fs.readFileSync(path.join(dir, "copy", "empty.csv"), "utf-8")).toBe("")
+  })
+
+  it("should keep names longer than 100 bytes", async () => {
+    const name = `${"d".repeat(80)}/${"f".repeat(90)}.csv`
+
+    const archive = await streamToBuffer(packEntries([entry(name, "x")]))
+    const names = await extractTarGz(Readable.from([archive]), path.join(dir, "long"))
+
+    expect(names).toEqual([name])
+    expect(fs.readFileSync(path.join(dir, "long", name), "utf-8")).toBe("x")
+  })
+
+  it("should refuse entries outside the destination", async () => {
+    const archive = await streamToBuffer(packEntries([entry("../escape.txt", "x")]))
+
+    await expect(extractTarGz(Readable.from([archive]), path.join(dir, "escape"))).rejects.toThrow(
+      "Refusing archive entry outside the destination",
+    )
+    expect(fs.existsSync(path.join(dir, "escape.txt"))).toBe(false)
+    expect(() => safeEntryPath(dir, "/etc/passwd")).toThrow("outside the destination")
+    expect(safeEntryPath(dir, "a/./b")).toBe(path.join(dir, "a", "b"))
+  })
+
+  it("should reject corrupt headers", async () => {
+    const block = Buffer.alloc(1024)
+    block.write("file.txt", 0)
+    block.write("00000000001\0", 124)
+    block.write("0000000\0", 148)
+
+    await expect(extractTarGz(Readable.from([gzipSync(block)]), path.join(dir, "corrupt"))).rejects.toThrow(
+      "checksum mismatch",
+    )
+  })
+
+  it("should stop collecting a stream past its size limit", async () => {
+    const source = Readable.from([Buffer.alloc(600), Buffer.alloc(600)])
+
+    await expect(streamToBuffer(source, 1000)).rejects.toBeInstanceOf(StreamTooLargeError)
+    expect(source.destroyed).toBe(true)
+    expect(await streamToBuffer(Readable.from([Buffer.alloc(1000)]), 1000)).toHaveLength(1000)
+  })
+})
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from "vitest"
+import * as fs from "fs/promises"
+import * as kuzu from "kuzu"
+import { TransactionManager, TransactionBusyError, TransactionNotFoundError } from "../transaction-manager"
+import { LockManager, WriteGate } from "../lock-manager"
+import { executeQuery, beginTransaction, endTransaction, DatabaseManager } from "../server-core"
+import { CursorManager } from "../cursor-manager"
+
+describe("TransactionManager", () => {
+  const testDbPath = "/tmp/test-kuzu-transactions"
+  let db: kuzu.Database
+  let querySpy: MockInstance<(cypher: string) => Promise<kuzu.QueryResult>>
+
+  beforeEach(async () => {
+    await fs.mkdir(testDbPath, { recursive: true })
+    db = new kuzu.Database(testDbPath)
+    querySpy = vi.spyOn(kuzu.Connection.prototype, "query")
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+    await fs.rm(testDbPath, { recursive: true, force: true })
+  })
+
+  it("should begin a transaction on its own connection", async () => {
+    const transactions = new TransactionManager(null)
+
+    const transaction = await transactions.begin(db, "alice")
+
+    expect(transaction.conn).toBeInstanceOf(kuzu.Connection)
+    expect(querySpy).toHaveBeenCalledWith("BEGIN TRANSACTION;")
+    expect(transactions.size).toBe(1)
+    await transactions.rollbackAll()
+  })
+
+  it("should start read-only transactions when requested", async () => {
+    const transactions = new TransactionManager(null)
+
+    await transactions.begin(db, "alice", true)
+
+    expect(querySpy).toHaveBeenCalledWith("BEGIN TRANSACTION READ ONLY;")
+    await transactions.rollbackAll()
+  })
+
+  it("should only allow the owner to use a transaction", async () => {
+    const transactions = new TransactionManager(null)
+    const transaction = await transactions.begin(db, "alice")
+
+    expect(transactions.get(transaction.id, "alice")).toBe(transaction)
+    expect(() => transactions.get(transaction.id, "bob")).toThrow(TransactionNotFoundError)
+    await expect(transactions.commit(transaction.id, "bob")).rejects.toThrow(TransactionNotFoundError)
+    await transactions.rollbackAll()
+  })
+
+  it("should commit and forget the transaction", async () => {
+    const transactions = new TransactionManager(null)
+    const transaction = await transactions.begin(db, "alice")
+
+    await transactions.commit(transaction.id, "alice")
+
+    expect(querySpy).toHaveBeenLastCalledWith("COMMIT;")
+    expect(transactions.isActive(transaction.id)).toBe(false)
+  })
+
+  it("should close the transaction's connection when it ends", async () => {
+    const transactions = new TransactionManager(null)
+    const transaction = await transactions.begin(db, "alice")
+    const closeSpy = vi.spyOn(transaction.conn, "close")
+
+    await transactions.rollback(transaction.id, "alice")
+
+    expect(closeSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it("should close the connection when BEGIN fails", async () => {
+    const closeSpy = vi.spyOn(kuzu.Connection.prototype, "close")
+    querySpy.mockRejectedValueOnce(new Error("Cannot start a new transaction"))
+    const transactions = new TransactionManager(null)
+
+    await expect(transactions.begin(db, "alice")).rejects.toThrow("Cannot start a new transaction")
+
+    expect(closeSpy).toHaveBeenCalledTimes(1)
+    expect(transactions.size).toBe(0)
+  })
+
+  it("should refuse statements, commit and rollback while a statement is running", async () => {
+    const transactions = new TransactionManager(null)
+    const transaction = await transactions.begin(db, "alice")
+    let finish = (): void => undefined
+    const running = transactions.run(
+      transaction,
+      true,
+      () =>
+        new Promise<string>((resolve) => {
+          finish = (): void => {
+            resolve("done")
+          }
+        }),
+    )
+
+    await expect(transactions.run(transaction, false, () => Promise.resolve("overlap"))).rejects.toThrow(
+      TransactionBusyError,
+    )
+    await expect(transactions.commit(transaction.id, "alice")).rejects.toThrow(TransactionBusyError)
+    await expect(transactions.rollback(transaction.id, "alice")).rejects.toThrow(TransactionBusyError)
+    expect(transactions.isActive(transaction.id)).toBe(true)
+
+    finish()
+    await expect(running).resolves.toBe("done")
+    await transactions.commit(transaction.id, "alice")
+    expect(querySpy).toHaveBeenLastCalledWith("COMMIT;")
+  })
+
+  it("should end the transaction when a statement fails", async () => {
+    const transactions = new TransactionManager(null)
+    const transaction = await transactions.begin(db, "alice")
+
+    await expect(
+      transactions.run(transaction, true, () => Promise.reject(new Error("Runtime exception"))),
+    ).rejects.toThrow("Runtime exception")
+
+    expect(transactions.isActive(transaction.id)).toBe(false)
+  })
+
+  it("should roll back transactions that stay idle past the timeout", async () => {
+    vi.useFakeTimers()
+    const transactions = new TransactionManager(null, 1000, 100)
+    const transaction = await transactions.begin(db, "alice")
+
+    vi.advanceTimersByTime(500)
+    expect(await transactions.rollbackExpired()).toBe(0)
+
+    vi.advanceTimersByTime(1000)
+    expect(await transactions.rollbackExpired()).toBe(1)
+    expect(querySpy).toHaveBeenLastCalledWith("ROLLBACK;")
+    expect(transactions.isActive(transaction.id)).toBe(false)
+  })
+
+  describe("with multi-agent locking", () => {
+    const lockFile = `${testDbPath}/.mcp_write_lock`
+
+    it("should hold the write lock from the first write until commit", async () => {
+      const lockManager = new LockManager(testDbPath, "test-agent", 1000)
+      const transactions = new TransactionManager(lockManager, 5000)
+      const transaction = await transactions.begin(db, "alice")
+
+      await transactions.run(transaction, false, () => Promise.resolve([]))
+      await expect(fs.access(lockFile)).rejects.toThrow()
+
+      await transactions.run(transaction, true, () => Promise.resolve([]))
+      await transactions.run(transaction, true, () => Promise.resolve([]))
+      const lock = JSON.parse(await fs.readFile(lockFile, "utf-8")) as { timeout: number }
+      expect(lock.timeout).toBe(5000)
+
+      await transactions.commit(transaction.id, "alice")
+      await expect(fs.access(lockFile)).rejects.toThrow()
+    })
+  })
+
+  describe("executeQuery with transactionId", () => {
+    function createDbManager(): DatabaseManager {
+      return {
+        db,
+        conn: new kuzu.Connection(db),
+        lockManager: null,
+        writeGate: new WriteGate(),
+        cursorManager: new CursorManager(),
+        transactionManager: new TransactionManager(null),
+        currentDatabasePath: testDbPath,
+        currentIsReadOnly: false,
+        activeQueries: 0,
+      }
+    }
+
+    it("should run statements on the transaction's connection", async () => {
+      const dbManager = createDbManager()
+      const begun = await beginTransaction(dbManager, "alice")
+      const { transactionId } = JSON.parse(begun.content[0]!.text) as { transactionId: string }
+      const transaction = dbManager.transactionManager.get(transactionId, "alice")
+
+      const result = await executeQuery("CREATE (:Person {name: 'Ann'})", dbManager, {
+        transactionId,
+        sessionId: "alice",
+      })
+
+      expect(result.isError).toBe(false)
+      expect(querySpy.mock.contexts.at(-1)).toBe(transaction.conn)
+
+      const committed = await endTransaction(transactionId, "commit", dbManager, "alice")
+      expect(JSON.parse(committed.content[0]!.text)).toMatchObject({ status: "committed", statementsExecuted: 1 })
+    })
+
+    it("should report TRANSACTION_NOT_FOUND for unknown transactions", async () => {
+      const dbManager = createDbManager()
+
+      const result = await executeQuery("MATCH (n) RETURN n", dbManager, { transactionId: "missing" })
+
+      expect(result.isError).toBe(true)
+      expect(JSON.parse(result.content[0]!.text)).toMatchObject({ error: "TRANSACTION_NOT_FOUND" })
+    })
+
+    it("should reject writes in read-only transactions", async () => {
+      const dbManager = createDbManager()
+      const begun = await beginTransaction(dbManager, "alice", true)
+      const { transactionId } = JSON.parse(begun.content[0]!.text) as { transactionId: string }
+
+      const result = await executeQuery("CREATE (:Person {name: 'Ann'})", dbManager, {
+        transactionId,
+        sessionId: "alice",
+      })
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0]!.text).toContain("read-only transaction")
+      await dbManager.transactionManager.rollbackAll()
+    })
+  })
+})
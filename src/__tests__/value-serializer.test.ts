@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest"
+import { formatDuration, serializeRow, serializeValue, valueReplacer } from "../value-serializer"
+
+// Shapes as produced by the Kuzu Node.js binding
+const alice = { _id: { offset: 0, table: 0 }, _label: "Person", name: "Alice", born: new Date(Date.UTC(1990, 4, 17)) }
+const bob = { _id: { offset: 1, table: 0 }, _label: "Person", name: "Bob" }
+const knows = {
+  _id: { offset: 5, table: 2 },
+  _label: "Knows",
+  _src: { offset: 0, table: 0 },
+  _dst: { offset: 1, table: 0 },
+  since: 2020,
+}
+
+describe("serializeValue", () => {
+  it("should serialize nodes with label and properties", () => {
+    expect(serializeValue(alice, "NODE")).toEqual({
+      _type: "node",
+      id: "0:0",
+      label: "Person",
+      properties: { name: "Alice", born: "1990-05-17T00:00:00.000Z" },
+    })
+  })
+
+  it("should serialize relationships with their endpoints", () => {
+    expect(serializeValue(knows, "REL")).toEqual({
+      _type: "rel",
+      id: "2:5",
+      label: "Knows",
+      src: "0:0",
+      dst: "0:1",
+      properties: { since: 2020 },
+    })
+  })
+
+  it("should serialize recursive rels as ordered paths", () => {
+    const path = serializeValue({ _nodes: [bob], _rels: [knows, knows] }, "RECURSIVE_REL")
+
+    expect(path).toMatchObject({
+      _type: "path",
+      nodes: [{ _type: "node", id: "0:1" }],
+      rels: [
+        { _type: "rel", id: "2:5" },
+        { _type: "rel", id: "2:5" },
+      ],
+      length: 2,
+    })
+  })
+
+  it("should recognize graph values without a type", () => {
+    expect(serializeValue([alice, knows])).toMatchObject([{ _type: "node" }, { _type: "rel" }])
+    expect(serializeValue({ offset: 3, table: 1 })).toBe("1:3")
+  })
+
+  it("should format dates and timestamps as ISO-8601", () => {
+    const value = new Date(Date.UTC(2024, 0, 31, 12, 30))
+
+    expect(serializeValue(value, "DATE")).toBe("2024-01-31")
+    expect(serializeValue(value, "TIMESTAMP")).toBe("2024-01-31T12:30:00.000Z")
+    expect(serializeValue(value, "TIMESTAMP_TZ")).toBe("2024-01-31T12:30:00.000Z")
+    expect(serializeValue([value], "DATE[]")).toEqual(["2024-01-31"])
+  })
+
+  it("should format intervals as ISO-8601 durations", () => {
+    expect(serializeValue(3 * 86400000 + 4 * 3600000 + 5 * 60000 + 6500, "INTERVAL")).toBe("P3DT4H5M6.5S")
+    expect(formatDuration(0)).toBe("PT0S")
+    expect(formatDuration(-90000)).toBe("-PT1M30S")
+  })
+
+  it("should encode blobs as base64 and large integers as strings", () => {
+    expect(serializeValue(Buffer.from("kuzu"), "BLOB")).toBe("a3V6dQ==")
+    expect(serializeValue(BigInt("170141183460469231731687303715884105727"), "INT128")).toBe(
+      "170141183460469231731687303715884105727",
+    )
+  })
+
+  it("should keep non-finite doubles as strings", () => {
+    expect(serializeValue(Number.NaN, "DOUBLE")).toBe("NaN")
+    expect(serializeValue(Number.NEGATIVE_INFINITY, "DOUBLE")).toBe("-Infinity")
+  })
+
+  it("should use member types of structs and maps", () => {
+    const day = new Date(Date.UTC(2024, 1, 29))
+
+    expect(serializeValue({ at: day, tags: ["a"] }, "STRUCT(at DATE, tags STRING[])")).toEqual({
+      at: "2024-02-29",
+      tags: ["a"],
+    })
+    expect(serializeValue({ due: day }, "MAP(STRING, DATE)")).toEqual({ due: "2024-02-29" })
+  })
+})
+
+describe("serializeRow", () => {
+  it("should apply column types by name", () => {
+    const row = serializeRow({ d: new Date(Date.UTC(2024, 0, 1)), i: 1500, n: null }, [
+      { name: "d", type: "DATE" },
+      { name: "i", type: "INTERVAL" },
+    ])
+
+    expect(row).toEqual({ d: "2024-01-01", i: "PT1.5S", n: null })
+  })
+})
+
+describe("valueReplacer", () => {
+  it("should serialize values nested in other JSON", () => {
+    const text = JSON.stringify({ value: 1n, blob: Buffer.from("kuzu"), at: [new Date(0)] }, valueReplacer)
+
+    expect(JSON.parse(text)).toEqual({ value: "1", blob: "a3V6dQ==", at: ["1970-01-01T00:00:00.000Z"] })
+  })
+})
@@ -0,0 +1,85 @@
+import { randomBytes, timingSafeEqual } from "crypto"
+import { digestSecret, type ApiKeyRecord, type AuthStore } from "./auth-store.js"
+
+// Keys read "kz_<id>_<secret>"; the id finds the record, the secret proves possession
+export const API_KEY_PREFIX = "kz_"
+
+const API_KEY_PATTERN = /^kz_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+export interface NewApiKey {
+  name: string
+  userId?: string
+  scope?: string
+  expiresAt?: number
+}
+
+// What listings show about a key; never the digest
+export type ApiKeyInfo = Omit<ApiKeyRecord, "keyHash"> & { expired: boolean }
+
+/**
+ * Parse a key lifetime: "90d", "12h" or "30m" from now, or an ISO date.
+ * Returns the expiry timestamp.
+ */
+export function parseExpiry(value: string, now = Date.now()): number {
+  const duration = /^(\d+)([mhd])$/.exec(value.trim())
+  if (duration) {
+    return now + parseInt(duration[1]!, 10) * DURATION_UNITS[duration[2]!]!
+  }
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) {
+    throw new Error(`Invalid expiry "${value}"; use a duration like 90d, 12h or 30m, or an ISO date`)
+  }
+  if (date <= now) {
+    throw new Error(`Expiry ${value} is in the past`)
+  }
+  return date
+}
+
+/**
+ * Create and save a key. The returned key is the only copy of its secret;
+ * the store keeps a digest.
+ */
+export async function createApiKey(
+  store: AuthStore,
+  options: NewApiKey,
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const id = randomBytes(8).toString("hex")
+  const key = `${API_KEY_PREFIX}${id}_${randomBytes(32).toString("base64url")}`
+  const record: ApiKeyRecord = {
+    id,
+    name: options.name,
+    userId: options.userId || options.name,
+    scope: options.scope || "read",
+    keyHash: digestSecret(key),
+    createdAt: Date.now(),
+    expiresAt: options.expiresAt,
+  }
+  await store.saveApiKey(record)
+  return { key, record }
+}
+
+// The record of a well-formed, unrevoked and unexpired key
+export async function verifyApiKey(store: AuthStore, key: string): Promise<ApiKeyRecord | undefined> {
+  const match = API_KEY_PATTERN.exec(key)
+  if (!match) {
+    return undefined
+  }
+  const record = await store.findApiKey(match[1]!)
+  if (!record || (record.expiresAt !== undefined && record.expiresAt <= Date.now())) {
+    return undefined
+  }
+  const expected = Buffer.from(record.keyHash, "hex")
+  const actual = Buffer.from(digestSecret(key), "hex")
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? record : undefined
+}
+
+export function describeApiKey(record: ApiKeyRecord, now = Date.now()): ApiKeyInfo {
+  const { id, name, userId, scope, createdAt, expiresAt } = record
+  return { id, name, userId, scope, createdAt, expiresAt, expired: expiresAt !== undefined && expiresAt <= now }
+}
@@ -0,0 +1,480 @@
+import * as kuzu from "kuzu"
+import * as fs from "fs/promises"
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto"
+import { executePreparedQuery } from "./query-helpers.js"
+
+export interface StoredUser {
+  username: string
+  userId: string
+  email?: string
+  // Space-separated scope put in the user's tokens; also picks their role (see authorization.ts)
+  scope: string
+  passwordHash: string
+}
+
+export interface AuthorizationCodeRecord {
+  createdAt: number
+  redirectUri?: string
+  codeChallenge?: string
+  codeChallengeMethod?: string
+  userId: string
+  email?: string
+  scope: string
+  clientId?: string
+}
+
+export interface RefreshTokenRecord {
+  createdAt: number
+  userId: string
+  email?: string
+  scope: string
+  clientId?: string
+  // Shared by every token rotated from the same authorization code
+  familyId: string
+  // Set once the token has been exchanged; presenting it again is reuse
+  rotatedAt?: number
+}
+
+export interface RevocationRecord {
+  // Kept until every token it covers has expired
+  expiresAt: number
+}
+
+export interface ClientRecord {
+  clientId: string
+  clientSecretHash: string
+  issuedAt: number
+  grantTypes: string[]
+  responseTypes: string[]
+  redirectUris: string[]
+  tokenEndpointAuthMethod: string
+  clientName?: string
+  scope?: string
+}
+
+export interface ApiKeyRecord {
+  id: string
+  name: string
+  // User the key acts as; permissions file entries for this id apply to it
+  userId: string
+  scope: string
+  // SHA-256 digest of the whole key; the key itself is only shown when created
+  keyHash: string
+  createdAt: number
+  expiresAt?: number
+}
+
+/**
+ * Users, OAuth clients, API keys, authorization codes, refresh tokens and revocations.
+ * Codes and tokens are looked up by value but only their SHA-256 digest is
+ * stored, so a leaked store cannot be replayed.
+ */
+export interface AuthStore {
+  readonly description: string
+  findUser(username: string): Promise<StoredUser | undefined>
+  listUsers(): Promise<StoredUser[]>
+  saveUser(user: StoredUser): Promise<void>
+  deleteUser(username: string): Promise<boolean>
+  findClient(clientId: string): Promise<ClientRecord | undefined>
+  saveClient(client: ClientRecord): Promise<void>
+  findApiKey(id: string): Promise<ApiKeyRecord | undefined>
+  listApiKeys(): Promise<ApiKeyRecord[]>
+  saveApiKey(record: ApiKeyRecord): Promise<void>
+  deleteApiKey(id: string): Promise<boolean>
+  saveAuthorizationCode(code: string, record: AuthorizationCodeRecord): Promise<void>
+  // Codes are single use, so reading one removes it
+  takeAuthorizationCode(code: string): Promise<AuthorizationCodeRecord | undefined>
+  saveRefreshToken(token: string, record: RefreshTokenRecord): Promise<void>
+  // Unexpired refresh token, whether or not it has been rotated
+  findRefreshToken(token: string): Promise<RefreshTokenRecord | undefined>
+  // Mark a refresh token rotated; reused is set when it already was, and the caller should revoke its family
+  useRefreshToken(token: string): Promise<{ record: RefreshTokenRecord; reused: boolean } | undefined>
+  // Delete every refresh token of a family and revoke the access tokens issued from it
+  revokeTokenFamily(familyId: string, expiresAt: number): Promise<void>
+  // Revoke an access token by its jti
+  revokeAccessToken(jti: string, expiresAt: number): Promise<void>
+  // Whether an access token's jti or family has been revoked
+  isRevoked(jti: string | undefined, familyId: string | undefined): Promise<boolean>
+  purgeExpired(now: number): Promise<void>
+}
+
+export const AUTHORIZATION_CODE_TTL = 10 * 60 * 1000 // 10 minutes
+export const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000 // 30 days
+
+const SCRYPT_KEY_LENGTH = 32
+
+function scryptKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+}
+
+// "scrypt$<salt>$<key>", both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const key = await scryptKey(password, salt)
+  return `scrypt$${salt.toString("base64")}$${key.toString("base64")}`
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, key] = passwordHash.split("$")
+  if (scheme !== "scrypt" || !salt || !key) {
+    return false
+  }
+  const expected = Buffer.from(key, "base64")
+  const actual = await scryptKey(password, Buffer.from(salt, "base64"))
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Hash of a password nobody has, checked for unknown usernames so they take as long as wrong passwords
+let decoyHash: Promise<string> | null = null
+
+export async function authenticateUser(
+  store: AuthStore,
+  username: string,
+  password: string,
+): Promise<StoredUser | undefined> {
+  const user = await store.findUser(username)
+  if (!user) {
+    decoyHash ??= hashPassword(randomBytes(16).toString("hex"))
+    await verifyPassword(password, await decoyHash)
+    return undefined
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? user : undefined
+}
+
+export function digestSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex")
+}
+
+type Collection = "users" | "clients" | "apiKeys" | "authorizationCodes" | "refreshTokens" | "revocations"
+
+const COLLECTIONS: Collection[] = ["users", "clients", "apiKeys", "authorizationCodes", "refreshTokens", "revocations"]
+
+/**
+ * The typed store on top of a backend that keeps JSON records by collection
+ * and key. Backends only implement get, put, remove and list.
+ */
+abstract class RecordStore implements AuthStore {
+  abstract readonly description: string
+  private queue: Promise<unknown> = Promise.resolve()
+  protected abstract get(collection: Collection, key: string): Promise<unknown>
+  protected abstract put(collection: Collection, key: string, value: unknown): Promise<void>
+  protected abstract remove(collection: Collection, key: string): Promise<boolean>
+  protected abstract list(collection: Collection): Promise<Array<[string, unknown]>>
+
+  async findUser(username: string): Promise<StoredUser | undefined> {
+    return (await this.get("users", username)) as StoredUser | undefined
+  }
+
+  async listUsers(): Promise<StoredUser[]> {
+    return (await this.list("users")).map(([, user]) => user as StoredUser)
+  }
+
+  saveUser(user: StoredUser): Promise<void> {
+    return this.put("users", user.username, user)
+  }
+
+  deleteUser(username: string): Promise<boolean> {
+    return this.remove("users", username)
+  }
+
+  async findClient(clientId: string): Promise<ClientRecord | undefined> {
+    return (await this.get("clients", clientId)) as ClientRecord | undefined
+  }
+
+  saveClient(client: ClientRecord): Promise<void> {
+    return this.put("clients", client.clientId, client)
+  }
+
+  async findApiKey(id: string): Promise<ApiKeyRecord | undefined> {
+    return (await this.get("apiKeys", id)) as ApiKeyRecord | undefined
+  }
+
+  async listApiKeys(): Promise<ApiKeyRecord[]> {
+    return (await this.list("apiKeys")).map(([, record]) => record as ApiKeyRecord)
+  }
+
+  saveApiKey(record: ApiKeyRecord): Promise<void> {
+    return this.put("apiKeys", record.id, record)
+  }
+
+  deleteApiKey(id: string): Promise<boolean> {
+    return this.remove("apiKeys", id)
+  }
+
+  saveAuthorizationCode(code: string, record: AuthorizationCodeRecord): Promise<void> {
+    return this.put("authorizationCodes", digestSecret(code), record)
+  }
+
+  async takeAuthorizationCode(code: string): Promise<AuthorizationCodeRecord | undefined> {
+    return (await this.take("authorizationCodes", digestSecret(code), AUTHORIZATION_CODE_TTL)) as
+      | AuthorizationCodeRecord
+      | undefined
+  }
+
+  saveRefreshToken(token: string, record: RefreshTokenRecord): Promise<void> {
+    return this.put("refreshTokens", digestSecret(token), record)
+  }
+
+  async findRefreshToken(token: string): Promise<RefreshTokenRecord | undefined> {
+    const record = (await this.get("refreshTokens", digestSecret(token))) as RefreshTokenRecord | undefined
+    return record && Date.now() - record.createdAt <= REFRESH_TOKEN_TTL ? record : undefined
+  }
+
+  useRefreshToken(token: string): Promise<{ record: RefreshTokenRecord; reused: boolean } | undefined> {
+    return this.serialize(async () => {
+      const record = await this.findRefreshToken(token)
+      if (!record) {
+        return undefined
+      }
+      if (record.rotatedAt) {
+        return { record, reused: true }
+      }
+      await this.put("refreshTokens", digestSecret(token), { ...record, rotatedAt: Date.now() })
+      return { record, reused: false }
+    })
+  }
+
+  revokeTokenFamily(familyId: string, expiresAt: number): Promise<void> {
+    return this.serialize(async () => {
+      for (const [key, record] of await this.list("refreshTokens")) {
+        if ((record as RefreshTokenRecord).familyId === familyId) {
+          await this.remove("refreshTokens", key)
+        }
+      }
+      await this.put("revocations", `family:${familyId}`, { expiresAt } satisfies RevocationRecord)
+    })
+  }
+
+  revokeAccessToken(jti: string, expiresAt: number): Promise<void> {
+    return this.put("revocations", `jti:${jti}`, { expiresAt } satisfies RevocationRecord)
+  }
+
+  async isRevoked(jti: string | undefined, familyId: string | undefined): Promise<boolean> {
+    const keys = [jti && `jti:${jti}`, familyId && `family:${familyId}`].filter((key): key is string => !!key)
+    for (const key of keys) {
+      if ((await this.get("revocations", key)) !== undefined) {
+        return true
+      }
+    }
+    return false
+  }
+
+  async purgeExpired(now: number): Promise<void> {
+    for (const [collection, ttl] of [
+      ["authorizationCodes", AUTHORIZATION_CODE_TTL],
+      ["refreshTokens", REFRESH_TOKEN_TTL],
+    ] as const) {
+      for (const [key, record] of await this.list(collection)) {
+        if (now - (record as { createdAt: number }).createdAt > ttl) {
+          await this.remove(collection, key)
+        }
+      }
+    }
+    for (const [key, record] of await this.list("revocations")) {
+      if ((record as RevocationRecord).expiresAt < now) {
+        await this.remove("revocations", key)
+      }
+    }
+  }
+
+  // Remove a record and return it unless it had already expired
+  private take(collection: Collection, key: string, ttl: number): Promise<unknown> {
+    return this.serialize(async () => {
+      const record = (await this.get(collection, key)) as { createdAt: number } | undefined
+      if (!record || !(await this.remove(collection, key))) {
+        return undefined
+      }
+      return Date.now() - record.createdAt > ttl ? undefined : record
+    })
+  }
+
+  // Run read-then-write operations one at a time, so two requests presenting
+  // the same code or refresh token cannot both succeed
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+}
+
+// Lost on restart; used when no store is configured
+export class MemoryAuthStore extends RecordStore {
+  readonly description = "memory"
+  private readonly records = new Map<Collection, Map<string, unknown>>(COLLECTIONS.map((c) => [c, new Map()]))
+
+  protected get(collection: Collection, key: string): Promise<unknown> {
+    return Promise.resolve(this.records.get(collection)!.get(key))
+  }
+
+  protected put(collection: Collection, key: string, value: unknown): Promise<void> {
+    this.records.get(collection)!.set(key, value)
+    return Promise.resolve()
+  }
+
+  protected remove(collection: Collection, key: string): Promise<boolean> {
+    return Promise.resolve(this.records.get(collection)!.delete(key))
+  }
+
+  protected list(collection: Collection): Promise<Array<[string, unknown]>> {
+    return Promise.resolve([...this.records.get(collection)!.entries()])
+  }
+}
+
+type JsonFileContents = Record<Collection, Record<string, unknown>>
+
+/**
+ * Everything in one JSON file, rewritten through a temporary file and a rename
+ * after each change so a crash never leaves it half written
+ */
+export class JsonFileAuthStore extends RecordStore {
+  readonly description: string
+  private writing: Promise<void> = Promise.resolve()
+
+  private constructor(
+    private readonly file: string,
+    private readonly contents: JsonFileContents,
+  ) {
+    super()
+    this.description = `JSON file ${file}`
+  }
+
+  static async open(file: string): Promise<JsonFileAuthStore> {
+    let raw: Partial<JsonFileContents> = {}
+    try {
+      raw = JSON.parse(await fs.readFile(file, "utf-8")) as Partial<JsonFileContents>
+    } catch (error) {
+      if ((error as { code?: string }).code !== "ENOENT") {
+        throw new Error(`Cannot read auth store ${file}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+    const contents = Object.fromEntries(COLLECTIONS.map((c) => [c, raw[c] ?? {}])) as JsonFileContents
+    return new JsonFileAuthStore(file, contents)
+  }
+
+  protected get(collection: Collection, key: string): Promise<unknown> {
+    return Promise.resolve(this.contents[collection][key])
+  }
+
+  protected async put(collection: Collection, key: string, value: unknown): Promise<void> {
+    this.contents[collection][key] = value
+    await this.save()
+  }
+
+  protected async remove(collection: Collection, key: string): Promise<boolean> {
+    if (!(key in this.contents[collection])) {
+      return false
+    }
+    delete this.contents[collection][key]
+    await this.save()
+    return true
+  }
+
+  protected list(collection: Collection): Promise<Array<[string, unknown]>> {
+    return Promise.resolve(Object.entries(this.contents[collection]))
+  }
+
+  private save(): Promise<void> {
+    const text = JSON.stringify(this.contents, null, 2)
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const temporary = `${this.file}.${process.pid}.tmp`
+        await fs.writeFile(temporary, text, { mode: 0o600 })
+        await fs.rename(temporary, this.file)
+      })
+    return this.writing
+  }
+}
+
+const KUZU_TABLES: Record<Collection, string> = {
+  users: "AuthUser",
+  clients: "AuthClient",
+  apiKeys: "AuthApiKey",
+  authorizationCodes: "AuthCode",
+  refreshTokens: "AuthRefreshToken",
+  revocations: "AuthRevocation",
+}
+
+/**
+ * One node table per collection in a Kuzu database of its own. Keeping it out
+ * of the served database keeps credentials away from the query tool.
+ */
+export class KuzuAuthStore extends RecordStore {
+  readonly description: string
+
+  constructor(
+    private readonly conn: kuzu.Connection,
+    databasePath: string,
+  ) {
+    super()
+    this.description = `Kuzu database ${databasePath}`
+  }
+
+  static async open(databasePath: string): Promise<KuzuAuthStore> {
+    const conn = new kuzu.Connection(new kuzu.Database(databasePath))
+    for (const table of Object.values(KUZU_TABLES)) {
+      const result = await conn.query(
+        `CREATE NODE TABLE IF NOT EXISTS ${table}(key STRING, data STRING, PRIMARY KEY(key))`,
+      )
+      result.close()
+    }
+    return new KuzuAuthStore(conn, databasePath)
+  }
+
+  protected async get(collection: Collection, key: string): Promise<unknown> {
+    const rows = await this.run(`MATCH (r:${KUZU_TABLES[collection]} {key: $key}) RETURN r.data AS data`, { key })
+    return rows[0] ? JSON.parse(rows[0].data as string) : undefined
+  }
+
+  protected async put(collection: Collection, key: string, value: unknown): Promise<void> {
+    await this.run(`MERGE (r:${KUZU_TABLES[collection]} {key: $key}) SET r.data = $data`, {
+      key,
+      data: JSON.stringify(value),
+    })
+  }
+
+  protected async remove(collection: Collection, key: string): Promise<boolean> {
+    if ((await this.get(collection, key)) === undefined) {
+      return false
+    }
+    await this.run(`MATCH (r:${KUZU_TABLES[collection]} {key: $key}) DELETE r`, { key })
+    return true
+  }
+
+  protected async list(collection: Collection): Promise<Array<[string, unknown]>> {
+    const rows = await this.run(`MATCH (r:${KUZU_TABLES[collection]}) RETURN r.key AS key, r.data AS data`, {})
+    return rows.map((row) => [row.key as string, JSON.parse(row.data as string)])
+  }
+
+  private async run(cypher: string, parameters: Record<string, unknown>): Promise<Record<string, unknown>[]> {
+    const result = await executePreparedQuery(this.conn, cypher, parameters)
+    try {
+      return await result.getAll()
+    } finally {
+      result.close()
+    }
+  }
+}
+
+/**
+ * Open the store named by --auth-store / KUZU_AUTH_STORE: "json:<file>",
+ * "kuzu:<database path>", or "memory"
+ */
+export async function openAuthStore(spec: string | undefined): Promise<AuthStore> {
+  if (!spec || spec === "memory") {
+    return new MemoryAuthStore()
+  }
+  const colon = spec.indexOf(":")
+  const backend = colon === -1 ? spec : spec.slice(0, colon)
+  const location = colon === -1 ? "" : spec.slice(colon + 1)
+  if ((backend === "json" || backend === "kuzu") && !location) {
+    throw new Error(
+      `Auth store "${spec}" needs a path, e.g. ${backend}:./auth${backend === "json" ? ".json" : ".kuzu"}`,
+    )
+  }
+  if (backend === "json") return JsonFileAuthStore.open(location)
+  if (backend === "kuzu") return KuzuAuthStore.open(location)
+  throw new Error(`Unknown auth store "${spec}"; expected json:<file>, kuzu:<path> or memory`)
+}
@@ -0,0 +1,214 @@
+import { readFileSync } from "fs"
+import { collectReferences } from "./cypher-references.js"
+import { ClassifiedStatement, STATEMENT_CLASSES, StatementClass } from "./statement-policy.js"
+import type { Schema } from "./server-core.js"
+
+export const ROLES = ["reader", "writer", "admin"] as const
+export type Role = (typeof ROLES)[number]
+
+export const TABLE_ACCESS = ["none", "read", "write"] as const
+export type TableAccess = (typeof TABLE_ACCESS)[number]
+
+export interface UserPermissions {
+  userId: string
+  role: Role
+  // Access to tables without a grant; defaults to the role's access
+  defaultAccess: TableAccess
+  // Per-table grants, keyed by lower-cased table name
+  tables: Record<string, TableAccess>
+}
+
+interface PermissionsEntry {
+  role?: Role
+  defaultAccess?: TableAccess
+  tables?: Record<string, TableAccess>
+}
+
+export interface PermissionsConfig {
+  // Used for authenticated users without an entry; their token scope applies when absent
+  default?: PermissionsEntry
+  users: Record<string, PermissionsEntry>
+}
+
+// Statement classes each role may run; admins may run everything
+const ROLE_CLASSES: Record<Role, readonly StatementClass[]> = {
+  reader: ["read"],
+  writer: ["read", "write", "ddl", "copy-from", "load", "transaction"],
+  admin: STATEMENT_CLASSES,
+}
+
+const ROLE_ACCESS: Record<Role, TableAccess> = { reader: "read", writer: "write", admin: "write" }
+
+const ACCESS_RANK: Record<TableAccess, number> = { none: 0, read: 1, write: 2 }
+
+export class PermissionDeniedError extends Error {
+  constructor(
+    public readonly userId: string,
+    message: string,
+    public readonly statement: string,
+    public readonly table?: string,
+  ) {
+    super(message)
+    this.name = "PermissionDeniedError"
+  }
+}
+
+let config: PermissionsConfig | null = null
+
+function oneOf<T extends string>(values: readonly T[], value: unknown, field: string): T {
+  if (!values.includes(value as T)) {
+    throw new Error(`Invalid ${field} ${JSON.stringify(value)}; expected one of ${values.join(", ")}`)
+  }
+  return value as T
+}
+
+function parseEntry(raw: unknown, where: string): PermissionsEntry {
+  if (typeof raw !== "object" || raw === null) {
+    throw new Error(`Permissions for ${where} must be an object`)
+  }
+  const entry = raw as Record<string, unknown>
+  const tables: Record<string, TableAccess> = {}
+  for (const [table, access] of Object.entries((entry.tables ?? {}) as Record<string, unknown>)) {
+    tables[table.toLowerCase()] = oneOf(TABLE_ACCESS, access, `access for table ${table} of ${where}`)
+  }
+  return {
+    role: entry.role === undefined ? undefined : oneOf(ROLES, entry.role, `role of ${where}`),
+    defaultAccess:
+      entry.defaultAccess === undefined
+        ? undefined
+        : oneOf(TABLE_ACCESS, entry.defaultAccess, `defaultAccess of ${where}`),
+    tables,
+  }
+}
+
+export function parsePermissionsConfig(text: string): PermissionsConfig {
+  const raw = JSON.parse(text) as { default?: unknown; users?: Record<string, unknown> }
+  const users: Record<string, PermissionsEntry> = {}
+  for (const [userId, entry] of Object.entries(raw.users ?? {})) {
+    users[userId] = parseEntry(entry, `user ${userId}`)
+  }
+  return { default: raw.default === undefined ? undefined : parseEntry(raw.default, "default"), users }
+}
+
+export function loadPermissionsFile(file: string): PermissionsConfig {
+  config = parsePermissionsConfig(readFileSync(file, "utf-8"))
+  return config
+}
+
+export function setPermissionsConfig(value: PermissionsConfig | null): void {
+  config = value
+}
+
+/**
+ * Read a role and table grants from an OAuth scope: "admin", "write" or
+ * "read" (also "writer"/"reader") pick the role, and "table:Name:access"
+ * grants access to one table
+ */
+export function permissionsFromScope(userId: string, scope: string): UserPermissions {
+  const tokens = scope.split(/\s+/).filter(Boolean)
+  const role: Role = tokens.includes("admin")
+    ? "admin"
+    : tokens.some((t) => t === "write" || t === "writer")
+      ? "writer"
+      : "reader"
+  const tables: Record<string, TableAccess> = {}
+  for (const token of tokens) {
+    const grant = /^table:(.+):(none|read|write)$/.exec(token)
+    if (grant) tables[grant[1]!.toLowerCase()] = grant[2] as TableAccess
+  }
+  return { userId, role, defaultAccess: ROLE_ACCESS[role], tables }
+}
+
+function fromEntry(userId: string, entry: PermissionsEntry, scope: string): UserPermissions {
+  const role = entry.role ?? permissionsFromScope(userId, scope).role
+  return { userId, role, defaultAccess: entry.defaultAccess ?? ROLE_ACCESS[role], tables: entry.tables ?? {} }
+}
+
+/**
+ * Permissions for an authenticated session: its entry in the permissions
+ * file, the file's default entry, or else its token scope. Without a session
+ * (stdio, or HTTP without authentication) nothing is restricted.
+ */
+export function resolvePermissions(session: Record<string, unknown> | undefined): UserPermissions | undefined {
+  if (typeof session?.userId !== "string") {
+    return undefined
+  }
+  const scope = typeof session.scope === "string" ? session.scope : ""
+  const entry = config?.users[session.userId] ?? config?.default
+  return entry ? fromEntry(session.userId, entry, scope) : permissionsFromScope(session.userId, scope)
+}
+
+export function tableAccess(permissions: UserPermissions, table: string): TableAccess {
+  if (permissions.role === "admin") return "write"
+  return permissions.tables[table.toLowerCase()] ?? permissions.defaultAccess
+}
+
+// Whether some table is not fully writable (or readable) for the user
+function restricts(permissions: UserPermissions, below: TableAccess): boolean {
+  if (permissions.role === "admin") return false
+  return [permissions.defaultAccess, ...Object.values(permissions.tables)].some(
+    (access) => ACCESS_RANK[access] < ACCESS_RANK[below],
+  )
+}
+
+// Whether the caller may read every table, as downloading the whole database requires
+export function readsAllTables(permissions: UserPermissions | undefined): boolean {
+  return !permissions || !restricts(permissions, "read")
+}
+
+/**
+ * Check classified statements against the caller's role and table grants,
+ * throwing PermissionDeniedError for the first statement that oversteps them
+ */
+export function checkPermissions(statements: ClassifiedStatement[], permissions: UserPermissions): void {
+  const { userId, role } = permissions
+  for (const { statement, classes } of statements) {
+    const rejected = classes.find((cls) => !ROLE_CLASSES[role].includes(cls))
+    if (rejected) {
+      throw new PermissionDeniedError(userId, `Role ${role} cannot run ${rejected} statements`, statement)
+    }
+    if (role === "admin") continue
+
+    const references = collectReferences(statement)
+    for (const table of references.tables) {
+      if (tableAccess(permissions, table) === "none") {
+        throw new PermissionDeniedError(userId, `No access to table ${table}`, statement, table)
+      }
+    }
+    for (const table of references.writtenTables) {
+      if (tableAccess(permissions, table) !== "write") {
+        throw new PermissionDeniedError(userId, `No write access to table ${table}`, statement, table)
+      }
+    }
+    if (references.writesUnknownTable && restricts(permissions, "write")) {
+      throw new PermissionDeniedError(
+        userId,
+        "Cannot tell which table this statement writes; give every written variable a label",
+        statement,
+      )
+    }
+    if (references.unlabelledPatterns && restricts(permissions, "read")) {
+      throw new PermissionDeniedError(
+        userId,
+        "Patterns without a label could reach tables you cannot access; label every node and relationship",
+        statement,
+      )
+    }
+  }
+}
+
+// Drop the tables the caller cannot access, and relationship endpoints among them
+export function filterSchema(schema: Schema, permissions: UserPermissions | undefined): Schema {
+  if (!permissions) return schema
+  const visible = (name: string): boolean => tableAccess(permissions, name) !== "none"
+  return {
+    nodeTables: schema.nodeTables.filter((table) => visible(table.name)),
+    relTables: schema.relTables
+      .filter((table) => visible(table.name))
+      .map((table) => ({
+        ...table,
+        connectivity: table.connectivity.filter(({ src, dst }) => visible(src) && visible(dst)),
+      }))
+      .filter((table) => table.connectivity.length > 0),
+  }
+}
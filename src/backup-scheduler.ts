@@ -0,0 +1,374 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import { createBackup } from "./backup-utils.js"
+import { WriteGate, type LockManager } from "./lock-manager.js"
+import { withDatabase, type DatabaseManager } from "./server-core.js"
+
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+const DURATION_UNITS: Record<string, number> = { m: MINUTE, h: 60 * MINUTE, d: DAY }
+// Longest a snapshot may hold the write lock
+const BACKUP_LOCK_HOLD = 30 * MINUTE
+// setTimeout cannot wait longer than this; longer waits are taken in steps
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+const CRON_ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+}
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: "day of week", min: 0, max: 7 },
+] as const
+
+// Names written by createBackup: kuzu-backup-2025-01-31T02-00-00-000Z.tar.gz
+const BACKUP_NAME_PATTERN = /^kuzu-backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.tar\.gz$/
+
+export interface BackupSchedule {
+  description: string
+  // The first run time strictly after `after`
+  next: (after: Date) => Date
+}
+
+export interface RetentionPolicy {
+  // Keep the newest backup of each of this many most recent days with backups
+  keepDaily: number
+  // And of each of this many most recent weeks (starting Monday, UTC)
+  keepWeekly: number
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { keepDaily: 7, keepWeekly: 4 }
+
+export interface BackupSchedulerOptions {
+  schedule: BackupSchedule
+  outputDir: string
+  retention: RetentionPolicy
+}
+
+export interface BackupFileInfo {
+  name: string
+  time: Date
+}
+
+export interface BackupStatus {
+  schedule: string
+  outputDir: string
+  running: boolean
+  lastBackupAt?: string
+  lastBackupFile?: string
+  lastError?: string
+  lastErrorAt?: string
+  nextBackupAt?: string
+}
+
+function parseCronField(field: string, spec: (typeof CRON_FIELDS)[number]): Set<number> {
+  const values = new Set<number>()
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!match) {
+      throw new Error(`Invalid cron ${spec.name} "${part}"`)
+    }
+    const step = match[4] ? parseInt(match[4], 10) : 1
+    const start = match[1] === "*" ? spec.min : parseInt(match[2]!, 10)
+    // "5/15" runs from 5 to the end of the range, like "5-59/15"
+    const end = match[1] === "*" || (match[4] && !match[3]) ? spec.max : parseInt(match[3] ?? match[2]!, 10)
+    if (step < 1 || start < spec.min || end > spec.max || start > end) {
+      throw new Error(`Cron ${spec.name} "${part}" is outside ${spec.min}-${spec.max}`)
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(spec.name === "day of week" && value === 7 ? 0 : value)
+    }
+  }
+  return values
+}
+
+/**
+ * A five-field cron expression (minute hour day-of-month month day-of-week)
+ * in local time, with the usual lists, ranges and steps. As in cron, when both
+ * day fields are restricted a day matching either runs.
+ */
+function parseCron(expression: string): BackupSchedule {
+  const fields = (CRON_ALIASES[expression] ?? expression).trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}"; expected 5 fields`)
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i]!))
+  const anyDay = fields[2]!.startsWith("*")
+  const anyWeekday = fields[4]!.startsWith("*")
+  const dayMatches = (time: Date): boolean => {
+    const day = days!.has(time.getDate())
+    const weekday = weekdays!.has(time.getDay())
+    if (anyDay || anyWeekday) return day && weekday
+    return day || weekday
+  }
+
+  const next = (after: Date): Date => {
+    const time = new Date(after.getTime())
+    time.setSeconds(0, 0)
+    time.setMinutes(time.getMinutes() + 1)
+    const limit = after.getTime() + 5 * 366 * DAY
+    while (time.getTime() <= limit) {
+      if (!months!.has(time.getMonth() + 1)) {
+        time.setMonth(time.getMonth() + 1, 1)
+        time.setHours(0, 0, 0, 0)
+      } else if (!dayMatches(time)) {
+        time.setDate(time.getDate() + 1)
+        time.setHours(0, 0, 0, 0)
+      } else if (!hours!.has(time.getHours())) {
+        time.setHours(time.getHours() + 1, 0, 0, 0)
+      } else if (!minutes!.has(time.getMinutes())) {
+        time.setMinutes(time.getMinutes() + 1, 0, 0)
+      } else {
+        return time
+      }
+    }
+    throw new Error(`Cron expression "${expression}" never matches`)
+  }
+
+  next(new Date())
+  return { description: `cron "${expression}"`, next }
+}
+
+/**
+ * Parse a backup schedule: an interval such as "30m", "6h" or "1d", or a cron
+ * expression such as "0 2 * * *" or "@daily"
+ */
+export function parseSchedule(value: string): BackupSchedule {
+  const interval = /^(\d+)([mhd])$/.exec(value.trim())
+  if (interval) {
+    const every = parseInt(interval[1]!, 10) * DURATION_UNITS[interval[2]!]!
+    if (every === 0) {
+      throw new Error(`Backup interval "${value}" must be longer than zero`)
+    }
+    return { description: `every ${value.trim()}`, next: (after) => new Date(after.getTime() + every) }
+  }
+  return parseCron(value.trim())
+}
+
+function parseCount(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value === "") return fallback
+  const count = Number(value)
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${name} must be a whole number, got "${value}"`)
+  }
+  return count
+}
+
+/**
+ * The scheduler settings in KUZU_BACKUP_SCHEDULE, KUZU_BACKUP_DIR,
+ * KUZU_BACKUP_KEEP_DAILY and KUZU_BACKUP_KEEP_WEEKLY, or undefined when no
+ * schedule is set
+ */
+export function loadBackupSchedule(
+  env: Record<string, string | undefined> = process.env,
+): BackupSchedulerOptions | undefined {
+  if (!env.KUZU_BACKUP_SCHEDULE) {
+    return undefined
+  }
+  if (!env.KUZU_BACKUP_DIR) {
+    throw new Error("KUZU_BACKUP_SCHEDULE needs KUZU_BACKUP_DIR (or --backup-dir) for the backups")
+  }
+  return {
+    schedule: parseSchedule(env.KUZU_BACKUP_SCHEDULE),
+    outputDir: env.KUZU_BACKUP_DIR,
+    retention: {
+      keepDaily: parseCount(env.KUZU_BACKUP_KEEP_DAILY, DEFAULT_RETENTION.keepDaily, "KUZU_BACKUP_KEEP_DAILY"),
+      keepWeekly: parseCount(env.KUZU_BACKUP_KEEP_WEEKLY, DEFAULT_RETENTION.keepWeekly, "KUZU_BACKUP_KEEP_WEEKLY"),
+    },
+  }
+}
+
+function dayKey(time: Date): string {
+  return time.toISOString().slice(0, 10)
+}
+
+function weekKey(time: Date): string {
+  const monday = new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate()))
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7))
+  return dayKey(monday)
+}
+
+/**
+ * The backups a retention policy drops: everything but the newest backup of
+ * each of the most recent keepDaily days and keepWeekly weeks. The newest
+ * backup is always kept.
+ */
+export function backupsToPrune(backups: BackupFileInfo[], policy: RetentionPolicy): BackupFileInfo[] {
+  const newestFirst = [...backups].sort((a, b) => b.time.getTime() - a.time.getTime())
+  const keep = new Set(newestFirst.slice(0, 1))
+  const keepNewestPer = (period: (time: Date) => string, count: number): void => {
+    const periods = new Set<string>()
+    for (const backup of newestFirst) {
+      const key = period(backup.time)
+      if (periods.has(key)) continue
+      if (periods.size >= count) break
+      periods.add(key)
+      keep.add(backup)
+    }
+  }
+  keepNewestPer(dayKey, policy.keepDaily)
+  keepNewestPer(weekKey, policy.keepWeekly)
+  return newestFirst.filter((backup) => !keep.has(backup))
+}
+
+// The backups createBackup wrote to a directory, oldest first; other files are ignored
+export async function listBackups(outputDir: string): Promise<BackupFileInfo[]> {
+  const names = await fs.readdir(outputDir).catch(() => [] as string[])
+  const backups: BackupFileInfo[] = []
+  for (const name of names) {
+    const match = BACKUP_NAME_PATTERN.exec(name)
+    if (match) {
+      backups.push({ name, time: new Date(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`) })
+    }
+  }
+  return backups.sort((a, b) => a.time.getTime() - b.time.getTime())
+}
+
+// Delete the backups the policy drops; returns their names
+export async function pruneBackups(outputDir: string, policy: RetentionPolicy): Promise<string[]> {
+  const pruned = backupsToPrune(await listBackups(outputDir), policy)
+  for (const backup of pruned) {
+    await fs.rm(path.join(outputDir, backup.name), { force: true })
+  }
+  return pruned.map((backup) => backup.name)
+}
+
+/**
+ * Back the database up to outputDir. The write gate stays closed for the
+ * length of the copy, so nothing in this process writes meanwhile; the write
+ * lock keeps other agents sharing the database out as well.
+ */
+export async function snapshotDatabase(
+  dbPath: string,
+  outputDir: string,
+  lockManager: LockManager | null,
+  writeGate: WriteGate = new WriteGate(),
+): Promise<string> {
+  return writeGate.exclusive(async () => {
+    const lock = lockManager ? await lockManager.acquireWriteLock(BACKUP_LOCK_HOLD) : null
+    try {
+      return await createBackup(dbPath, outputDir)
+    } finally {
+      if (lock) {
+        await lockManager!.releaseLock(lock)
+      }
+    }
+  })
+}
+
+/**
+ * Takes backups of a served database on a schedule and prunes old ones
+ * according to the retention policy
+ */
+export class BackupScheduler {
+  private timer?: ReturnType<typeof setTimeout>
+  private running: Promise<string> | null = null
+  private lastBackupAt?: Date
+  private lastBackupFile?: string
+  private lastError?: string
+  private lastErrorAt?: Date
+  private nextBackupAt?: Date
+
+  constructor(
+    private readonly dbManager: DatabaseManager,
+    private readonly options: BackupSchedulerOptions,
+  ) {}
+
+  // Pick up the last backup from an earlier run, then wait for the first slot
+  async start(): Promise<void> {
+    const last = (await listBackups(this.options.outputDir)).at(-1)
+    if (last) {
+      this.lastBackupAt = last.time
+      this.lastBackupFile = path.join(this.options.outputDir, last.name)
+    }
+    this.scheduleNext()
+  }
+
+  stop(): void {
+    clearTimeout(this.timer)
+    this.timer = undefined
+    this.nextBackupAt = undefined
+  }
+
+  // Take a backup now, or join the one in progress. Resolves to the backup file.
+  runNow(): Promise<string> {
+    this.running ??= this.backUp().finally(() => {
+      this.running = null
+    })
+    return this.running
+  }
+
+  status(): BackupStatus {
+    return {
+      schedule: this.options.schedule.description,
+      outputDir: this.options.outputDir,
+      running: this.running !== null,
+      lastBackupAt: this.lastBackupAt?.toISOString(),
+      lastBackupFile: this.lastBackupFile,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt?.toISOString(),
+      nextBackupAt: this.nextBackupAt?.toISOString(),
+    }
+  }
+
+  private scheduleNext(): void {
+    const next = this.options.schedule.next(new Date())
+    this.nextBackupAt = next
+    const wait = (): void => {
+      const delay = next.getTime() - Date.now()
+      this.timer = setTimeout(
+        () => {
+          if (Date.now() < next.getTime()) {
+            wait()
+            return
+          }
+          this.runNow()
+            .catch(() => {
+              // Recorded in the status
+            })
+            .finally(() => {
+              if (this.timer) this.scheduleNext()
+            })
+        },
+        Math.max(0, Math.min(delay, MAX_TIMER_DELAY)),
+      )
+      this.timer.unref()
+    }
+    wait()
+  }
+
+  private async backUp(): Promise<string> {
+    try {
+      // A restore must not move the files while they are being copied
+      const file = await withDatabase(this.dbManager, () =>
+        snapshotDatabase(
+          this.dbManager.currentDatabasePath,
+          this.options.outputDir,
+          this.dbManager.lockManager,
+          this.dbManager.writeGate,
+        ),
+      )
+      this.lastBackupAt = new Date()
+      this.lastBackupFile = file
+      this.lastError = undefined
+      this.lastErrorAt = undefined
+      const pruned = await pruneBackups(this.options.outputDir, this.options.retention)
+      console.error(
+        `💾 Backed up the database to ${file}` + (pruned.length > 0 ? `; removed ${pruned.length} old backups` : ""),
+      )
+      return file
+    } catch (error) {
+      this.lastError = (error as Error).message
+      this.lastErrorAt = new Date()
+      console.error("❌ Backup failed:", error)
+      throw error
+    }
+  }
+}
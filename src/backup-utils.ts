@@ -1,9 +1,53 @@
 import * as fs from "fs/promises"
+import * as os from "os"
 import * as path from "path"
-import { Connection } from "kuzu"
+import { createHash, randomBytes } from "crypto"
+import { Connection, Database } from "kuzu"
 import { createReadStream, createWriteStream } from "fs"
+import { Readable, Transform } from "stream"
 import { pipeline } from "stream/promises"
-import { createGzip, createGunzip } from "zlib"
+import {
+  directoryEntries,
+  extractTarGz,
+  packDirectory,
+  packEntries,
+  readTarGz,
+  safeEntryPath,
+  streamToBuffer,
+  type TarEntry,
+} from "./tar-archive.js"
+import { LOCK_FILE_NAME } from "./lock-manager.js"
+
+// Bumped when the backup archive layout changes incompatibly
+export const BACKUP_FORMAT_VERSION = 1
+export const MANIFEST_NAME = "manifest.json"
+// Archive names of the database and its WAL
+const DATABASE_ENTRY = "database"
+const WAL_ENTRY = "database.wal"
+
+// A single database file (Kuzu 0.11 and later) or a database directory
+export type DatabaseLayout = "file" | "directory"
+
+export interface BackupFile {
+  // Archive path: "database", "database.wal" or "database/<file>"
+  path: string
+  size: number
+  sha256: string
+}
+
+export interface BackupManifest {
+  formatVersion: number
+  kuzuVersion: string
+  // Kuzu opens only database files of its own storage version
+  storageVersion: number
+  layout: DatabaseLayout
+  createdAt: string
+  files: BackupFile[]
+}
+
+// File formats EXPORT DATABASE can write the data in
+export const EXPORT_FORMATS = ["csv", "parquet"] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
 
 export interface BackupInfo {
   mainFile: string
@@ -44,129 +88,60 @@ export async function getDatabaseInfo(dbPath: string): Promise<BackupInfo | null
 }
 
 /**
- * Create a gzipped backup of the database files
- * Returns the path to the backup file
+ * Write a backup archive of the database to outputDir, streaming the files.
+ * Returns the path to the backup file.
  */
 export async function createBackup(dbPath: string, outputDir: string): Promise<string> {
-  const info = await getDatabaseInfo(dbPath)
-  if (!info) {
-    throw new Error(`Database not found at ${dbPath}`)
-  }
-
-  // Create output directory if it doesn't exist
   await fs.mkdir(outputDir, { recursive: true })
-
   const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
-  const backupName = `kuzu-backup-${timestamp}.gz`
-  const backupPath = path.join(outputDir, backupName)
-
-  // For simplicity, we'll concatenate the files with a separator
-  // Format: [4 bytes: main file size][main file data][wal file data if exists]
-  const writeStream = createWriteStream(backupPath)
-  const gzip = createGzip()
-
-  // Pipe through gzip
-  gzip.pipe(writeStream)
-
-  // Read main database file
-  const mainData = await fs.readFile(info.mainFile)
-
-  // Prepare header data (unused variable removed)
-
-  // If WAL exists, read it
-  let walData: Buffer | null = null
-  if (info.walFile) {
-    walData = await fs.readFile(info.walFile)
-  }
-
-  // Update header with WAL size
-  const finalHeader = JSON.stringify({
-    mainFileName: path.basename(info.mainFile),
-    mainFileSize: mainData.length,
-    hasWal: !!info.walFile,
-    walFileSize: walData?.length || 0,
-    timestamp: info.timestamp,
-  })
-
-  // Write header length (4 bytes)
-  const headerBuffer = Buffer.from(finalHeader)
-  const headerLengthBuffer = Buffer.allocUnsafe(4)
-  headerLengthBuffer.writeUInt32BE(headerBuffer.length, 0)
-
-  // Write to gzip stream
-  gzip.write(headerLengthBuffer)
-  gzip.write(headerBuffer)
-  gzip.write(mainData)
-  if (walData) {
-    gzip.write(walData)
+  const backupPath = path.join(outputDir, `kuzu-backup-${timestamp}.tar.gz`)
+  try {
+    await pipeline(await createBackupArchive(dbPath), createWriteStream(backupPath))
+  } catch (error) {
+    await fs.rm(backupPath, { force: true })
+    throw error
   }
-  gzip.end()
-
-  // Wait for writing to complete
-  await new Promise<void>((resolve, reject) => {
-    writeStream.on("finish", () => resolve())
-    writeStream.on("error", reject)
-  })
-
   return backupPath
 }
 
 /**
- * Restore a database from a gzipped backup
+ * Restore a backup file to targetDbPath: a backup archive, or a .kuzu file
+ * from before the archive format
  */
-export async function restoreBackup(backupPath: string, targetDbPath: string): Promise<void> {
-  // Check if backup file exists
-  const backupStats = await fs.stat(backupPath)
-  if (!backupStats.isFile()) {
-    throw new Error(`Backup file not found: ${backupPath}`)
-  }
-
-  // Read and decompress the backup
-  const readStream = createReadStream(backupPath)
-  const gunzip = createGunzip()
-
-  const chunks: Buffer[] = []
-  await pipeline(readStream, gunzip, async function (source) {
-    for await (const chunk of source) {
-      chunks.push(chunk as Buffer)
-    }
-  })
-
-  const data = Buffer.concat(chunks)
-
-  // Read header length
-  const headerLength = data.readUInt32BE(0)
-  const headerData = data.subarray(4, 4 + headerLength)
-  const header = JSON.parse(headerData.toString()) as {
-    mainFileSize: number
-    hasWal: boolean
-    walFileSize: number
+export async function restoreBackup(backupPath: string, targetDbPath: string): Promise<BackupManifest | null> {
+  const handle = await fs.open(backupPath, "r")
+  const head = Buffer.alloc(2)
+  try {
+    await handle.read(head, 0, 2, 0)
+  } finally {
+    await handle.close()
   }
-
-  // Extract files
-  let offset = 4 + headerLength
-  const mainData = data.subarray(offset, offset + header.mainFileSize)
-  offset += header.mainFileSize
-
-  let walData: Buffer | null = null
-  if (header.hasWal && header.walFileSize > 0) {
-    walData = data.subarray(offset, offset + header.walFileSize)
+  if (isLegacyBackup(head)) {
+    await restoreSimpleArchive(await fs.readFile(backupPath), targetDbPath)
+    return null
   }
+  return restoreBackupArchive(createReadStream(backupPath), targetDbPath)
+}
 
-  // Write files to target location
-  await fs.writeFile(targetDbPath, mainData)
-  if (walData) {
-    await fs.writeFile(`${targetDbPath}.wal`, walData)
+export function parseExportFormat(value: unknown): ExportFormat {
+  const format = typeof value === "string" && value ? value.toLowerCase() : "csv"
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Unsupported export format "${String(value)}"; expected one of ${EXPORT_FORMATS.join(", ")}`)
   }
+  return format as ExportFormat
 }
 
 /**
  * Export database using Kuzu's EXPORT DATABASE command
  */
-export async function exportDatabase(conn: Connection, exportPath: string): Promise<void> {
+export async function exportDatabase(
+  conn: Connection,
+  exportPath: string,
+  format: ExportFormat = "csv",
+): Promise<void> {
   await fs.mkdir(exportPath, { recursive: true })
 
-  const query = `EXPORT DATABASE '${exportPath}'`
+  const query = `EXPORT DATABASE '${exportPath}' (format="${format}")`
   const result = await conn.query(query)
 
   // Wait for export to complete
@@ -195,56 +170,294 @@ export async function importDatabase(conn: Connection, importPath: string): Prom
   await result.getAll()
 }
 
+function temporaryPath(prefix: string): string {
+  return path.join(os.tmpdir(), `${prefix}-${Date.now()}-${randomBytes(4).toString("hex")}`)
+}
+
+/**
+ * Run EXPORT DATABASE into a temporary directory and return a tar.gz stream
+ * of its schema.cypher, copy.cypher and data files. The directory is removed
+ * once the stream has been read or destroyed.
+ */
+export async function exportDatabaseArchive(conn: Connection, format: ExportFormat = "csv"): Promise<Readable> {
+  const exportDir = temporaryPath("kuzu-export")
+  try {
+    await exportDatabase(conn, exportDir, format)
+    const archive = await packDirectory(exportDir)
+    archive.once("close", () => {
+      fs.rm(exportDir, { recursive: true, force: true }).catch(() => {})
+    })
+    return archive
+  } catch (error) {
+    await fs.rm(exportDir, { recursive: true, force: true }).catch(() => {})
+    throw error
+  }
+}
+
+export function exportArchiveName(format: ExportFormat): string {
+  return `kuzu-export-${new Date().toISOString().slice(0, 10)}-${format}.tar.gz`
+}
+
+// The directory holding schema.cypher: the archive root, or its only top-level directory
+async function findExportRoot(directory: string): Promise<string> {
+  const entries = await fs.readdir(directory, { withFileTypes: true })
+  if (entries.some((entry) => entry.isFile() && entry.name === "schema.cypher")) {
+    return directory
+  }
+  const [only] = entries
+  if (entries.length === 1 && only?.isDirectory()) {
+    return findExportRoot(path.join(directory, only.name))
+  }
+  throw new Error("Archive does not contain an EXPORT DATABASE directory (schema.cypher not found)")
+}
+
 /**
- * Create a simple ZIP-like archive of database files in memory
- * Returns a Buffer containing both files
+ * Unpack a tar.gz of EXPORT DATABASE output and IMPORT it into a new database
+ * at targetDbPath. Nothing is left at targetDbPath when the import fails.
  */
-export async function createSimpleArchive(dbPath: string): Promise<Buffer> {
-  const info = await getDatabaseInfo(dbPath)
-  if (!info) {
+export async function importDatabaseArchive(archive: Readable, targetDbPath: string): Promise<void> {
+  const importDir = temporaryPath("kuzu-import")
+  try {
+    await extractTarGz(archive, importDir)
+    const root = await findExportRoot(importDir)
+    const db = new Database(targetDbPath)
+    const conn = new Connection(db)
+    try {
+      await importDatabase(conn, root)
+      // Fold the WAL into the database file so the files can be moved into place
+      const result = await conn.query("CHECKPOINT")
+      await result.getAll()
+    } finally {
+      await conn.close()
+      await db.close()
+    }
+  } catch (error) {
+    await removeDatabaseFiles(targetDbPath)
+    throw error
+  } finally {
+    await fs.rm(importDir, { recursive: true, force: true }).catch(() => {})
+  }
+}
+
+// A database path and its WAL, whether the database is a file or a directory
+export async function removeDatabaseFiles(dbPath: string): Promise<void> {
+  await fs.rm(dbPath, { recursive: true, force: true })
+  await fs.rm(`${dbPath}.wal`, { force: true })
+}
+
+// Rename a database and its WAL, skipping a WAL that does not exist
+export async function moveDatabaseFiles(from: string, to: string): Promise<void> {
+  for (const suffix of ["", ".wal"]) {
+    try {
+      await fs.rename(`${from}${suffix}`, `${to}${suffix}`)
+    } catch (error) {
+      if ((error as { code?: string }).code !== "ENOENT") throw error
+    }
+  }
+}
+
+export class BackupArchiveError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "BackupArchiveError"
+  }
+}
+
+function databaseFileEntry(name: string, file: string, stats: { size: number; mtime: Date }): TarEntry {
+  return { name, size: stats.size, mtime: stats.mtime, open: () => createReadStream(file) }
+}
+
+// The database's files as archive entries, under DATABASE_ENTRY
+async function databaseEntries(dbPath: string): Promise<{ layout: DatabaseLayout; entries: TarEntry[] }> {
+  let stats
+  try {
+    stats = await fs.stat(dbPath)
+  } catch {
     throw new Error(`Database not found at ${dbPath}`)
   }
 
-  // Read files
-  const mainData = await fs.readFile(info.mainFile)
-  const walData = info.walFile ? await fs.readFile(info.walFile) : null
-
-  // Create a simple format:
-  // [4 bytes: header length][header JSON][main file][wal file if exists]
-  const header = {
-    mainFileName: path.basename(info.mainFile),
-    mainFileSize: mainData.length,
-    hasWal: !!walData,
-    walFileSize: walData?.length || 0,
-    timestamp: info.timestamp.toISOString(),
+  const entries: TarEntry[] = []
+  const layout: DatabaseLayout = stats.isDirectory() ? "directory" : "file"
+  if (layout === "directory") {
+    for (const entry of await directoryEntries(dbPath)) {
+      // The multi-agent write lock belongs to the running server, not the data
+      if (entry.name !== LOCK_FILE_NAME) {
+        entries.push({ ...entry, name: `${DATABASE_ENTRY}/${entry.name}` })
+      }
+    }
+  } else {
+    entries.push(databaseFileEntry(DATABASE_ENTRY, dbPath, stats))
   }
 
-  const headerJson = JSON.stringify(header)
-  const headerBuffer = Buffer.from(headerJson)
+  const walPath = `${dbPath}.wal`
+  const walStats = await fs.stat(walPath).catch(() => null)
+  if (walStats?.isFile()) {
+    entries.push(databaseFileEntry(WAL_ENTRY, walPath, walStats))
+  }
+  return { layout, entries }
+}
 
-  // Allocate buffer for entire archive
-  const totalSize = 4 + headerBuffer.length + mainData.length + (walData?.length || 0)
-  const archive = Buffer.allocUnsafe(totalSize)
+async function digest(stream: Readable): Promise<{ sha256: string; size: number }> {
+  const hash = createHash("sha256")
+  let size = 0
+  for await (const chunk of stream) {
+    hash.update(chunk as Buffer)
+    size += (chunk as Buffer).length
+  }
+  return { sha256: hash.digest("hex"), size }
+}
+
+// Pass the stream through, failing at its end if the bytes do not hash to sha256
+function verifying(source: Readable, sha256: string, failure: string): Readable {
+  const hash = createHash("sha256")
+  const check = new Transform({
+    transform(chunk: Buffer, _encoding, callback): void {
+      hash.update(chunk)
+      callback(null, chunk)
+    },
+    flush(callback): void {
+      callback(hash.digest("hex") === sha256 ? null : new BackupArchiveError(failure))
+    },
+  })
+  source.on("error", (error) => check.destroy(error))
+  return source.pipe(check)
+}
 
-  // Write header length
-  archive.writeUInt32BE(headerBuffer.length, 0)
+/**
+ * Stream a backup archive of the database: a tar.gz whose first entry is a
+ * manifest with the Kuzu version, database layout and per-file SHA-256. The
+ * files are hashed before they are archived, and archiving fails if one
+ * changes in between.
+ */
+export async function createBackupArchive(dbPath: string): Promise<Readable> {
+  const { layout, entries } = await databaseEntries(dbPath)
+  const files: BackupFile[] = []
+  for (const entry of entries) {
+    const { sha256, size } = await digest(entry.open())
+    entry.size = size
+    files.push({ path: entry.name, size, sha256 })
+  }
 
-  // Write header
-  headerBuffer.copy(archive, 4)
+  const manifest: BackupManifest = {
+    formatVersion: BACKUP_FORMAT_VERSION,
+    kuzuVersion: Database.getVersion(),
+    storageVersion: Number(Database.getStorageVersion()),
+    layout,
+    createdAt: new Date().toISOString(),
+    files,
+  }
+  const manifestData = Buffer.from(JSON.stringify(manifest, null, 2))
+
+  return packEntries([
+    { name: MANIFEST_NAME, size: manifestData.length, open: () => Readable.from([manifestData]) },
+    ...entries.map((entry, i) => ({
+      ...entry,
+      open: () => verifying(entry.open(), files[i]!.sha256, `${entry.name} changed while it was backed up`),
+    })),
+  ])
+}
+
+export function backupArchiveName(): string {
+  return `kuzu-backup-${new Date().toISOString().slice(0, 10)}.tar.gz`
+}
+
+// Backups from before the archive format are not gzipped
+export function isLegacyBackup(head: Buffer): boolean {
+  return !(head[0] === 0x1f && head[1] === 0x8b)
+}
 
-  // Write main file
-  mainData.copy(archive, 4 + headerBuffer.length)
+/**
+ * Check that this server can restore a backup with the given manifest. Kuzu
+ * opens only database files of its own storage version.
+ */
+export function checkBackupManifest(value: unknown): BackupManifest {
+  const manifest = value as Partial<BackupManifest> | null
+  if (
+    typeof manifest?.formatVersion !== "number" ||
+    typeof manifest.storageVersion !== "number" ||
+    (manifest.layout !== "file" && manifest.layout !== "directory") ||
+    !Array.isArray(manifest.files)
+  ) {
+    throw new BackupArchiveError("Backup manifest is malformed")
+  }
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupArchiveError(
+      `Backup format version ${manifest.formatVersion} is newer than this server supports (${BACKUP_FORMAT_VERSION}); upgrade kuzudb-mcp-server to restore it`,
+    )
+  }
+  const storageVersion = Number(Database.getStorageVersion())
+  if (manifest.storageVersion !== storageVersion) {
+    throw new BackupArchiveError(
+      `Backup was made with Kuzu ${String(manifest.kuzuVersion)} (storage version ${manifest.storageVersion}), ` +
+        `which Kuzu ${Database.getVersion()} (storage version ${storageVersion}) cannot open. ` +
+        `Open it with Kuzu ${String(manifest.kuzuVersion)}, run EXPORT DATABASE and import the export here instead.`,
+    )
+  }
+  return manifest as BackupManifest
+}
 
-  // Write WAL file if exists
-  if (walData) {
-    walData.copy(archive, 4 + headerBuffer.length + mainData.length)
+// Where an archived database file goes when restoring to targetDbPath
+function restoredPath(targetDbPath: string, layout: DatabaseLayout, name: string): string {
+  if (name === WAL_ENTRY) return `${targetDbPath}.wal`
+  if (layout === "file" && name === DATABASE_ENTRY) return targetDbPath
+  if (layout === "directory" && name.startsWith(`${DATABASE_ENTRY}/`)) {
+    return safeEntryPath(targetDbPath, name.slice(DATABASE_ENTRY.length + 1))
   }
+  throw new BackupArchiveError(`Unexpected file ${name} in a ${layout} backup`)
+}
 
-  return archive
+/**
+ * Restore a backup archive to targetDbPath, verifying each file against the
+ * manifest as it is written. Refuses archives from an incompatible Kuzu before
+ * writing anything; on any failure the partly restored files are removed.
+ */
+export async function restoreBackupArchive(source: Readable, targetDbPath: string): Promise<BackupManifest> {
+  let manifest: BackupManifest | undefined
+  const restored = new Set<string>()
+  try {
+    await readTarGz(source, async (entry) => {
+      if (!manifest) {
+        if (entry.name !== MANIFEST_NAME) {
+          throw new BackupArchiveError(`Not a Kuzu backup archive: it does not start with ${MANIFEST_NAME}`)
+        }
+        manifest = checkBackupManifest(JSON.parse((await streamToBuffer(entry.contents)).toString("utf-8")))
+        if (manifest.layout === "directory") {
+          await fs.mkdir(targetDbPath, { recursive: true })
+        }
+        return
+      }
+      if (entry.type === "directory") return
+
+      const file = manifest.files.find((candidate) => candidate.path === entry.name)
+      if (!file) {
+        throw new BackupArchiveError(`${entry.name} is not listed in the backup manifest`)
+      }
+      const target = restoredPath(targetDbPath, manifest.layout, entry.name)
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await pipeline(
+        verifying(entry.contents, file.sha256, `Checksum mismatch for ${entry.name}; the backup is corrupt`),
+        createWriteStream(target),
+      )
+      restored.add(entry.name)
+    })
+
+    if (!manifest) {
+      throw new BackupArchiveError("Not a Kuzu backup archive: it is empty")
+    }
+    const missing = manifest.files.filter((file) => !restored.has(file.path)).map((file) => file.path)
+    if (missing.length > 0) {
+      throw new BackupArchiveError(`Backup archive is incomplete; missing ${missing.join(", ")}`)
+    }
+    return manifest
+  } catch (error) {
+    await removeDatabaseFiles(targetDbPath)
+    throw error
+  }
 }
 
 /**
- * Restore from a simple archive Buffer
+ * Restore a .kuzu backup from before the archive format: a 4-byte header
+ * length, a JSON header, then the main file and WAL
  */
 export async function restoreSimpleArchive(archive: Buffer, targetDbPath: string): Promise<void> {
   // Read header length
@@ -4,6 +4,11 @@ import * as fs from "fs/promises"
 import { readFileSync } from "fs"
 import { fileURLToPath } from "url"
 import * as os from "os"
+import { hashPassword, openAuthStore } from "./auth-store.js"
+import { createApiKey, describeApiKey, parseExpiry } from "./api-keys.js"
+import { moveDatabaseFiles, removeDatabaseFiles, restoreBackup } from "./backup-utils.js"
+import { snapshotDatabase } from "./backup-scheduler.js"
+import { LockManager } from "./lock-manager.js"
 
 // Read version from package.json
 const __filename = fileURLToPath(import.meta.url)
@@ -11,13 +16,27 @@ const __dirname = path.dirname(__filename)
 const packageJson = JSON.parse(readFileSync(path.join(__dirname, "../package.json"), "utf-8")) as { version: string }
 const version = packageJson.version
 
-interface CLIOptions {
+export interface CLIOptions {
   command?: string
   databasePath?: string
   template?: string
   readonly?: boolean
   timeout?: number
   maxResults?: number
+  policy?: string
+  permissions?: string
+  authStore?: string
+  jwtKeyDir?: string
+  username?: string
+  scope?: string
+  apiKeyAction?: "create" | "list" | "revoke"
+  apiKeyTarget?: string
+  userId?: string
+  expires?: string
+  backupFile?: string
+  backupDir?: string
+  backupSchedule?: string
+  force?: boolean
   help?: boolean
   version?: boolean
   transport?: "stdio" | "http"
@@ -90,6 +109,46 @@ export function parseArgs(args: string[]): CLIOptions {
         options.command = "test"
         break
 
+      case "--backup":
+        options.command = "backup"
+        options.databasePath = args[++i] ? expandPath(args[i]!) : undefined
+        break
+
+      case "--restore":
+        if (args[i + 1] && !args[i + 1]!.startsWith("-") && args[i + 2] && !args[i + 2]!.startsWith("-")) {
+          options.command = "restore"
+          options.backupFile = expandPath(args[++i]!)
+          options.databasePath = expandPath(args[++i]!)
+        } else {
+          console.error("Error: --restore requires a backup file and a database path")
+          process.exit(1)
+        }
+        break
+
+      case "--force":
+        options.force = true
+        break
+
+      case "--backup-dir":
+        if (i + 1 < args.length && args[i + 1] && !args[i + 1]!.startsWith("-")) {
+          options.backupDir = expandPath(args[++i]!)
+        } else {
+          console.error("Error: --backup-dir requires a directory path")
+          process.exit(1)
+        }
+        break
+
+      case "--backup-schedule":
+        if (i + 1 < args.length && args[i + 1] && !args[i + 1]!.startsWith("-")) {
+          options.backupSchedule = args[++i]
+        } else {
+          console.error(
+            'Error: --backup-schedule requires an interval (e.g. 6h) or a cron expression (e.g. "0 2 * * *")',
+          )
+          process.exit(1)
+        }
+        break
+
       case "--readonly":
       case "--read-only":
         options.readonly = true
@@ -142,6 +201,97 @@ export function parseArgs(args: string[]): CLIOptions {
         }
         break
 
+      case "--policy":
+        if (i + 1 < args.length && args[i + 1] && !args[i + 1]!.startsWith("-")) {
+          options.policy = expandPath(args[++i]!)
+        } else {
+          console.error("Error: --policy requires a file path")
+          process.exit(1)
+        }
+        break
+
+      case "--auth-store":
+        if (i + 1 < args.length && args[i + 1] && !args[i + 1]!.startsWith("-")) {
+          options.authStore = args[++i]
+        } else {
+          console.error("Error: --auth-store requires a value (json:<file> or kuzu:<path>)")
+          process.exit(1)
+        }
+        break
+
+      case "--jwt-key-dir":
+        if (i + 1 < args.length && args[i + 1] && !args[i + 1]!.startsWith("-")) {
+          options.jwtKeyDir = expandPath(args[++i]!)
+        } else {
+          console.error("Error: --jwt-key-dir requires a directory path")
+          process.exit(1)
+        }
+        break
+
+      case "--add-user":
+        if (i + 1 < args.length && args[i + 1] && !args[i + 1]!.startsWith("-")) {
+          options.command = "add-user"
+          options.username = args[++i]
+        } else {
+          console.error("Error: --add-user requires a username")
+          process.exit(1)
+        }
+        break
+
+      case "--api-key": {
+        const action = args[i + 1]
+        if (action === "list") {
+          options.command = "api-key"
+          options.apiKeyAction = action
+          i++
+        } else if ((action === "create" || action === "revoke") && args[i + 2] && !args[i + 2]!.startsWith("-")) {
+          options.command = "api-key"
+          options.apiKeyAction = action
+          options.apiKeyTarget = args[i + 2]
+          i += 2
+        } else {
+          console.error("Error: --api-key requires create <name>, list or revoke <id>")
+          process.exit(1)
+        }
+        break
+      }
+
+      case "--user":
+        if (i + 1 < args.length && args[i + 1] && !args[i + 1]!.startsWith("-")) {
+          options.userId = args[++i]
+        } else {
+          console.error("Error: --user requires a user id")
+          process.exit(1)
+        }
+        break
+
+      case "--expires":
+        if (i + 1 < args.length && args[i + 1] && !args[i + 1]!.startsWith("-")) {
+          options.expires = args[++i]
+        } else {
+          console.error("Error: --expires requires a duration (e.g. 90d) or an ISO date")
+          process.exit(1)
+        }
+        break
+
+      case "--scope":
+        if (i + 1 < args.length && args[i + 1] && !args[i + 1]!.startsWith("-")) {
+          options.scope = args[++i]
+        } else {
+          console.error("Error: --scope requires a value")
+          process.exit(1)
+        }
+        break
+
+      case "--permissions":
+        if (i + 1 < args.length && args[i + 1] && !args[i + 1]!.startsWith("-")) {
+          options.permissions = expandPath(args[++i]!)
+        } else {
+          console.error("Error: --permissions requires a file path")
+          process.exit(1)
+        }
+        break
+
       default:
         if (arg && !arg.startsWith("-") && !options.databasePath && !options.command) {
           options.databasePath = expandPath(arg)
@@ -176,10 +326,27 @@ OPTIONS:
   --init <path>           Initialize a new database
   --template, -t <name>   Use a template (movies, social, financial)
   --validate <path>       Validate database health
+  --backup <path>         Back up a database to --backup-dir (default: the current directory)
+  --restore <file> <path> Restore a backup to a database path; add --force to replace an existing database
+  --backup-dir <path>     Directory for backups (sets KUZU_BACKUP_DIR)
+  --backup-schedule <when> Back up the served database every interval (e.g. 6h) or on a cron
+                          expression (e.g. "0 2 * * *"), into --backup-dir (sets KUZU_BACKUP_SCHEDULE)
   --test                  Run built-in test suite
   --readonly              Start in read-only mode
-  --timeout <ms>          Query timeout in milliseconds
-  --max-results <n>       Maximum result set size
+  --timeout <ms>          Query timeout in milliseconds (sets KUZU_QUERY_TIMEOUT)
+  --max-results <n>       Maximum rows returned per query (sets KUZU_MAX_RESULTS)
+  --policy <file>         JSON or YAML query policy, reloaded when it changes (sets KUZU_POLICY_FILE)
+  --permissions <file>    JSON roles and table grants for HTTP users (sets KUZU_PERMISSIONS_FILE)
+  --auth-store <store>    Keep OAuth users, clients and refresh tokens in json:<file> or kuzu:<path> (sets KUZU_AUTH_STORE)
+  --jwt-key-dir <path>    Load and save the JWT signing keys in this directory (sets KUZU_JWT_KEY_DIR)
+  --add-user <username>   Add or update a user in the auth store, reading the password from stdin
+  --scope <scope>         Scope of the user added with --add-user, e.g. "read" or "admin" (default: "read write"),
+                          or of the key created with --api-key (default: "read")
+  --api-key create <name> Create an API key in the auth store and print it once
+  --api-key list          List the API keys in the auth store
+  --api-key revoke <id>   Revoke an API key
+  --user <id>             User an API key acts as, for --permissions entries (default: the key name)
+  --expires <when>        API key lifetime, e.g. 90d, 12h or an ISO date (default: never)
   --transport <type>      Transport type: stdio (default) or http
   --port <n>              HTTP server port (default: 3000)
   --endpoint <path>       HTTP endpoint path (default: /mcp)
@@ -187,6 +354,26 @@ OPTIONS:
 ENVIRONMENT VARIABLES:
   KUZU_MCP_DATABASE_PATH  Database path (used if not provided as argument)
   KUZU_READ_ONLY          Set to "true" for read-only mode
+  KUZU_ALLOW_STATEMENTS   Comma-separated statement classes that may run (read, write, ddl, copy-to, ...)
+  KUZU_DENY_STATEMENTS    Comma-separated statement classes to reject, e.g. "copy-to,extension"
+  KUZU_POLICY_FILE        Query policy file (see --policy)
+  KUZU_PERMISSIONS_FILE   Per-user roles and table grants file (see --permissions)
+  KUZU_AUTH_STORE         Store for OAuth users, clients and refresh tokens (see --auth-store)
+  KUZU_JWT_KEY_DIR        Directory of the JWT signing keys (see --jwt-key-dir)
+  KUZU_JWT_ALGORITHM      JWT signing algorithm: RS256 (default) or ES256
+  KUZU_JWT_KEY_ROTATION_DAYS Days between JWT signing key rotations (default: 30)
+  KUZU_QUERY_TIMEOUT      Milliseconds before a query is interrupted (default: none)
+  KUZU_MAX_RESULTS        Maximum rows returned per query; larger results are truncated (default: none)
+  KUZU_MAX_RESPONSE_BYTES Byte budget for a single tool response (default: 1048576)
+  KUZU_PAGE_SIZE          Rows per query page before a cursor is returned (default: 1000)
+  KUZU_CURSOR_TIMEOUT     Idle time in ms before an open cursor is closed (default: 300000)
+  KUZU_TRANSACTION_TIMEOUT Idle time in ms before an open transaction is rolled back (default: 60000)
+  KUZU_LINT_QUERIES       Set to "true" to reject queries with lint errors before running them
+  KUZU_TRANSLATE_QUERIES  Set to "true" to rewrite Neo4j-only syntax into Kuzu Cypher before running queries
+  KUZU_BACKUP_SCHEDULE    Scheduled backup interval or cron expression (see --backup-schedule)
+  KUZU_BACKUP_DIR         Directory of scheduled backups (see --backup-dir)
+  KUZU_BACKUP_KEEP_DAILY  Days for which the newest scheduled backup is kept (default: 7)
+  KUZU_BACKUP_KEEP_WEEKLY Weeks for which the newest scheduled backup is kept (default: 4)
 
 EXAMPLES:
   # Start MCP server
@@ -204,6 +391,13 @@ EXAMPLES:
   # Validate database
   npx kuzudb-mcp-server --validate ./my-database
 
+  # Back up a database, then restore it elsewhere
+  npx kuzudb-mcp-server --backup ./my-database --backup-dir ./backups
+  npx kuzudb-mcp-server --restore ./backups/kuzu-backup-2025-01-31T02-00-00-000Z.tar.gz ./restored-db
+
+  # Serve with a nightly backup at 02:00, keeping 7 daily and 4 weekly backups
+  npx kuzudb-mcp-server ./my-database --backup-schedule "0 2 * * *" --backup-dir ./backups
+
   # Read-only mode with options
   npx kuzudb-mcp-server ./prod-db --readonly --timeout 30000
 
@@ -212,6 +406,12 @@ EXAMPLES:
 
   # Custom HTTP endpoint
   npx kuzudb-mcp-server ./my-database --transport http --endpoint /kuzu
+
+  # Add an OAuth user who can only read
+  echo "$PASSWORD" | npx kuzudb-mcp-server --auth-store json:./auth.json --add-user alice --scope read
+
+  # Create a 90-day API key for a CI agent that may write
+  npx kuzudb-mcp-server --auth-store json:./auth.json --api-key create ci-agent --scope "read write" --expires 90d
 `)
 }
 
@@ -462,6 +662,115 @@ async function initFinancialTemplate(conn: Connection): Promise<void> {
   console.log("✓ Financial template initialized")
 }
 
+export async function backupDatabase(dbPath: string, outputDir: string): Promise<void> {
+  // Agents in multi-agent mode hold the write lock while writing, so the backup sees a consistent database.
+  // It is taken whatever this process's environment says, since the agents' environment is what counts.
+  const lockManager = new LockManager(dbPath, process.env.KUZU_AGENT_ID || `backup-${process.pid}`)
+  try {
+    const backupPath = await snapshotDatabase(dbPath, outputDir, lockManager)
+    console.log(`✓ Backed up ${dbPath} to ${backupPath}`)
+  } catch (error) {
+    console.error("Error backing up database:", error)
+    process.exit(1)
+  }
+}
+
+export async function restoreDatabase(backupFile: string, dbPath: string, force = false): Promise<void> {
+  const exists = await fs
+    .access(dbPath)
+    .then(() => true)
+    .catch(() => false)
+  if (exists && !force) {
+    console.error(`Error: ${dbPath} already exists; pass --force to replace it`)
+    process.exit(1)
+  }
+
+  // Restore next to the target so a failed restore leaves the existing database alone
+  const staged = `${dbPath}.restore-${Date.now()}`
+  try {
+    const manifest = await restoreBackup(backupFile, staged)
+    await removeDatabaseFiles(dbPath)
+    await moveDatabaseFiles(staged, dbPath)
+    console.log(`✓ Restored ${backupFile} to ${dbPath}`)
+    if (manifest) {
+      console.log(`  Made with Kuzu ${manifest.kuzuVersion} at ${manifest.createdAt}`)
+    }
+  } catch (error) {
+    await removeDatabaseFiles(staged).catch(() => {})
+    console.error("Error restoring backup:", error)
+    process.exit(1)
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString("utf-8")
+}
+
+export async function addUser(storeSpec: string | undefined, username: string, scope = "read write"): Promise<void> {
+  if (!storeSpec) {
+    console.error("Error: --add-user needs --auth-store or KUZU_AUTH_STORE")
+    process.exit(1)
+  }
+  const password = (await readStdin()).split(/\r?\n/)[0] ?? ""
+  if (!password) {
+    console.error("Error: pipe the new user's password to stdin")
+    process.exit(1)
+  }
+
+  const store = await openAuthStore(storeSpec)
+  const existing = await store.findUser(username)
+  await store.saveUser({
+    username,
+    userId: existing?.userId ?? username,
+    email: existing?.email,
+    scope,
+    passwordHash: await hashPassword(password),
+  })
+  console.log(`✓ ${existing ? "Updated" : "Added"} user ${username} with scope "${scope}" in ${store.description}`)
+}
+
+export async function manageApiKeys(storeSpec: string | undefined, options: CLIOptions): Promise<void> {
+  if (!storeSpec) {
+    console.error("Error: --api-key needs --auth-store or KUZU_AUTH_STORE")
+    process.exit(1)
+  }
+  const store = await openAuthStore(storeSpec)
+
+  if (options.apiKeyAction === "create") {
+    const { key, record } = await createApiKey(store, {
+      name: options.apiKeyTarget!,
+      userId: options.userId,
+      scope: options.scope,
+      expiresAt: options.expires ? parseExpiry(options.expires) : undefined,
+    })
+    console.error(`✓ Created API key ${record.id} for ${record.userId} with scope "${record.scope}"`)
+    console.error(`  Expires: ${record.expiresAt ? new Date(record.expiresAt).toISOString() : "never"}`)
+    console.error("  Store the key now; it cannot be shown again:")
+    console.log(key)
+  } else if (options.apiKeyAction === "revoke") {
+    if (!(await store.deleteApiKey(options.apiKeyTarget!))) {
+      console.error(`Error: no API key ${options.apiKeyTarget} in ${store.description}`)
+      process.exit(1)
+    }
+    console.log(`✓ Revoked API key ${options.apiKeyTarget}`)
+  } else {
+    const keys = (await store.listApiKeys()).sort((a, b) => a.createdAt - b.createdAt)
+    if (keys.length === 0) {
+      console.log(`No API keys in ${store.description}`)
+    }
+    for (const info of keys.map((record) => describeApiKey(record))) {
+      const expiry = info.expiresAt ? new Date(info.expiresAt).toISOString() : "never"
+      console.log(
+        `${info.id}  ${info.name}  user=${info.userId}  scope="${info.scope}"  expires=${expiry}${info.expired ? " (expired)" : ""}`,
+      )
+    }
+  }
+}
+
 export async function runTests(): Promise<void> {
   console.log("\nRunning test suite...\n")
 
@@ -0,0 +1,236 @@
+import * as kuzu from "kuzu"
+import { randomBytes } from "crypto"
+
+export interface ColumnInfo {
+  name: string
+  type: string
+}
+
+export interface QueryPage {
+  rows: Record<string, unknown>[]
+  // Column names and Kuzu data types, when requested
+  columns?: ColumnInfo[]
+  cursor?: string
+  hasMore: boolean
+  // Set when the row cap cut the result short
+  truncated?: boolean
+  totalRows?: number
+}
+
+interface OpenCursor {
+  // Null once the underlying result is exhausted and only buffered rows remain
+  result: kuzu.QueryResult | null
+  buffered: Record<string, unknown>[]
+  query: string
+  columns?: ColumnInfo[]
+  rowsReturned: number
+  maxRows?: number
+  lastAccessed: number
+}
+
+export class CursorNotFoundError extends Error {
+  constructor(cursorId: string) {
+    super(`Cursor ${cursorId} does not exist or has expired`)
+    this.name = "CursorNotFoundError"
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 1000
+export const DEFAULT_CURSOR_IDLE_TIMEOUT = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Keeps partially consumed query results open so large result sets can be
+ * paged through with hasNext/getNext instead of materialized with getAll
+ */
+export class CursorManager {
+  private readonly cursors = new Map<string, OpenCursor>()
+  private readonly idleTimeout: number
+  private readonly cleanupInterval: number
+  private cleanupTimer?: ReturnType<typeof setInterval>
+
+  constructor(idleTimeout: number = DEFAULT_CURSOR_IDLE_TIMEOUT, cleanupInterval: number = 60000) {
+    this.idleTimeout = idleTimeout
+    this.cleanupInterval = cleanupInterval
+  }
+
+  get size(): number {
+    return this.cursors.size
+  }
+
+  /**
+   * Read the first page of a result. The result stays open behind a cursor
+   * only if more rows remain, otherwise it is closed immediately. With maxRows
+   * the cursor stops after that many rows in total and reports truncation.
+   */
+  async openCursor(
+    result: kuzu.QueryResult,
+    query: string,
+    pageSize: number = DEFAULT_PAGE_SIZE,
+    maxRows?: number,
+    columns?: ColumnInfo[],
+  ): Promise<QueryPage> {
+    const cursor: OpenCursor = {
+      result,
+      buffered: [],
+      query,
+      columns,
+      rowsReturned: 0,
+      maxRows,
+      lastAccessed: Date.now(),
+    }
+    const cursorId = randomBytes(16).toString("hex")
+    this.cursors.set(cursorId, cursor)
+    this.startCleanup()
+    return this.nextPage(cursorId, cursor, pageSize)
+  }
+
+  async fetchMore(cursorId: string, pageSize: number = DEFAULT_PAGE_SIZE): Promise<QueryPage> {
+    const cursor = this.cursors.get(cursorId)
+    if (!cursor) {
+      throw new CursorNotFoundError(cursorId)
+    }
+    // Expired cursors may not have been swept yet
+    if (Date.now() - cursor.lastAccessed > this.idleTimeout) {
+      this.closeCursor(cursorId)
+      throw new CursorNotFoundError(cursorId)
+    }
+
+    cursor.lastAccessed = Date.now()
+    return this.nextPage(cursorId, cursor, pageSize)
+  }
+
+  /**
+   * Hand rows that were read but not returned (e.g. trimmed to fit a response
+   * size budget) back to a cursor so the next fetchMore starts with them.
+   * Creates a new cursor holding only these rows if none is open.
+   */
+  requeue(
+    cursorId: string | undefined,
+    rows: Record<string, unknown>[],
+    query: string,
+    columns?: ColumnInfo[],
+  ): string {
+    const existing = cursorId ? this.cursors.get(cursorId) : undefined
+    if (existing) {
+      existing.buffered.unshift(...rows)
+      existing.rowsReturned -= rows.length
+      existing.lastAccessed = Date.now()
+      return cursorId!
+    }
+
+    const newCursorId = randomBytes(16).toString("hex")
+    this.cursors.set(newCursorId, {
+      result: null,
+      buffered: [...rows],
+      query,
+      columns,
+      rowsReturned: 0,
+      lastAccessed: Date.now(),
+    })
+    this.startCleanup()
+    return newCursorId
+  }
+
+  closeCursor(cursorId: string): boolean {
+    const cursor = this.cursors.get(cursorId)
+    if (!cursor) {
+      return false
+    }
+
+    this.cursors.delete(cursorId)
+    if (cursor.result) {
+      this.closeResult(cursor.result)
+    }
+    if (this.cursors.size === 0) {
+      this.stopCleanup()
+    }
+    return true
+  }
+
+  // Close every open cursor, e.g. when the connection they belong to is replaced
+  closeAll(): void {
+    for (const cursorId of Array.from(this.cursors.keys())) {
+      this.closeCursor(cursorId)
+    }
+  }
+
+  // Close cursors that have been idle longer than the configured timeout
+  cleanupExpired(): number {
+    const now = Date.now()
+    let closed = 0
+    for (const [cursorId, cursor] of Array.from(this.cursors.entries())) {
+      if (now - cursor.lastAccessed > this.idleTimeout) {
+        console.error(`🧹 Closing idle cursor ${cursorId} after ${cursor.rowsReturned} rows`)
+        this.closeCursor(cursorId)
+        closed++
+      }
+    }
+    return closed
+  }
+
+  private async nextPage(cursorId: string, cursor: OpenCursor, pageSize: number): Promise<QueryPage> {
+    const remaining = cursor.maxRows !== undefined ? cursor.maxRows - cursor.rowsReturned : pageSize
+    let rows: Record<string, unknown>[]
+    try {
+      rows = await this.readPage(cursor, Math.min(pageSize, remaining))
+    } catch (error) {
+      this.closeCursor(cursorId)
+      throw error
+    }
+    cursor.rowsReturned += rows.length
+
+    const columns = cursor.columns && { columns: cursor.columns }
+    const moreAvailable = cursor.buffered.length > 0 || (cursor.result?.hasNext() ?? false)
+    if (!moreAvailable) {
+      this.closeCursor(cursorId)
+      return { rows, ...columns, hasMore: false }
+    }
+
+    if (cursor.maxRows !== undefined && cursor.rowsReturned >= cursor.maxRows) {
+      // Counting tuples is cheap since Kuzu has already materialized the result
+      const totalRows = cursor.result ? cursor.result.getNumTuples() : cursor.rowsReturned + cursor.buffered.length
+      this.closeCursor(cursorId)
+      return { rows, ...columns, hasMore: false, truncated: true, totalRows }
+    }
+
+    return { rows, ...columns, cursor: cursorId, hasMore: true }
+  }
+
+  private async readPage(cursor: OpenCursor, pageSize: number): Promise<Record<string, unknown>[]> {
+    const rows = cursor.buffered.splice(0, pageSize)
+    while (cursor.result && rows.length < pageSize && cursor.result.hasNext()) {
+      const row = await cursor.result.getNext()
+      if (row === null) {
+        break
+      }
+      rows.push(row)
+    }
+    return rows
+  }
+
+  private closeResult(result: kuzu.QueryResult): void {
+    try {
+      result.close()
+    } catch (closeErr) {
+      console.error("Error closing result:", closeErr)
+    }
+  }
+
+  private startCleanup(): void {
+    if (this.cleanupTimer) {
+      return
+    }
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupExpired()
+    }, this.cleanupInterval)
+    // Idle cursors should never keep the process alive on their own
+    this.cleanupTimer.unref()
+  }
+
+  private stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = undefined
+    }
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Minimal Cypher lexer shared by everything that inspects query text:
+ * statement splitting, write and DDL detection, MERGE and primary key checks,
+ * linting and translation. It knows just enough of the grammar to keep string
+ * literals, escapes, backquoted names and comments from being read as code.
+ */
+
+export type TokenType = "word" | "quoted-name" | "string" | "number" | "parameter" | "symbol" | "comment"
+
+export interface Token {
+  type: TokenType
+  text: string
+  // Offsets into the query, end exclusive
+  start: number
+  end: number
+}
+
+const DDL_OBJECTS = new Set(["TABLE", "NODE", "REL", "RELATIONSHIP"])
+
+// End of a quoted run starting at `start`; a backslash escapes the next character
+function quotedEnd(cypher: string, start: number, quote: string): number {
+  let i = start + 1
+  while (i < cypher.length) {
+    if (cypher[i] === "\\" && quote !== "`") {
+      i += 2
+      continue
+    }
+    if (cypher[i] === quote) {
+      // `` inside a backquoted name is an escaped backquote
+      if (quote === "`" && cypher[i + 1] === "`") {
+        i += 2
+        continue
+      }
+      return i + 1
+    }
+    i++
+  }
+  // Unterminated literals run to the end of the query
+  return cypher.length
+}
+
+/**
+ * Split a query into tokens, skipping whitespace. Comments are kept as tokens
+ * so callers can blank them; use codeTokens() to drop them.
+ */
+export function tokenize(cypher: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < cypher.length) {
+    const char = cypher[i]!
+    const start = i
+    let type: TokenType
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    } else if (char === "/" && cypher[i + 1] === "/") {
+      const newline = cypher.indexOf("\n", i)
+      i = newline === -1 ? cypher.length : newline
+      type = "comment"
+    } else if (char === "/" && cypher[i + 1] === "*") {
+      const close = cypher.indexOf("*/", i + 2)
+      i = close === -1 ? cypher.length : close + 2
+      type = "comment"
+    } else if (char === "'" || char === '"') {
+      i = quotedEnd(cypher, i, char)
+      type = "string"
+    } else if (char === "`") {
+      i = quotedEnd(cypher, i, char)
+      type = "quoted-name"
+    } else if (char === "$" && /\w/.test(cypher[i + 1] ?? "")) {
+      i = start + 1 + /^\w+/.exec(cypher.slice(i + 1))![0].length
+      type = "parameter"
+    } else if (/\d/.test(char)) {
+      i = start + /^\d+(?:\.\d+)?(?:e[+-]?\d+)?/i.exec(cypher.slice(i))![0].length
+      type = "number"
+    } else if (/\w/.test(char)) {
+      i = start + /^\w+/.exec(cypher.slice(i))![0].length
+      type = "word"
+    } else {
+      i++
+      type = "symbol"
+    }
+
+    tokens.push({ type, text: cypher.slice(start, i), start, end: i })
+  }
+  return tokens
+}
+
+export function codeTokens(cypher: string): Token[] {
+  return tokenize(cypher).filter((token) => token.type !== "comment")
+}
+
+/**
+ * Split a query on the semicolons between statements. Statements are trimmed,
+ * and empty or comment-only statements are dropped.
+ */
+export function splitStatements(cypher: string): string[] {
+  const statements: string[] = []
+  let from = 0
+  let hasCode = false
+  const push = (end: number): void => {
+    if (hasCode) {
+      statements.push(cypher.slice(from, end).trim())
+    }
+  }
+  for (const token of tokenize(cypher)) {
+    if (token.type === "symbol" && token.text === ";") {
+      push(token.start)
+      from = token.end
+      hasCode = false
+    } else if (token.type !== "comment") {
+      hasCode = true
+    }
+  }
+  push(cypher.length)
+  return statements
+}
+
+// Blank out string literals and comments, keeping offsets intact
+export function maskLiterals(cypher: string): string {
+  let masked = ""
+  let last = 0
+  for (const token of tokenize(cypher)) {
+    if (token.type !== "string" && token.type !== "comment" && token.type !== "quoted-name") {
+      continue
+    }
+    masked += cypher.slice(last, token.start)
+    // Backquoted names stay readable, only their quotes are blanked
+    masked += token.type === "quoted-name" ? token.text.replace(/^`|`$/g, " ") : token.text.replace(/[^\n]/g, " ")
+    last = token.end
+  }
+  return masked + cypher.slice(last)
+}
+
+/**
+ * Word tokens used as keywords, skipping property names (n.set), labels
+ * (:Set) and map keys ({set: 1}) that happen to spell a keyword
+ */
+export function keywordTokens(cypher: string): Token[] {
+  const tokens = codeTokens(cypher)
+  return tokens.filter((token, i) => {
+    if (token.type !== "word" || /^\d/.test(token.text)) return false
+    const previous = tokens[i - 1]
+    const next = tokens[i + 1]
+    if (previous?.type === "symbol" && (previous.text === "." || previous.text === ":")) return false
+    return !(next?.type === "symbol" && next.text === ":")
+  })
+}
+
+// CREATE/ALTER/DROP of a node or relationship table
+export function isDDLStatement(statement: string): boolean {
+  const [verb, object] = codeTokens(statement)
+  return (
+    verb?.type === "word" &&
+    object?.type === "word" &&
+    ["CREATE", "ALTER", "DROP"].includes(verb.text.toUpperCase()) &&
+    DDL_OBJECTS.has(object.text.toUpperCase())
+  )
+}
@@ -0,0 +1,250 @@
+import type { Schema } from "./server-core.js"
+import { maskLiterals } from "./cypher-lexer.js"
+
+export type LintSeverity = "error" | "warning"
+
+export interface LintIssue {
+  rule: string
+  severity: LintSeverity
+  message: string
+  // 1-based position of the offending text
+  line: number
+  column: number
+  suggestion?: string
+}
+
+export interface LintResult {
+  valid: boolean
+  issues: LintIssue[]
+}
+
+interface DialectRule {
+  id: string
+  severity: LintSeverity
+  pattern: RegExp
+  message: string
+  suggestion: string
+}
+
+/**
+ * Kuzu dialect rules, matching the rules listed in getPrompt(). Patterns run
+ * on the query with string literals and comments blanked out.
+ */
+const DIALECT_RULES: DialectRule[] = [
+  {
+    id: "no-finish",
+    severity: "error",
+    pattern: /\bFINISH\b/gi,
+    message: "FINISH is not supported by Kuzu",
+    suggestion: "Use RETURN COUNT(*) to return a single record instead",
+  },
+  {
+    id: "no-foreach",
+    severity: "error",
+    pattern: /\bFOREACH\b/gi,
+    message: "FOREACH is not supported by Kuzu",
+    suggestion: "Use UNWIND list AS item followed by the update clauses",
+  },
+  {
+    id: "no-load-csv",
+    severity: "error",
+    pattern: /\bLOAD\s+CSV\b/gi,
+    message: "LOAD CSV FROM is named LOAD FROM in Kuzu",
+    suggestion: "Replace LOAD CSV FROM with LOAD FROM",
+  },
+  {
+    id: "no-bare-relationship",
+    severity: "error",
+    pattern: /\)\s*(<-->|<--|-->|--)\s*\(/g,
+    message: "Relationships cannot be omitted; --, --> and <-- are not supported",
+    suggestion: "Write the relationship explicitly, e.g. -[]->, <-[]- or -[]-",
+  },
+  {
+    id: "no-remove",
+    severity: "error",
+    pattern: /\bREMOVE\b/gi,
+    message: "REMOVE is not supported by Kuzu",
+    suggestion: "Use SET n.prop = NULL instead",
+  },
+  {
+    id: "no-map-update",
+    severity: "error",
+    pattern: /\bSET\s+\w+\s*\+=/gi,
+    message: "Updating properties with a map and += is not supported",
+    suggestion: "Set properties one by one: SET n.prop = value",
+  },
+  {
+    id: "no-use-graph",
+    severity: "error",
+    pattern: /(?:^|;)\s*USE\s+\w+/gi,
+    message: "USE graph is not supported; each Kuzu database is one graph",
+    suggestion: "Remove the USE clause and connect to the intended database",
+  },
+  {
+    id: "no-where-in-pattern",
+    severity: "error",
+    pattern: /[([]\s*\w*\s*:\s*\w+\s+WHERE\b/gi,
+    message: "WHERE inside a node or relationship pattern is not supported",
+    suggestion: "Move the condition to a WHERE clause after the pattern: MATCH (n:Label) WHERE n.prop = value",
+  },
+  {
+    id: "no-label-filter",
+    severity: "error",
+    pattern: /\b(?:WHERE|AND|OR|NOT)\s+\w+\s*:\s*\w+/gi,
+    message: "Filtering on labels with n:Label is not supported",
+    suggestion: "Put the label in the pattern, MATCH (n:Label), or use label(n) = 'Label'",
+  },
+  {
+    id: "no-show-clause",
+    severity: "error",
+    pattern: /(?:^|;)\s*SHOW\s+\w+/gi,
+    message: "SHOW clauses are function calls in Kuzu",
+    suggestion: "Use CALL show_<name>() RETURN *, e.g. CALL show_functions() RETURN *",
+  },
+  {
+    id: "no-call-subquery",
+    severity: "error",
+    pattern: /\bCALL\s*\{/gi,
+    message: "CALL { subquery } is not supported by Kuzu",
+    suggestion: "Rewrite the subquery with WITH, or use an EXISTS or COUNT subquery",
+  },
+  {
+    id: "unbounded-variable-length",
+    severity: "warning",
+    pattern: /\*\s*(?:SHORTEST\s+|ALL\s+SHORTEST\s+)?(?:\d+\s*\.\.\s*)?\]/gi,
+    message: "Variable-length relationship without an upper bound; Kuzu uses 30 as the default upper bound",
+    suggestion: "Give an explicit upper bound, e.g. -[*1..5]->",
+  },
+]
+
+const NODE_PATTERN = /\(\s*(\w*)\s*:\s*([A-Za-z_]\w*)\s*(\{[^}]*\})?/g
+const REL_PATTERN = /\[\s*(\w*)\s*:\s*([A-Za-z_]\w*)\s*(\{[^}]*\})?/g
+const PROPERTY_ACCESS = /\b(\w+)\.(\w+)\b/g
+const MAP_KEY = /(\w+)\s*:/g
+const CREATED_TABLE = /\bCREATE\s+(?:NODE|REL|RELATIONSHIP)\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(\w+)/gi
+
+function positionAt(cypher: string, offset: number): { line: number; column: number } {
+  const before = cypher.slice(0, offset)
+  const line = before.split("\n").length
+  return { line, column: offset - before.lastIndexOf("\n") }
+}
+
+function issueAt(
+  cypher: string,
+  offset: number,
+  rule: string,
+  severity: LintSeverity,
+  message: string,
+  suggestion?: string,
+): LintIssue {
+  return { rule, severity, message, ...positionAt(cypher, offset), ...(suggestion && { suggestion }) }
+}
+
+// Offset of the first non-space character of a match, so "; USE x" points at USE
+function matchStart(match: RegExpExecArray): number {
+  const leading = /^[\s;]*/.exec(match[0])![0].length
+  return match.index + leading
+}
+
+function lintDialect(cypher: string, masked: string): LintIssue[] {
+  const issues: LintIssue[] = []
+  for (const rule of DIALECT_RULES) {
+    for (const match of masked.matchAll(rule.pattern)) {
+      issues.push(issueAt(cypher, matchStart(match), rule.id, rule.severity, rule.message, rule.suggestion))
+    }
+  }
+  return issues
+}
+
+function lintSchema(cypher: string, masked: string, schema: Schema): LintIssue[] {
+  const issues: LintIssue[] = []
+  const properties = new Map<string, Set<string>>()
+  for (const table of [...schema.nodeTables, ...schema.relTables]) {
+    properties.set(table.name.toLowerCase(), new Set(table.properties.map((p) => p.name.toLowerCase())))
+  }
+
+  // Tables created by the query itself do not exist yet
+  const created = new Set([...masked.matchAll(CREATED_TABLE)].map((match) => match[1]!.toLowerCase()))
+  const bindings = new Map<string, string>()
+
+  const checkPatterns = (pattern: RegExp, kind: "node" | "rel"): void => {
+    const known = new Set(
+      (kind === "node" ? schema.nodeTables : schema.relTables).map((table) => table.name.toLowerCase()),
+    )
+    for (const match of masked.matchAll(pattern)) {
+      const [, variable, label, map] = match
+      const key = label!.toLowerCase()
+      if (created.has(key)) {
+        continue
+      }
+      if (!known.has(key)) {
+        const tables = known.size > 0 ? ` Known ${kind} tables: ${listTables(schema, kind)}` : ""
+        issues.push(
+          issueAt(
+            cypher,
+            match.index + match[0].indexOf(label!, match[0].indexOf(":")),
+            kind === "node" ? "unknown-node-label" : "unknown-rel-type",
+            "error",
+            `${kind === "node" ? "Node table" : "Relationship table"} ${label} does not exist.${tables}`,
+            `Use a table from the schema or create ${label} first`,
+          ),
+        )
+        continue
+      }
+      if (variable) {
+        bindings.set(variable, key)
+      }
+      if (map) {
+        const mapOffset = match.index + match[0].indexOf(map)
+        for (const keyMatch of map.matchAll(MAP_KEY)) {
+          checkProperty(label!, keyMatch[1]!, mapOffset + keyMatch.index)
+        }
+      }
+    }
+  }
+
+  const checkProperty = (label: string, property: string, offset: number): void => {
+    const known = properties.get(label.toLowerCase())
+    if (known && known.size > 0 && !known.has(property.toLowerCase())) {
+      issues.push(
+        issueAt(
+          cypher,
+          offset,
+          "unknown-property",
+          "error",
+          `Property ${property} does not exist on ${label}`,
+          `Known properties: ${[...known].join(", ")}`,
+        ),
+      )
+    }
+  }
+
+  checkPatterns(NODE_PATTERN, "node")
+  checkPatterns(REL_PATTERN, "rel")
+
+  for (const match of masked.matchAll(PROPERTY_ACCESS)) {
+    const table = bindings.get(match[1]!)
+    if (table) {
+      const label = [...schema.nodeTables, ...schema.relTables].find((t) => t.name.toLowerCase() === table)!.name
+      checkProperty(label, match[2]!, match.index + match[1]!.length + 1)
+    }
+  }
+
+  return issues
+}
+
+function listTables(schema: Schema, kind: "node" | "rel"): string {
+  return (kind === "node" ? schema.nodeTables : schema.relTables).map((table) => table.name).join(", ")
+}
+
+/**
+ * Check a query against the Kuzu dialect rules and, when a schema is given,
+ * its node labels, relationship types and properties. Issues are ordered by
+ * position; the query is valid when none of them is an error.
+ */
+export function lintCypher(cypher: string, schema?: Schema): LintResult {
+  const masked = maskLiterals(cypher)
+  const issues = [...lintDialect(cypher, masked), ...(schema ? lintSchema(cypher, masked, schema) : [])]
+  issues.sort((a, b) => a.line - b.line || a.column - b.column)
+  return { valid: issues.every((issue) => issue.severity !== "error"), issues }
+}
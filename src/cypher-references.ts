@@ -0,0 +1,254 @@
+import { Token, codeTokens } from "./cypher-lexer.js"
+
+/**
+ * What one statement touches: tables, properties, functions and path depths,
+ * read from its tokens. Shared by the query policy and table permissions.
+ */
+export interface StatementReferences {
+  tables: string[]
+  // Tables written by CREATE/MERGE patterns, SET/REMOVE/DELETE targets, DDL and COPY FROM
+  writtenTables: string[]
+  // Set when a SET/REMOVE/DELETE target's table cannot be determined
+  writesUnknownTable: boolean
+  // Property accesses and pattern map keys, with the tables they may belong to (empty when unknown)
+  properties: Array<{ name: string; tables: string[] }>
+  functions: string[]
+  // Upper bound of each variable-length relationship, null when unbounded
+  pathBounds: Array<number | null>
+  // Set when a MATCH pattern has a node or relationship that no label narrows to a table
+  unlabelledPatterns: boolean
+  // Matched variables used whole (RETURN n, properties(n), collect(n)), which expose every
+  // property, with the tables they may belong to (empty when unknown)
+  variables: Array<{ name: string; tables: string[] }>
+}
+
+interface PatternFrame {
+  bracket: string
+  labels: string[]
+  // Node or relationship pattern in a MATCH clause, with its variable if any
+  pattern: boolean
+  variable?: string
+  // Function whose arguments the bracket holds
+  fn?: string
+}
+
+const CLAUSES = new Set([
+  "MATCH",
+  "OPTIONAL",
+  "WITH",
+  "RETURN",
+  "UNWIND",
+  "WHERE",
+  "CREATE",
+  "MERGE",
+  "SET",
+  "REMOVE",
+  "DELETE",
+  "DETACH",
+  "LOAD",
+  "CALL",
+  "ORDER",
+  "ON",
+])
+
+const PATTERN_CLAUSES = new Set(["MATCH", "OPTIONAL", "CREATE", "MERGE"])
+
+// Functions that reveal nothing about the properties of a whole node or relationship
+const OPAQUE_FUNCTIONS = new Set(["count", "id", "label", "labels", "length"])
+
+const nameOf = (token: Token): string => (token.type === "quoted-name" ? token.text.slice(1, -1) : token.text)
+const isName = (token: Token | undefined): token is Token => token?.type === "word" || token?.type === "quoted-name"
+const isSymbol = (token: Token | undefined, text: string): boolean => token?.type === "symbol" && token.text === text
+const upper = (token: Token | undefined): string => (token?.type === "word" ? token.text.toUpperCase() : "")
+
+// Table named by DDL or COPY: CREATE NODE TABLE X, DROP TABLE IF EXISTS X, COPY X FROM ...
+function statementTable(tokens: Token[]): string | null {
+  const words = tokens.map(upper)
+  if (words[0] === "COPY" && isName(tokens[1])) return nameOf(tokens[1])
+  if (!["CREATE", "DROP", "ALTER"].includes(words[0]!)) return null
+  let i = 1
+  if (["NODE", "REL", "RELATIONSHIP"].includes(words[i]!)) i++
+  if (words[i] !== "TABLE") return null
+  i++
+  while (["IF", "NOT", "EXISTS"].includes(words[i]!)) i++
+  return isName(tokens[i]) ? nameOf(tokens[i]!) : null
+}
+
+// Upper bound after the * of a variable-length relationship: *, *3, *1..5, *..5, * SHORTEST 1..3
+function pathBound(tokens: Token[], star: number): number | null {
+  let i = star + 1
+  while (tokens[i]?.type === "word" && /^(ALL|SHORTEST|TRAIL|ACYCLIC)$/i.test(tokens[i]!.text)) i++
+  const lower = tokens[i]?.type === "number" ? Number(tokens[i++]!.text) : null
+  if (isSymbol(tokens[i], ".") && isSymbol(tokens[i + 1], ".")) {
+    const bound = tokens[i + 2]
+    return bound?.type === "number" ? Number(bound.text) : null
+  }
+  return lower
+}
+
+// The variable at i names a node or relationship in a pattern, as in (n), (n {x: 1}), -[r]- or (a)-->(b)
+function isPatternVariable(tokens: Token[], i: number, clause: string): boolean {
+  const open = tokens[i - 1]
+  const before = tokens[i - 2]
+  if (isSymbol(open, "[")) return isSymbol(before, "-")
+  if (!isSymbol(open, "(")) return false
+  if (isSymbol(before, "-") || isSymbol(before, ">")) return true
+  if (isSymbol(tokens[i + 1], ")") && (isSymbol(tokens[i + 2], "-") || isSymbol(tokens[i + 2], "<"))) return true
+  return PATTERN_CLAUSES.has(clause) && (!isName(before) || CLAUSES.has(upper(before)))
+}
+
+export function collectReferences(statement: string): StatementReferences {
+  const tokens = codeTokens(statement)
+  const references: StatementReferences = {
+    tables: [],
+    writtenTables: [],
+    writesUnknownTable: false,
+    properties: [],
+    functions: [],
+    pathBounds: [],
+    unlabelledPatterns: false,
+    variables: [],
+  }
+  const bindings = new Map<string, string[]>()
+  // Variables of MATCH patterns and paths, labelled or not
+  const matched = new Set<string>()
+  // Path variable of the pattern being read: p = (a)-[r]->(b)
+  let path: string | undefined
+  const frames: PatternFrame[] = []
+  let lastLabel = -1
+  let clause = ""
+
+  const table = statementTable(tokens)
+  if (table) {
+    references.tables.push(table)
+    // COPY (query) TO 'file' reads; every other statement naming a table writes it
+    if (upper(tokens[0]) !== "COPY" || !tokens.some((token) => upper(token) === "TO")) {
+      references.writtenTables.push(table)
+    }
+  }
+
+  tokens.forEach((token, i) => {
+    const previous = tokens[i - 1]
+    const next = tokens[i + 1]
+    const frame = frames.at(-1)
+
+    const matching = !frame && (clause === "MATCH" || clause === "OPTIONAL")
+    if (token.type === "symbol" && "([{".includes(token.text)) {
+      // (a) after a clause keyword, "," "=" or "-" is a node; [r] after "-" is a relationship
+      const pattern =
+        matching &&
+        (token.text === "("
+          ? !isName(previous) || CLAUSES.has(upper(previous))
+          : token.text === "[" && isSymbol(previous, "-"))
+      const variable = next?.type === "word" && !isSymbol(tokens[i + 2], "(") ? next.text : undefined
+      const fn = isName(previous) && !CLAUSES.has(upper(previous)) ? previous.text.toLowerCase() : undefined
+      frames.push({ bracket: token.text, labels: [], pattern, variable, fn })
+      return
+    }
+    if (token.type === "symbol" && ")]}".includes(token.text)) {
+      const closed = frames.pop()
+      if (closed?.pattern && closed.variable) {
+        matched.add(closed.variable)
+      }
+      if (closed?.pattern && closed.labels.length === 0 && !(closed.variable && bindings.has(closed.variable))) {
+        references.unlabelledPatterns = true
+      }
+      return
+    }
+    // (a)--(b) and (a)-->(b) have no relationship brackets at all
+    if (matching && isSymbol(token, "-") && isSymbol(next, "-")) {
+      references.unlabelledPatterns = true
+      return
+    }
+    if (isSymbol(token, "*") && frame?.bracket === "[") {
+      references.pathBounds.push(pathBound(tokens, i))
+      return
+    }
+    if (!frame && isSymbol(token, ",")) {
+      path = undefined
+    }
+    if (!isName(token)) return
+
+    if (!frame && CLAUSES.has(upper(token)) && !isSymbol(previous, ".") && !isSymbol(previous, ":")) {
+      clause = upper(token)
+      path = undefined
+      return
+    }
+
+    if (matching && token.type === "word" && isSymbol(next, "=") && isSymbol(tokens[i + 2], "(")) {
+      path = token.text
+      matched.add(path)
+      return
+    }
+
+    // Targets of SET n.x = 1, REMOVE n.x and DELETE n, m
+    const target = !frame && (isSymbol(previous, ",") || upper(previous) === clause)
+    if (target && ["SET", "REMOVE", "DELETE"].includes(clause) && token.type === "word") {
+      const tables = bindings.get(token.text)
+      if (tables) references.writtenTables.push(...tables)
+      else references.writesUnknownTable = true
+    }
+
+    // Labels follow ":" (or "|" between alternatives) outside map literals
+    const labelChain = isSymbol(previous, "|") && lastLabel === i - 2
+    if ((isSymbol(previous, ":") || labelChain) && frame?.bracket !== "{") {
+      const label = nameOf(token)
+      lastLabel = i
+      references.tables.push(label)
+      if (clause === "CREATE" || clause === "MERGE") references.writtenTables.push(label)
+      frame?.labels.push(label)
+      if (path) {
+        bindings.set(path, [...(bindings.get(path) ?? []), label])
+      }
+      // The variable precedes the first label: (n:A:B), [r:R|S], WHERE n:A
+      let k = i - 1
+      for (;;) {
+        if (isSymbol(tokens[k - 1], ":") || isSymbol(tokens[k - 1], "|")) k -= 1
+        else if (isName(tokens[k - 1]) && (isSymbol(tokens[k - 2], ":") || isSymbol(tokens[k - 2], "|"))) k -= 2
+        else break
+      }
+      const variable = tokens[k - 1]
+      if (variable?.type === "word") {
+        bindings.set(variable.text, [...(bindings.get(variable.text) ?? []), label])
+      }
+      return
+    }
+
+    // n.prop, or .prop in a map projection where the owner is not tracked
+    if (isSymbol(previous, ".")) {
+      const owner = tokens[i - 2]
+      references.properties.push({ name: nameOf(token), tables: isName(owner) ? (bindings.get(owner.text) ?? []) : [] })
+      return
+    }
+
+    // Keys of a property map inside a node or relationship pattern
+    if (frame?.bracket === "{" && isSymbol(next, ":") && (isSymbol(previous, "{") || isSymbol(previous, ","))) {
+      const parent = frames.at(-2)
+      if (parent && parent.bracket !== "{") {
+        references.properties.push({ name: nameOf(token), tables: parent.labels })
+      }
+      return
+    }
+
+    if (token.type === "word" && isSymbol(next, "(") && !isSymbol(previous, ":")) {
+      references.functions.push(token.text.toLowerCase())
+      return
+    }
+
+    // A matched variable used whole rather than through n.prop
+    const whole =
+      token.type === "word" &&
+      matched.has(token.text) &&
+      !isSymbol(next, ".") &&
+      !isSymbol(next, ":") &&
+      upper(previous) !== "AS" &&
+      !["DELETE", "DETACH"].includes(clause) &&
+      !OPAQUE_FUNCTIONS.has(frame?.fn ?? "") &&
+      !isPatternVariable(tokens, i, clause)
+    if (whole) {
+      references.variables.push({ name: token.text, tables: bindings.get(token.text) ?? [] })
+    }
+  })
+
+  return references
+}
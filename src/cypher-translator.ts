@@ -0,0 +1,260 @@
+import { maskLiterals } from "./cypher-lexer.js"
+
+export interface Rewrite {
+  // Linter rule the rewrite fixes
+  rule: string
+  original: string
+  replacement: string
+}
+
+export interface TranslationResult {
+  cypher: string
+  rewrites: Rewrite[]
+  // Neo4j constructs found but left alone because no safe rewrite exists
+  warnings: string[]
+}
+
+interface Edit {
+  start: number
+  end: number
+  replacement: string
+}
+
+// Apply edits, found on the masked text, to the original query from last to first
+function applyEdits(cypher: string, edits: Edit[]): string {
+  let result = cypher
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.replacement + result.slice(edit.end)
+  }
+  return result
+}
+
+// Index of the bracket closing the one at `open`, or -1
+function matchingBracket(masked: string, open: number): number {
+  const pairs: Record<string, string> = { "(": ")", "[": "]", "{": "}" }
+  const closers = new Set(Object.values(pairs))
+  let depth = 0
+  for (let i = open; i < masked.length; i++) {
+    const char = masked[i]!
+    if (char in pairs) depth++
+    else if (closers.has(char) && --depth === 0) return i
+  }
+  return -1
+}
+
+// Split on commas outside brackets, returning [start, end) ranges
+function splitTopLevel(masked: string, start: number, end: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = []
+  let depth = 0
+  let from = start
+  for (let i = start; i < end; i++) {
+    const char = masked[i]!
+    if ("([{".includes(char)) depth++
+    else if (")]}".includes(char)) depth--
+    else if (char === "," && depth === 0) {
+      ranges.push([from, i])
+      from = i + 1
+    }
+  }
+  ranges.push([from, end])
+  return ranges
+}
+
+type Pass = (cypher: string, masked: string, rewrites: Rewrite[], warnings: string[]) => Edit[]
+
+function edit(
+  cypher: string,
+  start: number,
+  end: number,
+  rule: string,
+  replacement: string,
+  rewrites: Rewrite[],
+): Edit {
+  rewrites.push({ rule, original: cypher.slice(start, end), replacement })
+  return { start, end, replacement }
+}
+
+// LOAD CSV [WITH HEADERS] FROM f AS row ... row.col  ->  LOAD FROM f (header = true) ... col
+const translateLoadCsv: Pass = (cypher, masked, rewrites, warnings) => {
+  const edits: Edit[] = []
+  for (const match of masked.matchAll(/\bLOAD\s+CSV\s+(WITH\s+HEADERS\s+)?FROM\b/gi)) {
+    // The file is a string literal, blanked in the masked text, or a parameter
+    const fileStart = match.index + match[0].length
+    const file = /^\s*('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|\$?\w+)/.exec(cypher.slice(fileStart))
+    if (!file) continue
+    const alias = /^\s+AS\s+(\w+)/i.exec(masked.slice(fileStart + file[0].length))
+    const end = fileStart + file[0].length + (alias ? alias[0].length : 0)
+    const replacement = `LOAD FROM ${file[1]!} (header = ${match[1] ? "true" : "false"})`
+    edits.push(edit(cypher, match.index, end, "no-load-csv", replacement, rewrites))
+    if (alias) {
+      // Kuzu exposes the columns directly instead of through a row variable
+      const rest = masked.slice(end)
+      for (const access of rest.matchAll(new RegExp(`\\b${alias[1]!}\\.(\\w+)`, "g"))) {
+        const start = end + access.index
+        edits.push(edit(cypher, start, start + access[0].length, "no-load-csv", access[1]!, rewrites))
+      }
+      if (new RegExp(`\\b${alias[1]!}\\s*\\[`).test(rest)) {
+        warnings.push(`Indexed access to ${alias[1]!}[...] was left as is; refer to the columns by name (column0, ...)`)
+      }
+    }
+  }
+  return edits
+}
+
+// REMOVE n.a, m.b  ->  SET n.a = NULL, m.b = NULL
+const translateRemove: Pass = (cypher, masked, rewrites, warnings) => {
+  const edits: Edit[] = []
+  const pattern = /\bREMOVE\s+(\w+\s*[.:]\s*\w+(?:\s*,\s*\w+\s*[.:]\s*\w+)*)/gi
+  for (const match of masked.matchAll(pattern)) {
+    const items = match[1]!.split(",").map((item) => item.trim())
+    if (items.some((item) => item.includes(":"))) {
+      warnings.push(
+        `Labels cannot be removed in Kuzu; left "${cypher.slice(match.index, match.index + match[0].length)}"`,
+      )
+      continue
+    }
+    const replacement = `SET ${items.map((item) => `${item.replace(/\s+/g, "")} = NULL`).join(", ")}`
+    edits.push(edit(cypher, match.index, match.index + match[0].length, "no-remove", replacement, rewrites))
+  }
+  return edits
+}
+
+// SET n += {a: 1, b: 2}  ->  SET n.a = 1, n.b = 2
+const translateMapUpdate: Pass = (cypher, masked, rewrites, warnings) => {
+  const edits: Edit[] = []
+  for (const match of masked.matchAll(/\b(SET\s+)(\w+)\s*\+=\s*\{/gi)) {
+    const open = match.index + match[0].length - 1
+    const close = matchingBracket(masked, open)
+    if (close === -1) continue
+    const variable = match[2]!
+    const assignments: string[] = []
+    for (const [start, end] of splitTopLevel(masked, open + 1, close)) {
+      const colon = masked.indexOf(":", start)
+      if (colon === -1 || colon >= end) continue
+      const key = cypher.slice(start, colon).trim()
+      const value = cypher.slice(colon + 1, end).trim()
+      assignments.push(`${variable}.${key} = ${value}`)
+    }
+    if (assignments.length === 0) {
+      warnings.push(`Could not expand the map in "${cypher.slice(match.index, close + 1)}"`)
+      continue
+    }
+    edits.push(edit(cypher, match.index, close + 1, "no-map-update", `${match[1]!}${assignments.join(", ")}`, rewrites))
+  }
+  return edits
+}
+
+// SHOW FUNCTIONS  ->  CALL show_functions() RETURN *
+const translateShow: Pass = (cypher, masked, rewrites) => {
+  const edits: Edit[] = []
+  for (const match of masked.matchAll(/(^|;)(\s*)SHOW\s+(\w+)/gi)) {
+    const start = match.index + match[1]!.length + match[2]!.length
+    const end = match.index + match[0].length
+    edits.push(edit(cypher, start, end, "no-show-clause", `CALL show_${match[3]!.toLowerCase()}() RETURN *`, rewrites))
+  }
+  return edits
+}
+
+// WHERE n:Person  ->  WHERE label(n) = 'Person';  n:A|B  ->  label(n) IN ['A', 'B']
+const translateLabelFilter: Pass = (cypher, masked, rewrites) => {
+  const edits: Edit[] = []
+  for (const match of masked.matchAll(/\b(WHERE|AND|OR|NOT)(\s+)(\w+)\s*:\s*(\w+(?:\s*\|\s*:?\w+)*)/gi)) {
+    const start = match.index + match[1]!.length + match[2]!.length
+    const labels = match[4]!.split("|").map((label) => label.replace(/[\s:]/g, ""))
+    const replacement =
+      labels.length === 1
+        ? `label(${match[3]!}) = '${labels[0]!}'`
+        : `label(${match[3]!}) IN [${labels.map((label) => `'${label}'`).join(", ")}]`
+    edits.push(edit(cypher, start, match.index + match[0].length, "no-label-filter", replacement, rewrites))
+  }
+  return edits
+}
+
+// (a)-->(b), (a)<--(b), (a)--(b)  ->  -[]->, <-[]-, -[]-
+const translateBareRelationships: Pass = (cypher, masked, rewrites) => {
+  const edits: Edit[] = []
+  const replacements: Record<string, string> = { "-->": "-[]->", "<--": "<-[]-", "--": "-[]-" }
+  for (const match of masked.matchAll(/\)\s*(<--|-->|--)\s*\(/g)) {
+    const arrow = match[1]!
+    const start = match.index + match[0].indexOf(arrow)
+    edits.push(edit(cypher, start, start + arrow.length, "no-bare-relationship", replacements[arrow]!, rewrites))
+  }
+  return edits
+}
+
+// A trailing FOREACH (x IN list | clauses)  ->  UNWIND list AS x clauses
+const translateForeach: Pass = (cypher, masked, rewrites, warnings) => {
+  const edits: Edit[] = []
+  for (const match of masked.matchAll(/\bFOREACH\s*\(/gi)) {
+    const open = match.index + match[0].length - 1
+    const close = matchingBracket(masked, open)
+    const inner = close === -1 ? null : /^\s*(\w+)\s+IN\s+/i.exec(masked.slice(open + 1, close))
+    const pipe = close === -1 ? -1 : topLevelPipe(masked, open + 1, close)
+    const original = cypher.slice(match.index, close + 1)
+
+    // UNWIND multiplies rows, which only matches FOREACH when nothing follows it
+    const trailing =
+      close === -1
+        ? ""
+        : masked
+            .slice(close + 1)
+            .split(";")[0]!
+            .trim()
+    if (!inner || pipe === -1 || trailing.length > 0 || /\bFOREACH\b/i.test(masked.slice(pipe, close))) {
+      warnings.push(`Only a FOREACH that ends its statement can become UNWIND; left "${original}"`)
+      continue
+    }
+
+    const list = cypher.slice(open + 1 + inner[0].length, pipe).trim()
+    const clauses = cypher.slice(pipe + 1, close).trim()
+    edits.push(
+      edit(cypher, match.index, close + 1, "no-foreach", `UNWIND ${list} AS ${inner[1]!} ${clauses}`, rewrites),
+    )
+  }
+  return edits
+}
+
+function topLevelPipe(masked: string, start: number, end: number): number {
+  let depth = 0
+  for (let i = start; i < end; i++) {
+    const char = masked[i]!
+    if ("([{".includes(char)) depth++
+    else if (")]}".includes(char)) depth--
+    else if (char === "|" && depth === 0) return i
+  }
+  return -1
+}
+
+// FINISH  ->  RETURN COUNT(*)
+const translateFinish: Pass = (cypher, masked, rewrites) =>
+  [...masked.matchAll(/\bFINISH\b/gi)].map((match) =>
+    edit(cypher, match.index, match.index + match[0].length, "no-finish", "RETURN COUNT(*)", rewrites),
+  )
+
+// Each pass runs on the output of the previous one
+const PASSES: Pass[] = [
+  translateLoadCsv,
+  translateRemove,
+  translateMapUpdate,
+  translateShow,
+  translateLabelFilter,
+  translateBareRelationships,
+  translateForeach,
+  translateFinish,
+]
+
+/**
+ * Rewrite Neo4j-only Cypher into the Kuzu dialect, following the rules in
+ * getPrompt(). Every rewrite is reported, and constructs that cannot be
+ * translated safely are left in place with a warning.
+ */
+export function translateCypher(cypher: string): TranslationResult {
+  const rewrites: Rewrite[] = []
+  const warnings: string[] = []
+  let translated = cypher
+  for (const pass of PASSES) {
+    const edits = pass(translated, maskLiterals(translated), rewrites, warnings)
+    translated = applyEdits(translated, edits)
+  }
+  return { cypher: translated, rewrites, warnings }
+}
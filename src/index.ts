@@ -13,17 +13,47 @@ import {
   CallToolRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   CallToolRequest,
   GetPromptRequest,
+  ReadResourceRequest,
 } from "@modelcontextprotocol/sdk/types.js"
 import * as kuzu from "kuzu"
-import { parseArgs, showHelp, showVersion, inspectDatabase, validateDatabase, initDatabase, runTests } from "./cli.js"
+import {
+  parseArgs,
+  showHelp,
+  showVersion,
+  inspectDatabase,
+  validateDatabase,
+  initDatabase,
+  addUser,
+  manageApiKeys,
+  backupDatabase,
+  restoreDatabase,
+  runTests,
+} from "./cli.js"
 import { execSync } from "child_process"
 import * as path from "path"
 import * as fs from "fs"
 import { promises as fsPromises } from "fs"
-import { DatabaseManager, executeQuery, getSchema, getPrompt, initializeDatabaseManager } from "./server-core.js"
-import { createFastMCPServer, OAuthConfig } from "./server-fastmcp.js"
+import {
+  DatabaseManager,
+  initializeDatabaseManager,
+  onSchemaChange,
+  recoverDatabase,
+  withDatabase,
+} from "./server-core.js"
+import { listResources, readResource } from "./resources.js"
+import { TOOLS, PROMPTS, RESOURCE_TEMPLATES, findTool, findPrompt } from "./registry.js"
+import { z } from "zod"
+import { createFastMCPServer, FastMCPServerOptions, JWT_EXPIRES_IN, OAuthConfig } from "./server-fastmcp.js"
+import { openAuthStore } from "./auth-store.js"
+import { KeyRing, parseSigningAlgorithm } from "./signing-keys.js"
+import { watchPolicyFile } from "./query-policy.js"
+import { loadPermissionsFile } from "./authorization.js"
+import { BackupScheduler, loadBackupSchedule, type BackupSchedulerOptions } from "./backup-scheduler.js"
 
 // Global database manager (only used for stdio transport)
 let dbManager: DatabaseManager | null = null
@@ -103,7 +133,7 @@ const server = new Server(
   },
   {
     capabilities: {
-      resources: {},
+      resources: { listChanged: true },
       tools: {},
       prompts: {},
     },
@@ -121,29 +151,11 @@ process.on("SIGTERM", () => {
 
 server.setRequestHandler(ListToolsRequestSchema, () => {
   return {
-    tools: [
-      {
-        name: "query",
-        description: "Run a Cypher query on the Kuzu database",
-        inputSchema: {
-          type: "object",
-          properties: {
-            cypher: {
-              type: "string",
-              description: "The Cypher query to run",
-            },
-          },
-        },
-      },
-      {
-        name: "getSchema",
-        description: "Get the schema of the Kuzu database",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
-      },
-    ],
+    tools: TOOLS.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: z.toJSONSchema(tool.parameters) as { type: "object" },
+    })),
   }
 })
 
@@ -155,76 +167,72 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
     throw new Error("Database manager not initialized")
   }
 
-  if (request.params.name === "query") {
-    const cypher = request.params.arguments?.cypher as string
-    // The SDK expects the result directly without wrapping
-    return await executeQuery(cypher, dbManager)
-  } else if (request.params.name === "getSchema") {
-    try {
-      const schema = await getSchema(dbManager.conn)
-      return {
-        content: [{ type: "text", text: JSON.stringify(schema, null, 2) }],
-        isError: false,
-      }
-    } catch (error) {
-      console.error("Error in getSchema tool:", error)
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }, null, 2),
-          },
-        ],
-        isError: true,
-      }
-    }
+  const tool = findTool(request.params.name)
+  if (!tool) {
+    throw new Error(`Unknown tool: ${request.params.name}`)
+  }
+
+  const args = tool.parameters.safeParse(request.params.arguments ?? {})
+  if (!args.success) {
+    throw new Error(`Invalid arguments for ${tool.name}: ${args.error.message}`)
   }
-  throw new Error(`Unknown tool: ${request.params.name}`)
+
+  // The SDK expects the result directly without wrapping
+  return await tool.execute(args.data, { dbManager, sessionId: "stdio" })
 })
 
 server.setRequestHandler(ListPromptsRequestSchema, () => {
   return {
-    prompts: [
+    prompts: PROMPTS.map(({ name, description, arguments: promptArguments }) => ({
+      name,
+      description,
+      arguments: promptArguments,
+    })),
+  }
+})
+
+server.setRequestHandler(GetPromptRequestSchema, async (request: GetPromptRequest) => {
+  if (!dbManager) {
+    throw new Error("Database manager not initialized")
+  }
+
+  const prompt = findPrompt(request.params.name)
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${request.params.name}`)
+  }
+
+  const text = await prompt.load(request.params.arguments ?? {}, dbManager)
+  return {
+    messages: [
       {
-        name: "generateKuzuCypher",
-        description: "Generate a Cypher query for Kuzu",
-        arguments: [
-          {
-            name: "question",
-            description: "The question in natural language to generate the Cypher query for",
-            required: true,
-          },
-        ],
+        role: "user",
+        content: {
+          type: "text",
+          text,
+        },
       },
     ],
   }
 })
 
-server.setRequestHandler(GetPromptRequestSchema, async (request: GetPromptRequest) => {
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
   if (!dbManager) {
     throw new Error("Database manager not initialized")
   }
+  const manager = dbManager
+  return { resources: await withDatabase(manager, () => listResources(manager.conn)) }
+})
 
-  if (request.params.name === "generateKuzuCypher") {
-    const question = request.params.arguments?.question as string
-    if (!question) {
-      throw new Error("Missing required argument: question")
-    }
+server.setRequestHandler(ListResourceTemplatesRequestSchema, () => {
+  return { resourceTemplates: RESOURCE_TEMPLATES }
+})
 
-    const schema = await getSchema(dbManager.conn)
-    return {
-      messages: [
-        {
-          role: "user",
-          content: {
-            type: "text",
-            text: getPrompt(question, schema),
-          },
-        },
-      ],
-    }
+server.setRequestHandler(ReadResourceRequestSchema, async (request: ReadResourceRequest) => {
+  if (!dbManager) {
+    throw new Error("Database manager not initialized")
   }
-  throw new Error(`Unknown prompt: ${request.params.name}`)
+  const manager = dbManager
+  return { contents: [await withDatabase(manager, () => readResource(manager.conn, request.params.uri))] }
 })
 
 interface ServerOptions {
@@ -248,6 +256,13 @@ async function startStdioServer(options: ServerOptions): Promise<void> {
   try {
     await server.connect(transport)
     console.error("✓ MCP server connected successfully")
+
+    // Tell the client to re-list resources after DDL
+    onSchemaChange(() => {
+      server.sendResourceListChanged().catch((error: unknown) => {
+        console.error("Error sending resources/list_changed:", error)
+      })
+    })
   } catch (error) {
     console.error("❌ Failed to connect MCP server:", error)
     // Don't exit, try to continue - this helps with debugging
@@ -289,6 +304,26 @@ async function main(): Promise<void> {
     process.exit(0)
   }
 
+  if (options.command === "add-user" && options.username) {
+    await addUser(options.authStore ?? process.env.KUZU_AUTH_STORE, options.username, options.scope)
+    process.exit(0)
+  }
+
+  if (options.command === "api-key") {
+    await manageApiKeys(options.authStore ?? process.env.KUZU_AUTH_STORE, options)
+    process.exit(0)
+  }
+
+  if (options.command === "backup" && options.databasePath) {
+    await backupDatabase(options.databasePath, options.backupDir ?? process.env.KUZU_BACKUP_DIR ?? ".")
+    process.exit(0)
+  }
+
+  if (options.command === "restore" && options.backupFile && options.databasePath) {
+    await restoreDatabase(options.backupFile, options.databasePath, options.force)
+    process.exit(0)
+  }
+
   if (options.command === "test") {
     await runTests()
     process.exit(0)
@@ -344,19 +379,83 @@ async function main(): Promise<void> {
   if (options.readonly) {
     process.env.KUZU_READ_ONLY = "true"
   }
+  if (options.timeout) {
+    process.env.KUZU_QUERY_TIMEOUT = String(options.timeout)
+  }
+  if (options.maxResults) {
+    process.env.KUZU_MAX_RESULTS = String(options.maxResults)
+  }
+  if (options.policy) {
+    process.env.KUZU_POLICY_FILE = options.policy
+  }
+  if (process.env.KUZU_POLICY_FILE) {
+    try {
+      watchPolicyFile(process.env.KUZU_POLICY_FILE)
+      console.error(`🛡️  Query policy loaded from ${process.env.KUZU_POLICY_FILE}`)
+    } catch (error) {
+      console.error(`❌ Invalid query policy ${process.env.KUZU_POLICY_FILE}:`, error)
+      process.exit(1)
+    }
+  }
+  if (options.permissions) {
+    process.env.KUZU_PERMISSIONS_FILE = options.permissions
+  }
+  if (process.env.KUZU_PERMISSIONS_FILE) {
+    try {
+      loadPermissionsFile(process.env.KUZU_PERMISSIONS_FILE)
+      console.error(`🔐 User permissions loaded from ${process.env.KUZU_PERMISSIONS_FILE}`)
+    } catch (error) {
+      console.error(`❌ Invalid permissions file ${process.env.KUZU_PERMISSIONS_FILE}:`, error)
+      process.exit(1)
+    }
+  }
+
+  if (options.backupSchedule) {
+    process.env.KUZU_BACKUP_SCHEDULE = options.backupSchedule
+  }
+  if (options.backupDir) {
+    process.env.KUZU_BACKUP_DIR = options.backupDir
+  }
+  let backups: BackupSchedulerOptions | undefined
+  try {
+    backups = loadBackupSchedule()
+  } catch (error) {
+    console.error("❌ Invalid backup schedule:", error)
+    process.exit(1)
+  }
+  if (backups) {
+    console.error(
+      `💾 Backing up ${backups.schedule.description} to ${backups.outputDir}, keeping ` +
+        `${backups.retention.keepDaily} daily and ${backups.retention.keepWeekly} weekly backups`,
+    )
+  }
 
   // Choose transport based on options
   const transport = options.transport || "stdio"
 
   if (transport === "http") {
+    if (options.authStore) {
+      process.env.KUZU_AUTH_STORE = options.authStore
+    }
+    const authStore = await openAuthStore(process.env.KUZU_AUTH_STORE).catch((error: unknown) => {
+      console.error(`❌ Cannot open auth store ${process.env.KUZU_AUTH_STORE}:`, error)
+      process.exit(1)
+    })
+    const storedUsers = (await authStore.listUsers()).length
+    if (process.env.KUZU_AUTH_STORE) {
+      console.error(`🗄️  Auth store: ${authStore.description} (${storedUsers} users)`)
+    }
+
     // Load OAuth configuration from environment variables
     let oauthConfig: OAuthConfig | undefined
     if (process.env.KUZU_OAUTH_ENABLED === "true") {
       const username = process.env.KUZU_OAUTH_USERNAME
       const password = process.env.KUZU_OAUTH_PASSWORD
 
-      if (!username || !password) {
-        console.error("❌ OAuth enabled but KUZU_OAUTH_USERNAME and KUZU_OAUTH_PASSWORD are required")
+      if ((!username || !password) && storedUsers === 0) {
+        console.error(
+          "❌ OAuth enabled but KUZU_OAUTH_USERNAME and KUZU_OAUTH_PASSWORD are required when the auth store has no users",
+        )
         process.exit(1)
       }
 
@@ -366,29 +465,59 @@ async function main(): Promise<void> {
         password,
         userId: process.env.KUZU_OAUTH_USER_ID || username,
         email: process.env.KUZU_OAUTH_EMAIL,
+        scope: process.env.KUZU_OAUTH_SCOPE,
         issuer: process.env.KUZU_OAUTH_ISSUER || `http://localhost:${options.port || 3000}`,
         resource: process.env.KUZU_OAUTH_RESOURCE,
       }
 
       console.error("🔐 OAuth enabled with username/password authentication")
-      console.error(`   Username: ${oauthConfig.username}`)
-      console.error(`   User ID: ${oauthConfig.userId}`)
+      if (oauthConfig.username) {
+        console.error(`   Username: ${oauthConfig.username}`)
+        console.error(`   User ID: ${oauthConfig.userId}`)
+        console.error(`   Scope: ${oauthConfig.scope || "admin"}`)
+      }
       console.error("   ✓ Login form will be shown at authorization endpoint")
     }
 
     // Load Basic Auth configuration from environment variables
-    let basicAuthConfig: { username: string; password: string; userId?: string; email?: string } | undefined
+    let basicAuthConfig: FastMCPServerOptions["basicAuth"]
     if (process.env.KUZU_BASIC_AUTH_USERNAME && process.env.KUZU_BASIC_AUTH_PASSWORD) {
       basicAuthConfig = {
         username: process.env.KUZU_BASIC_AUTH_USERNAME,
         password: process.env.KUZU_BASIC_AUTH_PASSWORD,
         userId: process.env.KUZU_BASIC_AUTH_USER_ID,
         email: process.env.KUZU_BASIC_AUTH_EMAIL,
+        scope: process.env.KUZU_BASIC_AUTH_SCOPE,
       }
 
       console.error("🔐 Basic authentication enabled")
       console.error(`   Username: ${basicAuthConfig.username}`)
       console.error(`   User ID: ${basicAuthConfig.userId || basicAuthConfig.username}`)
+      console.error(`   Scope: ${basicAuthConfig.scope || "admin"}`)
+    }
+
+    // Signing keys for OAuth access tokens, rotated in the background
+    let keyRing: KeyRing | undefined
+    if (oauthConfig) {
+      if (options.jwtKeyDir) {
+        process.env.KUZU_JWT_KEY_DIR = options.jwtKeyDir
+      }
+      const rotationDays = process.env.KUZU_JWT_KEY_ROTATION_DAYS
+      keyRing = await KeyRing.open({
+        algorithm: parseSigningAlgorithm(process.env.KUZU_JWT_ALGORITHM),
+        directory: process.env.KUZU_JWT_KEY_DIR,
+        rotationInterval: rotationDays ? parseFloat(rotationDays) * 24 * 60 * 60 * 1000 : undefined,
+        retention: JWT_EXPIRES_IN * 1000,
+        legacySecret: process.env.KUZU_JWT_SECRET,
+      }).catch((error: unknown) => {
+        console.error("❌ Cannot load JWT signing keys:", error)
+        process.exit(1)
+      })
+      keyRing.startRotation()
+      console.error(
+        `🔑 Signing tokens with ${keyRing.algorithm} key ${keyRing.currentKey.kid}` +
+          (process.env.KUZU_JWT_KEY_DIR ? ` from ${process.env.KUZU_JWT_KEY_DIR}` : " (in memory)"),
+      )
     }
 
     // Create FastMCP HTTP server with shared database manager
@@ -399,6 +528,9 @@ async function main(): Promise<void> {
       endpoint: options.endpoint,
       oauth: oauthConfig,
       basicAuth: basicAuthConfig,
+      authStore,
+      keyRing,
+      backups,
     })
 
     // Start FastMCP server
@@ -416,6 +548,9 @@ async function main(): Promise<void> {
     // Start stdio server (default)
     // We already checked that databasePath exists above
     await startStdioServer(options as ServerOptions)
+    if (backups && dbManager) {
+      await new BackupScheduler(dbManager, backups).start()
+    }
   }
 }
 
@@ -426,31 +561,16 @@ process.on("uncaughtException", (error) => {
   console.error("Stack:", error.stack)
   console.error("Error type:", error.constructor.name)
 
-  // Discard potentially corrupted connection references
-  if (dbManager && dbManager.conn) {
-    console.error("Discarding database connection reference")
-    dbManager.conn = null as unknown as kuzu.Connection
-  }
-  if (dbManager && dbManager.db) {
-    console.error("Discarding database instance reference")
-    dbManager.db = null as unknown as kuzu.Database
-  }
-
-  // Attempt to reinitialize connections for next request
-  setTimeout(() => {
-    void (() => {
-      try {
-        if (dbManager && dbManager.currentDatabasePath) {
-          console.error("Attempting to reinitialize database connections...")
-          const newDbManager = initializeDatabaseManager(dbManager.currentDatabasePath, dbManager.currentIsReadOnly)
-          Object.assign(dbManager, newDbManager)
-          console.error("✓ Database connections reinitialized after uncaught exception")
-        }
-      } catch (reinitError) {
+  // Reopen the database through the same drain and close steps as a restore
+  if (dbManager) {
+    void recoverDatabase(dbManager)
+      .then(() => {
+        console.error("✓ Database connections reinitialized after uncaught exception")
+      })
+      .catch((reinitError: unknown) => {
         console.error("❌ Failed to reinitialize database connections:", reinitError)
-      }
-    })()
-  }, 1000)
+      })
+  }
 
   // Don't exit - try to keep the server running
   console.error("🔄 Server continuing after uncaught exception (connections may be reset)...")
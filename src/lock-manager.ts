@@ -1,11 +1,15 @@
 import * as fs from "fs/promises"
 import * as path from "path"
 import { constants } from "fs"
+import { classifyQuery, modifiesDatabase } from "./statement-policy.js"
 
 interface ErrnoException extends Error {
   code?: string
 }
 
+// Written inside the database directory while a write lock is held
+export const LOCK_FILE_NAME = ".mcp_write_lock"
+
 export interface WriteLock {
   processId: number
   agentId: string
@@ -29,12 +33,13 @@ export class LockManager {
   private heartbeatTimer?: ReturnType<typeof setInterval>
 
   constructor(databasePath: string, agentId: string, lockTimeout: number = 10000) {
-    this.lockFilePath = path.join(databasePath, ".mcp_write_lock")
+    this.lockFilePath = path.join(databasePath, LOCK_FILE_NAME)
     this.agentId = agentId
     this.lockTimeout = lockTimeout
   }
 
-  async acquireWriteLock(): Promise<WriteLock> {
+  // holdTimeout lets long-lived holders (e.g. explicit transactions) outlast the wait timeout
+  async acquireWriteLock(holdTimeout: number = this.lockTimeout): Promise<WriteLock> {
     const startTime = Date.now()
 
     while (Date.now() - startTime < this.lockTimeout) {
@@ -64,7 +69,7 @@ export class LockManager {
           agentId: this.agentId,
           timestamp: Date.now(),
           heartbeat: Date.now(),
-          timeout: this.lockTimeout,
+          timeout: holdTimeout,
         }
 
         try {
@@ -96,6 +101,18 @@ export class LockManager {
     throw new LockTimeoutError(holder, Math.max(0, timeRemaining))
   }
 
+  // Restart the hold timeout of a lock we still own
+  async renewLock(lock: WriteLock): Promise<void> {
+    const currentLock = await this.readLock()
+    if (!currentLock || currentLock.processId !== lock.processId || currentLock.agentId !== lock.agentId) {
+      throw new Error("Cannot renew a write lock that is no longer held")
+    }
+
+    lock.timestamp = Date.now()
+    lock.heartbeat = Date.now()
+    await fs.writeFile(this.lockFilePath, JSON.stringify(lock, null, 2))
+  }
+
   async releaseLock(lock: WriteLock): Promise<void> {
     this.stopHeartbeat()
 
@@ -186,21 +203,50 @@ export class LockManager {
   }
 }
 
+// Whether any statement in the query changes the database; see classifyStatement
+/**
+ * The in-process counterpart of the write lock, used whether or not
+ * multi-agent mode is on. Writes pass through the gate; a backup closes it
+ * and waits for the writes already inside, so nothing is written while the
+ * database files are copied.
+ */
+export class WriteGate {
+  private writers = 0
+  private closed: Promise<void> | null = null
+
+  async write<T>(work: () => Promise<T>): Promise<T> {
+    // Checked and counted in the same tick, so the gate cannot close in between
+    while (this.closed) {
+      await this.closed
+    }
+    this.writers++
+    try {
+      return await work()
+    } finally {
+      this.writers--
+    }
+  }
+
+  async exclusive<T>(work: () => Promise<T>): Promise<T> {
+    while (this.closed) {
+      await this.closed
+    }
+    let open = (): void => undefined
+    this.closed = new Promise((resolve) => {
+      open = resolve
+    })
+    try {
+      while (this.writers > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+      }
+      return await work()
+    } finally {
+      this.closed = null
+      open()
+    }
+  }
+}
+
 export function detectMutation(cypher: string): boolean {
-  const mutationPatterns = [
-    /^\s*CREATE\s+/i,
-    /^\s*MERGE\s+/i,
-    /^\s*DELETE\s+/i,
-    /^\s*SET\s+/i,
-    /^\s*REMOVE\s+/i,
-    /^\s*DROP\s+/i,
-    /^\s*ALTER\s+/i,
-    /^\s*COPY\s+/i,
-    /\sMERGE\s+/i,
-    /\sSET\s+/i,
-    /\sDELETE\s+/i,
-    /\sREMOVE\s+/i,
-  ]
-
-  return mutationPatterns.some((pattern) => pattern.test(cypher))
+  return modifiesDatabase(classifyQuery(cypher))
 }
@@ -1,4 +1,5 @@
 import * as kuzu from "kuzu"
+import { maskLiterals } from "./cypher-lexer.js"
 
 export interface MergeValidationResult {
   isValid: boolean
@@ -18,7 +19,9 @@ let cacheTimestamp = 0
 const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
 
 // Extract MERGE statements from a query
-export function extractMergeStatements(query: string): Array<{ label: string; properties: string[] }> {
+export function extractMergeStatements(cypher: string): Array<{ label: string; properties: string[] }> {
+  // Keywords and braces inside strings or comments are not part of the query
+  const query = maskLiterals(cypher)
   const mergeStatements: Array<{ label: string; properties: string[] }> = []
 
   // Match MERGE patterns like: MERGE (alias:Label {prop: value})
@@ -0,0 +1,80 @@
+/**
+ * multipart/form-data parsing for request bodies that arrive as text.
+ *
+ * FastMCP routes only see bodies decoded as UTF-8, which mangles raw binary
+ * file parts. Uploaders to those routes send each file part with
+ * "Content-Transfer-Encoding: base64" (RFC 2045), and parts that were
+ * evidently binary are refused rather than restored corrupted.
+ */
+
+export interface MultipartPart {
+  name: string
+  filename?: string
+  data: Buffer
+}
+
+export class MultipartError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "MultipartError"
+  }
+}
+
+function headerParameter(header: string, parameter: string): string | undefined {
+  const match = new RegExp(`;\\s*${parameter}=(?:"([^"]*)"|([^;\\s]*))`, "i").exec(header)
+  return match ? (match[1] ?? match[2]) : undefined
+}
+
+function parsePart(raw: string): MultipartPart {
+  const split = raw.indexOf("\r\n\r\n")
+  if (split === -1) {
+    throw new MultipartError("Malformed multipart part")
+  }
+  const headers = new Map<string, string>()
+  for (const line of raw.slice(0, split).split("\r\n")) {
+    const colon = line.indexOf(":")
+    if (colon > 0) {
+      headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim())
+    }
+  }
+
+  const disposition = headers.get("content-disposition") ?? ""
+  const name = headerParameter(disposition, "name")
+  if (!name) {
+    throw new MultipartError("Multipart part without a field name")
+  }
+  const filename = headerParameter(disposition, "filename")
+  const content = raw.slice(split + 4)
+
+  if (headers.get("content-transfer-encoding")?.toLowerCase() === "base64") {
+    return { name, filename, data: Buffer.from(content, "base64") }
+  }
+  if (content.includes("\uFFFD")) {
+    throw new MultipartError(`Part "${name}" is binary; send it with Content-Transfer-Encoding: base64`)
+  }
+  return { name, filename, data: Buffer.from(content, "utf-8") }
+}
+
+// The parts of a multipart/form-data body, by field name
+export function parseMultipart(body: string, contentType: string | undefined): Map<string, MultipartPart> {
+  if (!contentType?.toLowerCase().startsWith("multipart/form-data")) {
+    throw new MultipartError("Expected a multipart/form-data request")
+  }
+  const boundary = headerParameter(contentType, "boundary")
+  if (!boundary) {
+    throw new MultipartError("Multipart request without a boundary")
+  }
+
+  const parts = new Map<string, MultipartPart>()
+  const delimiter = `--${boundary}`
+  const sections = body.split(delimiter)
+  // sections[0] is the preamble; the section after the closing delimiter starts with "--"
+  for (const section of sections.slice(1)) {
+    if (section.startsWith("--")) {
+      return parts
+    }
+    const part = parsePart(section.replace(/^\r\n/, "").replace(/\r\n$/, ""))
+    parts.set(part.name, part)
+  }
+  throw new MultipartError("Multipart body is missing its closing boundary")
+}
@@ -1,10 +1,22 @@
 import * as kuzu from "kuzu"
+import { ColumnInfo, CursorManager, QueryPage } from "./cursor-manager.js"
+import { ParameterTypeError, prepareParameters } from "./query-parameters.js"
+import { TransactionBusyError, TransactionNotFoundError } from "./transaction-manager.js"
+import { codeTokens, isDDLStatement, splitStatements } from "./cypher-lexer.js"
+import { StatementNotAllowedError } from "./statement-policy.js"
+import { PolicyViolationError } from "./query-policy.js"
+import { PermissionDeniedError } from "./authorization.js"
 
 // Standard result format for consistency
 export interface QueryResultMetadata {
   statementsExecuted: number
   rowsAffected?: number
   executionTime?: string
+  cursor?: string
+  hasMore?: boolean
+  truncated?: boolean
+  totalRows?: number
+  columns?: ColumnInfo[]
   success: boolean
 }
 
@@ -15,6 +27,60 @@ export interface StandardQueryResult {
   error?: Record<string, unknown>
 }
 
+export class QueryTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Query was interrupted after exceeding the ${timeoutMs}ms timeout`)
+    this.name = "QueryTimeoutError"
+  }
+}
+
+// Kuzu rejects a timeout of 0, so "no timeout" is restored with the largest 32-bit value
+const UNLIMITED_QUERY_TIMEOUT = 2 ** 31 - 1
+const appliedTimeouts = new WeakMap<kuzu.Connection, number>()
+
+// Set Kuzu's per-connection query timeout, only touching the connection when it changes
+export function applyQueryTimeout(connection: kuzu.Connection, timeoutMs?: number): void {
+  const current = appliedTimeouts.get(connection)
+  const wanted = timeoutMs && timeoutMs > 0 ? timeoutMs : current !== undefined ? UNLIMITED_QUERY_TIMEOUT : undefined
+  if (wanted === undefined || wanted === current) {
+    return
+  }
+  connection.setQueryTimeout(wanted)
+  appliedTimeouts.set(connection, wanted)
+}
+
+// Kuzu aborts timed out queries with an InterruptException ("Interrupted.")
+function isInterruptedError(error: unknown): boolean {
+  return error instanceof Error && /\bInterrupted\b/.test(error.message)
+}
+
+// Cap rows that were read in full, recording the original count when rows are dropped
+export function limitRows(rows: Record<string, unknown>[], maxRows?: number): QueryPage {
+  if (maxRows === undefined || rows.length <= maxRows) {
+    return { rows, hasMore: false }
+  }
+  return { rows: rows.slice(0, maxRows), hasMore: false, truncated: true, totalRows: rows.length }
+}
+
+// Plain rows keep the original response format; paged, truncated or typed results need the envelope
+function pageOrRows(page: QueryPage): Record<string, unknown>[] | QueryPage {
+  return page.cursor || page.truncated || page.columns ? page : page.rows
+}
+
+function pageMetadata(page: QueryPage): Partial<QueryResultMetadata> {
+  return {
+    ...(page.columns && { columns: page.columns }),
+    ...(page.cursor && { cursor: page.cursor, hasMore: true }),
+    ...(page.truncated && { truncated: true, totalRows: page.totalRows }),
+  }
+}
+
+// Read column names and Kuzu data types from a result before consuming it
+export async function readColumns(result: kuzu.QueryResult): Promise<ColumnInfo[]> {
+  const [names, types] = await Promise.all([result.getColumnNames(), result.getColumnDataTypes()])
+  return names.map((name, index) => ({ name, type: types[index] ?? "ANY" }))
+}
+
 // Helper to create standardized success response
 export function createSuccessResponse(
   results: Record<string, unknown>[],
@@ -69,7 +135,7 @@ function createErrorContext(
         errorType: error.constructor.name,
         errorMessage: error.message,
         queryProvided: !!query,
-        statementCount: query ? query.split(";").filter((s) => s.trim()).length : 0,
+        statementCount: query ? splitStatements(query).length : 0,
         ...additionalContext,
       },
     }
@@ -137,27 +203,51 @@ export async function processQueryResults(
   }
 }
 
+// Helper function to run a single statement through conn.prepare + conn.execute
+export async function executePreparedQuery(
+  connection: kuzu.Connection,
+  cypher: string,
+  parameters: Record<string, unknown>,
+): Promise<kuzu.QueryResult> {
+  const prepared = prepareParameters(cypher, parameters)
+  const statement = await connection.prepare(prepared.cypher)
+  if (!statement.isSuccess()) {
+    throw new Error(statement.getErrorMessage())
+  }
+  return connection.execute(statement, prepared.values)
+}
+
 // Helper function to split and execute queries separately if batch fails
 export async function executeBatchQuery(
   connection: kuzu.Connection,
   cypher: string,
-  options: { standardFormat?: boolean } = {},
-): Promise<Record<string, unknown>[] | StandardQueryResult> {
+  options: {
+    standardFormat?: boolean
+    cursors?: CursorManager
+    pageSize?: number
+    parameters?: Record<string, unknown>
+    timeout?: number
+    maxRows?: number
+    // Attach column names and data types to the returned page
+    columns?: boolean
+  } = {},
+): Promise<Record<string, unknown>[] | StandardQueryResult | QueryPage> {
   const startTime = Date.now()
+  applyQueryTimeout(connection, options.timeout)
   try {
-    // First try to execute as a single batch
-    const queryResult = await connection.query(cypher)
+    // First try to execute as a single batch (prepared statements are always a single statement)
+    const queryResult = options.parameters
+      ? await executePreparedQuery(connection, cypher, options.parameters)
+      : await connection.query(cypher)
 
     // If it's an array, we know it's a multi-statement query
     // We need to check if we should add query info to the results
     if (Array.isArray(queryResult)) {
       // Parse the query to get individual statements for better reporting
-      const statements = cypher
-        .split(";")
-        .map((s) => s.trim())
-        .filter((s) => s.length > 0)
+      const statements = splitStatements(cypher)
 
       const allResults: Record<string, unknown>[] = []
+      const columns: ColumnInfo[] = []
       const queryResults = queryResult as kuzu.QueryResult[]
       const resultsToClose: kuzu.QueryResult[] = []
 
@@ -171,7 +261,16 @@ export async function executeBatchQuery(
         const statement = statements[i] || `Statement ${i + 1}`
 
         try {
-          const isDDL = /^\s*(CREATE|ALTER|DROP)\s+(TABLE|NODE|REL|RELATIONSHIP)/i.test(statement)
+          const isDDL = isDDLStatement(statement)
+
+          // Statements can return different columns, so collect the union in order
+          if (options.columns) {
+            for (const column of await readColumns(result)) {
+              if (!columns.some((existing) => existing.name === column.name)) {
+                columns.push(column)
+              }
+            }
+          }
 
           // Now that we fixed the result closing issue, we can directly call getAll()
           const rows = await result.getAll()
@@ -234,25 +333,45 @@ export async function executeBatchQuery(
         }
       }
 
+      const page = limitRows(allResults, options.maxRows)
+      if (options.columns) {
+        page.columns = columns
+      }
       if (options.standardFormat) {
-        return createSuccessResponse(allResults, {
+        return createSuccessResponse(page.rows, {
           statementsExecuted: statements.length,
           executionTime: `${Date.now() - startTime}ms`,
+          ...pageMetadata(page),
         })
       }
-      return allResults
+      return pageOrRows(page)
     } else {
-      // Single query result - use original processQueryResults
-      const results = await processQueryResults(queryResult)
+      // Single query result - page through it when a cursor manager is available,
+      // otherwise use original processQueryResults
+      const columns = options.columns ? await readColumns(queryResult) : undefined
+      const page: QueryPage = options.cursors
+        ? await options.cursors.openCursor(queryResult, cypher, options.pageSize, options.maxRows, columns)
+        : { ...limitRows(await processQueryResults(queryResult), options.maxRows), ...(columns && { columns }) }
       if (options.standardFormat) {
-        return createSuccessResponse(results, {
+        return createSuccessResponse(page.rows, {
           statementsExecuted: 1,
           executionTime: `${Date.now() - startTime}ms`,
+          ...pageMetadata(page),
         })
       }
-      return results
+      return pageOrRows(page)
     }
   } catch (error) {
+    // A timed out query must not be re-run statement by statement
+    if (options.timeout && isInterruptedError(error)) {
+      throw new QueryTimeoutError(options.timeout)
+    }
+
+    // Parameterized queries cannot be split, since parameters would be lost
+    if (options.parameters) {
+      throw error
+    }
+
     console.error("Batch execution failed, trying individual statements:", error)
 
     // Check if this is specifically a composite primary key error
@@ -265,10 +384,7 @@ export async function executeBatchQuery(
     }
 
     // If batch fails, split by semicolon and execute individually
-    const statements = cypher
-      .split(";")
-      .map((s) => s.trim())
-      .filter((s) => s.length > 0)
+    const statements = splitStatements(cypher)
 
     if (statements.length <= 1) {
       // If there's only one statement, re-throw the original error
@@ -281,7 +397,7 @@ export async function executeBatchQuery(
     for (let i = 0; i < statements.length; i++) {
       try {
         const statement = statements[i]!
-        const isDDL = /^\s*(CREATE|ALTER|DROP)\s+(TABLE|NODE|REL|RELATIONSHIP)/i.test(statement)
+        const isDDL = isDDLStatement(statement)
 
         const result = await connection.query(statement)
         const rows = await result.getAll()
@@ -338,25 +454,114 @@ export async function executeBatchQuery(
       throw new Error(`All statements failed:\n${errors.map((e) => `Statement ${e.statement}: ${e.error}`).join("\n")}`)
     }
 
+    const page = limitRows(allResults, options.maxRows)
     if (options.standardFormat) {
-      return createSuccessResponse(allResults, {
+      return createSuccessResponse(page.rows, {
         statementsExecuted: statements.length - errors.length,
         executionTime: `${Date.now() - startTime}ms`,
+        ...pageMetadata(page),
       })
     }
-    return allResults
+    return pageOrRows(page)
   }
 }
 
 // Helper function to detect composite primary key syntax
 export function detectCompositePrimaryKey(query: string): boolean {
   // Detect patterns like: PRIMARY KEY(col1, col2)
-  const compositeKeyRegex = /PRIMARY\s+KEY\s*\(\s*\w+\s*,\s*\w+/i
-  return compositeKeyRegex.test(query)
+  const tokens = codeTokens(query)
+  const isName = (i: number): boolean => tokens[i]?.type === "word" || tokens[i]?.type === "quoted-name"
+  return tokens.some(
+    (token, i) =>
+      token.text.toUpperCase() === "PRIMARY" &&
+      tokens[i + 1]?.text.toUpperCase() === "KEY" &&
+      tokens[i + 2]?.text === "(" &&
+      isName(i + 3) &&
+      tokens[i + 4]?.text === "," &&
+      isName(i + 5),
+  )
 }
 
 // Enhanced error formatting
 export function formatKuzuError(error: unknown, query?: string): Record<string, unknown> {
+  if (error instanceof ParameterTypeError) {
+    return {
+      error: "PARAMETER_TYPE_ERROR",
+      message: error.message,
+      type: "parameter_error",
+      parameter: error.parameter,
+      expectedType: error.expectedType,
+      suggestion:
+        'Pass typed values as { "type": "<KUZU TYPE>", "value": ... }, e.g. { "type": "DATE", "value": "2024-01-31" }',
+    }
+  }
+
+  if (error instanceof QueryTimeoutError) {
+    return {
+      error: "QUERY_TIMEOUT",
+      message: error.message,
+      type: "timeout",
+      timeoutMs: error.timeoutMs,
+      suggestion:
+        "Narrow the query (add a LIMIT, filter earlier, or bound variable-length patterns like [*1..3]) " +
+        "or pass a larger timeout.",
+    }
+  }
+
+  if (error instanceof StatementNotAllowedError) {
+    return {
+      error: "STATEMENT_NOT_ALLOWED",
+      message: error.message,
+      type: "policy_error",
+      statementClass: error.statementClass,
+      statement: error.statement,
+      suggestion: error.readOnly
+        ? "The server is in read-only mode; only statements that do not change the database can run."
+        : "Check KUZU_ALLOW_STATEMENTS and KUZU_DENY_STATEMENTS for the statement classes this server accepts.",
+    }
+  }
+
+  if (error instanceof PolicyViolationError) {
+    return {
+      error: "POLICY_VIOLATION",
+      message: error.message,
+      type: "policy_error",
+      rule: error.rule,
+      statement: error.statement,
+      suggestion: "This server's policy file restricts what queries may do; rewrite the query within those limits.",
+    }
+  }
+
+  if (error instanceof PermissionDeniedError) {
+    return {
+      error: "PERMISSION_DENIED",
+      message: error.message,
+      type: "authorization_error",
+      userId: error.userId,
+      ...(error.table ? { table: error.table } : {}),
+      statement: error.statement,
+      suggestion: "Your role or table grants do not allow this; ask an administrator for access.",
+    }
+  }
+
+  if (error instanceof TransactionNotFoundError) {
+    return {
+      error: "TRANSACTION_NOT_FOUND",
+      message: error.message,
+      type: "transaction_error",
+      suggestion: "Idle transactions are rolled back automatically. Call beginTransaction and re-run its statements.",
+    }
+  }
+
+  if (error instanceof TransactionBusyError) {
+    return {
+      error: "TRANSACTION_BUSY",
+      message: error.message,
+      type: "transaction_error",
+      suggestion: "Statements in a transaction run one at a time; send the next one after the previous call returns.",
+    }
+  }
+
   if (error instanceof Error) {
     const errorMessage = error.message
 
@@ -0,0 +1,402 @@
+// Coercion of JSON tool arguments into values for Kuzu prepared statements.
+//
+// The Kuzu Node.js binding infers a parameter's type from its JavaScript value:
+// safe integers become INT64, other numbers DOUBLE, arrays LIST, objects STRUCT,
+// Date objects DATE and BigInt INT128. JSON cannot express DATE, TIMESTAMP, MAP or
+// integers beyond 2^53, so a parameter may instead be given as an explicit typed
+// value: { "type": "TIMESTAMP", "value": "2024-01-01 12:00:00" }. Explicitly typed
+// parameters are validated here and wrapped in a CAST inside the query so Kuzu
+// receives exactly the declared type.
+
+export class ParameterTypeError extends Error {
+  constructor(
+    public readonly parameter: string,
+    public readonly expectedType: string,
+    public readonly received: unknown,
+    detail?: string,
+  ) {
+    super(
+      `Parameter "${parameter}" expects ${expectedType} but received ${describeValue(received)}` +
+        (detail ? `: ${detail}` : ""),
+    )
+    this.name = "ParameterTypeError"
+  }
+}
+
+export interface PreparedParameters {
+  cypher: string
+  values: Record<string, unknown>
+}
+
+interface TypedParameter {
+  type: string
+  value: unknown
+}
+
+const INTEGER_RANGES: Record<string, [bigint, bigint]> = {
+  INT8: [-(2n ** 7n), 2n ** 7n - 1n],
+  INT16: [-(2n ** 15n), 2n ** 15n - 1n],
+  INT32: [-(2n ** 31n), 2n ** 31n - 1n],
+  INT64: [-(2n ** 63n), 2n ** 63n - 1n],
+  SERIAL: [-(2n ** 63n), 2n ** 63n - 1n],
+  INT128: [-(2n ** 127n), 2n ** 127n - 1n],
+  UINT8: [0n, 2n ** 8n - 1n],
+  UINT16: [0n, 2n ** 16n - 1n],
+  UINT32: [0n, 2n ** 32n - 1n],
+  UINT64: [0n, 2n ** 64n - 1n],
+}
+
+const FLOAT_TYPES = new Set(["DOUBLE", "FLOAT"])
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}(:?\d{2})?)?$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "a list"
+  if (typeof value === "object" || typeof value === "function") return "an object"
+  const text = typeof value === "string" ? `"${value}"` : String(value as number | boolean | bigint | undefined)
+  return `${typeof value} ${text.length > 50 ? text.substring(0, 50) + "..." : text}`
+}
+
+// A typed parameter is an object with exactly a string "type" and a "value"
+export function isTypedParameter(value: unknown): value is TypedParameter {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false
+  }
+  const keys = Object.keys(value)
+  return (
+    keys.length === 2 &&
+    keys.includes("type") &&
+    keys.includes("value") &&
+    typeof (value as TypedParameter).type === "string"
+  )
+}
+
+const SCALAR_TYPES = new Set([
+  ...Object.keys(INTEGER_RANGES),
+  ...FLOAT_TYPES,
+  "BOOL",
+  "BOOLEAN",
+  "STRING",
+  "DATE",
+  "TIMESTAMP",
+  "INTERVAL",
+  "UUID",
+])
+
+type ParsedType =
+  | { kind: "scalar"; name: string }
+  | { kind: "list"; element: ParsedType }
+  | { kind: "map"; key: ParsedType; value: ParsedType }
+  | { kind: "struct"; fields: [string, ParsedType][] }
+
+function typeText(type: ParsedType): string {
+  switch (type.kind) {
+    case "scalar":
+      return type.name
+    case "list":
+      return `${typeText(type.element)}[]`
+    case "map":
+      return `MAP(${typeText(type.key)}, ${typeText(type.value)})`
+    case "struct":
+      return `STRUCT(${type.fields.map(([field, fieldType]) => `${field} ${typeText(fieldType)}`).join(", ")})`
+  }
+}
+
+/**
+ * Parse a declared parameter type. The type is written into the query as a
+ * CAST target, so anything outside this grammar is rejected before the value
+ * is looked at: a scalar type, T[], MAP(K, V) or STRUCT(field T, ...).
+ */
+function parseType(name: string, type: string): ParsedType {
+  const invalid = (): ParameterTypeError =>
+    new ParameterTypeError(
+      name,
+      "a supported type",
+      type,
+      `unsupported parameter type ${type.trim()}; expected a scalar type, T[], MAP(K, V) or STRUCT(field T, ...)`,
+    )
+  let pos = 0
+  const peek = (): string | undefined => {
+    while (pos < type.length && /\s/.test(type[pos]!)) pos++
+    return type[pos]
+  }
+  const expect = (char: string): void => {
+    if (peek() !== char) throw invalid()
+    pos++
+  }
+  const word = (): string => {
+    peek()
+    const match = /^[A-Za-z_]\w*/.exec(type.slice(pos))
+    if (!match) throw invalid()
+    pos += match[0].length
+    return match[0]
+  }
+  const parse = (): ParsedType => {
+    const keyword = word().toUpperCase()
+    let parsed: ParsedType
+    if (keyword === "MAP") {
+      expect("(")
+      const key = parse()
+      expect(",")
+      parsed = { kind: "map", key, value: parse() }
+      expect(")")
+    } else if (keyword === "STRUCT") {
+      expect("(")
+      const fields: [string, ParsedType][] = [[word(), parse()]]
+      while (peek() === ",") {
+        pos++
+        fields.push([word(), parse()])
+      }
+      expect(")")
+      parsed = { kind: "struct", fields }
+    } else if (SCALAR_TYPES.has(keyword)) {
+      parsed = { kind: "scalar", name: keyword }
+    } else {
+      throw invalid()
+    }
+    while (peek() === "[") {
+      pos++
+      expect("]")
+      parsed = { kind: "list", element: parsed }
+    }
+    return parsed
+  }
+
+  const parsed = parse()
+  if (peek() !== undefined) throw invalid()
+  return parsed
+}
+
+function coerceInteger(name: string, type: string, value: unknown): number | bigint {
+  let asBigInt: bigint
+  if (typeof value === "number") {
+    if (!Number.isInteger(value)) {
+      throw new ParameterTypeError(name, type, value, "value is not an integer")
+    }
+    asBigInt = BigInt(value)
+  } else if (typeof value === "string" && /^-?\d+$/.test(value.trim())) {
+    asBigInt = BigInt(value.trim())
+  } else {
+    throw new ParameterTypeError(name, type, value)
+  }
+
+  const [min, max] = INTEGER_RANGES[type]!
+  if (asBigInt < min || asBigInt > max) {
+    throw new ParameterTypeError(name, type, value, "value is out of range")
+  }
+
+  // Keep plain numbers where they are exact; larger values travel as BigInt
+  return asBigInt >= BigInt(Number.MIN_SAFE_INTEGER) && asBigInt <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(asBigInt)
+    : asBigInt
+}
+
+function coerceTemporal(name: string, type: string, value: unknown, pattern: RegExp): string {
+  if (typeof value !== "string" || !pattern.test(value.trim())) {
+    throw new ParameterTypeError(name, type, value, `expected an ISO-8601 ${type.toLowerCase()} string`)
+  }
+  // Reject well-formed but impossible dates such as 2024-02-30
+  const datePart = value.trim().substring(0, 10)
+  const parsed = new Date(`${datePart}T00:00:00Z`)
+  if (isNaN(parsed.getTime()) || parsed.toISOString().substring(0, 10) !== datePart) {
+    throw new ParameterTypeError(name, type, value, "not a valid calendar date")
+  }
+  return value.trim()
+}
+
+/**
+ * Coerce a JSON value into the JavaScript value Kuzu needs for the given type.
+ * The result is always wrapped in a CAST to the declared type by the caller.
+ */
+export function coerceValue(name: string, type: string, value: unknown): unknown {
+  return coerceParsed(name, parseType(name, type), value)
+}
+
+function coerceParsed(name: string, type: ParsedType, value: unknown): unknown {
+  const normalizedType = typeText(type)
+
+  if (value === null || value === undefined) {
+    return null
+  }
+
+  if (type.kind === "list") {
+    if (!Array.isArray(value)) {
+      throw new ParameterTypeError(name, normalizedType, value)
+    }
+    return value.map((element, index) => coerceParsed(`${name}[${index}]`, type.element, element))
+  }
+
+  if (type.kind === "struct") {
+    if (typeof value !== "object" || Array.isArray(value)) {
+      throw new ParameterTypeError(name, normalizedType, value)
+    }
+    const fields = value as Record<string, unknown>
+    const unknownField = Object.keys(fields).find((field) => !type.fields.some(([declared]) => declared === field))
+    if (unknownField !== undefined) {
+      throw new ParameterTypeError(name, normalizedType, value, `unknown field ${unknownField}`)
+    }
+    return Object.fromEntries(
+      type.fields.map(([field, fieldType]) => [field, coerceParsed(`${name}.${field}`, fieldType, fields[field])]),
+    )
+  }
+
+  if (type.kind === "map") {
+    throw new ParameterTypeError(name, normalizedType, value, "MAP is only supported as a top-level parameter")
+  }
+
+  if (normalizedType in INTEGER_RANGES) {
+    return coerceInteger(name, normalizedType, value)
+  }
+
+  if (FLOAT_TYPES.has(normalizedType)) {
+    const num = typeof value === "string" && value.trim() !== "" ? Number(value) : value
+    if (typeof num !== "number" || isNaN(num)) {
+      throw new ParameterTypeError(name, normalizedType, value)
+    }
+    return num
+  }
+
+  switch (normalizedType) {
+    case "BOOL":
+    case "BOOLEAN":
+      if (typeof value !== "boolean") {
+        throw new ParameterTypeError(name, normalizedType, value)
+      }
+      return value
+    case "STRING":
+      if (typeof value !== "string") {
+        throw new ParameterTypeError(name, normalizedType, value)
+      }
+      return value
+    case "DATE":
+      return coerceTemporal(name, normalizedType, value, DATE_PATTERN)
+    case "TIMESTAMP":
+      return coerceTemporal(name, normalizedType, value, TIMESTAMP_PATTERN)
+    case "INTERVAL":
+      if (typeof value !== "string" || value.trim() === "") {
+        throw new ParameterTypeError(name, normalizedType, value, "expected an interval string like '1 day 2 hours'")
+      }
+      return value
+    case "UUID":
+      if (typeof value !== "string" || !UUID_PATTERN.test(value)) {
+        throw new ParameterTypeError(name, normalizedType, value)
+      }
+      return value
+  }
+
+  throw new ParameterTypeError(name, normalizedType, value, `unsupported parameter type ${normalizedType}`)
+}
+
+// Coerce a MAP parameter given as a JSON object or a list of [key, value] pairs
+function coerceMap(name: string, keyType: ParsedType, valueType: ParsedType, value: unknown): [unknown[], unknown[]] {
+  const mapType = `MAP(${typeText(keyType)}, ${typeText(valueType)})`
+  let entries: [unknown, unknown][]
+  if (Array.isArray(value)) {
+    if (!value.every((entry) => Array.isArray(entry) && entry.length === 2)) {
+      throw new ParameterTypeError(name, mapType, value, "expected [key, value] pairs")
+    }
+    entries = value as [unknown, unknown][]
+  } else if (value && typeof value === "object") {
+    entries = Object.entries(value)
+  } else {
+    throw new ParameterTypeError(name, mapType, value)
+  }
+
+  const keys = entries.map(([key], index) => coerceParsed(`${name}.keys[${index}]`, keyType, key))
+  const values = entries.map(([, val], index) => coerceParsed(`${name}.values[${index}]`, valueType, val))
+  return [keys, values]
+}
+
+/**
+ * Replace every $name reference in a query, skipping string literals,
+ * backtick identifiers and comments
+ */
+export function replaceParameterReference(cypher: string, name: string, replacement: string): string {
+  let output = ""
+  let i = 0
+  while (i < cypher.length) {
+    const char = cypher[i]!
+    const next = cypher[i + 1]
+
+    // Copy quoted strings and identifiers through untouched
+    if (char === "'" || char === '"' || char === "`") {
+      let j = i + 1
+      while (j < cypher.length && cypher[j] !== char) {
+        if (cypher[j] === "\\" && char !== "`") j++
+        j++
+      }
+      output += cypher.slice(i, j + 1)
+      i = j + 1
+      continue
+    }
+
+    // Copy comments through untouched
+    if (char === "/" && (next === "/" || next === "*")) {
+      const end = next === "/" ? cypher.indexOf("\n", i) : cypher.indexOf("*/", i + 2)
+      const stop = end === -1 ? cypher.length : next === "/" ? end : end + 2
+      output += cypher.slice(i, stop)
+      i = stop
+      continue
+    }
+
+    if (char === "$" && cypher.startsWith(name, i + 1) && !/\w/.test(cypher[i + 1 + name.length] ?? "")) {
+      output += replacement
+      i += name.length + 1
+      continue
+    }
+
+    output += char
+    i++
+  }
+  return output
+}
+
+/**
+ * Turn tool-supplied parameters into a query and value map for conn.execute.
+ * Plain JSON values are passed through and typed by Kuzu; typed values are
+ * validated and cast to their declared type.
+ */
+export function prepareParameters(cypher: string, parameters: Record<string, unknown>): PreparedParameters {
+  let rewritten = cypher
+  const values: Record<string, unknown> = {}
+
+  for (const [name, raw] of Object.entries(parameters)) {
+    if (!/^\w+$/.test(name)) {
+      throw new ParameterTypeError(name, "a valid parameter name", name, "names may only contain letters, digits and _")
+    }
+
+    if (!isTypedParameter(raw)) {
+      if (typeof raw === "number" && !Number.isSafeInteger(raw) && Number.isInteger(raw)) {
+        throw new ParameterTypeError(
+          name,
+          "INT64",
+          raw,
+          'integer exceeds 2^53; pass it as { "type": "INT64", "value": "<digits>" }',
+        )
+      }
+      values[name] = raw
+      continue
+    }
+
+    // Only the canonical text of a parsed type reaches the query
+    const type = parseType(name, raw.type)
+    if (type.kind === "map") {
+      const [keys, mapValues] = coerceMap(name, type.key, type.value, raw.value)
+      values[`${name}__keys`] = keys
+      values[`${name}__values`] = mapValues
+      rewritten = replaceParameterReference(
+        rewritten,
+        name,
+        `map(CAST($${name}__keys AS ${typeText(type.key)}[]), CAST($${name}__values AS ${typeText(type.value)}[]))`,
+      )
+      continue
+    }
+
+    values[name] = coerceParsed(name, type, raw.value)
+    rewritten = replaceParameterReference(rewritten, name, `CAST($${name} AS ${typeText(type)})`)
+  }
+
+  return { cypher: rewritten, values }
+}
@@ -0,0 +1,280 @@
+import { readFileSync, watchFile, unwatchFile, type Stats } from "fs"
+import { collectReferences } from "./cypher-references.js"
+import { ClassifiedStatement, STATEMENT_CLASSES, StatementClass } from "./statement-policy.js"
+
+/**
+ * Per-deployment query policy loaded from the --policy file. Every field is
+ * optional; an empty policy allows everything the statement policy allows.
+ */
+export interface QueryPolicy {
+  allowedStatements?: StatementClass[]
+  deniedStatements?: StatementClass[]
+  // Node and relationship tables that may not be referenced at all
+  forbiddenTables: string[]
+  // "Table.property", or "property" to forbid it on every table
+  forbiddenProperties: string[]
+  // Upper bound for variable-length relationships; unbounded patterns are rejected when set
+  maxPathDepth?: number
+  bannedFunctions: string[]
+}
+
+export type PolicyRule =
+  | "statement-class"
+  | "forbidden-table"
+  | "forbidden-property"
+  | "max-path-depth"
+  | "banned-function"
+
+export class PolicyViolationError extends Error {
+  constructor(
+    public readonly rule: PolicyRule,
+    message: string,
+    public readonly statement: string,
+  ) {
+    super(message)
+    this.name = "PolicyViolationError"
+  }
+}
+
+const POLICY_KEYS = [
+  "allowedStatements",
+  "deniedStatements",
+  "forbiddenTables",
+  "forbiddenProperties",
+  "maxPathDepth",
+  "bannedFunctions",
+]
+
+function parseScalar(value: string): string | number {
+  const quoted = /^(["'])(.*)\1$/.exec(value)
+  if (quoted) return quoted[2]!
+  return /^-?\d+$/.test(value) ? Number(value) : value
+}
+
+/**
+ * Read the YAML subset policies need: top-level keys with a scalar, a flow
+ * list ([a, b]) or a block list of "- item" lines. Anything else is rejected
+ * rather than guessed at.
+ */
+function parseYaml(text: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  let listKey: string | null = null
+  text.split("\n").forEach((raw, index) => {
+    const line = raw.replace(/(^|\s)#.*$/, "").trimEnd()
+    if (!line.trim()) return
+    const item = /^\s+-\s+(.+)$/.exec(line) ?? /^-\s+(.+)$/.exec(line)
+    if (item && listKey) {
+      ;(result[listKey] as unknown[]).push(parseScalar(item[1]!.trim()))
+      return
+    }
+    const entry = /^([A-Za-z_]\w*)\s*:\s*(.*)$/.exec(line)
+    if (!entry) {
+      throw new Error(`Unsupported YAML on line ${index + 1}: ${raw.trim()}`)
+    }
+    const [, key, value] = entry
+    listKey = null
+    if (!value) {
+      result[key!] = []
+      listKey = key!
+    } else if (value.startsWith("[") && value.endsWith("]")) {
+      const inner = value.slice(1, -1).trim()
+      result[key!] = inner ? inner.split(",").map((part) => parseScalar(part.trim())) : []
+    } else {
+      result[key!] = parseScalar(value.trim())
+    }
+  })
+  return result
+}
+
+function stringList(raw: Record<string, unknown>, key: string): string[] {
+  const value = raw[key]
+  if (value === undefined) return []
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new Error(`Policy field ${key} must be a list of strings`)
+  }
+  return value as string[]
+}
+
+function classList(raw: Record<string, unknown>, key: string): StatementClass[] | undefined {
+  if (raw[key] === undefined) return undefined
+  const classes = stringList(raw, key).map((name) => name.toLowerCase())
+  const unknown = classes.find((name) => !(STATEMENT_CLASSES as readonly string[]).includes(name))
+  if (unknown) {
+    throw new Error(`Unknown statement class "${unknown}" in ${key}; expected one of ${STATEMENT_CLASSES.join(", ")}`)
+  }
+  return classes as StatementClass[]
+}
+
+// Parse a policy file's contents; JSON is detected by a .json name or a leading "{"
+export function parsePolicy(text: string, fileName = ""): QueryPolicy {
+  const raw = (
+    fileName.endsWith(".json") || text.trimStart().startsWith("{") ? JSON.parse(text) : parseYaml(text)
+  ) as Record<string, unknown>
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("Policy must be an object")
+  }
+  const unknownKey = Object.keys(raw).find((key) => !POLICY_KEYS.includes(key))
+  if (unknownKey) {
+    throw new Error(`Unknown policy field ${unknownKey}; expected ${POLICY_KEYS.join(", ")}`)
+  }
+  const maxPathDepth = raw.maxPathDepth
+  if (
+    maxPathDepth !== undefined &&
+    (typeof maxPathDepth !== "number" || !Number.isInteger(maxPathDepth) || maxPathDepth < 1)
+  ) {
+    throw new Error("Policy field maxPathDepth must be a positive integer")
+  }
+
+  return {
+    allowedStatements: classList(raw, "allowedStatements"),
+    deniedStatements: classList(raw, "deniedStatements"),
+    forbiddenTables: stringList(raw, "forbiddenTables"),
+    forbiddenProperties: stringList(raw, "forbiddenProperties"),
+    maxPathDepth,
+    bannedFunctions: stringList(raw, "bannedFunctions"),
+  }
+}
+
+let activePolicy: QueryPolicy | null = null
+let watchedFile: string | null = null
+
+export function getQueryPolicy(): QueryPolicy | null {
+  return activePolicy
+}
+
+export function setQueryPolicy(policy: QueryPolicy | null): void {
+  activePolicy = policy
+}
+
+export function loadPolicyFile(file: string): QueryPolicy {
+  const policy = parsePolicy(readFileSync(file, "utf-8"), file)
+  activePolicy = policy
+  return policy
+}
+
+/**
+ * Load the policy and reload it whenever the file changes. A change that fails
+ * to parse is logged and the previous policy stays in force.
+ */
+export function watchPolicyFile(file: string, interval = 1000): QueryPolicy {
+  const policy = loadPolicyFile(file)
+  stopWatchingPolicyFile()
+  watchedFile = file
+  watchFile(file, { interval, persistent: false }, (current: Stats, previous: Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) return
+    try {
+      loadPolicyFile(file)
+      console.error(`🛡️  Reloaded query policy from ${file}`)
+    } catch (error) {
+      console.error(`⚠️  Keeping the previous query policy; ${file} is invalid:`, error)
+    }
+  })
+  return policy
+}
+
+export function stopWatchingPolicyFile(): void {
+  if (watchedFile) {
+    unwatchFile(watchedFile)
+    watchedFile = null
+  }
+}
+
+function forbiddenProperty(policy: QueryPolicy, name: string, tables: string[]): string | undefined {
+  return policy.forbiddenProperties.find((entry) => {
+    const dot = entry.lastIndexOf(".")
+    const property = dot === -1 ? entry : entry.slice(dot + 1)
+    if (property.toLowerCase() !== name.toLowerCase()) return false
+    if (dot === -1) return true
+    // Unknown tables could be the forbidden one, so only a known other table is allowed
+    const table = entry.slice(0, dot).toLowerCase()
+    return tables.length === 0 || tables.some((t) => t.toLowerCase() === table)
+  })
+}
+
+// The first forbidden property a table may have, or any when the tables are unknown
+function restrictedProperty(policy: QueryPolicy, tables: string[]): string | undefined {
+  return policy.forbiddenProperties.find((entry) => {
+    const dot = entry.lastIndexOf(".")
+    if (dot === -1) return true
+    const table = entry.slice(0, dot).toLowerCase()
+    return tables.length === 0 || tables.some((t) => t.toLowerCase() === table)
+  })
+}
+
+/**
+ * Check classified statements against the policy, throwing
+ * PolicyViolationError for the first rule a statement breaks
+ */
+export function checkQueryPolicy(statements: ClassifiedStatement[], policy: QueryPolicy): void {
+  const forbiddenTables = new Set(policy.forbiddenTables.map((table) => table.toLowerCase()))
+  const bannedFunctions = new Set(policy.bannedFunctions.map((fn) => fn.toLowerCase()))
+
+  for (const { statement, classes } of statements) {
+    const rejected = classes.find(
+      (cls) =>
+        policy.deniedStatements?.includes(cls) || (policy.allowedStatements && !policy.allowedStatements.includes(cls)),
+    )
+    if (rejected) {
+      throw new PolicyViolationError(
+        "statement-class",
+        `${rejected} statements are not allowed by the policy`,
+        statement,
+      )
+    }
+
+    const references = collectReferences(statement)
+    const table = references.tables.find((name) => forbiddenTables.has(name.toLowerCase()))
+    if (table) {
+      throw new PolicyViolationError("forbidden-table", `Table ${table} is not accessible under the policy`, statement)
+    }
+    if (forbiddenTables.size > 0 && references.unlabelledPatterns) {
+      throw new PolicyViolationError(
+        "forbidden-table",
+        "Patterns without a label could reach tables the policy forbids; label every node and relationship",
+        statement,
+      )
+    }
+
+    for (const { name, tables } of references.properties) {
+      const entry = forbiddenProperty(policy, name, tables)
+      if (entry) {
+        throw new PolicyViolationError(
+          "forbidden-property",
+          `Property ${entry} is not accessible under the policy`,
+          statement,
+        )
+      }
+    }
+
+    // RETURN n and properties(n) carry every property, forbidden ones included
+    for (const { name, tables } of references.variables) {
+      const entry = restrictedProperty(policy, tables)
+      if (entry) {
+        throw new PolicyViolationError(
+          "forbidden-property",
+          `Returning ${name} whole would expose property ${entry}, which is not accessible under the policy; return the properties you need instead`,
+          statement,
+        )
+      }
+    }
+
+    const fn = references.functions.find((name) => bannedFunctions.has(name))
+    if (fn) {
+      throw new PolicyViolationError("banned-function", `Function ${fn} is banned by the policy`, statement)
+    }
+
+    if (policy.maxPathDepth !== undefined) {
+      const max = policy.maxPathDepth
+      const bound = references.pathBounds.find((upper) => upper === null || upper > max)
+      if (bound !== undefined) {
+        throw new PolicyViolationError(
+          "max-path-depth",
+          bound === null
+            ? `Variable-length relationships need an upper bound of at most ${max}`
+            : `Variable-length relationship depth ${bound} exceeds the policy maximum of ${max}`,
+          statement,
+        )
+      }
+    }
+  }
+}
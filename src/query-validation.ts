@@ -0,0 +1,165 @@
+import * as kuzu from "kuzu"
+import { isDDLStatement } from "./cypher-lexer.js"
+import {
+  StatementClass,
+  StatementNotAllowedError,
+  checkStatementPolicy,
+  classifyQuery,
+  modifiesDatabase,
+  resolveStatementPolicy,
+} from "./statement-policy.js"
+import { validateMergeQuery } from "./merge-validation.js"
+import { detectCompositePrimaryKey, executePreparedQuery, formatKuzuError } from "./query-helpers.js"
+import { PermissionDeniedError, UserPermissions, checkPermissions } from "./authorization.js"
+
+export interface StatementValidation {
+  statement: number
+  query: string
+  valid: boolean
+  classes: StatementClass[]
+  plan?: string
+  error?: Record<string, unknown>
+  note?: string
+}
+
+export interface QueryValidationResult {
+  valid: boolean
+  isWrite: boolean
+  statements: StatementValidation[]
+  readOnlyViolation?: boolean
+  // Set when the statement policy rejects one of the statements
+  notAllowed?: Record<string, unknown>
+  // Set when the caller's role or table grants reject a statement; nothing is planned then
+  permissionDenied?: Record<string, unknown>
+  compositePrimaryKey?: boolean
+  merge?: {
+    valid: boolean
+    errors: string[]
+    warnings: string[]
+    suggestion?: string
+  }
+}
+
+// Run EXPLAIN for one statement; Kuzu parses, binds and plans it without executing
+async function explainStatement(
+  connection: kuzu.Connection,
+  statement: string,
+  parameters?: Record<string, unknown>,
+): Promise<string> {
+  const explain = `EXPLAIN ${statement}`
+  const result = parameters
+    ? await executePreparedQuery(connection, explain, parameters)
+    : await connection.query(explain)
+  try {
+    const rows = await result.getAll()
+    return rows.map((row) => Object.values(row).map(String).join("\n")).join("\n")
+  } finally {
+    try {
+      result.close()
+    } catch (closeErr) {
+      console.error("Error closing result:", closeErr)
+    }
+  }
+}
+
+/**
+ * Check a query without running it: parser and binder errors and the plan come
+ * from EXPLAIN, statement classes and the policy check from classifyQuery, and
+ * MERGE problems from validateMergeQuery. With permissions, a query touching
+ * tables the caller cannot access is rejected before EXPLAIN, whose plan and
+ * errors would name them.
+ */
+export async function validateQuery(
+  connection: kuzu.Connection,
+  cypher: string,
+  parameters?: Record<string, unknown>,
+  readOnly = false,
+  permissions?: UserPermissions,
+): Promise<QueryValidationResult> {
+  const classified = classifyQuery(cypher)
+  const isWrite = modifiesDatabase(classified)
+  const statements = classified.map((c) => c.statement)
+
+  if (permissions) {
+    try {
+      checkPermissions(classified, permissions)
+    } catch (error) {
+      if (!(error instanceof PermissionDeniedError)) {
+        throw error
+      }
+      return {
+        valid: false,
+        isWrite,
+        statements: classified.map(({ statement, classes }, i) => ({
+          statement: i + 1,
+          query: statement,
+          valid: statement !== error.statement,
+          classes,
+        })),
+        permissionDenied: formatKuzuError(error),
+      }
+    }
+  }
+
+  const results: StatementValidation[] = []
+  for (let i = 0; i < statements.length; i++) {
+    const statement = statements[i]!
+    try {
+      const plan = await explainStatement(connection, statement, parameters)
+      results.push({ statement: i + 1, query: statement, valid: true, classes: classified[i]!.classes, plan })
+    } catch (error) {
+      const validation: StatementValidation = {
+        statement: i + 1,
+        query: statement,
+        valid: false,
+        classes: classified[i]!.classes,
+        error: formatKuzuError(error, statement),
+      }
+      // Nothing runs, so tables created by earlier statements do not exist yet
+      if (statements.slice(0, i).some(isDDLStatement)) {
+        validation.note = "This statement may depend on schema changes made by an earlier statement in the query"
+      }
+      results.push(validation)
+    }
+  }
+
+  const validation: QueryValidationResult = {
+    valid: results.every((r) => r.valid),
+    isWrite,
+    statements: results,
+  }
+
+  const isReadOnly = readOnly || process.env.KUZU_READ_ONLY === "true"
+  try {
+    checkStatementPolicy(classified, resolveStatementPolicy(isReadOnly), isReadOnly)
+  } catch (error) {
+    if (!(error instanceof StatementNotAllowedError)) {
+      throw error
+    }
+    validation.notAllowed = formatKuzuError(error)
+    if (isReadOnly && isWrite) {
+      validation.readOnlyViolation = true
+    }
+    validation.valid = false
+  }
+
+  if (detectCompositePrimaryKey(cypher)) {
+    validation.compositePrimaryKey = true
+    validation.valid = false
+  }
+
+  if (cypher.toUpperCase().includes("MERGE")) {
+    const merge = await validateMergeQuery(connection, cypher)
+    validation.merge = {
+      valid: merge.isValid,
+      errors: merge.errors,
+      warnings: merge.warnings,
+      suggestion: merge.suggestedFix,
+    }
+    if (!merge.isValid) {
+      validation.valid = false
+    }
+  }
+
+  return validation
+}
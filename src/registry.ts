@@ -0,0 +1,242 @@
+/**
+ * Tools, prompts and resources shared by the stdio and FastMCP servers. Each
+ * is defined once here; the servers only adapt them to their transport.
+ */
+import { z } from "zod"
+import {
+  DatabaseManager,
+  QueryResult,
+  RESULT_FORMATS,
+  executeQuery,
+  fetchMoreResults,
+  explainQuery,
+  lintQuery,
+  translateQuery,
+  beginTransaction,
+  endTransaction,
+  getSchema,
+  getPrompt,
+  withDatabase,
+} from "./server-core.js"
+import { SCHEMA_RESOURCE, RESOURCE_TEMPLATES, ResourceDescriptor } from "./resources.js"
+import { UserPermissions, filterSchema } from "./authorization.js"
+
+export interface ToolContext {
+  dbManager: DatabaseManager
+  // Owner of transactions started through this call
+  sessionId: string
+  // Role and table grants of the authenticated caller; unrestricted when absent
+  permissions?: UserPermissions
+}
+
+export interface ToolDefinition<Parameters extends z.ZodObject = z.ZodObject> {
+  name: string
+  description: string
+  parameters: Parameters
+  execute: (args: z.infer<Parameters>, context: ToolContext) => Promise<QueryResult>
+}
+
+export interface PromptArgument {
+  name: string
+  description: string
+  required: boolean
+}
+
+export interface PromptDefinition {
+  name: string
+  description: string
+  arguments: PromptArgument[]
+  // Returns the text of the single user message
+  load: (
+    args: Record<string, string | undefined>,
+    dbManager: DatabaseManager,
+    permissions?: UserPermissions,
+  ) => Promise<string>
+}
+
+// Keep each tool's argument types while collecting them in one list
+function defineTool<Parameters extends z.ZodObject>(tool: ToolDefinition<Parameters>): ToolDefinition {
+  return tool as unknown as ToolDefinition
+}
+
+const positiveInt = (): z.ZodOptional<z.ZodNumber> => z.number().int().positive().optional()
+
+const queryParameters = z
+  .record(z.string(), z.unknown())
+  .optional()
+  .describe(
+    'Values for $name placeholders in the query. Use { "type": "DATE", "value": "2024-01-31" } for ' +
+      "types JSON cannot express (INT64 beyond 2^53, DATE, TIMESTAMP, INTERVAL, UUID, MAP(K, V), T[])",
+  )
+
+export const TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: "query",
+    description: "Run a Cypher query on the Kuzu database",
+    parameters: z.object({
+      cypher: z.string().describe("The Cypher query to run"),
+      pageSize: positiveInt().describe("Maximum rows to return; larger results include a cursor for fetchMore"),
+      parameters: queryParameters,
+      transactionId: z.string().optional().describe("Run the query inside a transaction started with beginTransaction"),
+      timeout: positiveInt().describe("Milliseconds before the query is interrupted (overrides the server default)"),
+      maxResults: positiveInt().describe(
+        "Maximum rows to return in total; larger results are truncated (overrides the server default)",
+      ),
+      format: z
+        .enum(RESULT_FORMATS)
+        .optional()
+        .describe(
+          "Response shape: rows (row objects, default), standard (results with column types and timing " +
+            "metadata) or columnar (one array per column, with column types)",
+        ),
+      lint: z
+        .boolean()
+        .optional()
+        .describe("Reject the query if lintCypher reports errors (overrides the server default)"),
+      translate: z
+        .boolean()
+        .optional()
+        .describe(
+          "Rewrite Neo4j-only syntax into Kuzu Cypher before running it, and report the rewrites applied " +
+            "(overrides the server default)",
+        ),
+    }),
+    execute: (args, { dbManager, sessionId, permissions }) =>
+      executeQuery(args.cypher, dbManager, {
+        pageSize: args.pageSize,
+        parameters: args.parameters,
+        transactionId: args.transactionId,
+        timeout: args.timeout,
+        maxResults: args.maxResults,
+        format: args.format,
+        lint: args.lint,
+        translate: args.translate,
+        sessionId,
+        permissions,
+      }),
+  }),
+  defineTool({
+    name: "fetchMore",
+    description: "Fetch the next page of a query result using the cursor returned by query",
+    parameters: z.object({
+      cursor: z.string().describe("The cursor returned by a previous query or fetchMore call"),
+      pageSize: positiveInt().describe("Maximum rows to return in this page"),
+      format: z
+        .enum(RESULT_FORMATS)
+        .optional()
+        .describe("Response shape; pass the same format used for the original query"),
+    }),
+    execute: (args, { dbManager }) => fetchMoreResults(args.cursor, dbManager, args.pageSize, args.format),
+  }),
+  defineTool({
+    name: "validateQuery",
+    description:
+      "Check a Cypher query without executing it. Reports parser and binder errors, whether it writes, " +
+      "MERGE problems and the EXPLAIN plan.",
+    parameters: z.object({
+      cypher: z.string().describe("The Cypher query to validate"),
+      parameters: z
+        .record(z.string(), z.unknown())
+        .optional()
+        .describe("Values for $name placeholders, in the same format as the query tool"),
+    }),
+    execute: (args, { dbManager, permissions }) => explainQuery(args.cypher, dbManager, args.parameters, permissions),
+  }),
+  defineTool({
+    name: "lintCypher",
+    description:
+      "Check a Cypher query against Kuzu dialect rules (no FOREACH, REMOVE, WHERE inside patterns, bare --, ...) " +
+      "and the schema's labels and properties. Each issue has a rule ID, line, column and suggested rewrite.",
+    parameters: z.object({
+      cypher: z.string().describe("The Cypher query to lint"),
+    }),
+    execute: (args, { dbManager, permissions }) => lintQuery(args.cypher, dbManager, permissions),
+  }),
+  defineTool({
+    name: "translateCypher",
+    description:
+      "Rewrite Neo4j Cypher into the Kuzu dialect: FOREACH to UNWIND, REMOVE n.prop to SET n.prop = NULL, " +
+      "SET n += {...} to one SET per property, LOAD CSV to LOAD FROM, SHOW X to CALL show_x() and " +
+      "n:Label filters to label(n). Returns the translated query, each rewrite applied and anything left as is.",
+    parameters: z.object({
+      cypher: z.string().describe("The Neo4j Cypher query to translate"),
+    }),
+    execute: (args) => Promise.resolve(translateQuery(args.cypher)),
+  }),
+  defineTool({
+    name: "beginTransaction",
+    description:
+      "Start an explicit transaction. Pass the returned transactionId to query, then call commit or rollback. " +
+      "Idle transactions are rolled back automatically.",
+    parameters: z.object({
+      readOnly: z.boolean().optional().describe("Start a read-only transaction"),
+    }),
+    execute: (args, { dbManager, sessionId }) => beginTransaction(dbManager, sessionId, args.readOnly ?? false),
+  }),
+  ...(["commit", "rollback"] as const).map((action) =>
+    defineTool({
+      name: action,
+      description: `${action === "commit" ? "Commit" : "Roll back"} a transaction started with beginTransaction`,
+      parameters: z.object({
+        transactionId: z.string().describe("The transactionId returned by beginTransaction"),
+      }),
+      execute: (args, { dbManager, sessionId }) => endTransaction(args.transactionId, action, dbManager, sessionId),
+    }),
+  ),
+  defineTool({
+    name: "getSchema",
+    description: "Get the schema of the Kuzu database",
+    parameters: z.object({}),
+    execute: async (_args, { dbManager, permissions }) => {
+      try {
+        const schema = filterSchema(await withDatabase(dbManager, () => getSchema(dbManager.conn)), permissions)
+        return { content: [{ type: "text", text: JSON.stringify(schema, null, 2) }], isError: false }
+      } catch (error) {
+        console.error("Error in getSchema tool:", error)
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }, null, 2),
+            },
+          ],
+          isError: true,
+        }
+      }
+    },
+  }),
+]
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "generateKuzuCypher",
+    description: "Generate a Cypher query for Kuzu",
+    arguments: [
+      {
+        name: "question",
+        description: "The question in natural language to generate the Cypher query for",
+        required: true,
+      },
+    ],
+    load: async (args, dbManager, permissions) => {
+      const question = args.question
+      if (!question) {
+        throw new Error("Missing required argument: question")
+      }
+      const schema = filterSchema(await withDatabase(dbManager, () => getSchema(dbManager.conn)), permissions)
+      return getPrompt(question, schema)
+    },
+  },
+]
+
+// Fixed resources; per-table resources are reached through the templates
+export const RESOURCES: ResourceDescriptor[] = [SCHEMA_RESOURCE]
+export { RESOURCE_TEMPLATES }
+
+export function findTool(name: string): ToolDefinition | undefined {
+  return TOOLS.find((tool) => tool.name === name)
+}
+
+export function findPrompt(name: string): PromptDefinition | undefined {
+  return PROMPTS.find((prompt) => prompt.name === name)
+}
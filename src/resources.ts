@@ -0,0 +1,167 @@
+import * as kuzu from "kuzu"
+import { getSchema, NodeTable, RelTable, Schema } from "./server-core.js"
+import { readColumns } from "./query-helpers.js"
+import { serializeRow } from "./value-serializer.js"
+import { UserPermissions, filterSchema, tableAccess } from "./authorization.js"
+
+export const SCHEMA_RESOURCE_URI = "kuzu://schema"
+export const TABLE_RESOURCE_TEMPLATE = "kuzu://table/{name}"
+export const TABLE_SAMPLE_RESOURCE_TEMPLATE = "kuzu://table/{name}/sample"
+export const DEFAULT_SAMPLE_SIZE = 5
+
+const JSON_MIME_TYPE = "application/json"
+const TABLE_URI_PATTERN = /^kuzu:\/\/table\/([^/]+)(\/sample)?$/
+
+export interface ResourceDescriptor {
+  uri: string
+  name: string
+  description: string
+  mimeType: string
+}
+
+export interface ResourceTemplateDescriptor {
+  uriTemplate: string
+  name: string
+  description: string
+  mimeType: string
+}
+
+export interface ResourceContent {
+  uri: string
+  mimeType: string
+  text: string
+}
+
+export class ResourceNotFoundError extends Error {
+  constructor(uri: string) {
+    super(`Resource ${uri} does not exist`)
+    this.name = "ResourceNotFoundError"
+  }
+}
+
+export const SCHEMA_RESOURCE: ResourceDescriptor = {
+  uri: SCHEMA_RESOURCE_URI,
+  name: "Database schema",
+  description: "Node and relationship tables with their properties and connectivity",
+  mimeType: JSON_MIME_TYPE,
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplateDescriptor[] = [
+  {
+    uriTemplate: TABLE_RESOURCE_TEMPLATE,
+    name: "Table metadata",
+    description: "Properties, primary key and connectivity of one node or relationship table",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: TABLE_SAMPLE_RESOURCE_TEMPLATE,
+    name: "Table sample",
+    description: `The first ${DEFAULT_SAMPLE_SIZE} rows of one node or relationship table`,
+    mimeType: JSON_MIME_TYPE,
+  },
+]
+
+export function tableResourceUri(name: string, sample = false): string {
+  return `kuzu://table/${encodeURIComponent(name)}${sample ? "/sample" : ""}`
+}
+
+function findTable(
+  schema: Schema,
+  name: string,
+): { kind: "node"; table: NodeTable } | { kind: "rel"; table: RelTable } {
+  const nodeTable = schema.nodeTables.find((table) => table.name === name)
+  if (nodeTable) {
+    return { kind: "node", table: nodeTable }
+  }
+  const relTable = schema.relTables.find((table) => table.name === name)
+  if (relTable) {
+    return { kind: "rel", table: relTable }
+  }
+  throw new ResourceNotFoundError(tableResourceUri(name))
+}
+
+// The schema resource plus a metadata and a sample resource for every table
+export async function listResources(connection: kuzu.Connection): Promise<ResourceDescriptor[]> {
+  const schema = await getSchema(connection)
+  const tables = [
+    ...schema.nodeTables.map((table) => ({ name: table.name, kind: "node table" })),
+    ...schema.relTables.map((table) => ({ name: table.name, kind: "relationship table" })),
+  ]
+
+  return [
+    SCHEMA_RESOURCE,
+    ...tables.flatMap(({ name, kind }) => [
+      {
+        uri: tableResourceUri(name),
+        name,
+        description: `Metadata for the ${name} ${kind}`,
+        mimeType: JSON_MIME_TYPE,
+      },
+      {
+        uri: tableResourceUri(name, true),
+        name: `${name} sample`,
+        description: `The first ${DEFAULT_SAMPLE_SIZE} rows of the ${name} ${kind}`,
+        mimeType: JSON_MIME_TYPE,
+      },
+    ]),
+  ]
+}
+
+export async function listTableNames(connection: kuzu.Connection): Promise<string[]> {
+  const schema = await getSchema(connection)
+  return [...schema.nodeTables, ...schema.relTables].map((table) => table.name)
+}
+
+export async function readTableMetadata(connection: kuzu.Connection, name: string): Promise<Record<string, unknown>> {
+  const { kind, table } = findTable(await getSchema(connection), name)
+  return { kind, ...table }
+}
+
+export async function readTableSample(
+  connection: kuzu.Connection,
+  name: string,
+  limit: number = DEFAULT_SAMPLE_SIZE,
+): Promise<Record<string, unknown>[]> {
+  // Only names found in the schema reach the query
+  const { kind, table } = findTable(await getSchema(connection), name)
+  const cypher =
+    kind === "node"
+      ? `MATCH (n:\`${table.name}\`) RETURN n LIMIT ${limit}`
+      : `MATCH ()-[r:\`${table.name}\`]->() RETURN r LIMIT ${limit}`
+
+  const result = await connection.query(cypher)
+  try {
+    const [rows, columns] = await Promise.all([result.getAll(), readColumns(result)])
+    return rows.map((row) => serializeRow(row, columns))
+  } finally {
+    try {
+      result.close()
+    } catch (closeErr) {
+      console.error("Error closing result:", closeErr)
+    }
+  }
+}
+
+// Read any kuzu:// resource as JSON text; tables hidden from the caller do not exist
+export async function readResource(
+  connection: kuzu.Connection,
+  uri: string,
+  permissions?: UserPermissions,
+): Promise<ResourceContent> {
+  let body: unknown
+  if (uri === SCHEMA_RESOURCE_URI) {
+    body = filterSchema(await getSchema(connection), permissions)
+  } else {
+    const match = TABLE_URI_PATTERN.exec(uri)
+    if (!match) {
+      throw new ResourceNotFoundError(uri)
+    }
+    const name = decodeURIComponent(match[1]!)
+    if (permissions && tableAccess(permissions, name) === "none") {
+      throw new ResourceNotFoundError(uri)
+    }
+    body = match[2] ? await readTableSample(connection, name) : await readTableMetadata(connection, name)
+  }
+
+  return { uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(body, null, 2) }
+}
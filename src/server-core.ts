@@ -1,7 +1,39 @@
 import * as kuzu from "kuzu"
-import { LockManager, detectMutation, LockTimeoutError } from "./lock-manager.js"
-import { executeBatchQuery, formatKuzuError, detectCompositePrimaryKey } from "./query-helpers.js"
+import * as fs from "fs/promises"
+import { LockManager, LockTimeoutError, WriteGate } from "./lock-manager.js"
+import { BackupArchiveError, moveDatabaseFiles } from "./backup-utils.js"
+import { TarFormatError } from "./tar-archive.js"
+import {
+  executeBatchQuery,
+  formatKuzuError,
+  detectCompositePrimaryKey,
+  createSuccessResponse,
+} from "./query-helpers.js"
 import { validateMergeQuery, clearSchemaCache } from "./merge-validation.js"
+import {
+  CursorManager,
+  CursorNotFoundError,
+  ColumnInfo,
+  QueryPage,
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_CURSOR_IDLE_TIMEOUT,
+} from "./cursor-manager.js"
+import { validateQuery } from "./query-validation.js"
+import {
+  TransactionManager,
+  TransactionBusyError,
+  TransactionNotFoundError,
+  DEFAULT_TRANSACTION_TIMEOUT,
+  ActiveTransaction,
+} from "./transaction-manager.js"
+import { serializeRow, valueReplacer } from "./value-serializer.js"
+import { prepareParameters } from "./query-parameters.js"
+import { lintCypher, LintResult } from "./cypher-linter.js"
+import { isDDLStatement, splitStatements } from "./cypher-lexer.js"
+import { checkStatementPolicy, classifyQuery, modifiesDatabase, resolveStatementPolicy } from "./statement-policy.js"
+import { translateCypher } from "./cypher-translator.js"
+import { checkQueryPolicy, getQueryPolicy } from "./query-policy.js"
+import { UserPermissions, checkPermissions, filterSchema } from "./authorization.js"
 
 export interface TableInfo {
   name: string
@@ -35,19 +67,20 @@ export const TABLE_TYPES = {
   REL: "REL",
 } as const
 
-export const bigIntReplacer = (_: string, value: unknown): unknown => {
-  if (typeof value === "bigint") {
-    return value.toString()
-  }
-  return value
-}
-
 export interface DatabaseManager {
   db: kuzu.Database
   conn: kuzu.Connection
   lockManager: LockManager | null
+  // Closed by backups for the length of the copy; every write passes through it
+  writeGate: WriteGate
+  cursorManager: CursorManager
+  transactionManager: TransactionManager
   currentDatabasePath: string
   currentIsReadOnly: boolean
+  // Set while replaceDatabase swaps the files; new work waits for it in withDatabase
+  replacing?: Promise<void>
+  // Calls running in withDatabase; a swap waits for them before closing the connection
+  activeQueries: number
 }
 
 export async function isConnectionValid(conn: kuzu.Connection): Promise<boolean> {
@@ -66,10 +99,14 @@ export async function isConnectionValid(conn: kuzu.Connection): Promise<boolean>
 export async function reconnectDatabase(dbManager: DatabaseManager): Promise<void> {
   console.error("Attempting to reconnect to database...")
   try {
-    // Note: Kuzu doesn't have close() methods on Connection/Database
-    // Simply discard old references and let GC handle cleanup
-    dbManager.conn = null as unknown as kuzu.Connection
-    dbManager.db = null as unknown as kuzu.Database
+    // Open cursors belong to the old connection and cannot survive a reconnect
+    dbManager.cursorManager.closeAll()
+    await dbManager.transactionManager.rollbackAll()
+
+    // The old handles may already be broken; they are replaced either way
+    await closeDatabase(dbManager).catch((error: unknown) => {
+      console.error("Failed to close the previous database:", error)
+    })
 
     // Create new connections
     dbManager.db = new kuzu.Database(dbManager.currentDatabasePath, 0, true, dbManager.currentIsReadOnly)
@@ -87,6 +124,133 @@ export async function reconnectDatabase(dbManager: DatabaseManager): Promise<voi
   }
 }
 
+export class ReplacementInProgressError extends Error {
+  constructor() {
+    super("Another restore or import is already in progress")
+    this.name = "ReplacementInProgressError"
+  }
+}
+
+/**
+ * HTTP status for a failed restore or import, shared by both admin servers:
+ * a rejected archive is the upload's fault and a concurrent swap a conflict.
+ */
+export function replacementErrorStatus(error: unknown): number {
+  if (error instanceof ReplacementInProgressError) {
+    return 409
+  }
+  return error instanceof BackupArchiveError || error instanceof TarFormatError ? 400 : 500
+}
+
+async function closeDatabase(dbManager: DatabaseManager): Promise<void> {
+  await dbManager.conn.close()
+  await dbManager.db.close()
+}
+
+/**
+ * Run work against the served database once no swap is in progress. A swap
+ * that starts meanwhile waits for the work to finish before closing the
+ * connection. Must not be nested: the inner call would wait on the swap.
+ */
+export async function withDatabase<T>(dbManager: DatabaseManager, work: () => Promise<T>): Promise<T> {
+  // Checked and counted in the same tick, so a swap cannot start in between
+  while (dbManager.replacing) {
+    await dbManager.replacing.catch(() => {})
+  }
+  dbManager.activeQueries++
+  try {
+    return await work()
+  } finally {
+    dbManager.activeQueries--
+  }
+}
+
+// Wait for running calls to finish, or until timeout ms have passed
+async function drainQueries(dbManager: DatabaseManager, timeout = Infinity): Promise<void> {
+  const deadline = Date.now() + timeout
+  while (dbManager.activeQueries > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+// Run a swap or recovery while new work waits in withDatabase
+async function holdDatabase(dbManager: DatabaseManager, work: Promise<void>): Promise<void> {
+  dbManager.replacing = work
+  try {
+    await work
+  } finally {
+    dbManager.replacing = undefined
+  }
+}
+
+// Longest a recovery waits for running calls, which may be what hung
+const RECOVERY_DRAIN_TIMEOUT = 10 * 1000
+
+/**
+ * Reopen the served database after an uncaught exception, which may have left
+ * its handles broken. Like a swap, running queries finish first (up to a
+ * limit), then cursors and transactions are ended and the old handles closed,
+ * while new queries wait. A swap already in progress reopens it anyway.
+ */
+export async function recoverDatabase(dbManager: DatabaseManager): Promise<void> {
+  if (dbManager.replacing) {
+    return
+  }
+  await holdDatabase(
+    dbManager,
+    (async (): Promise<void> => {
+      await drainQueries(dbManager, RECOVERY_DRAIN_TIMEOUT)
+      await reconnectDatabase(dbManager)
+      invalidateSchemaCache()
+    })(),
+  )
+}
+
+/**
+ * Swap the database at sourcePath in for the served one and reconnect.
+ * Running queries finish first, then open cursors and transactions are ended
+ * and the old connection closed; new queries wait until the swap is done. If
+ * the new database does not open or fails validation, the previous files are
+ * moved back and reopened before rethrowing.
+ */
+export async function replaceDatabase(dbManager: DatabaseManager, sourcePath: string): Promise<void> {
+  if (dbManager.currentIsReadOnly) {
+    throw new Error("Cannot replace a database opened read-only")
+  }
+  if (dbManager.replacing) {
+    throw new ReplacementInProgressError()
+  }
+  await holdDatabase(dbManager, swapDatabase(dbManager, sourcePath))
+}
+
+async function swapDatabase(dbManager: DatabaseManager, sourcePath: string): Promise<void> {
+  const target = dbManager.currentDatabasePath
+  const previous = `${target}.previous-${Date.now()}`
+
+  await drainQueries(dbManager)
+  dbManager.cursorManager.closeAll()
+  await dbManager.transactionManager.rollbackAll()
+  await closeDatabase(dbManager)
+
+  await moveDatabaseFiles(target, previous)
+  try {
+    await moveDatabaseFiles(sourcePath, target)
+    await reconnectDatabase(dbManager)
+  } catch (error) {
+    console.error("Replacement database failed to open; restoring the previous files")
+    await fs.rm(target, { recursive: true, force: true })
+    await fs.rm(`${target}.wal`, { force: true })
+    await moveDatabaseFiles(previous, target)
+    await reconnectDatabase(dbManager)
+    throw error
+  }
+
+  await fs.rm(previous, { recursive: true, force: true })
+  await fs.rm(`${previous}.wal`, { force: true })
+  invalidateSchemaCache()
+  notifySchemaChange()
+}
+
 export async function getSchema(connection: kuzu.Connection): Promise<Schema> {
   try {
     const result = await connection.query("CALL show_tables() RETURN *;")
@@ -154,6 +318,24 @@ export async function getSchema(connection: kuzu.Connection): Promise<Schema> {
   }
 }
 
+const SCHEMA_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+let schemaCache: { schema: Schema; timestamp: number } | null = null
+
+// getSchema with a short-lived cache, cleared by invalidateSchemaCache after DDL
+export async function getCachedSchema(connection: kuzu.Connection): Promise<Schema> {
+  if (schemaCache && Date.now() - schemaCache.timestamp < SCHEMA_CACHE_TTL) {
+    return schemaCache.schema
+  }
+  const schema = await getSchema(connection)
+  schemaCache = { schema, timestamp: Date.now() }
+  return schema
+}
+
+export function invalidateSchemaCache(): void {
+  schemaCache = null
+  clearSchemaCache()
+}
+
 export function getPrompt(question: string, schema: Schema): string {
   const prompt = `Task:Generate Kuzu Cypher statement to query a graph database.
 Instructions:
@@ -197,7 +379,531 @@ export interface QueryResult {
   isError: boolean
 }
 
-export async function executeQuery(cypher: string, dbManager: DatabaseManager): Promise<QueryResult> {
+// rows: plain row objects (default); standard: results with metadata; columnar: one array per column
+export type ResultFormat = "rows" | "standard" | "columnar"
+
+export const RESULT_FORMATS: readonly ResultFormat[] = ["rows", "standard", "columnar"]
+
+interface ResponseContext {
+  format: ResultFormat
+  executionTime?: string
+  statementsExecuted?: number
+  // Set for fetchMore, whose pages always carry the paging envelope
+  continuation?: boolean
+}
+
+export interface ExecuteQueryOptions {
+  // Shape of the response; defaults to rows
+  format?: ResultFormat
+  // Rows per page; results with more rows return a cursor for fetchMore
+  pageSize?: number
+  // Values for $name placeholders, executed through a prepared statement
+  parameters?: Record<string, unknown>
+  // Maximum rows the query may return in total; overrides KUZU_MAX_RESULTS
+  maxResults?: number
+  // Milliseconds before Kuzu interrupts the query; overrides KUZU_QUERY_TIMEOUT
+  timeout?: number
+  // Run inside an explicit transaction started with beginTransaction
+  transactionId?: string
+  // Identifies the caller; transactions can only be used by the session that began them
+  sessionId?: string
+  // Reject queries with lint errors before running them; overrides KUZU_LINT_QUERIES
+  lint?: boolean
+  // Rewrite Neo4j-only syntax into Kuzu Cypher first; overrides KUZU_TRANSLATE_QUERIES
+  translate?: boolean
+  // Role and table grants of the authenticated caller; unrestricted when absent
+  permissions?: UserPermissions
+}
+
+// Resolve the page size from the per-call value, KUZU_PAGE_SIZE, or the default
+export function resolvePageSize(pageSize?: number): number {
+  if (pageSize && pageSize > 0) {
+    return pageSize
+  }
+  const envPageSize = process.env.KUZU_PAGE_SIZE ? parseInt(process.env.KUZU_PAGE_SIZE, 10) : NaN
+  return envPageSize > 0 ? envPageSize : DEFAULT_PAGE_SIZE
+}
+
+// Resolve the query timeout from the per-call value or KUZU_QUERY_TIMEOUT; undefined means no timeout
+export function resolveQueryTimeout(timeout?: number): number | undefined {
+  if (timeout && timeout > 0) {
+    return timeout
+  }
+  const envTimeout = process.env.KUZU_QUERY_TIMEOUT ? parseInt(process.env.KUZU_QUERY_TIMEOUT, 10) : NaN
+  return envTimeout > 0 ? envTimeout : undefined
+}
+
+// Resolve the row cap from the per-call value or KUZU_MAX_RESULTS; undefined means no cap
+export function resolveMaxResults(maxResults?: number): number | undefined {
+  if (maxResults && maxResults > 0) {
+    return maxResults
+  }
+  const envMaxResults = process.env.KUZU_MAX_RESULTS ? parseInt(process.env.KUZU_MAX_RESULTS, 10) : NaN
+  return envMaxResults > 0 ? envMaxResults : undefined
+}
+
+export const DEFAULT_MAX_RESPONSE_BYTES = 1024 * 1024 // 1 MiB
+
+// Resolve the response size budget from KUZU_MAX_RESPONSE_BYTES or the default
+export function resolveMaxResponseBytes(): number {
+  const envMaxBytes = process.env.KUZU_MAX_RESPONSE_BYTES ? parseInt(process.env.KUZU_MAX_RESPONSE_BYTES, 10) : NaN
+  return envMaxBytes > 0 ? envMaxBytes : DEFAULT_MAX_RESPONSE_BYTES
+}
+
+function formatQueryPage(page: QueryPage): Record<string, unknown> {
+  return { rows: page.rows, ...pageEnvelope(page) }
+}
+
+// Paging and truncation details shared by the rows and columnar formats
+function pageEnvelope(page: QueryPage): Record<string, unknown> {
+  return {
+    rowCount: page.rows.length,
+    hasMore: page.hasMore,
+    ...(page.cursor && {
+      cursor: page.cursor,
+      next: "Call fetchMore with this cursor to retrieve the next page",
+    }),
+    ...(page.truncated && {
+      truncated: true,
+      totalRows: page.totalRows,
+      note: "Result exceeded the row limit; narrow the query or raise maxResults to see more",
+    }),
+  }
+}
+
+// Columns reported by Kuzu, plus any row keys they do not cover (e.g. multi-statement summaries)
+function resolveColumns(page: QueryPage): ColumnInfo[] {
+  const columns = [...(page.columns ?? [])]
+  for (const row of page.rows) {
+    for (const name of Object.keys(row)) {
+      if (!columns.some((column) => column.name === name)) {
+        columns.push({ name, type: "ANY" })
+      }
+    }
+  }
+  return columns
+}
+
+function formatResponse(results: Record<string, unknown>[] | QueryPage, context: ResponseContext): unknown {
+  const rows = Array.isArray(results)
+    ? results.map((row) => serializeRow(row))
+    : { ...results, rows: results.rows.map((row) => serializeRow(row, results.columns)) }
+
+  if (context.format === "rows") {
+    // Complete results keep the legacy plain-array shape, partial ones get the envelope
+    if (!Array.isArray(rows) && (rows.cursor || rows.truncated || context.continuation)) {
+      return formatQueryPage(rows)
+    }
+    const plain = Array.isArray(rows) ? rows : rows.rows
+    return plain.length === 0 ? [{ result: "Query executed successfully", rowsAffected: 0 }] : plain
+  }
+
+  const page: QueryPage = Array.isArray(rows) ? { rows, hasMore: false } : rows
+  const stats = {
+    ...(context.statementsExecuted !== undefined && { statementsExecuted: context.statementsExecuted }),
+    ...(context.executionTime && { executionTime: context.executionTime }),
+  }
+
+  if (context.format === "standard") {
+    return createSuccessResponse(page.rows, {
+      ...stats,
+      columns: resolveColumns(page),
+      hasMore: page.hasMore,
+      ...(page.cursor && { cursor: page.cursor }),
+      ...(page.truncated && { truncated: true, totalRows: page.totalRows }),
+    })
+  }
+
+  const columns = resolveColumns(page)
+  return {
+    columns,
+    data: Object.fromEntries(columns.map((column) => [column.name, page.rows.map((row) => row[column.name] ?? null)])),
+    ...pageEnvelope(page),
+    ...stats,
+  }
+}
+
+function serializeRows(rows: Record<string, unknown>[] | QueryPage, context: ResponseContext): string {
+  return JSON.stringify(formatResponse(rows, context), null, 2)
+}
+
+/**
+ * Build a response that stays within the byte budget. Rows that do not fit are
+ * handed back to a cursor, so they are returned by fetchMore instead of lost.
+ */
+function budgetedRowsResult(
+  rows: Record<string, unknown>[] | QueryPage,
+  cursors: CursorManager,
+  query: string,
+  context: ResponseContext,
+): QueryResult {
+  const maxBytes = resolveMaxResponseBytes()
+  const text = serializeRows(rows, context)
+  if (Buffer.byteLength(text) <= maxBytes) {
+    return { content: [{ type: "text", text }], isError: false }
+  }
+
+  const page: QueryPage = Array.isArray(rows) ? { rows, hasMore: false } : rows
+  // Measure with a placeholder of the same length as a real cursor id
+  const withRows = (count: number, cursor = "0".repeat(32)): QueryPage => ({
+    ...page,
+    rows: page.rows.slice(0, count),
+    cursor,
+    hasMore: true,
+  })
+
+  // Binary search for the largest number of rows that fits
+  let low = 0
+  let high = page.rows.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (Buffer.byteLength(serializeRows(withRows(mid), context)) <= maxBytes) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+
+  if (low === 0) {
+    if (page.cursor) {
+      cursors.closeCursor(page.cursor)
+    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              error: "RESPONSE_TOO_LARGE",
+              message: `A single row exceeds the ${maxBytes} byte response limit`,
+              type: "response_size",
+              maxBytes,
+              suggestion: "Return fewer or smaller columns, or raise KUZU_MAX_RESPONSE_BYTES.",
+            },
+            null,
+            2,
+          ),
+        },
+      ],
+      isError: true,
+    }
+  }
+
+  const cursor = cursors.requeue(page.cursor, page.rows.slice(low), query, page.columns)
+  return {
+    content: [{ type: "text", text: serializeRows(withRows(low, cursor), context) }],
+    isError: false,
+  }
+}
+
+function lockTimeoutResult(error: LockTimeoutError): QueryResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            error: "LOCK_TIMEOUT",
+            message: error.message,
+            type: "lock_timeout",
+            suggestion: "Please try again in a few moments. Another agent is currently writing to the database.",
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+    isError: true,
+  }
+}
+
+// Whether any statement in the query creates, alters or drops a table
+export function isDDLQuery(cypher: string): boolean {
+  return splitStatements(cypher).some(isDDLStatement)
+}
+
+const schemaChangeListeners = new Set<() => void>()
+
+/**
+ * Register a listener called after DDL changes the schema, e.g. to send
+ * resources/list_changed. Returns a function that removes the listener.
+ */
+export function onSchemaChange(listener: () => void): () => void {
+  schemaChangeListeners.add(listener)
+  return () => {
+    schemaChangeListeners.delete(listener)
+  }
+}
+
+export function notifySchemaChange(): void {
+  for (const listener of schemaChangeListeners) {
+    try {
+      listener()
+    } catch (error) {
+      console.error("Error in schema change listener:", error)
+    }
+  }
+}
+
+function rowsResult(
+  cypher: string,
+  rows: Record<string, unknown>[] | QueryPage,
+  cursors: CursorManager,
+  context: ResponseContext,
+  transaction?: ActiveTransaction,
+): QueryResult {
+  // Clear schema cache after DDL operations
+  if (isDDLQuery(cypher)) {
+    console.error("🔄 Clearing schema cache after DDL operation")
+    invalidateSchemaCache()
+    // Inside a transaction the change is announced on commit
+    if (transaction) {
+      transaction.schemaChanged = true
+    } else {
+      notifySchemaChange()
+    }
+  }
+
+  return budgetedRowsResult(rows, cursors, cypher, context)
+}
+
+// Statements inside a transaction run on its pinned connection, without retries or reconnects
+async function executeInTransaction(
+  cypher: string,
+  dbManager: DatabaseManager,
+  transactionId: string,
+  sessionId: string,
+  isWriteQuery: boolean,
+  batchOptions: { parameters?: Record<string, unknown>; timeout?: number; maxRows?: number; columns?: boolean },
+  format: ResultFormat,
+): Promise<QueryResult> {
+  const transaction = dbManager.transactionManager.get(transactionId, sessionId)
+  if (transaction.readOnly && isWriteQuery) {
+    throw new Error("Cannot execute write queries in a read-only transaction")
+  }
+
+  const startTime = Date.now()
+  let rows: Record<string, unknown>[] | QueryPage
+  try {
+    rows = (await dbManager.transactionManager.run(transaction, isWriteQuery, (conn) =>
+      executeBatchQuery(conn, cypher, batchOptions),
+    )) as Record<string, unknown>[] | QueryPage
+  } catch (error) {
+    if (error instanceof LockTimeoutError) {
+      return lockTimeoutResult(error)
+    }
+    console.error("Transaction query error:", error)
+    const rolledBack = dbManager.transactionManager.isActive(transactionId) ? {} : { transactionRolledBack: true }
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ ...formatKuzuError(error, cypher), ...rolledBack }, null, 2),
+        },
+      ],
+      isError: true,
+    }
+  }
+
+  return rowsResult(
+    cypher,
+    rows,
+    dbManager.cursorManager,
+    {
+      format,
+      executionTime: `${Date.now() - startTime}ms`,
+      statementsExecuted: countStatements(cypher),
+    },
+    transaction,
+  )
+}
+
+function countStatements(cypher: string): number {
+  return splitStatements(cypher).length
+}
+
+// Statements outside a transaction, with the multi-agent write lock and connection retries
+async function executeAutoCommit(
+  cypher: string,
+  dbManager: DatabaseManager,
+  isWriteQuery: boolean,
+  batchOptions: { parameters?: Record<string, unknown>; timeout?: number; maxRows?: number; columns?: boolean },
+  pageSize: number,
+  format: ResultFormat,
+): Promise<QueryResult> {
+  // Handle multi-agent coordination for write queries
+  let lock = null
+  if (isWriteQuery && dbManager.lockManager) {
+    try {
+      lock = await dbManager.lockManager.acquireWriteLock()
+    } catch (error) {
+      if (error instanceof LockTimeoutError) {
+        return lockTimeoutResult(error)
+      }
+      throw error
+    }
+  }
+
+  try {
+    // Enhanced error handling with configurable retry logic
+    const maxRetries = parseInt(process.env.KUZU_MAX_RETRIES || "2", 10)
+    let rows: Record<string, unknown>[] | QueryPage | undefined = undefined
+    let startTime = Date.now()
+    let lastError: Error | null = null
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        // Check connection health before executing (except on first attempt if no prior errors)
+        if (attempt > 0 || lastError) {
+          console.error(`Attempt ${attempt + 1}/${maxRetries + 1}: Checking connection health...`)
+          if (!(await isConnectionValid(dbManager.conn))) {
+            console.error("Connection invalid, attempting to reconnect...")
+            await reconnectDatabase(dbManager)
+
+            // Wait with exponential backoff between reconnection attempts
+            if (attempt > 0) {
+              const backoffMs = Math.min(1000 * Math.pow(2, attempt - 1), 5000)
+              console.error(`Waiting ${backoffMs}ms before retry...`)
+              await new Promise((resolve) => setTimeout(resolve, backoffMs))
+            }
+          }
+        }
+
+        startTime = Date.now()
+        rows = (await executeBatchQuery(dbManager.conn, cypher, {
+          ...batchOptions,
+          cursors: dbManager.cursorManager,
+          pageSize: pageSize,
+        })) as Record<string, unknown>[] | QueryPage
+
+        // Success! Break out of retry loop
+        if (attempt > 0) {
+          console.error(`Query succeeded on attempt ${attempt + 1}`)
+        }
+        break
+      } catch (execError) {
+        lastError = execError instanceof Error ? execError : new Error(String(execError))
+        console.error(`Attempt ${attempt + 1}/${maxRetries + 1} failed:`, lastError.message)
+
+        // Check if this is a connection-related error worth retrying
+        const isConnectionError =
+          lastError.message.includes("Connection") ||
+          lastError.message.includes("Database") ||
+          lastError.message.includes("closed") ||
+          lastError.message.includes("getAll timeout") ||
+          lastError.message.includes("Parser exception") ||
+          lastError.message.includes("Binder exception")
+
+        if (!isConnectionError || attempt >= maxRetries) {
+          // Either not a connection error, or we've exhausted retries
+          if (attempt >= maxRetries && isConnectionError) {
+            // Final connection failure - inform the LLM clearly
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      error: "CONNECTION_RECOVERY_FAILED",
+                      message: `Database connection could not be restored after ${
+                        maxRetries + 1
+                      } attempts. The MCP server may need to be restarted.`,
+                      type: "connection_failure",
+                      attempts: attempt + 1,
+                      maxRetries: maxRetries + 1,
+                      lastError: lastError.message,
+                      suggestion: "Please restart Claude Desktop or check the database server status.",
+                      recovery: "Connection recovery failed after multiple attempts",
+                    },
+                    null,
+                    2,
+                  ),
+                },
+              ],
+              isError: true,
+            }
+          } else {
+            // Non-connection error, re-throw immediately
+            throw lastError
+          }
+        }
+
+        // Continue to next retry attempt for connection errors
+        console.error(`Will retry connection error (attempt ${attempt + 1}/${maxRetries + 1})`)
+      }
+    }
+
+    // Ensure we have rows
+    if (!rows) {
+      throw new Error("Query execution failed - no rows returned")
+    }
+
+    return rowsResult(cypher, rows, dbManager.cursorManager, {
+      format,
+      executionTime: `${Date.now() - startTime}ms`,
+      statementsExecuted: countStatements(cypher),
+    })
+  } finally {
+    if (lock && dbManager.lockManager) {
+      try {
+        await dbManager.lockManager.releaseLock(lock)
+      } catch (releaseError) {
+        console.error("Error releasing lock:", releaseError)
+      }
+    }
+  }
+}
+
+// Lint against the cached schema cut down to the caller's tables, or the dialect rules alone if it cannot be read
+async function lintWithSchema(
+  cypher: string,
+  dbManager: DatabaseManager,
+  permissions?: UserPermissions,
+): Promise<LintResult> {
+  try {
+    return lintCypher(cypher, filterSchema(await getCachedSchema(dbManager.conn), permissions))
+  } catch (error) {
+    console.error("Linting without schema:", error)
+    return lintCypher(cypher)
+  }
+}
+
+function lintErrorResult(lint: LintResult): QueryResult {
+  const errors = lint.issues.filter((issue) => issue.severity === "error").length
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            error: "LINT_ERROR",
+            message: `Query breaks ${errors} Kuzu dialect or schema rule${errors === 1 ? "" : "s"}`,
+            type: "lint",
+            issues: lint.issues,
+            suggestion: "Apply the suggested rewrites, or call lintCypher to check a query before running it.",
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+    isError: true,
+  }
+}
+
+export async function executeQuery(
+  cypher: string,
+  dbManager: DatabaseManager,
+  options: ExecuteQueryOptions = {},
+): Promise<QueryResult> {
+  return withDatabase(dbManager, () => runQuery(cypher, dbManager, options))
+}
+
+async function runQuery(
+  cypher: string,
+  dbManager: DatabaseManager,
+  options: ExecuteQueryOptions,
+): Promise<QueryResult> {
   console.error("DEBUG: Query received with cypher:", cypher)
   console.error("DEBUG: typeof cypher:", typeof cypher)
   console.error("DEBUG: cypher === null:", cypher === null)
@@ -207,6 +913,19 @@ export async function executeQuery(cypher: string, dbManager: DatabaseManager):
     throw new Error(`Invalid cypher query: ${cypher}`)
   }
 
+  if (options.translate ?? process.env.KUZU_TRANSLATE_QUERIES === "true") {
+    const translation = translateCypher(cypher)
+    const result = await runQuery(translation.cypher, dbManager, { ...options, translate: false })
+    if (translation.rewrites.length === 0 && translation.warnings.length === 0) {
+      return result
+    }
+    // Report the rewrites next to the result so the caller can learn the Kuzu dialect
+    return {
+      ...result,
+      content: [...result.content, { type: "text", text: JSON.stringify({ translation }, null, 2) }],
+    }
+  }
+
   try {
     // Early detection of composite primary keys
     if (detectCompositePrimaryKey(cypher)) {
@@ -268,178 +987,309 @@ export async function executeQuery(cypher: string, dbManager: DatabaseManager):
       }
     }
 
-    // Check if query is a write operation in read-only mode
-    const isReadOnly = process.env.KUZU_READ_ONLY === "true"
-    const isWriteQuery = detectMutation(cypher)
+    const hasParameters = !!options.parameters && Object.keys(options.parameters).length > 0
 
-    if (isReadOnly && isWriteQuery) {
-      throw new Error("Cannot execute write queries in read-only mode")
+    // Classify each statement and reject classes the deployment does not allow
+    const isReadOnly = process.env.KUZU_READ_ONLY === "true" || dbManager.currentIsReadOnly
+    // Typed parameters are rewritten into CASTs before execution, so check the query that actually runs
+    const executedCypher =
+      hasParameters && options.parameters ? prepareParameters(cypher, options.parameters).cypher : cypher
+    const statements = classifyQuery(executedCypher)
+    checkStatementPolicy(statements, resolveStatementPolicy(isReadOnly), isReadOnly)
+    const policy = getQueryPolicy()
+    if (policy) {
+      checkQueryPolicy(statements, policy)
+    }
+    if (options.permissions) {
+      checkPermissions(statements, options.permissions)
     }
+    const isWriteQuery = modifiesDatabase(statements)
 
-    // Handle multi-agent coordination for write queries
-    let lock = null
-    if (isWriteQuery && dbManager.lockManager) {
-      try {
-        lock = await dbManager.lockManager.acquireWriteLock()
-      } catch (error) {
-        if (error instanceof LockTimeoutError) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    error: "LOCK_TIMEOUT",
-                    message: error.message,
-                    type: "lock_timeout",
-                    suggestion:
-                      "Please try again in a few moments. Another agent is currently writing to the database.",
-                  },
-                  null,
-                  2,
-                ),
-              },
-            ],
-            isError: true,
-          }
-        }
-        throw error
+    if (options.lint ?? process.env.KUZU_LINT_QUERIES === "true") {
+      const lint = await lintWithSchema(cypher, dbManager, options.permissions)
+      if (!lint.valid) {
+        return lintErrorResult(lint)
       }
     }
 
-    try {
-      // Enhanced error handling with configurable retry logic
-      const maxRetries = parseInt(process.env.KUZU_MAX_RETRIES || "2", 10)
-      let rows: Record<string, unknown>[] | undefined = undefined
-      let lastError: Error | null = null
-
-      for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-          // Check connection health before executing (except on first attempt if no prior errors)
-          if (attempt > 0 || lastError) {
-            console.error(`Attempt ${attempt + 1}/${maxRetries + 1}: Checking connection health...`)
-            if (!(await isConnectionValid(dbManager.conn))) {
-              console.error("Connection invalid, attempting to reconnect...")
-              await reconnectDatabase(dbManager)
-
-              // Wait with exponential backoff between reconnection attempts
-              if (attempt > 0) {
-                const backoffMs = Math.min(1000 * Math.pow(2, attempt - 1), 5000)
-                console.error(`Waiting ${backoffMs}ms before retry...`)
-                await new Promise((resolve) => setTimeout(resolve, backoffMs))
-              }
-            }
-          }
+    const format = options.format ?? "rows"
+    const batchOptions = {
+      parameters: hasParameters ? options.parameters : undefined,
+      timeout: resolveQueryTimeout(options.timeout),
+      maxRows: resolveMaxResults(options.maxResults),
+      // Column types drive value serialization in every format
+      columns: true,
+    }
 
-          rows = (await executeBatchQuery(dbManager.conn, cypher)) as Record<string, unknown>[]
+    if (options.transactionId) {
+      return await executeInTransaction(
+        cypher,
+        dbManager,
+        options.transactionId,
+        options.sessionId ?? "default",
+        isWriteQuery,
+        batchOptions,
+        format,
+      )
+    }
 
-          // Success! Break out of retry loop
-          if (attempt > 0) {
-            console.error(`Query succeeded on attempt ${attempt + 1}`)
-          }
-          break
-        } catch (execError) {
-          lastError = execError instanceof Error ? execError : new Error(String(execError))
-          console.error(`Attempt ${attempt + 1}/${maxRetries + 1} failed:`, lastError.message)
-
-          // Check if this is a connection-related error worth retrying
-          const isConnectionError =
-            lastError.message.includes("Connection") ||
-            lastError.message.includes("Database") ||
-            lastError.message.includes("closed") ||
-            lastError.message.includes("getAll timeout") ||
-            lastError.message.includes("Parser exception") ||
-            lastError.message.includes("Binder exception")
-
-          if (!isConnectionError || attempt >= maxRetries) {
-            // Either not a connection error, or we've exhausted retries
-            if (attempt >= maxRetries && isConnectionError) {
-              // Final connection failure - inform the LLM clearly
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: JSON.stringify(
-                      {
-                        error: "CONNECTION_RECOVERY_FAILED",
-                        message: `Database connection could not be restored after ${
-                          maxRetries + 1
-                        } attempts. The MCP server may need to be restarted.`,
-                        type: "connection_failure",
-                        attempts: attempt + 1,
-                        maxRetries: maxRetries + 1,
-                        lastError: lastError.message,
-                        suggestion: "Please restart Claude Desktop or check the database server status.",
-                        recovery: "Connection recovery failed after multiple attempts",
-                      },
-                      null,
-                      2,
-                    ),
-                  },
-                ],
-                isError: true,
-              }
-            } else {
-              // Non-connection error, re-throw immediately
-              throw lastError
-            }
-          }
+    // Writes wait while a backup holds the write gate, in multi-agent mode or not
+    const pageSize = resolvePageSize(options.pageSize)
+    const execute = (): Promise<QueryResult> =>
+      executeAutoCommit(cypher, dbManager, isWriteQuery, batchOptions, pageSize, format)
+    return await (isWriteQuery ? dbManager.writeGate.write(execute) : execute())
+  } catch (error) {
+    console.error("Query execution error:", error)
+    const formattedError = formatKuzuError(error, cypher)
 
-          // Continue to next retry attempt for connection errors
-          console.error(`Will retry connection error (attempt ${attempt + 1}/${maxRetries + 1})`)
-        }
-      }
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(formattedError, null, 2),
+        },
+      ],
+      isError: true,
+    }
+  }
+}
 
-      // Ensure we have rows
-      if (!rows) {
-        throw new Error("Query execution failed - no rows returned")
-      }
+function cursorNotFoundResult(error: CursorNotFoundError): QueryResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            error: "CURSOR_NOT_FOUND",
+            message: error.message,
+            type: "cursor_error",
+            suggestion: "Cursors expire after a period of inactivity. Re-run the original query to start over.",
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+    isError: true,
+  }
+}
 
-      // Clear schema cache after DDL operations
-      const isDDLQuery = /^\s*(CREATE|ALTER|DROP)\s+(TABLE|NODE|REL|RELATIONSHIP)/i.test(cypher)
-      if (isDDLQuery) {
-        console.error("🔄 Clearing schema cache after DDL operation")
-        clearSchemaCache()
-      }
+export async function fetchMoreResults(
+  cursor: string,
+  dbManager: DatabaseManager,
+  pageSize?: number,
+  format: ResultFormat = "rows",
+): Promise<QueryResult> {
+  if (!cursor) {
+    return cursorNotFoundResult(new CursorNotFoundError(cursor))
+  }
 
-      // Ensure consistent response format
-      const responseData = rows.length === 0 ? [{ result: "Query executed successfully", rowsAffected: 0 }] : rows
+  try {
+    const startTime = Date.now()
+    const page = await withDatabase(dbManager, () =>
+      dbManager.cursorManager.fetchMore(cursor, resolvePageSize(pageSize)),
+    )
+    return budgetedRowsResult(page, dbManager.cursorManager, `fetchMore(${cursor})`, {
+      format,
+      continuation: true,
+      executionTime: `${Date.now() - startTime}ms`,
+    })
+  } catch (error) {
+    if (error instanceof CursorNotFoundError) {
+      return cursorNotFoundResult(error)
+    }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(responseData, bigIntReplacer, 2),
-          },
-        ],
-        isError: false,
-      }
-    } finally {
-      if (lock && dbManager.lockManager) {
-        try {
-          await dbManager.lockManager.releaseLock(lock)
-        } catch (releaseError) {
-          console.error("Error releasing lock:", releaseError)
-        }
-      }
+    console.error("Fetch more error:", error)
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(formatKuzuError(error), null, 2),
+        },
+      ],
+      isError: true,
+    }
+  }
+}
+
+// Validate a query without executing it; never takes the write lock
+export async function explainQuery(
+  cypher: string,
+  dbManager: DatabaseManager,
+  parameters?: Record<string, unknown>,
+  permissions?: UserPermissions,
+): Promise<QueryResult> {
+  if (!cypher) {
+    throw new Error(`Invalid cypher query: ${cypher}`)
+  }
+
+  try {
+    const hasParameters = !!parameters && Object.keys(parameters).length > 0
+    const validation = await withDatabase(dbManager, () =>
+      validateQuery(
+        dbManager.conn,
+        cypher,
+        hasParameters ? parameters : undefined,
+        dbManager.currentIsReadOnly,
+        permissions,
+      ),
+    )
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(validation, valueReplacer, 2),
+        },
+      ],
+      isError: false,
     }
   } catch (error) {
-    console.error("Query execution error:", error)
-    const formattedError = formatKuzuError(error, cypher)
+    console.error("Query validation error:", error)
+    return {
+      content: [{ type: "text", text: JSON.stringify(formatKuzuError(error, cypher), null, 2) }],
+      isError: true,
+    }
+  }
+}
+
+export async function lintQuery(
+  cypher: string,
+  dbManager: DatabaseManager,
+  permissions?: UserPermissions,
+): Promise<QueryResult> {
+  if (!cypher) {
+    throw new Error(`Invalid cypher query: ${cypher}`)
+  }
+
+  const lint = await withDatabase(dbManager, () => lintWithSchema(cypher, dbManager, permissions))
+  return {
+    content: [{ type: "text", text: JSON.stringify(lint, null, 2) }],
+    isError: false,
+  }
+}
+
+export function translateQuery(cypher: string): QueryResult {
+  if (!cypher) {
+    throw new Error(`Invalid cypher query: ${cypher}`)
+  }
 
+  return {
+    content: [{ type: "text", text: JSON.stringify(translateCypher(cypher), null, 2) }],
+    isError: false,
+  }
+}
+
+export async function beginTransaction(
+  dbManager: DatabaseManager,
+  sessionId: string = "default",
+  readOnly = false,
+): Promise<QueryResult> {
+  try {
+    if (dbManager.currentIsReadOnly && !readOnly) {
+      throw new Error("Cannot begin a write transaction in read-only mode; pass readOnly: true")
+    }
+    const transaction = await withDatabase(dbManager, () =>
+      dbManager.transactionManager.begin(dbManager.db, sessionId, readOnly),
+    )
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify(formattedError, null, 2),
+          text: JSON.stringify(
+            {
+              transactionId: transaction.id,
+              readOnly: transaction.readOnly,
+              idleTimeoutMs: dbManager.transactionManager.timeout,
+              next: "Pass this transactionId to query, then call commit or rollback",
+            },
+            null,
+            2,
+          ),
+        },
+      ],
+      isError: false,
+    }
+  } catch (error) {
+    console.error("Begin transaction error:", error)
+    return {
+      content: [{ type: "text", text: JSON.stringify(formatKuzuError(error), null, 2) }],
+      isError: true,
+    }
+  }
+}
+
+export async function endTransaction(
+  transactionId: string,
+  action: "commit" | "rollback",
+  dbManager: DatabaseManager,
+  sessionId: string = "default",
+): Promise<QueryResult> {
+  if (!transactionId) {
+    throw new Error(`Invalid transactionId: ${transactionId}`)
+  }
+
+  try {
+    const transaction = await withDatabase(dbManager, () =>
+      action === "commit"
+        ? dbManager.transactionManager.commit(transactionId, sessionId)
+        : dbManager.transactionManager.rollback(transactionId, sessionId),
+    )
+    if (action === "commit") {
+      // DDL inside the transaction only becomes visible to other connections now
+      invalidateSchemaCache()
+      if (transaction.schemaChanged) {
+        notifySchemaChange()
+      }
+    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              transactionId,
+              status: action === "commit" ? "committed" : "rolled back",
+              statementsExecuted: transaction.statementsExecuted,
+            },
+            null,
+            2,
+          ),
         },
       ],
+      isError: false,
+    }
+  } catch (error) {
+    console.error(`Transaction ${action} error:`, error)
+    // A failed COMMIT leaves the transaction rolled back
+    const rolledBack =
+      action === "commit" && !(error instanceof TransactionNotFoundError) && !(error instanceof TransactionBusyError)
+        ? { transactionRolledBack: true }
+        : {}
+    return {
+      content: [{ type: "text", text: JSON.stringify({ ...formatKuzuError(error), ...rolledBack }, null, 2) }],
       isError: true,
     }
   }
 }
 
+// An idle timeout in milliseconds from the environment; a typo must not silently disable expiry
+function parseIdleTimeout(name: string, fallback: number): number {
+  const value = process.env[name]
+  if (value === undefined || value === "") {
+    return fallback
+  }
+  const timeout = Number(value)
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    throw new Error(`${name} must be a positive number of milliseconds, got "${value}"`)
+  }
+  return timeout
+}
+
 export function initializeDatabaseManager(databasePath: string, isReadOnly: boolean): DatabaseManager {
+  const cursorIdleTimeout = parseIdleTimeout("KUZU_CURSOR_TIMEOUT", DEFAULT_CURSOR_IDLE_TIMEOUT)
+  const transactionIdleTimeout = parseIdleTimeout("KUZU_TRANSACTION_TIMEOUT", DEFAULT_TRANSACTION_TIMEOUT)
+
   const db = new kuzu.Database(databasePath, 0, true, isReadOnly)
   const conn = new kuzu.Connection(db)
 
@@ -453,11 +1303,19 @@ export function initializeDatabaseManager(databasePath: string, isReadOnly: bool
     console.error(`🔐 Multi-agent mode enabled for agent: ${agentId}`)
   }
 
+  const writeGate = new WriteGate()
+  const cursorManager = new CursorManager(cursorIdleTimeout)
+  const transactionManager = new TransactionManager(lockManager, transactionIdleTimeout, undefined, writeGate)
+
   return {
     db,
     conn,
     lockManager,
+    writeGate,
+    cursorManager,
+    transactionManager,
     currentDatabasePath: databasePath,
     currentIsReadOnly: isReadOnly,
+    activeQueries: 0,
   }
 }
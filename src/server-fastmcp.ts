@@ -6,24 +6,65 @@ if (!globalThis.crypto) {
 }
 
 import { FastMCP } from "@jordanburke/fastmcp"
-import { z } from "zod"
 import * as kuzu from "kuzu"
-import { executeQuery, getSchema, getPrompt, initializeDatabaseManager, DatabaseManager } from "./server-core.js"
+import {
+  initializeDatabaseManager,
+  DatabaseManager,
+  onSchemaChange,
+  recoverDatabase,
+  replaceDatabase,
+  replacementErrorStatus,
+  withDatabase,
+} from "./server-core.js"
+import { listTableNames, readResource, tableResourceUri } from "./resources.js"
+import { TOOLS, PROMPTS, RESOURCES, RESOURCE_TEMPLATES } from "./registry.js"
+import { readsAllTables, resolvePermissions } from "./authorization.js"
+import {
+  AuthStore,
+  ClientRecord,
+  MemoryAuthStore,
+  REFRESH_TOKEN_TTL,
+  RefreshTokenRecord,
+  authenticateUser,
+  digestSecret,
+} from "./auth-store.js"
 import { randomBytes, createHash } from "crypto"
 import { URL, URLSearchParams } from "url"
 import * as jwt from "jsonwebtoken"
+import { KeyRing, parseSigningAlgorithm } from "./signing-keys.js"
+import { API_KEY_PREFIX, createApiKey, describeApiKey, parseExpiry, verifyApiKey } from "./api-keys.js"
 import { getWebUIHTML } from "./web-ui.js"
-import { getDatabaseInfo, createSimpleArchive, exportDatabase } from "./backup-utils.js"
+import {
+  getDatabaseInfo,
+  backupArchiveName,
+  exportArchiveName,
+  exportDatabaseArchive,
+  importDatabaseArchive,
+  isLegacyBackup,
+  parseExportFormat,
+  removeDatabaseFiles,
+  restoreBackupArchive,
+  restoreSimpleArchive,
+  type ExportFormat,
+} from "./backup-utils.js"
+import { StreamTooLargeError, streamToBuffer } from "./tar-archive.js"
+import { parseMultipart, type MultipartPart } from "./multipart.js"
+import { Readable } from "stream"
+import * as fs from "fs/promises"
+import { createReadStream } from "fs"
 import * as os from "os"
 import * as path from "path"
-import * as fs from "fs/promises"
+import { BackupScheduler, snapshotDatabase, type BackupSchedulerOptions } from "./backup-scheduler.js"
 
 export interface OAuthConfig {
   enabled: boolean
-  username: string
-  password: string
-  userId: string
+  // A single user outside the auth store; optional when the store has users
+  username?: string
+  password?: string
+  userId?: string
   email?: string
+  // Scope of the single user; admin when not given
+  scope?: string
   issuer?: string
   resource?: string
 }
@@ -61,37 +102,34 @@ export interface FastMCPServerOptions {
     password: string
     userId?: string
     email?: string
+    // Scope of the user; admin when not given
+    scope?: string
   }
+  // Users, clients and tokens; kept in memory when not given
+  authStore?: AuthStore
+  // Access token signing keys; a fresh in-memory key when not given
+  keyRing?: KeyRing
+  // Scheduled backups; none when not given
+  backups?: BackupSchedulerOptions
 }
 
-// JWT secret for token signing/validation
-const JWT_SECRET = process.env.KUZU_JWT_SECRET || randomBytes(32).toString("hex")
-
 // JWT token expiration configuration (default: 1 year)
-const JWT_EXPIRES_IN = process.env.KUZU_JWT_EXPIRES_IN
+export const JWT_EXPIRES_IN = process.env.KUZU_JWT_EXPIRES_IN
   ? parseInt(process.env.KUZU_JWT_EXPIRES_IN, 10)
   : 365 * 24 * 60 * 60 // 1 year in seconds
 
-// In-memory stores for OAuth flow
-const authorizationCodes = new Map<
-  string,
-  {
-    createdAt: number
-    redirectUri?: string
-    codeChallenge?: string
-    codeChallengeMethod?: string
-    userId: string
-  }
->()
+// FastMCP reads route bodies as text of at most 10 MB, so uploaded files
+// arrive base64-encoded and their decoded size stays under three quarters of that
+export const MAX_UPLOAD_BYTES = 7 * 1024 * 1024
 
-const refreshTokens = new Map<
-  string,
-  {
-    createdAt: number
-    userId: string
-    email?: string
-  }
->()
+// FastMCP routes cannot stream either, so backups and exports are built in memory up to this size
+export const DEFAULT_MAX_DOWNLOAD_BYTES = 256 * 1024 * 1024
+
+// The configured single user owns the deployment, so it may restore and import
+const CONFIGURED_USER_SCOPE = "admin"
+
+// Scope of access tokens signed before tokens carried one
+const LEGACY_TOKEN_SCOPE = "read write"
 
 // AuthSession type for FastMCP authentication
 type AuthSession = {
@@ -101,14 +139,88 @@ type AuthSession = {
   [key: string]: unknown // Allow additional properties
 }
 
+// Check a login against the configured single user, then the auth store
+async function verifyLogin(
+  store: AuthStore,
+  configured: { username?: string; password?: string; userId?: string; email?: string; scope?: string } | undefined,
+  username: string,
+  password: string,
+): Promise<AuthSession | undefined> {
+  if (configured?.username && username === configured.username && password === configured.password) {
+    return {
+      userId: configured.userId || username,
+      email: configured.email || `${username}@example.com`,
+      scope: configured.scope || CONFIGURED_USER_SCOPE,
+    }
+  }
+  const user = await authenticateUser(store, username, password)
+  return user ? { userId: user.userId, email: user.email || "", scope: user.scope } : undefined
+}
+
+// Transactions belong to the authenticated user, or to a shared owner without authentication
+function transactionOwner(session: Record<string, unknown> | undefined): string {
+  return typeof session?.userId === "string" ? session.userId : "anonymous"
+}
+
+// Request and client values written into the login page
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+// Client names are shown on the login page, so registration only accepts short plain text
+function isPlainClientName(name: unknown): name is string {
+  // eslint-disable-next-line no-control-regex
+  return typeof name === "string" && name.length <= 200 && !/[\u0000-\u001f\u007f<>"'&`]/.test(name)
+}
+
+function resolveMaxDownloadBytes(): number {
+  const envMaxBytes = process.env.KUZU_MAX_DOWNLOAD_BYTES ? parseInt(process.env.KUZU_MAX_DOWNLOAD_BYTES, 10) : NaN
+  return envMaxBytes > 0 ? envMaxBytes : DEFAULT_MAX_DOWNLOAD_BYTES
+}
+
+// Point downloads past the in-memory limit at the routes that stream
+function downloadTooLarge(
+  res: { status: (code: number) => { json: (body: object) => void } },
+  what: string,
+  error: StreamTooLargeError,
+  alternative: string,
+): void {
+  res.status(413).json({
+    error:
+      `The ${what} is larger than ${error.maxBytes} bytes, the most this port builds in memory ` +
+      `(KUZU_MAX_DOWNLOAD_BYTES). ${alternative}`,
+  })
+}
+
 export function createFastMCPServer(options: FastMCPServerOptions): {
   server: FastMCP<any> // eslint-disable-line @typescript-eslint/no-explicit-any
   dbManager: DatabaseManager
+  backupScheduler?: BackupScheduler
 } {
   console.error("🚀 Initializing FastMCP server...")
 
   // Initialize database
   const dbManager = initializeDatabaseManager(options.databasePath, options.isReadOnly)
+  const authStore = options.authStore ?? new MemoryAuthStore()
+  const keyRing =
+    options.keyRing ??
+    KeyRing.ephemeral({
+      algorithm: parseSigningAlgorithm(process.env.KUZU_JWT_ALGORITHM),
+      retention: JWT_EXPIRES_IN * 1000,
+      legacySecret: process.env.KUZU_JWT_SECRET,
+    })
+
+  const backupScheduler = options.backups ? new BackupScheduler(dbManager, options.backups) : undefined
+  if (backupScheduler) {
+    backupScheduler.start().catch((error: unknown) => {
+      console.error("❌ Failed to start the backup scheduler:", error)
+    })
+  }
 
   // Create FastMCP server configuration
 
@@ -120,14 +232,18 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
       enabled: true,
       path: "/health",
       status: 200,
-      message: JSON.stringify({
-        status: "healthy",
-        service: "kuzudb-mcp-server",
-        version: "0.11.10",
-        database: options.databasePath,
-        readonly: options.isReadOnly,
-        timestamp: new Date().toISOString(),
-      }),
+      // FastMCP reads the message on every request, so the backup status stays current
+      get message(): string {
+        return JSON.stringify({
+          status: "healthy",
+          service: "kuzudb-mcp-server",
+          version: "0.11.10",
+          database: options.databasePath,
+          readonly: options.isReadOnly,
+          timestamp: new Date().toISOString(),
+          backups: backupScheduler?.status(),
+        })
+      },
     },
   }
 
@@ -142,11 +258,13 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
               issuer: options.oauth?.issuer || `http://localhost:${options.port || 3000}`,
               authorizationEndpoint: `${options.oauth?.issuer || `http://localhost:${options.port || 3000}`}/oauth/authorize`,
               tokenEndpoint: `${options.oauth?.issuer || `http://localhost:${options.port || 3000}`}/oauth/token`,
-              jwksUri: `${options.oauth?.issuer || `http://localhost:${options.port || 3000}`}/oauth/jwks`,
+              jwksUri: `${options.oauth?.issuer || `http://localhost:${options.port || 3000}`}/.well-known/jwks.json`,
               registrationEndpoint: `${options.oauth?.issuer || `http://localhost:${options.port || 3000}`}/oauth/register`,
+              revocationEndpoint: `${options.oauth?.issuer || `http://localhost:${options.port || 3000}`}/oauth/revoke`,
+              introspectionEndpoint: `${options.oauth?.issuer || `http://localhost:${options.port || 3000}`}/oauth/introspect`,
               responseTypesSupported: ["code"],
-              grantTypesSupported: ["authorization_code"],
-              tokenEndpointAuthMethodsSupported: ["client_secret_post", "client_secret_basic"],
+              grantTypesSupported: ["authorization_code", "refresh_token"],
+              tokenEndpointAuthMethodsSupported: ["client_secret_post", "client_secret_basic", "none"],
               codeChallengeMethodsSupported: ["S256", "plain"],
             },
             protectedResource: {
@@ -157,7 +275,7 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
               authorizationServers: [options.oauth?.issuer || `http://localhost:${options.port || 3000}`],
             },
           },
-          authenticate: (request) => {
+          authenticate: async (request) => {
             const authHeader = request.headers?.authorization
             const baseUrl = options.oauth?.issuer || `http://localhost:${options.port || 3000}`
 
@@ -200,14 +318,19 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
             // Handle Basic Authentication
             if (options.basicAuth && authHeader.startsWith("Basic ")) {
               const credentials = Buffer.from(authHeader.slice(6), "base64").toString("utf-8")
-              const [username, password] = credentials.split(":")
-
-              if (username === options.basicAuth.username && password === options.basicAuth.password) {
-                return Promise.resolve({
-                  userId: options.basicAuth.userId || username,
-                  email: options.basicAuth.email || `${username}@example.com`,
-                  scope: "read write",
-                })
+              const separator = credentials.indexOf(":")
+              const session =
+                separator === -1
+                  ? undefined
+                  : await verifyLogin(
+                      authStore,
+                      options.basicAuth,
+                      credentials.slice(0, separator),
+                      credentials.slice(separator + 1),
+                    )
+
+              if (session) {
+                return session
               } else {
                 throw new Response(
                   JSON.stringify({
@@ -226,13 +349,35 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
               }
             }
 
+            // Handle API keys, which work with either authentication method
+            if (authHeader.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+              const apiKey = await verifyApiKey(authStore, authHeader.slice(7))
+              if (apiKey) {
+                return { userId: apiKey.userId, email: "", scope: apiKey.scope, apiKeyId: apiKey.id }
+              }
+              throw new Response(
+                JSON.stringify({
+                  error: "invalid_token",
+                  error_description: "Invalid, expired or revoked API key",
+                }),
+                {
+                  status: 401,
+                  statusText: "Unauthorized",
+                  headers: {
+                    "Content-Type": "application/json",
+                    "WWW-Authenticate": `Bearer realm="MCP", error="invalid_token", error_description="Invalid, expired or revoked API key"`,
+                  },
+                },
+              )
+            }
+
             // Handle Bearer Token (OAuth) - Validate JWT
             if (options.oauth?.enabled && authHeader.startsWith("Bearer ")) {
               const token = authHeader.slice(7) // Remove 'Bearer ' prefix
 
               try {
                 // Verify JWT token
-                const decoded = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload
+                const decoded = keyRing.verify(token)
 
                 if (!decoded.sub || !decoded.iat || !decoded.exp) {
                   throw new Response(
@@ -270,12 +415,30 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
                   )
                 }
 
+                // Revoked tokens, and tokens whose refresh token family was revoked, are rejected
+                if (await authStore.isRevoked(decoded.jti, decoded.fid as string | undefined)) {
+                  throw new Response(
+                    JSON.stringify({
+                      error: "invalid_token",
+                      error_description: "Token has been revoked",
+                    }),
+                    {
+                      status: 401,
+                      statusText: "Unauthorized",
+                      headers: {
+                        "Content-Type": "application/json",
+                        "WWW-Authenticate": `Bearer realm="MCP", error="invalid_token", error_description="Token has been revoked"`,
+                      },
+                    },
+                  )
+                }
+
                 // Return user info from JWT claims
-                return Promise.resolve({
+                return {
                   userId: decoded.sub,
                   email: (decoded.email as string) || "",
-                  scope: (decoded.scope as string) || "read write",
-                })
+                  scope: (decoded.scope as string) || LEGACY_TOKEN_SCOPE,
+                }
               } catch (error) {
                 if (error instanceof Response) {
                   throw error // Re-throw our custom Response errors
@@ -316,100 +479,95 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
         })
       : new FastMCP(baseConfig)
 
-  // Add query tool
-  server.addTool({
-    name: "query",
-    description: "Run a Cypher query on the Kuzu database",
-    parameters: z.object({
-      cypher: z.string().describe("The Cypher query to run"),
-    }),
-    execute: async (args) => {
-      try {
-        const result = await executeQuery(args.cypher, dbManager)
+  // Tools, prompts and resources come from the shared registry
+  for (const tool of TOOLS) {
+    server.addTool({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+      execute: async (args, context) => {
+        try {
+          const result = await tool.execute(args, {
+            dbManager,
+            sessionId: transactionOwner(context.session),
+            permissions: resolvePermissions(context.session),
+          })
 
-        if (result.isError) {
-          // FastMCP expects string responses, so we need to format error responses
-          // We'll include a special prefix to indicate this is an error
-          return `ERROR: ${result.content[0]?.text || "Unknown error"}`
+          if (result.isError) {
+            // FastMCP expects string responses, so we need to format error responses
+            // We'll include a special prefix to indicate this is an error
+            return `ERROR: ${result.content[0]?.text || "Unknown error"}`
+          }
+
+          // Extra items, such as the query tool's translation report, follow the result
+          return result.content.map((item) => item.text).join("\n\n") || "No result"
+        } catch (error) {
+          console.error(`Error in ${tool.name} tool:`, error)
+          const errorMessage = error instanceof Error ? error.message : String(error)
+          return `ERROR: ${JSON.stringify({ error: errorMessage }, null, 2)}`
         }
+      },
+    })
+  }
 
-        return result.content[0]?.text || "No result"
-      } catch (error) {
-        console.error("Error in query tool:", error)
-        const errorMessage = error instanceof Error ? error.message : String(error)
-        return `ERROR: ${JSON.stringify({ error: errorMessage }, null, 2)}`
-      }
-    },
-  })
+  for (const prompt of PROMPTS) {
+    server.addPrompt({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments,
+      load: (args, auth) => prompt.load(args, dbManager, resolvePermissions(auth)),
+    })
+  }
 
-  // Add getSchema tool
-  server.addTool({
-    name: "getSchema",
-    description: "Get the schema of the Kuzu database",
-    parameters: z.object({}),
-    execute: async (_args) => {
-      try {
-        const schema = await getSchema(dbManager.conn)
-        return JSON.stringify(schema, null, 2)
-      } catch (error) {
-        console.error("Error in getSchema tool:", error)
-        const errorMessage = error instanceof Error ? error.message : String(error)
-        return `ERROR: ${JSON.stringify({ error: errorMessage }, null, 2)}`
-      }
-    },
-  })
+  // Schema resources, so clients can browse the schema without a tool call
+  for (const resource of RESOURCES) {
+    server.addResource({
+      ...resource,
+      load: (auth) =>
+        withDatabase(dbManager, () => readResource(dbManager.conn, resource.uri, resolvePermissions(auth))),
+    })
+  }
 
-  // Add generateKuzuCypher prompt
-  // Note: FastMCP doesn't support prompts directly, they're implemented as tools
-  // that return formatted prompt strings
-  server.addTool({
-    name: "generateKuzuCypher",
-    description: "Generate a Cypher query for Kuzu from natural language",
-    parameters: z.object({
-      question: z.string().describe("The question in natural language to generate the Cypher query for"),
-    }),
-    execute: async (args) => {
-      const question = args.question
-      if (!question) {
-        throw new Error("Missing required argument: question")
-      }
+  const completeTableName = async (value: string): Promise<{ values: string[] }> => {
+    const names = await withDatabase(dbManager, () => listTableNames(dbManager.conn))
+    return { values: names.filter((name) => name.startsWith(value)) }
+  }
+  // FastMCP matches templates in order, so the more specific sample template goes first
+  for (const template of [...RESOURCE_TEMPLATES].reverse()) {
+    const sample = template.uriTemplate.endsWith("/sample")
+    server.addResourceTemplate({
+      ...template,
+      arguments: [{ name: "name", description: "Table name", required: true, complete: completeTableName }],
+      load: (args, auth) =>
+        withDatabase(dbManager, () =>
+          readResource(dbManager.conn, tableResourceUri(args.name, sample), resolvePermissions(auth)),
+        ),
+    })
+  }
 
-      try {
-        const schema = await getSchema(dbManager.conn)
-        return getPrompt(question, schema)
-      } catch (error) {
-        console.error("Error in generateKuzuCypher prompt:", error)
-        const errorMessage = error instanceof Error ? error.message : String(error)
-        return `ERROR: ${JSON.stringify({ error: errorMessage }, null, 2)}`
-      }
-    },
+  // Tell connected clients to re-list resources after DDL
+  onSchemaChange(() => {
+    for (const session of server.sessions) {
+      session.server.sendResourceListChanged().catch((error: unknown) => {
+        console.error("Error sending resources/list_changed:", error)
+      })
+    }
   })
 
   // Add OAuth flow endpoints if OAuth is enabled
   if (options.oauth?.enabled) {
     // Clean up old codes and refresh tokens every minute
     setInterval(() => {
-      const now = Date.now()
-      // Clean authorization codes (10 minutes)
-      for (const [code, data] of authorizationCodes.entries()) {
-        if (now - data.createdAt > 600000) {
-          authorizationCodes.delete(code)
-        }
-      }
-      // Clean refresh tokens (30 days)
-      for (const [token, data] of refreshTokens.entries()) {
-        if (now - data.createdAt > 2592000000) {
-          // 30 days
-          refreshTokens.delete(token)
-        }
-      }
+      authStore.purgeExpired(Date.now()).catch((error: unknown) => {
+        console.error("Error purging expired OAuth codes and tokens:", error)
+      })
     }, 60000)
 
     // OAuth Authorization Endpoint - Login Form
     server.addRoute(
       "GET",
       "/oauth/authorize",
-      (req, res) => {
+      async (req, res) => {
         const params = req.query
         const responseType = params.response_type as string
         const redirectUri = params.redirect_uri as string
@@ -434,6 +592,16 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
           return
         }
 
+        // Registered clients may only redirect to the URIs they registered
+        const client = clientId ? await authStore.findClient(clientId) : undefined
+        if (client && client.redirectUris.length > 0 && !client.redirectUris.includes(redirectUri)) {
+          res.status(400).json({
+            error: "invalid_request",
+            error_description: "redirect_uri is not registered for this client",
+          })
+          return
+        }
+
         // Validate PKCE parameters if present
         if (codeChallenge) {
           if (!codeChallengeMethod || !["S256", "plain"].includes(codeChallengeMethod)) {
@@ -465,17 +633,17 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
 <body>
     <div class="app-info">
         <h3>🔐 OAuth Authorization</h3>
-        <p><strong>Application:</strong> ${clientId || "MCP Client"}</p>
+        <p><strong>Application:</strong> ${escapeHtml(client?.clientName || clientId || "MCP Client")}</p>
         <p><strong>Permissions:</strong> Read and write access to Kuzu database</p>
     </div>
     
     <form method="POST" action="/oauth/authorize">
-        <input type="hidden" name="response_type" value="${responseType}">
-        <input type="hidden" name="redirect_uri" value="${redirectUri}">
-        <input type="hidden" name="state" value="${state || ""}">
-        <input type="hidden" name="code_challenge" value="${codeChallenge || ""}">
-        <input type="hidden" name="code_challenge_method" value="${codeChallengeMethod || ""}">
-        <input type="hidden" name="client_id" value="${clientId || ""}">
+        <input type="hidden" name="response_type" value="${escapeHtml(responseType)}">
+        <input type="hidden" name="redirect_uri" value="${escapeHtml(redirectUri)}">
+        <input type="hidden" name="state" value="${escapeHtml(state || "")}">
+        <input type="hidden" name="code_challenge" value="${escapeHtml(codeChallenge || "")}">
+        <input type="hidden" name="code_challenge_method" value="${escapeHtml(codeChallengeMethod || "")}">
+        <input type="hidden" name="client_id" value="${escapeHtml(clientId || "")}">
         
         <div class="form-group">
             <label for="username">Username:</label>
@@ -512,9 +680,20 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
           const state = params.get("state")
           const codeChallenge = params.get("code_challenge")
           const codeChallengeMethod = params.get("code_challenge_method")
+          const clientId = params.get("client_id")
+
+          const client = clientId ? await authStore.findClient(clientId) : undefined
+          if (client && client.redirectUris.length > 0 && !client.redirectUris.includes(redirectUri || "")) {
+            res.status(400).json({
+              error: "invalid_request",
+              error_description: "redirect_uri is not registered for this client",
+            })
+            return
+          }
 
           // Validate credentials
-          if (username !== options.oauth?.username || password !== options.oauth?.password) {
+          const session = await verifyLogin(authStore, options.oauth, username || "", password || "")
+          if (!session) {
             const errorForm = `
 <!DOCTYPE html>
 <html><head><title>Login Failed</title><style>body{font-family:Arial;max-width:400px;margin:100px auto;padding:20px;}.error{color:red;background:#fee;padding:10px;border-radius:4px;margin-bottom:15px;}</style></head>
@@ -525,12 +704,15 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
 
           // Generate authorization code
           const code = randomBytes(16).toString("hex")
-          authorizationCodes.set(code, {
+          await authStore.saveAuthorizationCode(code, {
             createdAt: Date.now(),
             redirectUri: redirectUri || "",
             codeChallenge: codeChallenge || undefined,
             codeChallengeMethod: codeChallengeMethod || undefined,
-            userId: options.oauth?.userId || username || "oauth-user",
+            userId: session.userId,
+            email: session.email,
+            scope: session.scope,
+            clientId: clientId || undefined,
           })
 
           // Redirect with authorization code
@@ -551,6 +733,76 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
       { public: true },
     )
 
+    const issuer = options.oauth?.issuer || `http://localhost:${options.port || 3000}`
+    const audience = options.oauth?.resource || `${issuer}/mcp`
+    // Revocations must outlive every access token they cover
+    const revocationExpiry = (): number => Date.now() + JWT_EXPIRES_IN * 1000
+
+    // Sign an access token and store a fresh refresh token in the grant's family
+    const issueTokens = async (grant: Omit<RefreshTokenRecord, "createdAt" | "rotatedAt">): Promise<object> => {
+      const accessTokenPayload = {
+        sub: grant.userId,
+        email: grant.email || "",
+        scope: grant.scope,
+        ...(grant.clientId && { client_id: grant.clientId }),
+        jti: randomBytes(16).toString("hex"),
+        fid: grant.familyId,
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(Date.now() / 1000) + JWT_EXPIRES_IN,
+        iss: issuer,
+        aud: audience,
+      }
+
+      // Refresh tokens last 30 days and rotate on every use
+      const refreshToken = randomBytes(32).toString("hex")
+      await authStore.saveRefreshToken(refreshToken, { ...grant, createdAt: Date.now() })
+
+      return {
+        access_token: keyRing.sign(accessTokenPayload),
+        token_type: "Bearer",
+        expires_in: JWT_EXPIRES_IN,
+        scope: grant.scope,
+        refresh_token: refreshToken,
+      }
+    }
+
+    // Client id and secret from a Basic header or the client_id/client_secret form fields
+    const clientCredentials = (
+      authorization: string | undefined,
+      params: URLSearchParams,
+    ): { clientId: string | null; clientSecret: string | null } => {
+      if (authorization?.startsWith("Basic ")) {
+        const credentials = Buffer.from(authorization.slice(6), "base64").toString("utf-8")
+        const separator = credentials.indexOf(":")
+        return {
+          clientId: decodeURIComponent(credentials.slice(0, separator)),
+          clientSecret: decodeURIComponent(credentials.slice(separator + 1)),
+        }
+      }
+      return { clientId: params.get("client_id"), clientSecret: params.get("client_secret") }
+    }
+
+    // Check client credentials from a Basic header or client_id/client_secret
+    // form fields. Returns null when none were sent and false when they are wrong.
+    const authenticateClient = async (
+      authorization: string | undefined,
+      params: URLSearchParams,
+    ): Promise<ClientRecord | null | false> => {
+      const { clientId, clientSecret } = clientCredentials(authorization, params)
+      if (!clientId || !clientSecret) {
+        return null
+      }
+      const client = await authStore.findClient(clientId)
+      return client && client.clientSecretHash === digestSecret(clientSecret) ? client : false
+    }
+
+    const invalidClient = (res: { status: (code: number) => { json: (body: object) => void } }): void => {
+      res.status(401).json({ error: "invalid_client", error_description: "Client authentication failed" })
+    }
+
+    const refreshTokenExpired = (record: RefreshTokenRecord): boolean =>
+      Date.now() - record.createdAt > REFRESH_TOKEN_TTL
+
     // OAuth Token Endpoint
     server.addRoute(
       "POST",
@@ -574,47 +826,50 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
             return
           }
 
-          const tokenData = refreshTokens.get(refreshTokenParam)
-          if (!tokenData) {
+          // Refresh tokens are bound to the client they were issued to (RFC 6749 section 6);
+          // checked before the token is spent so a stolen token cannot end the owner's session
+          const issued = await authStore.findRefreshToken(refreshTokenParam)
+          const { clientId: presentedClientId } = clientCredentials(req.headers.authorization, params)
+          if (issued?.clientId && presentedClientId !== issued.clientId) {
             res.status(400).json({
               error: "invalid_grant",
-              error_description: "Invalid or expired refresh token",
+              error_description: "Refresh token was issued to another client",
             })
             return
           }
-
-          // Remove old refresh token (token rotation)
-          refreshTokens.delete(refreshTokenParam)
-
-          // Generate new JWT access token
-          const accessTokenPayload = {
-            sub: tokenData.userId,
-            email: tokenData.email || "",
-            scope: "read write",
-            iat: Math.floor(Date.now() / 1000),
-            exp: Math.floor(Date.now() / 1000) + JWT_EXPIRES_IN,
-            iss: options.oauth?.issuer || `http://localhost:${options.port || 3000}`,
-            aud:
-              options.oauth?.resource || `${options.oauth?.issuer || `http://localhost:${options.port || 3000}`}/mcp`,
+          // Confidential clients must also prove they hold their secret. Public clients, registered with
+          // token_endpoint_auth_method "none", have none to send and rely on rotation and reuse detection.
+          const issuedTo = issued?.clientId ? await authStore.findClient(issued.clientId) : undefined
+          if (issuedTo && issuedTo.tokenEndpointAuthMethod !== "none") {
+            const client = await authenticateClient(req.headers.authorization, params)
+            if (!client || client.clientId !== issuedTo.clientId) {
+              invalidClient(res)
+              return
+            }
           }
 
-          // Generate new refresh token
-          const newRefreshToken = randomBytes(32).toString("hex")
-          refreshTokens.set(newRefreshToken, {
-            createdAt: Date.now(),
-            userId: tokenData.userId,
-            email: tokenData.email,
-          })
+          const used = await authStore.useRefreshToken(refreshTokenParam)
+          if (!used || refreshTokenExpired(used.record)) {
+            res.status(400).json({
+              error: "invalid_grant",
+              error_description: "Invalid or expired refresh token",
+            })
+            return
+          }
 
-          const accessToken = jwt.sign(accessTokenPayload, JWT_SECRET)
+          // A rotated token coming back means it was copied; end the whole session for both holders
+          if (used.reused) {
+            await authStore.revokeTokenFamily(used.record.familyId, revocationExpiry())
+            console.error(`⚠️  Refresh token reuse for ${used.record.userId}; revoked its token family`)
+            res.status(400).json({
+              error: "invalid_grant",
+              error_description: "Refresh token was already used; all tokens from this authorization were revoked",
+            })
+            return
+          }
 
-          res.json({
-            access_token: accessToken,
-            token_type: "Bearer",
-            expires_in: JWT_EXPIRES_IN,
-            scope: "read write",
-            refresh_token: newRefreshToken,
-          })
+          const { userId, email, scope, clientId, familyId } = used.record
+          res.json(await issueTokens({ userId, email, scope, clientId, familyId }))
           return
         }
 
@@ -626,7 +881,8 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
           return
         }
 
-        const codeData = authorizationCodes.get(code || "")
+        // Codes are single use, so a failed exchange below also spends it
+        const codeData = code ? await authStore.takeAuthorizationCode(code) : undefined
         if (!codeData) {
           res.status(400).json({
             error: "invalid_grant",
@@ -671,63 +927,145 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
           }
         }
 
-        // Remove used code
-        authorizationCodes.delete(code!)
-
-        // Generate JWT access token
-        const accessTokenPayload = {
-          sub: codeData.userId,
-          email: options.oauth?.email || "",
-          scope: "read write",
-          iat: Math.floor(Date.now() / 1000),
-          exp: Math.floor(Date.now() / 1000) + JWT_EXPIRES_IN,
-          iss: options.oauth?.issuer || `http://localhost:${options.port || 3000}`,
-          aud: options.oauth?.resource || `${options.oauth?.issuer || `http://localhost:${options.port || 3000}`}/mcp`,
+        res.json(
+          await issueTokens({
+            userId: codeData.userId,
+            email: codeData.email,
+            scope: codeData.scope,
+            clientId: codeData.clientId,
+            familyId: randomBytes(16).toString("hex"),
+          }),
+        )
+      },
+      { public: true },
+    )
+
+    // Signature-checked access token claims, including expired tokens
+    const decodeAccessToken = (token: string): jwt.JwtPayload | null => {
+      try {
+        return keyRing.verify(token, { ignoreExpiration: true })
+      } catch {
+        return null
+      }
+    }
+
+    // Token Revocation (RFC 7009). Revoking a refresh token ends its whole
+    // family, including access tokens issued from it.
+    server.addRoute(
+      "POST",
+      "/oauth/revoke",
+      async (req, res) => {
+        const params = new URLSearchParams(await req.text())
+        const token = params.get("token")
+        const client = await authenticateClient(req.headers.authorization, params)
+        if (client === false) {
+          invalidClient(res)
+          return
+        }
+        if (!token) {
+          res.status(400).json({ error: "invalid_request", error_description: "token is required" })
+          return
         }
 
-        // Generate refresh token (7 days)
-        const refreshToken = randomBytes(32).toString("hex")
-        refreshTokens.set(refreshToken, {
-          createdAt: Date.now(),
-          userId: codeData.userId,
-          email: options.oauth?.email,
-        })
+        // Clients may only revoke their own tokens; tokens without a client are revocable by their holder
+        const owns = (clientId: unknown): boolean => !client || !clientId || clientId === client.clientId
 
-        const accessToken = jwt.sign(accessTokenPayload, JWT_SECRET)
+        const refresh = await authStore.findRefreshToken(token)
+        if (refresh && owns(refresh.clientId)) {
+          await authStore.revokeTokenFamily(refresh.familyId, revocationExpiry())
+        } else {
+          const claims = decodeAccessToken(token)
+          if (claims?.jti && owns(claims.client_id)) {
+            await authStore.revokeAccessToken(claims.jti, (claims.exp ?? 0) * 1000)
+          }
+        }
 
-        res.json({
-          access_token: accessToken,
-          token_type: "Bearer",
-          expires_in: JWT_EXPIRES_IN,
-          scope: "read write",
-          refresh_token: refreshToken,
-        })
+        // Unknown and already revoked tokens are not an error (RFC 7009 section 2.2)
+        res.status(200).json({})
       },
       { public: true },
     )
 
-    // JWKS Endpoint - Symmetric key (HMAC)
+    // Token Introspection (RFC 7662), for registered clients only
     server.addRoute(
-      "GET",
-      "/oauth/jwks",
-      (_req, res) => {
-        // For HMAC/symmetric keys, JWKS typically returns empty or minimal key info
-        // since the secret is shared between client and server, not public
-        res.json({
-          keys: [
-            {
-              kty: "oct", // Octet sequence for symmetric keys
-              use: "sig",
-              kid: "kuzu-hmac-key",
-              alg: "HS256",
-              // Note: We don't expose the actual secret in JWKS for HMAC
-            },
-          ],
-        })
+      "POST",
+      "/oauth/introspect",
+      async (req, res) => {
+        const params = new URLSearchParams(await req.text())
+        const token = params.get("token")
+        const client = await authenticateClient(req.headers.authorization, params)
+        if (!client) {
+          invalidClient(res)
+          return
+        }
+        if (!token) {
+          res.status(400).json({ error: "invalid_request", error_description: "token is required" })
+          return
+        }
+
+        const refresh = await authStore.findRefreshToken(token)
+        if (refresh) {
+          const active =
+            !refresh.rotatedAt &&
+            !refreshTokenExpired(refresh) &&
+            !(await authStore.isRevoked(undefined, refresh.familyId))
+          res.json(
+            active
+              ? {
+                  active: true,
+                  token_type: "refresh_token",
+                  scope: refresh.scope,
+                  sub: refresh.userId,
+                  client_id: refresh.clientId,
+                  iat: Math.floor(refresh.createdAt / 1000),
+                  exp: Math.floor((refresh.createdAt + REFRESH_TOKEN_TTL) / 1000),
+                  iss: issuer,
+                }
+              : { active: false },
+          )
+          return
+        }
+
+        const claims = decodeAccessToken(token)
+        const active =
+          !!claims?.exp &&
+          claims.exp * 1000 > Date.now() &&
+          !(await authStore.isRevoked(claims.jti, claims.fid as string | undefined))
+        res.json(
+          active
+            ? {
+                active: true,
+                token_type: "Bearer",
+                scope: claims.scope as string,
+                sub: claims.sub,
+                client_id: claims.client_id as string | undefined,
+                email: claims.email as string | undefined,
+                iat: claims.iat,
+                exp: claims.exp,
+                iss: claims.iss,
+                aud: claims.aud,
+                jti: claims.jti,
+              }
+            : { active: false },
+        )
       },
       { public: true },
     )
 
+    // JWKS Endpoint - public keys of the signing key and of retired keys
+    // whose tokens may not have expired yet. /oauth/jwks is kept for clients
+    // configured before the well-known location.
+    for (const jwksPath of ["/.well-known/jwks.json", "/oauth/jwks"]) {
+      server.addRoute(
+        "GET",
+        jwksPath,
+        (_req, res) => {
+          res.json(keyRing.jwks())
+        },
+        { public: true },
+      )
+    }
+
     // Dynamic Client Registration (accept any client)
     server.addRoute(
       "POST",
@@ -738,20 +1076,17 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
           let registrationRequest: OAuthClientRegistrationRequest = {}
 
           try {
-            // Try to get JSON body directly from req.body if available
+            // FastMCP parses JSON bodies on first read and keeps the result in req.body
+            const body = await req.text()
             if (req.body && typeof req.body === "object") {
               registrationRequest = req.body as OAuthClientRegistrationRequest
-            } else {
-              // Fallback to text parsing - handle FastMCP body parsing issues
-              const body = await req.text()
-              if (body && body !== "[object Object]") {
-                try {
-                  registrationRequest = JSON.parse(body) as OAuthClientRegistrationRequest
-                } catch {
-                  // If not JSON, treat as form-encoded (though DCR usually uses JSON)
-                  const formData = Object.fromEntries(new URLSearchParams(body))
-                  registrationRequest = formData as OAuthClientRegistrationRequest
-                }
+            } else if (body) {
+              try {
+                registrationRequest = JSON.parse(body) as OAuthClientRegistrationRequest
+              } catch {
+                // If not JSON, treat as form-encoded (though DCR usually uses JSON)
+                const formData = Object.fromEntries(new URLSearchParams(body))
+                registrationRequest = formData as OAuthClientRegistrationRequest
               }
             }
           } catch (parseError) {
@@ -775,12 +1110,32 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
 
           // Add any other fields the client requested
           if (registrationRequest.client_name) {
+            if (!isPlainClientName(registrationRequest.client_name)) {
+              res.status(400).json({
+                error: "invalid_client_metadata",
+                error_description: "client_name must be plain text of at most 200 characters, without markup",
+              })
+              return
+            }
             response.client_name = registrationRequest.client_name
           }
           if (registrationRequest.scope) {
             response.scope = registrationRequest.scope
           }
 
+          // Registrations outlive restarts when the store is persistent; only the secret's digest is kept
+          await authStore.saveClient({
+            clientId,
+            clientSecretHash: digestSecret(clientSecret),
+            issuedAt: response.client_id_issued_at,
+            grantTypes: response.grant_types,
+            responseTypes: response.response_types,
+            redirectUris: response.redirect_uris,
+            tokenEndpointAuthMethod: response.token_endpoint_auth_method,
+            clientName: response.client_name,
+            scope: response.scope,
+          })
+
           res.status(201).json(response)
         } catch (error) {
           res.status(400).json({
@@ -796,8 +1151,91 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
     console.error("✓ OAuth flow endpoints added:")
     console.error(`    - Authorization: http://localhost:${options.port || 3000}/oauth/authorize`)
     console.error(`    - Token: http://localhost:${options.port || 3000}/oauth/token`)
-    console.error(`    - JWKS: http://localhost:${options.port || 3000}/oauth/jwks`)
+    console.error(`    - JWKS: http://localhost:${options.port || 3000}/.well-known/jwks.json (${keyRing.algorithm})`)
     console.error(`    - Registration: http://localhost:${options.port || 3000}/oauth/register`)
+    console.error(`    - Revocation: http://localhost:${options.port || 3000}/oauth/revoke`)
+    console.error(`    - Introspection: http://localhost:${options.port || 3000}/oauth/introspect`)
+  }
+
+  // Requests are authenticated when OAuth or Basic Auth is on. FastMCP then
+  // authenticates every route not registered as public before its handler runs.
+  const authEnabled = !!(options.oauth?.enabled || options.basicAuth)
+
+  // Destructive admin routes need the admin role once requests are authenticated
+  const requireAdmin = (
+    auth: Record<string, unknown> | undefined,
+    res: { status: (code: number) => { json: (body: object) => void } },
+    action: string,
+  ): boolean => {
+    if (!authEnabled || resolvePermissions(auth)?.role === "admin") {
+      return true
+    }
+    res.status(403).json({ error: "forbidden", error_description: `${action} requires the admin role` })
+    return false
+  }
+
+  // The fields of a multipart upload. Sends the error response and returns
+  // undefined when the body is too large or not multipart.
+  const readUpload = async (
+    req: { headers: Record<string, string | string[] | undefined>; text: () => Promise<string> },
+    res: { status: (code: number) => { json: (body: object) => void } },
+  ): Promise<Map<string, MultipartPart> | undefined> => {
+    let body: string
+    try {
+      body = await req.text()
+    } catch (error) {
+      res.status(413).json({ error: (error as Error).message })
+      return undefined
+    }
+    try {
+      const contentType = req.headers["content-type"]
+      return parseMultipart(body, Array.isArray(contentType) ? contentType[0] : contentType)
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message })
+      return undefined
+    }
+  }
+
+  // API key management, for admins only
+  if (authEnabled) {
+    server.addRoute("GET", "/api/keys", async (req, res) => {
+      if (!requireAdmin(req.auth, res, "Managing API keys")) return
+      const keys = await authStore.listApiKeys()
+      res.json({ keys: keys.sort((a, b) => a.createdAt - b.createdAt).map((record) => describeApiKey(record)) })
+    })
+
+    server.addRoute("POST", "/api/keys", async (req, res) => {
+      if (!requireAdmin(req.auth, res, "Managing API keys")) return
+      try {
+        const body = (await req.json()) as { name?: unknown; userId?: unknown; scope?: unknown; expires?: unknown }
+        if (typeof body.name !== "string" || !body.name) {
+          res.status(400).json({ error: "invalid_request", error_description: "name is required" })
+          return
+        }
+        const { key, record } = await createApiKey(authStore, {
+          name: body.name,
+          userId: typeof body.userId === "string" ? body.userId : undefined,
+          scope: typeof body.scope === "string" ? body.scope : undefined,
+          expiresAt: typeof body.expires === "string" ? parseExpiry(body.expires) : undefined,
+        })
+        // The key is only ever shown in this response
+        res.status(201).json({ ...describeApiKey(record), key })
+      } catch (error) {
+        res.status(400).json({
+          error: "invalid_request",
+          error_description: error instanceof Error ? error.message : String(error),
+        })
+      }
+    })
+
+    server.addRoute("DELETE", "/api/keys/:id", async (req, res) => {
+      if (!requireAdmin(req.auth, res, "Managing API keys")) return
+      if (await authStore.deleteApiKey(req.params.id ?? "")) {
+        res.status(204).end()
+      } else {
+        res.status(404).json({ error: "not_found", error_description: `No API key ${req.params.id}` })
+      }
+    })
   }
 
   // Add root info endpoint for resource discovery
@@ -818,11 +1256,13 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
           connected: !!dbManager.conn,
         },
         capabilities: {
-          tools: ["query", "getSchema", "generateKuzuCypher"],
+          tools: TOOLS.map((tool) => tool.name),
+          prompts: PROMPTS.map((prompt) => prompt.name),
           transports: ["stdio", "http"],
           authentication: {
             oauth: options.oauth?.enabled || false,
             basicAuth: !!options.basicAuth,
+            apiKeys: !!(options.oauth?.enabled || options.basicAuth),
           },
         },
         endpoints: {
@@ -842,8 +1282,10 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
             oauth: {
               authorization: `${baseUrl}/oauth/authorize`,
               token: `${baseUrl}/oauth/token`,
-              jwks: `${baseUrl}/oauth/jwks`,
+              jwks: `${baseUrl}/.well-known/jwks.json`,
               register: `${baseUrl}/oauth/register`,
+              revoke: `${baseUrl}/oauth/revoke`,
+              introspect: `${baseUrl}/oauth/introspect`,
               discovery: {
                 authorizationServer: `${baseUrl}/.well-known/oauth-authorization-server`,
                 protectedResource: `${baseUrl}/.well-known/oauth-protected-resource`,
@@ -867,7 +1309,8 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
   // Add Admin UI routes
   const webUIEnabled = process.env.KUZU_WEB_UI_ENABLED !== "false"
   if (webUIEnabled) {
-    // Serve the admin UI at /admin (root now shows server info)
+    // Serve the admin UI at /admin (root now shows server info). The page is
+    // public so it can show its login form; the API routes it calls are not.
     server.addRoute(
       "GET",
       "/admin",
@@ -876,6 +1319,8 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
           databasePath: options.databasePath,
           isReadOnly: options.isReadOnly,
           version: "0.11.10",
+          base64UploadLimit: MAX_UPLOAD_BYTES,
+          auth: authEnabled ? { oauth: !!options.oauth?.enabled, basic: !!options.basicAuth } : undefined,
         })
         res.send(html)
       },
@@ -883,24 +1328,19 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
     )
 
     // Database info API endpoint
-    server.addRoute(
-      "GET",
-      "/api/info",
-      async (_req, res) => {
-        try {
-          const info = await getDatabaseInfo(options.databasePath)
-          res.json({
-            ...info,
-            isReadOnly: options.isReadOnly,
-            connected: !!dbManager.conn,
-          })
-        } catch (error) {
-          console.error("Error getting database info:", error)
-          res.status(500).json({ error: "Failed to get database info" })
-        }
-      },
-      { public: true },
-    )
+    server.addRoute("GET", "/api/info", async (_req, res) => {
+      try {
+        const info = await getDatabaseInfo(options.databasePath)
+        res.json({
+          ...info,
+          isReadOnly: options.isReadOnly,
+          connected: !!dbManager.conn,
+        })
+      } catch (error) {
+        console.error("Error getting database info:", error)
+        res.status(500).json({ error: "Failed to get database info" })
+      }
+    })
 
     // Health check for admin UI
     server.addRoute(
@@ -913,91 +1353,167 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
           database: options.databasePath,
           readonly: options.isReadOnly,
           timestamp: new Date().toISOString(),
+          backups: backupScheduler?.status(),
         })
       },
       { public: true },
     )
 
     // Download backup endpoint
-    server.addRoute(
-      "GET",
-      "/api/backup",
-      async (_req, res) => {
-        try {
-          // Create a simple archive in memory
-          const archive = await createSimpleArchive(options.databasePath)
-
-          // Set headers for download
-          const filename = `kuzu-backup-${new Date().toISOString().slice(0, 10)}.kuzu`
-          res.setHeader("Content-Type", "application/octet-stream")
-          res.setHeader("Content-Disposition", `attachment; filename="${filename}"`)
-          res.setHeader("Content-Length", archive.length.toString())
-
-          // Send the archive
-          res.send(archive)
-        } catch (error) {
-          console.error("Error creating backup:", error)
-          res.status(500).json({ error: "Failed to create backup" })
+    server.addRoute("GET", "/api/backup", async (req, res) => {
+      if (!readsAllTables(resolvePermissions(req.auth))) {
+        res.status(403).json({ error: "Downloading the database requires read access to every table" })
+        return
+      }
+      let directory: string | undefined
+      try {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "kuzu-download-"))
+        const backupDir = directory
+        // Copied while writes wait, as a scheduled backup is; FastMCP routes cannot stream, so it is sent from memory
+        const backupPath = await withDatabase(dbManager, () =>
+          snapshotDatabase(dbManager.currentDatabasePath, backupDir, dbManager.lockManager, dbManager.writeGate),
+        )
+        const archive = await streamToBuffer(createReadStream(backupPath), resolveMaxDownloadBytes())
+
+        res.setHeader("Content-Type", "application/gzip")
+        res.setHeader("Content-Disposition", `attachment; filename="${backupArchiveName()}"`)
+        res.setHeader("Content-Length", archive.length.toString())
+
+        // Send the archive
+        res.send(archive)
+      } catch (error) {
+        if (error instanceof StreamTooLargeError) {
+          downloadTooLarge(
+            res,
+            "backup",
+            error,
+            "Use the --backup command, or download it from the standalone Web UI server, which streams backups.",
+          )
+          return
         }
-      },
-      { public: true },
-    )
-
-    // Export database endpoint
-    server.addRoute(
-      "GET",
-      "/api/export",
-      async (_req, res) => {
-        try {
-          const exportDir = path.join(os.tmpdir(), `kuzu-export-${Date.now()}`)
-
-          // Export database
-          await exportDatabase(dbManager.conn, exportDir)
-
-          // TODO: Create a ZIP of the exported files
-          // For now, we'll just return a message
-          res.json({
-            success: true,
-            message: "Export functionality coming soon. Use EXPORT DATABASE command directly for now.",
-            exportPath: exportDir,
-          })
-
-          // Clean up export directory after some time
-          setTimeout(() => {
-            void (async () => {
-              try {
-                await fs.rm(exportDir, { recursive: true, force: true })
-              } catch {
-                // Ignore cleanup errors
-              }
-            })()
-          }, 60000) // Clean up after 1 minute
-        } catch (error) {
-          console.error("Error exporting database:", error)
-          res.status(500).json({ error: "Failed to export database: " + (error as Error).message })
+        console.error("Error creating backup:", error)
+        res.status(500).json({ error: "Failed to create backup" })
+      } finally {
+        if (directory) {
+          await fs.rm(directory, { recursive: true, force: true }).catch(() => {})
         }
-      },
-      { public: true },
-    )
+      }
+    })
 
-    // Restore backup endpoint (simplified - just return not implemented for now)
-    server.addRoute(
-      "POST",
-      "/api/restore",
-      (_req, res) => {
-        if (options.isReadOnly) {
-          res.status(403).json({ error: "Database is in read-only mode" })
+    // Export database endpoint, built in memory like the backup
+    server.addRoute("GET", "/api/export", async (req, res) => {
+      if (!readsAllTables(resolvePermissions(req.auth))) {
+        res.status(403).json({ error: "Exporting the database requires read access to every table" })
+        return
+      }
+      let format: ExportFormat
+      try {
+        format = parseExportFormat(req.query.format)
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message })
+        return
+      }
+      try {
+        const archive = await withDatabase(dbManager, async () =>
+          streamToBuffer(await exportDatabaseArchive(dbManager.conn, format), resolveMaxDownloadBytes()),
+        )
+        res.setHeader("Content-Type", "application/gzip")
+        res.setHeader("Content-Disposition", `attachment; filename="${exportArchiveName(format)}"`)
+        res.setHeader("Content-Length", archive.length.toString())
+        res.send(archive)
+      } catch (error) {
+        if (error instanceof StreamTooLargeError) {
+          downloadTooLarge(
+            res,
+            "export",
+            error,
+            "Download it from the standalone Web UI server, which streams exports.",
+          )
           return
         }
+        console.error("Error exporting database:", error)
+        res.status(500).json({ error: "Failed to export database: " + (error as Error).message })
+      }
+    })
 
-        // TODO: Implement full restore functionality with multipart upload
-        res.status(501).json({
-          error: "Restore functionality not yet implemented in single-port mode",
-          message: "Please use the command-line tools for restore operations",
-        })
-      },
-      { public: true },
-    )
+    // Import an export archive into a fresh database and swap it in
+    server.addRoute("POST", "/api/import", async (req, res) => {
+      if (!requireAdmin(req.auth, res, "Importing a database")) {
+        return
+      }
+      if (options.isReadOnly) {
+        res.status(403).json({ error: "Database is in read-only mode" })
+        return
+      }
+      const upload = await readUpload(req, res)
+      if (!upload) {
+        return
+      }
+      const archive = upload.get("export")
+      if (!archive) {
+        res.status(400).json({ error: "No archive uploaded" })
+        return
+      }
+      const staged = `${dbManager.currentDatabasePath}.import-${Date.now()}`
+      try {
+        await importDatabaseArchive(Readable.from([archive.data]), staged)
+        await replaceDatabase(dbManager, staged)
+        res.json({ success: true, message: "Database imported successfully" })
+      } catch (error) {
+        await removeDatabaseFiles(staged).catch(() => {})
+        console.error("Error importing database:", error)
+        res
+          .status(replacementErrorStatus(error))
+          .json({ error: "Failed to import database: " + (error as Error).message })
+      }
+    })
+
+    // Restore a backup archive (or a legacy .kuzu backup), or a main database
+    // file with an optional WAL, by swapping it in for the served database
+    server.addRoute("POST", "/api/restore", async (req, res) => {
+      if (!requireAdmin(req.auth, res, "Restoring the database")) {
+        return
+      }
+      if (options.isReadOnly) {
+        res.status(403).json({ error: "Database is in read-only mode" })
+        return
+      }
+      const upload = await readUpload(req, res)
+      if (!upload) {
+        return
+      }
+      const backup = upload.get("backup")
+      const mainFile = upload.get("mainFile")
+      if (!backup && !mainFile) {
+        res.status(400).json({ error: "No files uploaded" })
+        return
+      }
+
+      const staged = `${dbManager.currentDatabasePath}.restore-${Date.now()}`
+      try {
+        if (backup) {
+          if (isLegacyBackup(backup.data)) {
+            await restoreSimpleArchive(backup.data, staged)
+          } else {
+            await restoreBackupArchive(Readable.from([backup.data]), staged)
+          }
+        } else if (mainFile) {
+          await fs.writeFile(staged, mainFile.data)
+          const walFile = upload.get("walFile")
+          if (walFile) {
+            await fs.writeFile(`${staged}.wal`, walFile.data)
+          }
+        }
+        await replaceDatabase(dbManager, staged)
+        res.json({ success: true, message: "Database restored successfully" })
+      } catch (error) {
+        await removeDatabaseFiles(staged).catch(() => {})
+        console.error("Error restoring database:", error)
+        res
+          .status(replacementErrorStatus(error))
+          .json({ error: "Failed to restore database: " + (error as Error).message })
+      }
+    })
 
     console.error("✓ Admin UI added:")
     console.error(`    - Web UI: http://localhost:${options.port || 3000}/admin`)
@@ -1010,29 +1526,14 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
     console.error("Error:", error)
     console.error("Stack:", error.stack)
 
-    // Discard potentially corrupted connection references
-    if (dbManager.conn) {
-      console.error("Discarding database connection reference")
-      dbManager.conn = null as unknown as kuzu.Connection
-    }
-    if (dbManager.db) {
-      console.error("Discarding database instance reference")
-      dbManager.db = null as unknown as kuzu.Database
-    }
-
-    // Attempt to reinitialize connections for next request
-    setTimeout(() => {
-      void (() => {
-        try {
-          console.error("Attempting to reinitialize database connections...")
-          const newDbManager = initializeDatabaseManager(dbManager.currentDatabasePath, dbManager.currentIsReadOnly)
-          Object.assign(dbManager, newDbManager)
-          console.error("✓ Database connections reinitialized after uncaught exception")
-        } catch (reinitError) {
-          console.error("❌ Failed to reinitialize database connections:", reinitError)
-        }
-      })()
-    }, 1000)
+    // Reopen the database through the same drain and close steps as a restore
+    void recoverDatabase(dbManager)
+      .then(() => {
+        console.error("✓ Database connections reinitialized after uncaught exception")
+      })
+      .catch((reinitError: unknown) => {
+        console.error("❌ Failed to reinitialize database connections:", reinitError)
+      })
 
     console.error("🔄 Server continuing after uncaught exception (connections may be reset)...")
   })
@@ -1059,7 +1560,7 @@ export function createFastMCPServer(options: FastMCPServerOptions): {
     console.error("🔄 Server continuing after unhandled rejection...")
   })
 
-  return { server, dbManager }
+  return { server, dbManager, backupScheduler }
 }
 
 export async function startFastMCPServer(options: FastMCPServerOptions): Promise<void> {
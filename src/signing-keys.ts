@@ -0,0 +1,219 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import { KeyObject, createPrivateKey, createPublicKey, generateKeyPairSync, randomBytes } from "crypto"
+import * as jwt from "jsonwebtoken"
+
+export const SIGNING_ALGORITHMS = ["RS256", "ES256"] as const
+export type SigningAlgorithm = (typeof SIGNING_ALGORITHMS)[number]
+
+export const KEYS_FILE = "jwt-keys.json"
+export const DEFAULT_ROTATION_INTERVAL = 30 * 24 * 60 * 60 * 1000 // 30 days
+
+export interface SigningKey {
+  kid: string
+  algorithm: SigningAlgorithm
+  privateKey: KeyObject
+  publicKey: KeyObject
+  createdAt: number
+  // Set when a newer key took over; the key still verifies tokens until they expire
+  retiredAt?: number
+}
+
+interface StoredKey {
+  kid: string
+  alg: SigningAlgorithm
+  createdAt: number
+  retiredAt?: number
+  privateKey: string
+}
+
+export interface KeyRingOptions {
+  algorithm?: SigningAlgorithm
+  // Directory keys are loaded from and saved to; keys only live in memory without one
+  directory?: string
+  rotationInterval?: number
+  // How long retired keys keep verifying tokens, normally the access token lifetime
+  retention: number
+  // KUZU_JWT_SECRET of earlier versions; HS256 tokens it signed are still accepted
+  legacySecret?: string
+}
+
+export function parseSigningAlgorithm(value: string | undefined): SigningAlgorithm {
+  const algorithm = (value ?? "RS256").toUpperCase()
+  if (!(SIGNING_ALGORITHMS as readonly string[]).includes(algorithm)) {
+    throw new Error(`Unsupported JWT algorithm "${value}"; expected one of ${SIGNING_ALGORITHMS.join(", ")}`)
+  }
+  return algorithm as SigningAlgorithm
+}
+
+export function generateSigningKey(algorithm: SigningAlgorithm): SigningKey {
+  const { privateKey, publicKey } =
+    algorithm === "RS256"
+      ? generateKeyPairSync("rsa", { modulusLength: 2048 })
+      : generateKeyPairSync("ec", { namedCurve: "P-256" })
+  return { kid: randomBytes(8).toString("hex"), algorithm, privateKey, publicKey, createdAt: Date.now() }
+}
+
+/**
+ * Asymmetric JWT signing keys. The newest key signs; retired keys keep
+ * verifying until the tokens they signed have expired. Public keys are
+ * published as a JWKS so resource servers can verify tokens themselves.
+ */
+export class KeyRing {
+  private keys: SigningKey[] = []
+  private rotationTimer?: ReturnType<typeof setInterval>
+  readonly algorithm: SigningAlgorithm
+  readonly rotationInterval: number
+
+  private constructor(private readonly options: KeyRingOptions) {
+    this.algorithm = options.algorithm ?? "RS256"
+    this.rotationInterval = options.rotationInterval ?? DEFAULT_ROTATION_INTERVAL
+  }
+
+  // Load the keys in the directory, creating the first one if there are none
+  static async open(options: KeyRingOptions): Promise<KeyRing> {
+    const ring = new KeyRing(options)
+    if (options.directory) {
+      ring.keys = await loadKeys(path.join(options.directory, KEYS_FILE))
+    }
+    await ring.rotateIfDue()
+    return ring
+  }
+
+  // A ring with one fresh key that is never saved, for servers without a key directory
+  static ephemeral(options: Omit<KeyRingOptions, "directory">): KeyRing {
+    const ring = new KeyRing(options)
+    ring.keys = [generateSigningKey(ring.algorithm)]
+    return ring
+  }
+
+  get currentKey(): SigningKey {
+    return this.keys[0]!
+  }
+
+  // Every key that may still have signed unexpired tokens, newest first
+  get verificationKeys(): SigningKey[] {
+    return [...this.keys]
+  }
+
+  sign(payload: object): string {
+    const key = this.currentKey
+    return jwt.sign(payload, key.privateKey, { algorithm: key.algorithm, keyid: key.kid })
+  }
+
+  /**
+   * Verify a token against the key named by its kid header. Throws like
+   * jwt.verify when the signature, key or claims are invalid.
+   */
+  verify(token: string, options: jwt.VerifyOptions = {}): jwt.JwtPayload {
+    const header = jwt.decode(token, { complete: true })?.header
+    if (header?.alg === "HS256" && this.options.legacySecret) {
+      return jwt.verify(token, this.options.legacySecret, { ...options, algorithms: ["HS256"] }) as jwt.JwtPayload
+    }
+    const key = this.keys.find((candidate) => candidate.kid === header?.kid)
+    if (!key) {
+      throw new jwt.JsonWebTokenError("Unknown signing key")
+    }
+    const decoded = jwt.verify(token, key.publicKey, { ...options, algorithms: [key.algorithm] })
+    if (typeof decoded === "string") {
+      throw new jwt.JsonWebTokenError("Token payload is not a JSON object")
+    }
+    return decoded
+  }
+
+  jwks(): { keys: object[] } {
+    return {
+      keys: this.keys.map((key) => ({
+        ...key.publicKey.export({ format: "jwk" }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: "sig",
+      })),
+    }
+  }
+
+  // Start a new key and retire the current one, dropping keys retired longer ago than the retention
+  async rotate(): Promise<SigningKey> {
+    const now = Date.now()
+    const next = generateSigningKey(this.algorithm)
+    this.keys = [next, ...this.keys.map((key) => ({ ...key, retiredAt: key.retiredAt ?? now }))].filter(
+      (key) => !key.retiredAt || now - key.retiredAt < this.options.retention,
+    )
+    if (this.options.directory) {
+      await saveKeys(path.join(this.options.directory, KEYS_FILE), this.keys)
+    }
+    return next
+  }
+
+  async rotateIfDue(): Promise<boolean> {
+    const current = this.keys[0]
+    if (current && current.algorithm === this.algorithm && Date.now() - current.createdAt < this.rotationInterval) {
+      return false
+    }
+    await this.rotate()
+    return true
+  }
+
+  // Check for a due rotation periodically; the timer does not keep the process alive
+  startRotation(checkInterval = 60 * 60 * 1000): void {
+    this.stopRotation()
+    this.rotationTimer = setInterval(() => {
+      this.rotateIfDue()
+        .then((rotated) => {
+          if (rotated) console.error(`🔑 Rotated JWT signing key; now signing with ${this.currentKey.kid}`)
+        })
+        .catch((error: unknown) => {
+          console.error("Error rotating JWT signing key:", error)
+        })
+    }, checkInterval)
+    this.rotationTimer.unref()
+  }
+
+  stopRotation(): void {
+    if (this.rotationTimer) {
+      clearInterval(this.rotationTimer)
+      this.rotationTimer = undefined
+    }
+  }
+}
+
+async function loadKeys(file: string): Promise<SigningKey[]> {
+  let stored: StoredKey[]
+  try {
+    stored = (JSON.parse(await fs.readFile(file, "utf-8")) as { keys: StoredKey[] }).keys
+  } catch (error) {
+    if ((error as { code?: string }).code === "ENOENT") return []
+    throw new Error(`Cannot read JWT signing keys ${file}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  return stored
+    .map((key) => {
+      if (!(SIGNING_ALGORITHMS as readonly string[]).includes(key.alg)) {
+        throw new Error(`JWT signing key ${key.kid} in ${file} uses unsupported algorithm ${key.alg}`)
+      }
+      const privateKey = createPrivateKey(key.privateKey)
+      return {
+        kid: key.kid,
+        algorithm: key.alg,
+        privateKey,
+        publicKey: createPublicKey(privateKey),
+        createdAt: key.createdAt,
+        retiredAt: key.retiredAt,
+      }
+    })
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+// Private keys are written owner-readable only, through a rename so readers never see a partial file
+async function saveKeys(file: string, keys: SigningKey[]): Promise<void> {
+  const stored: StoredKey[] = keys.map((key) => ({
+    kid: key.kid,
+    alg: key.algorithm,
+    createdAt: key.createdAt,
+    retiredAt: key.retiredAt,
+    privateKey: key.privateKey.export({ format: "pem", type: "pkcs8" }) as string,
+  }))
+  await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 })
+  const temporary = `${file}.${process.pid}.tmp`
+  await fs.writeFile(temporary, JSON.stringify({ keys: stored }, null, 2), { mode: 0o600 })
+  await fs.rename(temporary, file)
+}
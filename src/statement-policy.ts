@@ -0,0 +1,184 @@
+import { Token, codeTokens, keywordTokens, splitStatements } from "./cypher-lexer.js"
+
+export const STATEMENT_CLASSES = [
+  "read",
+  "write",
+  "ddl",
+  "copy-from",
+  "copy-to",
+  "load",
+  "attach",
+  "extension",
+  "call-write",
+  "export",
+  "import",
+  "transaction",
+] as const
+
+export type StatementClass = (typeof STATEMENT_CLASSES)[number]
+
+export interface ClassifiedStatement {
+  statement: string
+  // A statement can fall in several classes, e.g. LOAD FROM ... CREATE is load and write
+  classes: StatementClass[]
+}
+
+export interface StatementPolicy {
+  // Only these classes may run; null allows every class not denied
+  allow: StatementClass[] | null
+  deny: StatementClass[]
+}
+
+// Classes that change the database, denied in read-only mode and run under the write lock
+export const MODIFYING_CLASSES: StatementClass[] = ["write", "ddl", "copy-from", "import", "call-write"]
+
+const WRITE_CLAUSES = new Set(["CREATE", "MERGE", "DELETE", "SET", "REMOVE"])
+const SCHEMA_OBJECTS = new Set(["TABLE", "NODE", "REL", "RELATIONSHIP", "SEQUENCE", "MACRO", "GRAPH", "TYPE"])
+
+// Procedures that change the database or the connection rather than only reading
+const SIDE_EFFECT_PROCEDURES = new Set([
+  "create_fts_index",
+  "drop_fts_index",
+  "create_vector_index",
+  "drop_vector_index",
+  "project_graph",
+  "drop_projected_graph",
+  "clear_warnings",
+])
+
+// Statements whose first keyword decides their class
+const LEADING_CLASSES: Record<string, StatementClass> = {
+  ALTER: "ddl",
+  COMMENT: "ddl",
+  ATTACH: "attach",
+  DETACH: "attach",
+  USE: "attach",
+  INSTALL: "extension",
+  UNINSTALL: "extension",
+  EXPORT: "export",
+  IMPORT: "import",
+  BEGIN: "transaction",
+  COMMIT: "transaction",
+  ROLLBACK: "transaction",
+  CHECKPOINT: "transaction",
+}
+
+export class StatementNotAllowedError extends Error {
+  constructor(
+    public readonly statement: string,
+    public readonly statementClass: StatementClass,
+    public readonly readOnly: boolean,
+  ) {
+    super(
+      readOnly && MODIFYING_CLASSES.includes(statementClass)
+        ? `Cannot execute ${statementClass} statements in read-only mode`
+        : `${statementClass} statements are not allowed on this server`,
+    )
+    this.name = "StatementNotAllowedError"
+  }
+}
+
+const upper = (token: Token | undefined): string => (token?.type === "word" ? token.text.toUpperCase() : "")
+
+// COPY (query) TO 'file' exports; COPY Table FROM 'file' imports
+function copyDirection(tokens: Token[]): StatementClass {
+  let depth = 0
+  for (const token of tokens) {
+    if (token.text === "(") depth++
+    else if (token.text === ")") depth--
+    else if (depth === 0 && upper(token) === "TO") return "copy-to"
+  }
+  return "copy-from"
+}
+
+function callClass(tokens: Token[], at: number): StatementClass | null {
+  // CALL threads = 4 changes a connection setting
+  if (tokens[at + 2]?.text === "=") return "call-write"
+  const procedure = tokens[at + 1]?.text.toLowerCase() ?? ""
+  return SIDE_EFFECT_PROCEDURES.has(procedure) ? "call-write" : null
+}
+
+/**
+ * Classify one statement from its tokens. Keywords inside strings, comments,
+ * property names and labels are not read as clauses.
+ */
+export function classifyStatement(statement: string): StatementClass[] {
+  const tokens = codeTokens(statement)
+  const first = upper(tokens[0])
+  const second = upper(tokens[1])
+
+  if ((first === "CREATE" || first === "DROP") && SCHEMA_OBJECTS.has(second)) return ["ddl"]
+  if (first === "COPY") return [copyDirection(tokens)]
+  if (first === "LOAD" && second !== "FROM" && second !== "WITH") return ["extension"]
+  const leading = LEADING_CLASSES[first]
+  if (leading) return [leading]
+
+  const classes = new Set<StatementClass>()
+  const keywords = keywordTokens(statement)
+  keywords.forEach((token, i) => {
+    const keyword = upper(token)
+    if (WRITE_CLAUSES.has(keyword)) {
+      classes.add("write")
+    } else if (keyword === "LOAD" && ["FROM", "WITH"].includes(upper(keywords[i + 1]))) {
+      classes.add("load")
+    } else if (keyword === "CALL") {
+      const call = callClass(
+        tokens,
+        tokens.findIndex((t) => t.start === token.start),
+      )
+      if (call) classes.add(call)
+    }
+  })
+  return classes.size > 0 ? [...classes] : ["read"]
+}
+
+export function classifyQuery(cypher: string): ClassifiedStatement[] {
+  return splitStatements(cypher).map((statement) => ({ statement, classes: classifyStatement(statement) }))
+}
+
+export function modifiesDatabase(statements: ClassifiedStatement[]): boolean {
+  return statements.some(({ classes }) => classes.some((cls) => MODIFYING_CLASSES.includes(cls)))
+}
+
+function parseClassList(value: string | undefined, variable: string): StatementClass[] {
+  if (!value) return []
+  return value
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0)
+    .map((name) => {
+      if (!(STATEMENT_CLASSES as readonly string[]).includes(name)) {
+        throw new Error(
+          `Unknown statement class "${name}" in ${variable}; expected one of ${STATEMENT_CLASSES.join(", ")}`,
+        )
+      }
+      return name as StatementClass
+    })
+}
+
+/**
+ * The policy for the current deployment: read-only mode denies the modifying
+ * classes, and KUZU_ALLOW_STATEMENTS / KUZU_DENY_STATEMENTS narrow it further
+ */
+export function resolveStatementPolicy(readOnly: boolean): StatementPolicy {
+  const allow = parseClassList(process.env.KUZU_ALLOW_STATEMENTS, "KUZU_ALLOW_STATEMENTS")
+  const deny = parseClassList(process.env.KUZU_DENY_STATEMENTS, "KUZU_DENY_STATEMENTS")
+  return {
+    allow: allow.length > 0 ? allow : null,
+    deny: [...new Set([...(readOnly ? MODIFYING_CLASSES : []), ...deny])],
+  }
+}
+
+// Throw StatementNotAllowedError for the first statement in a class the policy rejects
+export function checkStatementPolicy(
+  statements: ClassifiedStatement[],
+  policy: StatementPolicy,
+  readOnly = false,
+): void {
+  for (const { statement, classes } of statements) {
+    const rejected = classes.find((cls) => policy.deny.includes(cls) || (policy.allow && !policy.allow.includes(cls)))
+    if (rejected) {
+      throw new StatementNotAllowedError(statement, rejected, readOnly)
+    }
+  }
+}
@@ -0,0 +1,344 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import { createReadStream, createWriteStream } from "fs"
+import { Readable, Writable } from "stream"
+import { pipeline } from "stream/promises"
+import { createGzip, createGunzip } from "zlib"
+
+// ustar: 512-byte headers, contents padded to whole blocks, two zero blocks at the end
+const BLOCK_SIZE = 512
+const NAME_LENGTH = 100
+const PREFIX_LENGTH = 155
+
+export interface TarEntry {
+  // Path inside the archive, with forward slashes
+  name: string
+  size: number
+  // Streamed into the archive when its turn comes, so large files are never held in memory
+  open: () => Readable
+  mtime?: Date
+}
+
+export class TarFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TarFormatError"
+  }
+}
+
+export class StreamTooLargeError extends Error {
+  constructor(public readonly maxBytes: number) {
+    super(`Stream is larger than ${maxBytes} bytes`)
+    this.name = "StreamTooLargeError"
+  }
+}
+
+function writeString(block: Buffer, value: string, offset: number, length: number): void {
+  block.write(value, offset, Math.min(Buffer.byteLength(value), length), "utf-8")
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  writeString(block, value.toString(8).padStart(length - 1, "0") + "\0", offset, length)
+}
+
+// Long names go in the ustar prefix field, split at a slash
+function splitName(name: string): [string, string] {
+  if (Buffer.byteLength(name) <= NAME_LENGTH) return [name, ""]
+  for (let i = name.indexOf("/"); i !== -1; i = name.indexOf("/", i + 1)) {
+    const prefix = name.slice(0, i)
+    const rest = name.slice(i + 1)
+    if (Buffer.byteLength(prefix) <= PREFIX_LENGTH && Buffer.byteLength(rest) <= NAME_LENGTH) {
+      return [rest, prefix]
+    }
+  }
+  throw new TarFormatError(`Path too long for a tar archive: ${name}`)
+}
+
+function header(entry: TarEntry): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE)
+  const [name, prefix] = splitName(entry.name)
+  writeString(block, name, 0, NAME_LENGTH)
+  writeOctal(block, 0o644, 100, 8)
+  writeOctal(block, 0, 108, 8)
+  writeOctal(block, 0, 116, 8)
+  writeOctal(block, entry.size, 124, 12)
+  writeOctal(block, Math.floor((entry.mtime ?? new Date()).getTime() / 1000), 136, 12)
+  block.fill(" ", 148, 156) // checksum counts as spaces while it is computed
+  block.write("0", 156) // regular file
+  block.write("ustar\0" + "00", 257)
+  writeString(block, prefix, 345, PREFIX_LENGTH)
+  const checksum = block.reduce((sum, byte) => sum + byte, 0)
+  writeString(block, checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8)
+  return block
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE)
+}
+
+async function* tarBlocks(entries: Iterable<TarEntry> | AsyncIterable<TarEntry>): AsyncGenerator<Buffer> {
+  for await (const entry of entries) {
+    yield header(entry)
+    let written = 0
+    for await (const chunk of entry.open()) {
+      written += (chunk as Buffer).length
+      yield chunk as Buffer
+    }
+    if (written !== entry.size) {
+      throw new TarFormatError(`${entry.name} changed while it was archived (${entry.size} -> ${written} bytes)`)
+    }
+    yield padding(entry.size)
+  }
+  yield Buffer.alloc(BLOCK_SIZE * 2)
+}
+
+// A gzipped tar stream of the entries, produced as it is read
+export function packEntries(entries: Iterable<TarEntry> | AsyncIterable<TarEntry>): Readable {
+  const gzip = createGzip()
+  pipeline(Readable.from(tarBlocks(entries)), gzip).catch((error: unknown) => {
+    gzip.destroy(error as Error)
+  })
+  return gzip
+}
+
+// Regular files under a directory, as entries named relative to it
+export async function directoryEntries(directory: string): Promise<TarEntry[]> {
+  const entries: TarEntry[] = []
+  const walk = async (relative: string): Promise<void> => {
+    const children = await fs.readdir(path.join(directory, relative), { withFileTypes: true })
+    for (const child of children.sort((a, b) => a.name.localeCompare(b.name))) {
+      const childPath = path.join(relative, child.name)
+      if (child.isDirectory()) {
+        await walk(childPath)
+      } else if (child.isFile()) {
+        const file = path.join(directory, childPath)
+        const stats = await fs.stat(file)
+        entries.push({
+          name: childPath.split(path.sep).join("/"),
+          size: stats.size,
+          mtime: stats.mtime,
+          open: () => createReadStream(file),
+        })
+      }
+    }
+  }
+  await walk("")
+  return entries
+}
+
+export async function packDirectory(directory: string): Promise<Readable> {
+  return packEntries(await directoryEntries(directory))
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8")
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const text = readString(block, offset, length).trim()
+  const value = text ? parseInt(text, 8) : 0
+  if (Number.isNaN(value)) {
+    throw new TarFormatError("Corrupt tar header")
+  }
+  return value
+}
+
+// Resolve an archive path inside the destination, refusing anything that would escape it
+export function safeEntryPath(destination: string, name: string): string {
+  const normalized = path.posix.normalize(name.replace(/\\/g, "/"))
+  if (path.posix.isAbsolute(normalized) || normalized === ".." || normalized.startsWith("../")) {
+    throw new TarFormatError(`Refusing archive entry outside the destination: ${name}`)
+  }
+  return path.join(destination, ...normalized.split("/"))
+}
+
+/**
+ * Pull-based reader over a byte stream, so entry contents can be written to
+ * disk as they arrive
+ */
+class ByteReader {
+  private buffered: Buffer[] = []
+  private length = 0
+  private readonly iterator: AsyncIterator<Buffer>
+
+  constructor(source: AsyncIterable<Buffer>) {
+    this.iterator = source[Symbol.asyncIterator]()
+  }
+
+  // Up to `max` bytes, or null at the end of the stream
+  async read(max: number): Promise<Buffer | null> {
+    if (this.length === 0) {
+      const next = await this.iterator.next()
+      if (next.done) return null
+      this.buffered.push(next.value)
+      this.length += next.value.length
+    }
+    const first = this.buffered[0]!
+    const chunk = first.length <= max ? first : first.subarray(0, max)
+    if (chunk === first) this.buffered.shift()
+    else this.buffered[0] = first.subarray(max)
+    this.length -= chunk.length
+    return chunk
+  }
+
+  async readExactly(size: number): Promise<Buffer | null> {
+    const parts: Buffer[] = []
+    let remaining = size
+    while (remaining > 0) {
+      const chunk = await this.read(remaining)
+      if (!chunk) return parts.length === 0 ? null : Buffer.concat(parts)
+      parts.push(chunk)
+      remaining -= chunk.length
+    }
+    return Buffer.concat(parts)
+  }
+}
+
+export interface TarReadEntry {
+  name: string
+  size: number
+  type: "file" | "directory"
+  // The entry's bytes; whatever the handler leaves unread is skipped
+  contents: Readable
+}
+
+/**
+ * Read a gzipped tar stream entry by entry. Only regular files and
+ * directories are passed to the handler; links and device entries are
+ * refused. Each entry is handled before the next is read.
+ */
+export async function readTarGz(source: Readable, handler: (entry: TarReadEntry) => Promise<void>): Promise<void> {
+  const gunzip = createGunzip()
+  source.on("error", (error) => gunzip.destroy(error))
+  const reader = new ByteReader(source.pipe(gunzip) as AsyncIterable<Buffer>)
+  let longName: string | null = null
+
+  for (;;) {
+    const block = await reader.readExactly(BLOCK_SIZE)
+    if (!block || block.every((byte) => byte === 0)) break
+    if (block.length < BLOCK_SIZE) throw new TarFormatError("Truncated tar archive")
+
+    const stored = readOctal(block, 148, 8)
+    block.fill(" ", 148, 156)
+    if (block.reduce((sum, byte) => sum + byte, 0) !== stored) {
+      throw new TarFormatError("Tar header checksum mismatch")
+    }
+
+    const size = readOctal(block, 124, 12)
+    const type = String.fromCharCode(block[156]!)
+    const prefix = readString(block, 345, PREFIX_LENGTH)
+    const name = longName ?? (prefix ? `${prefix}/` : "") + readString(block, 0, NAME_LENGTH)
+    longName = null
+
+    const contents = new ContentStream(reader, size)
+    if (type === "L" || type === "x") {
+      // GNU long name, or a pax header whose path record replaces the name
+      const data = (await contents.collect()).toString("utf-8")
+      longName = type === "L" ? data.replace(/\0+$/, "") : (/(?:^|\n)\d+ path=([^\n]*)\n/.exec(data)?.[1] ?? null)
+    } else if (type === "5") {
+      await handler({ name, size, type: "directory", contents: contents.readable() })
+    } else if (type === "0" || type === "\0" || type === "7") {
+      await handler({ name, size, type: "file", contents: contents.readable() })
+    } else if (type !== "g") {
+      throw new TarFormatError(`Unsupported tar entry type "${type}" for ${name}`)
+    }
+    await contents.drain()
+    await reader.readExactly(padding(size).length)
+  }
+  // Consume the rest so the gzip trailer is checked
+  while (await reader.read(BLOCK_SIZE * 16)) {
+    // trailing zero blocks
+  }
+}
+
+/**
+ * Extract a gzipped tar stream into a directory, refusing entries that would
+ * land outside it. Returns the extracted file names.
+ */
+export async function extractTarGz(source: Readable, destination: string): Promise<string[]> {
+  const names: string[] = []
+  await fs.mkdir(destination, { recursive: true })
+  await readTarGz(source, async (entry) => {
+    const target = safeEntryPath(destination, entry.name)
+    if (entry.type === "directory") {
+      await fs.mkdir(target, { recursive: true })
+      return
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    await pipeline(entry.contents, createWriteStream(target))
+    names.push(entry.name)
+  })
+  return names
+}
+
+// The `size` bytes of one entry's contents
+class ContentStream {
+  private remaining: number
+  // The read in flight, so drain never interleaves with a consumer's read
+  private pending: Promise<Buffer | null> = Promise.resolve(null)
+  private drained = false
+
+  constructor(
+    private readonly reader: ByteReader,
+    size: number,
+  ) {
+    this.remaining = size
+  }
+
+  private next(): Promise<Buffer | null> {
+    this.pending = this.pending.then(async () => {
+      if (this.remaining === 0) return null
+      const chunk = await this.reader.read(this.remaining)
+      if (!chunk) throw new TarFormatError("Truncated tar archive")
+      this.remaining -= chunk.length
+      return chunk
+    })
+    return this.pending
+  }
+
+  readable(): Readable {
+    const next = (): Promise<Buffer | null> => (this.drained ? Promise.resolve(null) : this.next())
+    return Readable.from(
+      (async function* () {
+        for (let chunk = await next(); chunk; chunk = await next()) yield chunk
+      })(),
+    )
+  }
+
+  async collect(): Promise<Buffer> {
+    const chunks: Buffer[] = []
+    for await (const chunk of this.readable()) chunks.push(chunk as Buffer)
+    return Buffer.concat(chunks)
+  }
+
+  // Skip whatever a consumer left unread; its stream ends early if read later
+  async drain(): Promise<void> {
+    this.drained = true
+    await this.pending.catch(() => null)
+    while (this.remaining > 0) await this.next()
+  }
+}
+
+// Collect a stream into memory; for small archives and tests. Past maxBytes the
+// source is destroyed and StreamTooLargeError thrown, so memory stays bounded.
+export async function streamToBuffer(stream: Readable, maxBytes = Infinity): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  let size = 0
+  await pipeline(
+    stream,
+    new Writable({
+      write(chunk: Buffer, _encoding, callback): void {
+        size += chunk.length
+        if (size > maxBytes) {
+          callback(new StreamTooLargeError(maxBytes))
+          return
+        }
+        chunks.push(chunk)
+        callback()
+      },
+    }),
+  )
+  return Buffer.concat(chunks)
+}
@@ -0,0 +1,257 @@
+import * as kuzu from "kuzu"
+import { randomBytes } from "crypto"
+import { LockManager, WriteGate, WriteLock } from "./lock-manager.js"
+
+export interface ActiveTransaction {
+  id: string
+  owner: string
+  conn: kuzu.Connection
+  readOnly: boolean
+  startedAt: number
+  lastActivity: number
+  statementsExecuted: number
+  lock: WriteLock | null
+  busy: boolean
+  // Set when the transaction ran DDL, which other connections see on commit
+  schemaChanged: boolean
+}
+
+export class TransactionNotFoundError extends Error {
+  constructor(transactionId: string) {
+    super(`Transaction ${transactionId} does not exist, has already ended, or was rolled back after being idle`)
+    this.name = "TransactionNotFoundError"
+  }
+}
+
+export class TransactionBusyError extends Error {
+  constructor(transactionId: string) {
+    super(`Transaction ${transactionId} is still running a statement; wait for it to finish before sending another`)
+    this.name = "TransactionBusyError"
+  }
+}
+
+export const DEFAULT_TRANSACTION_TIMEOUT = 60 * 1000 // 1 minute of inactivity
+
+async function closeConnection(conn: kuzu.Connection): Promise<void> {
+  try {
+    await conn.close()
+  } catch (error) {
+    console.error("Error closing transaction connection:", error)
+  }
+}
+
+/**
+ * Explicit transactions spanning several MCP tool calls. Each transaction runs
+ * on its own connection so statements from other calls are not pulled into it,
+ * and holds the multi-agent write lock from its first write until it ends.
+ */
+export class TransactionManager {
+  private readonly transactions = new Map<string, ActiveTransaction>()
+  private readonly lockManager: LockManager | null
+  private readonly writeGate: WriteGate
+  private readonly idleTimeout: number
+  private readonly cleanupInterval: number
+  private cleanupTimer?: ReturnType<typeof setInterval>
+
+  constructor(
+    lockManager: LockManager | null,
+    idleTimeout: number = DEFAULT_TRANSACTION_TIMEOUT,
+    cleanupInterval: number = 10000,
+    writeGate: WriteGate = new WriteGate(),
+  ) {
+    this.lockManager = lockManager
+    this.writeGate = writeGate
+    this.idleTimeout = idleTimeout
+    this.cleanupInterval = cleanupInterval
+  }
+
+  get size(): number {
+    return this.transactions.size
+  }
+
+  get timeout(): number {
+    return this.idleTimeout
+  }
+
+  async begin(db: kuzu.Database, owner: string, readOnly = false): Promise<ActiveTransaction> {
+    const conn = new kuzu.Connection(db)
+    try {
+      const result = await conn.query(readOnly ? "BEGIN TRANSACTION READ ONLY;" : "BEGIN TRANSACTION;")
+      result.close()
+    } catch (error) {
+      await closeConnection(conn)
+      throw error
+    }
+
+    const transaction: ActiveTransaction = {
+      id: randomBytes(16).toString("hex"),
+      owner,
+      conn,
+      readOnly,
+      startedAt: Date.now(),
+      lastActivity: Date.now(),
+      statementsExecuted: 0,
+      lock: null,
+      busy: false,
+      schemaChanged: false,
+    }
+    this.transactions.set(transaction.id, transaction)
+    this.startCleanup()
+
+    console.error(`🔓 Transaction ${transaction.id} started for ${owner}${readOnly ? " (read-only)" : ""}`)
+    return transaction
+  }
+
+  isActive(transactionId: string): boolean {
+    return this.transactions.has(transactionId)
+  }
+
+  // Look up a transaction, refusing access from anyone but the session that began it
+  get(transactionId: string, owner: string): ActiveTransaction {
+    const transaction = this.transactions.get(transactionId)
+    if (!transaction || transaction.owner !== owner) {
+      throw new TransactionNotFoundError(transactionId)
+    }
+    return transaction
+  }
+
+  /**
+   * Run work on the transaction's connection. Writes take the write lock on
+   * first use and keep it until commit or rollback, and wait while a backup
+   * holds the write gate. If the work fails, Kuzu has
+   * already rolled the transaction back, so it is ended here as well. A
+   * connection runs one statement at a time, so overlapping calls are refused.
+   */
+  async run<T>(
+    transaction: ActiveTransaction,
+    isWrite: boolean,
+    work: (conn: kuzu.Connection) => Promise<T>,
+  ): Promise<T> {
+    if (transaction.busy) {
+      throw new TransactionBusyError(transaction.id)
+    }
+    transaction.busy = true
+    transaction.lastActivity = Date.now()
+    const execute = async (): Promise<T> => {
+      if (isWrite && this.lockManager) {
+        if (transaction.lock) {
+          await this.lockManager.renewLock(transaction.lock)
+        } else {
+          transaction.lock = await this.lockManager.acquireWriteLock(this.idleTimeout)
+        }
+      }
+
+      let result: T
+      try {
+        result = await work(transaction.conn)
+      } catch (error) {
+        console.error(`Statement failed inside transaction ${transaction.id}, transaction was rolled back`)
+        await this.end(transaction)
+        throw error
+      }
+      transaction.statementsExecuted++
+      return result
+    }
+    try {
+      return await (isWrite ? this.writeGate.write(execute) : execute())
+    } finally {
+      transaction.busy = false
+      transaction.lastActivity = Date.now()
+    }
+  }
+
+  async commit(transactionId: string, owner: string): Promise<ActiveTransaction> {
+    // Committed changes reach the database files, so a commit waits out a backup like any write
+    if (this.get(transactionId, owner).readOnly) {
+      return this.finish(this.idle(transactionId, owner), "COMMIT;")
+    }
+    return this.writeGate.write(() => this.finish(this.idle(transactionId, owner), "COMMIT;"))
+  }
+
+  async rollback(transactionId: string, owner: string): Promise<ActiveTransaction> {
+    return this.finish(this.idle(transactionId, owner), "ROLLBACK;")
+  }
+
+  // Roll back transactions that have been idle longer than the timeout
+  async rollbackExpired(): Promise<number> {
+    const now = Date.now()
+    let rolledBack = 0
+    for (const transaction of Array.from(this.transactions.values())) {
+      if (!transaction.busy && now - transaction.lastActivity > this.idleTimeout) {
+        console.error(`⏰ Rolling back transaction ${transaction.id} after ${now - transaction.lastActivity}ms idle`)
+        try {
+          await this.finish(transaction, "ROLLBACK;")
+        } catch (error) {
+          console.error(`Error rolling back idle transaction ${transaction.id}:`, error)
+        }
+        rolledBack++
+      }
+    }
+    return rolledBack
+  }
+
+  // Roll back every open transaction, e.g. on shutdown or before a reconnect
+  async rollbackAll(): Promise<void> {
+    for (const transaction of Array.from(this.transactions.values())) {
+      try {
+        await this.finish(transaction, "ROLLBACK;")
+      } catch (error) {
+        console.error(`Error rolling back transaction ${transaction.id}:`, error)
+      }
+    }
+  }
+
+  // Ending a transaction mid-statement would run COMMIT or ROLLBACK on a connection still in use
+  private idle(transactionId: string, owner: string): ActiveTransaction {
+    const transaction = this.get(transactionId, owner)
+    if (transaction.busy) {
+      throw new TransactionBusyError(transactionId)
+    }
+    return transaction
+  }
+
+  private async finish(transaction: ActiveTransaction, statement: "COMMIT;" | "ROLLBACK;"): Promise<ActiveTransaction> {
+    try {
+      const result = await transaction.conn.query(statement)
+      result.close()
+      console.error(`🔒 Transaction ${transaction.id} ${statement === "COMMIT;" ? "committed" : "rolled back"}`)
+    } finally {
+      // A failed COMMIT is rolled back by Kuzu, so the transaction is over either way
+      await this.end(transaction)
+    }
+    return transaction
+  }
+
+  private async end(transaction: ActiveTransaction): Promise<void> {
+    this.transactions.delete(transaction.id)
+    if (transaction.lock && this.lockManager) {
+      try {
+        await this.lockManager.releaseLock(transaction.lock)
+      } catch (releaseError) {
+        console.error("Error releasing lock:", releaseError)
+      }
+      transaction.lock = null
+    }
+    await closeConnection(transaction.conn)
+    if (this.transactions.size === 0) {
+      this.stopCleanup()
+    }
+  }
+
+  private startCleanup(): void {
+    if (this.cleanupTimer) {
+      return
+    }
+    this.cleanupTimer = setInterval(() => {
+      void this.rollbackExpired()
+    }, this.cleanupInterval)
+    this.cleanupTimer.unref()
+  }
+
+  private stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = undefined
+    }
+  }
+}
@@ -1,15 +1,32 @@
 declare module "kuzu" {
   export class Database {
     constructor(dbPath: string, bufferPoolSize?: number, enableCompression?: boolean, readOnly?: boolean)
+    static getVersion(): string
+    static getStorageVersion(): number
+    close(): Promise<void>
   }
 
   export class Connection {
     constructor(database: Database)
     query(cypher: string): Promise<QueryResult>
+    prepare(cypher: string): Promise<PreparedStatement>
+    execute(preparedStatement: PreparedStatement, params?: Record<string, unknown>): Promise<QueryResult>
+    setQueryTimeout(timeoutInMs: number): void
+    close(): Promise<void>
+  }
+
+  export class PreparedStatement {
+    isSuccess(): boolean
+    getErrorMessage(): string
   }
 
   export class QueryResult {
     getAll(): Promise<Record<string, unknown>[]>
+    hasNext(): boolean
+    getNext(): Promise<Record<string, unknown> | null>
+    getNumTuples(): number
+    getColumnNames(): Promise<string[]>
+    getColumnDataTypes(): Promise<string[]>
     close(): void
   }
 }
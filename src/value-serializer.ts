@@ -0,0 +1,295 @@
+/**
+ * JSON shapes for Kuzu values.
+ *
+ * The Node.js binding hands back plain objects for graph values and JS Dates,
+ * numbers and Buffers for the rest. This module turns them into stable JSON:
+ *
+ * - NODE          { "_type": "node", "id": "0:12", "label": "Person", "properties": { ... } }
+ * - REL           { "_type": "rel", "id": "2:3", "label": "Knows", "src": "0:12", "dst": "0:7", "properties": { ... } }
+ * - RECURSIVE_REL { "_type": "path", "nodes": [node, ...], "rels": [rel, ...], "length": 2 }
+ *                 nodes and rels are in path order; nodes are the intermediate nodes Kuzu reports
+ * - INTERNAL_ID   "table:offset", e.g. "0:12"
+ * - DATE          "2024-01-31"
+ * - TIMESTAMP*    "2024-01-31T12:30:00.000Z" (every timestamp variant, in UTC)
+ * - INTERVAL      ISO-8601 duration such as "P3DT4H5M6.5S" (months count as 30 days)
+ * - INT128        decimal string, since it does not fit a JSON number
+ * - DECIMAL       JSON number
+ * - BLOB          base64 string
+ * - DOUBLE/FLOAT  JSON number; NaN and infinities become "NaN", "Infinity", "-Infinity"
+ * - LIST/ARRAY    JSON array, MAP/STRUCT/UNION JSON object, each with serialized members
+ *
+ * Column types from Kuzu (e.g. "DATE[]" or "STRUCT(at TIMESTAMP, tags STRING[])")
+ * are used when available; graph values are also recognized by shape, so
+ * untyped rows still serialize the same way.
+ */
+import type { ColumnInfo } from "./cursor-manager.js"
+
+export interface SerializedNode {
+  _type: "node"
+  id: string | null
+  label: string | null
+  properties: Record<string, unknown>
+}
+
+export interface SerializedRel {
+  _type: "rel"
+  id: string | null
+  label: string | null
+  src: string | null
+  dst: string | null
+  properties: Record<string, unknown>
+}
+
+export interface SerializedPath {
+  _type: "path"
+  nodes: unknown[]
+  rels: unknown[]
+  length: number
+}
+
+interface ParsedType {
+  name: string
+  element?: string
+  // STRUCT and UNION fields, or [key, value] for MAP
+  fields?: Array<[string, string]>
+}
+
+const MILLIS_PER_SECOND = 1000
+const MILLIS_PER_MINUTE = 60 * MILLIS_PER_SECOND
+const MILLIS_PER_HOUR = 60 * MILLIS_PER_MINUTE
+const MILLIS_PER_DAY = 24 * MILLIS_PER_HOUR
+
+// Split on commas that are not nested inside parentheses or brackets
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === "(" || char === "[") depth++
+    else if (char === ")" || char === "]") depth--
+    else if (char === "," && depth === 0) {
+      parts.push(text.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+  parts.push(text.slice(start).trim())
+  return parts.filter((part) => part.length > 0)
+}
+
+function parseType(type: string): ParsedType {
+  const trimmed = type.trim()
+
+  // LIST is "T[]" and ARRAY is "T[n]"
+  if (trimmed.endsWith("]")) {
+    const open = trimmed.lastIndexOf("[")
+    return { name: "LIST", element: trimmed.slice(0, open) }
+  }
+
+  const paren = trimmed.indexOf("(")
+  if (paren === -1 || !trimmed.endsWith(")")) {
+    return { name: trimmed.toUpperCase() }
+  }
+
+  const name = trimmed.slice(0, paren).trim().toUpperCase()
+  const args = splitTopLevel(trimmed.slice(paren + 1, -1))
+  if (name === "STRUCT" || name === "UNION") {
+    return {
+      name,
+      fields: args.map((arg): [string, string] => {
+        const space = arg.indexOf(" ")
+        return space === -1 ? [arg, "ANY"] : [arg.slice(0, space), arg.slice(space + 1)]
+      }),
+    }
+  }
+  if (name === "MAP" && args.length === 2) {
+    return { name, fields: [[args[0]!, args[1]!]] }
+  }
+  return { name }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isInternalId(value: unknown): value is { offset: number; table: number } {
+  return (
+    isRecord(value) &&
+    Object.keys(value).length === 2 &&
+    typeof value.offset === "number" &&
+    typeof value.table === "number"
+  )
+}
+
+function isPath(value: Record<string, unknown>): boolean {
+  return Array.isArray(value._nodes) && Array.isArray(value._rels)
+}
+
+function isRel(value: Record<string, unknown>): boolean {
+  return "_src" in value && "_dst" in value && "_label" in value
+}
+
+function isNode(value: Record<string, unknown>): boolean {
+  return "_label" in value && "_id" in value && !("_src" in value)
+}
+
+function formatInternalId(value: unknown): string | null {
+  return isInternalId(value) ? `${value.table}:${value.offset}` : null
+}
+
+function propertiesOf(value: Record<string, unknown>): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+  for (const [key, property] of Object.entries(value)) {
+    if (!key.startsWith("_")) {
+      properties[key] = serializeValue(property)
+    }
+  }
+  return properties
+}
+
+export function serializeNode(value: Record<string, unknown>): SerializedNode {
+  return {
+    _type: "node",
+    id: formatInternalId(value._id),
+    label: typeof value._label === "string" ? value._label : null,
+    properties: propertiesOf(value),
+  }
+}
+
+export function serializeRel(value: Record<string, unknown>): SerializedRel {
+  return {
+    _type: "rel",
+    id: formatInternalId(value._id),
+    label: typeof value._label === "string" ? value._label : null,
+    src: formatInternalId(value._src),
+    dst: formatInternalId(value._dst),
+    properties: propertiesOf(value),
+  }
+}
+
+export function serializePath(value: Record<string, unknown>): SerializedPath {
+  const nodes = Array.isArray(value._nodes) ? (value._nodes as unknown[]) : []
+  const rels = Array.isArray(value._rels) ? (value._rels as unknown[]) : []
+  return {
+    _type: "path",
+    nodes: nodes.map((node) => serializeValue(node, "NODE")),
+    rels: rels.map((rel) => serializeValue(rel, "REL")),
+    length: rels.length,
+  }
+}
+
+// Format a millisecond count as an ISO-8601 duration
+export function formatDuration(milliseconds: number): string {
+  const sign = milliseconds < 0 ? "-" : ""
+  let remaining = Math.abs(milliseconds)
+
+  const days = Math.floor(remaining / MILLIS_PER_DAY)
+  remaining -= days * MILLIS_PER_DAY
+  const hours = Math.floor(remaining / MILLIS_PER_HOUR)
+  remaining -= hours * MILLIS_PER_HOUR
+  const minutes = Math.floor(remaining / MILLIS_PER_MINUTE)
+  remaining -= minutes * MILLIS_PER_MINUTE
+  const seconds = remaining / MILLIS_PER_SECOND
+
+  let time = ""
+  if (hours > 0) time += `${hours}H`
+  if (minutes > 0) time += `${minutes}M`
+  if (seconds > 0) time += `${seconds}S`
+
+  if (days === 0 && time === "") {
+    return "PT0S"
+  }
+  return `${sign}P${days > 0 ? `${days}D` : ""}${time ? `T${time}` : ""}`
+}
+
+function serializeDate(value: Date, typeName: string): string | null {
+  if (Number.isNaN(value.getTime())) {
+    return null
+  }
+  const iso = value.toISOString()
+  return typeName === "DATE" ? iso.slice(0, 10) : iso
+}
+
+function serializeNumber(value: number, typeName: string): unknown {
+  if (typeName === "INTERVAL") {
+    return formatDuration(value)
+  }
+  if (!Number.isFinite(value)) {
+    return String(value)
+  }
+  return value
+}
+
+/**
+ * Convert one value returned by the Kuzu binding to its JSON shape. The type
+ * is the Kuzu data type string for the value, when known.
+ */
+export function serializeValue(value: unknown, type?: string): unknown {
+  if (value === null || value === undefined) {
+    return null
+  }
+
+  const parsed = parseType(type ?? "ANY")
+
+  if (typeof value === "bigint") {
+    return value.toString()
+  }
+  if (typeof value === "number") {
+    return serializeNumber(value, parsed.name)
+  }
+  if (value instanceof Date) {
+    return serializeDate(value, parsed.name)
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString("base64")
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => serializeValue(item, parsed.element))
+  }
+  if (!isRecord(value)) {
+    return value
+  }
+
+  if (parsed.name === "RECURSIVE_REL" || isPath(value)) {
+    return serializePath(value)
+  }
+  if (parsed.name === "REL" || isRel(value)) {
+    return serializeRel(value)
+  }
+  if (parsed.name === "NODE" || isNode(value)) {
+    return serializeNode(value)
+  }
+  if (parsed.name === "INTERNAL_ID" || isInternalId(value)) {
+    return formatInternalId(value)
+  }
+
+  // STRUCT, UNION and MAP: use member types when the type string names them
+  const fieldTypes = new Map(parsed.name === "MAP" ? [] : parsed.fields)
+  const mapValueType = parsed.name === "MAP" ? parsed.fields?.[0]?.[1] : undefined
+  const serialized: Record<string, unknown> = {}
+  for (const [key, member] of Object.entries(value)) {
+    serialized[key] = serializeValue(member, mapValueType ?? fieldTypes.get(key))
+  }
+  return serialized
+}
+
+// Serialize every value in a row, using the column types where known
+export function serializeRow(row: Record<string, unknown>, columns?: ColumnInfo[]): Record<string, unknown> {
+  const types = new Map((columns ?? []).map((column) => [column.name, column.type]))
+  const serialized: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(row)) {
+    serialized[key] = serializeValue(value, types.get(key))
+  }
+  return serialized
+}
+
+// JSON.stringify replacer for values that were not serialized up front
+export const valueReplacer = function (this: unknown, key: string, value: unknown): unknown {
+  // JSON.stringify has already called toJSON on Dates and Buffers by the time
+  // the replacer sees them, so read the raw value from the holder
+  const raw = typeof this === "object" && this !== null ? (this as Record<string, unknown>)[key] : value
+  if (raw instanceof Date || raw instanceof Uint8Array || typeof raw === "bigint") {
+    return serializeValue(raw)
+  }
+  return value
+}
@@ -1,12 +1,25 @@
 import express from "express"
 import type { Request, Response, Application } from "express"
 import multer from "multer"
-import * as path from "path"
 import * as fs from "fs/promises"
-import { DatabaseManager } from "./server-core.js"
+import { createReadStream } from "fs"
+import { pipeline } from "stream/promises"
+import { DatabaseManager, replaceDatabase, replacementErrorStatus, withDatabase } from "./server-core.js"
 import { getWebUIHTML } from "./web-ui.js"
-import { createSimpleArchive, restoreSimpleArchive, exportDatabase, getDatabaseInfo } from "./backup-utils.js"
+import { snapshotDatabase } from "./backup-scheduler.js"
+import {
+  backupArchiveName,
+  removeDatabaseFiles,
+  restoreBackup,
+  exportArchiveName,
+  exportDatabaseArchive,
+  getDatabaseInfo,
+  importDatabaseArchive,
+  parseExportFormat,
+  type ExportFormat,
+} from "./backup-utils.js"
 import * as os from "os"
+import * as path from "path"
 
 // Configure multer with increased limits and better handling
 const multerConfig = {
@@ -239,21 +252,29 @@ export function createWebServer(options: WebServerOptions): Application {
   // Download backup endpoint
   app.get("/api/backup", (_req: Request, res: Response) => {
     void (async () => {
+      let directory: string | undefined
       try {
-        // Create a simple archive in memory
-        const archive = await createSimpleArchive(options.databasePath)
-
-        // Set headers for download
-        const filename = `kuzu-backup-${new Date().toISOString().slice(0, 10)}.kuzu`
-        res.setHeader("Content-Type", "application/octet-stream")
-        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`)
-        res.setHeader("Content-Length", archive.length.toString())
-
-        // Send the archive
-        res.send(archive)
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "kuzu-download-"))
+        const backupDir = directory
+        // Copied while writes and restores wait, then sent once they may go on, so a slow client holds up neither
+        const { dbManager } = options
+        const backupPath = await withDatabase(dbManager, () =>
+          snapshotDatabase(dbManager.currentDatabasePath, backupDir, dbManager.lockManager, dbManager.writeGate),
+        )
+        res.setHeader("Content-Type", "application/gzip")
+        res.setHeader("Content-Disposition", `attachment; filename="${backupArchiveName()}"`)
+        await pipeline(createReadStream(backupPath), res)
       } catch (error) {
         console.error("Error creating backup:", error)
-        res.status(500).json({ error: "Failed to create backup" })
+        if (res.headersSent) {
+          res.destroy()
+        } else {
+          res.status(500).json({ error: "Failed to create backup" })
+        }
+      } finally {
+        if (directory) {
+          await fs.rm(directory, { recursive: true, force: true }).catch(() => {})
+        }
       }
     })()
   })
@@ -314,59 +335,30 @@ export function createWebServer(options: WebServerOptions): Application {
         const tempFiles: string[] = []
 
         try {
-          if (backupFile) {
-            // Handle backup archive restore
-            console.log("Restoring from backup archive:", backupFile.originalname)
-            tempFiles.push(backupFile.path)
-
-            // Read the uploaded file
-            const archive = await fs.readFile(backupFile.path)
-
-            // Create a temporary path for restoration
-            const tempPath = path.join(os.tmpdir(), `kuzu-restore-${Date.now()}`)
-
-            // Restore to temporary location first
-            await restoreSimpleArchive(archive, tempPath)
-
-            // Move restored files to actual location
-            const mainData = await fs.readFile(tempPath)
-            await fs.writeFile(options.databasePath, mainData)
-
-            // Check for WAL file
-            try {
-              const walData = await fs.readFile(`${tempPath}.wal`)
-              await fs.writeFile(`${options.databasePath}.wal`, walData)
-            } catch {
-              // WAL file might not exist
-            }
-
-            // Clean up temp files
-            await fs.unlink(tempPath).catch(() => {})
-            await fs.unlink(`${tempPath}.wal`).catch(() => {})
-          } else if (mainFile) {
-            // Handle raw database files
-            console.log("Restoring from raw database files:", mainFile.originalname)
-            tempFiles.push(mainFile.path)
-            if (walFile) {
-              tempFiles.push(walFile.path)
-            }
-
-            // Copy main database file
-            const mainData = await fs.readFile(mainFile.path)
-            await fs.writeFile(options.databasePath, mainData)
-            console.log(`Wrote main database file: ${options.databasePath}`)
-
-            // Copy WAL file if provided
-            if (walFile) {
-              const walData = await fs.readFile(walFile.path)
-              await fs.writeFile(`${options.databasePath}.wal`, walData)
-              console.log(`Wrote WAL file: ${options.databasePath}.wal`)
-            } else {
-              // Try to remove existing WAL file if no new one provided
-              await fs.unlink(`${options.databasePath}.wal`).catch(() => {
-                console.log("No existing WAL file to remove")
-              })
+          // Restore next to the database, then swap it in; the swap reopens and validates it
+          const staged = `${options.dbManager.currentDatabasePath}.restore-${Date.now()}`
+          try {
+            if (backupFile) {
+              // Handle backup archive restore
+              console.log("Restoring from backup archive:", backupFile.originalname)
+              tempFiles.push(backupFile.path)
+              await restoreBackup(backupFile.path, staged)
+            } else if (mainFile) {
+              // Handle raw database files
+              console.log("Restoring from raw database files:", mainFile.originalname)
+              tempFiles.push(mainFile.path)
+              if (walFile) {
+                tempFiles.push(walFile.path)
+              }
+              await fs.copyFile(mainFile.path, staged)
+              if (walFile) {
+                await fs.copyFile(walFile.path, `${staged}.wal`)
+              }
             }
+            await replaceDatabase(options.dbManager, staged)
+          } catch (error) {
+            await removeDatabaseFiles(staged)
+            throw error
           }
 
           // Clean up all temp files
@@ -374,10 +366,7 @@ export function createWebServer(options: WebServerOptions): Application {
             await fs.unlink(tempFile).catch(() => {})
           }
 
-          res.json({
-            success: true,
-            message: "Database restored successfully. You may need to restart the server for changes to take effect.",
-          })
+          res.json({ success: true, message: "Database restored successfully" })
         } catch (error) {
           console.error("Error restoring database:", error)
 
@@ -386,77 +375,70 @@ export function createWebServer(options: WebServerOptions): Application {
             await fs.unlink(tempFile).catch(() => {})
           }
 
-          res.status(500).json({ error: "Failed to restore database: " + (error as Error).message })
+          res
+            .status(replacementErrorStatus(error))
+            .json({ error: "Failed to restore database: " + (error as Error).message })
         }
       })()
     })
   })
 
-  // Export database using Kuzu's EXPORT DATABASE
-  app.get("/api/export", (_req: Request, res: Response) => {
+  // Export database using Kuzu's EXPORT DATABASE, streamed as a tar.gz
+  app.get("/api/export", (req: Request, res: Response) => {
     void (async () => {
+      let format: ExportFormat
       try {
-        const exportDir = path.join(os.tmpdir(), `kuzu-export-${Date.now()}`)
-
-        // Export database
-        await exportDatabase(options.dbManager.conn, exportDir)
-
-        // TODO: Create a ZIP of the exported files
-        // For now, we'll just return a message
-        res.json({
-          success: true,
-          message: "Export functionality coming soon. Use EXPORT DATABASE command directly for now.",
-          exportPath: exportDir,
-        })
+        format = parseExportFormat(req.query.format)
+      } catch (error) {
+        res.status(400).json({ error: (error as Error).message })
+        return
+      }
 
-        // Clean up export directory after some time
-        setTimeout(() => {
-          void (async () => {
-            try {
-              await fs.rm(exportDir, { recursive: true, force: true })
-            } catch {
-              // Ignore cleanup errors
-            }
-          })()
-        }, 60000) // Clean up after 1 minute
+      try {
+        const archive = await withDatabase(options.dbManager, () =>
+          exportDatabaseArchive(options.dbManager.conn, format),
+        )
+        res.setHeader("Content-Type", "application/gzip")
+        res.setHeader("Content-Disposition", `attachment; filename="${exportArchiveName(format)}"`)
+        await pipeline(archive, res)
       } catch (error) {
         console.error("Error exporting database:", error)
-        res.status(500).json({ error: "Failed to export database: " + (error as Error).message })
+        if (res.headersSent) {
+          res.destroy()
+        } else {
+          res.status(500).json({ error: "Failed to export database: " + (error as Error).message })
+        }
       }
     })()
   })
 
-  // Import database using Kuzu's IMPORT DATABASE
+  // Import a tar.gz of EXPORT DATABASE output into a fresh database and swap it in
   app.post("/api/import", upload.single("export"), (req: Request, res: Response) => {
     void (async () => {
+      const file = req.file
       if (options.isReadOnly) {
+        if (file) await fs.unlink(file.path).catch(() => {})
         res.status(403).json({ error: "Database is in read-only mode" })
         return
       }
-
-      const file = req.file
       if (!file) {
         res.status(400).json({ error: "No file uploaded" })
         return
       }
 
+      const staged = `${options.dbManager.currentDatabasePath}.import-${Date.now()}`
       try {
-        // TODO: Extract ZIP file and import
-        // For now, return a message
-        res.json({
-          success: false,
-          message: "Import functionality coming soon. Use IMPORT DATABASE command directly for now.",
-        })
-
-        // Clean up uploaded file
-        await fs.unlink(file.path).catch(() => {})
+        await importDatabaseArchive(createReadStream(file.path), staged)
+        await replaceDatabase(options.dbManager, staged)
+        res.json({ success: true, message: "Database imported successfully" })
       } catch (error) {
+        await removeDatabaseFiles(staged).catch(() => {})
         console.error("Error importing database:", error)
-
-        // Clean up uploaded file
+        res
+          .status(replacementErrorStatus(error))
+          .json({ error: "Failed to import database: " + (error as Error).message })
+      } finally {
         await fs.unlink(file.path).catch(() => {})
-
-        res.status(500).json({ error: "Failed to import database: " + (error as Error).message })
       }
     })()
   })
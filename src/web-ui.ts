@@ -2,6 +2,51 @@ export interface WebUIConfig {
   databasePath: string
   isReadOnly: boolean
   version: string
+  // Sign-in methods of a server that authenticates its API routes; the page
+  // shows a login form and sends the credentials with every API call
+  auth?: {
+    oauth: boolean
+    basic: boolean
+  }
+  // Servers that read request bodies as text take multipart uploads with
+  // base64-encoded parts, of up to this many decoded bytes
+  base64UploadLimit?: number
+}
+
+// Client id and storage key the admin page uses for its own OAuth login
+const ADMIN_CLIENT_ID = "kuzu-admin-ui"
+const AUTH_STORAGE_KEY = "kuzuAdminAuth"
+
+function getLoginCard(auth: NonNullable<WebUIConfig["auth"]>): string {
+  return `
+        <div class="card" id="loginCard">
+            <h2>🔐 Sign In</h2>
+            ${
+              auth.oauth
+                ? `
+            <div class="login-section">
+                <button class="btn btn-primary" onclick="signInWithOAuth()">
+                    <span>🔑</span>
+                    <span>Sign in with OAuth</span>
+                </button>
+            </div>`
+                : ""
+            }
+            ${
+              auth.basic
+                ? `
+            <form class="login-section" onsubmit="signInWithPassword(event)">
+                <input class="text-input" type="text" id="loginUsername" placeholder="Username" autocomplete="username" required>
+                <input class="text-input" type="password" id="loginPassword" placeholder="Password" autocomplete="current-password" required>
+                <button class="btn btn-primary" type="submit">Sign in</button>
+            </form>`
+                : ""
+            }
+            <form class="login-section" onsubmit="signInWithApiKey(event)">
+                <input class="text-input" type="password" id="loginApiKey" placeholder="API key (kz_...)" required>
+                <button class="btn btn-secondary" type="submit">Use API key</button>
+            </form>
+        </div>`
 }
 
 export function getWebUIHTML(config: WebUIConfig): string {
@@ -201,6 +246,28 @@ export function getWebUIHTML(config: WebUIConfig): string {
             border: 1px solid #bee5eb;
         }
         
+        .login-section {
+            display: flex;
+            gap: 10px;
+            flex-wrap: wrap;
+            margin-bottom: 15px;
+        }
+        
+        .text-input {
+            flex: 1;
+            min-width: 180px;
+            padding: 12px;
+            border: 1px solid #ddd;
+            border-radius: 8px;
+            font-size: 1rem;
+        }
+        
+        .sign-out {
+            color: white;
+            cursor: pointer;
+            text-decoration: underline;
+        }
+        
         .readonly-badge {
             display: inline-block;
             background: #ffc107;
@@ -217,13 +284,16 @@ export function getWebUIHTML(config: WebUIConfig): string {
         <div class="header">
             <h1>🗄️ Kuzu Database Manager</h1>
             <p>Version ${config.version}</p>
+            ${config.auth ? '<p><a class="sign-out" id="signOut" style="display: none;" onclick="signOut()">Sign out</a></p>' : ""}
         </div>
+        ${config.auth ? getLoginCard(config.auth) : ""}
         
+        <div id="adminContent"${config.auth ? ' style="display: none;"' : ""}>
         <div class="card">
             <h2>Database Information</h2>
             <div class="info-grid">
                 <span class="info-label">Database Path:</span>
-                <span class="info-value">${config.databasePath}</span>
+                <span class="info-value" id="databasePath">${config.auth ? "" : config.databasePath}</span>
                 
                 <span class="info-label">Mode:</span>
                 <span class="info-value">
@@ -249,6 +319,10 @@ export function getWebUIHTML(config: WebUIConfig): string {
                     <span>📤</span>
                     <span>Export (Kuzu Format)</span>
                 </button>
+                <select id="exportFormat" title="Export format">
+                    <option value="csv">CSV</option>
+                    <option value="parquet">Parquet</option>
+                </select>
             </div>
             <div class="progress" id="downloadProgress">
                 <div class="progress-bar">
@@ -261,6 +335,20 @@ export function getWebUIHTML(config: WebUIConfig): string {
         ${
           !config.isReadOnly
             ? `
+        <div class="card">
+            <h2>📦 Import Export</h2>
+            <p style="margin-bottom: 20px; color: #666;">
+                Import a .tar.gz archive from Export into a fresh database. This will replace the current database.
+            </p>
+            <input type="file" id="importInput" accept=".tar.gz,.tgz,.gz" onchange="importArchive(this.files[0])">
+            <div class="progress" id="importProgress">
+                <div class="progress-bar">
+                    <div class="progress-fill" id="importProgressFill"></div>
+                </div>
+                <div class="progress-text" id="importProgressText">Importing...</div>
+            </div>
+        </div>
+
         <div class="card">
             <h2>📤 Upload & Restore</h2>
             <p style="margin-bottom: 20px; color: #666;">
@@ -271,17 +359,21 @@ export function getWebUIHTML(config: WebUIConfig): string {
                 <div class="upload-icon">📁</div>
                 <p>Click to browse or drag and drop your database files here</p>
                 <p style="font-size: 0.9rem; color: #999; margin-top: 10px;">
-                    Supports: .kuzu backups, or raw database files (select both main + .wal files)
+                    Supports: .tar.gz backups (or older .kuzu backups), or raw database files (select both main + .wal files)
                 </p>
             </div>
             
             <input type="file" id="fileInput" class="file-input" multiple accept=".gz,.kuzu,.zip,.wal,.db,*" onchange="handleFileSelect(event)">
             
-            <div style="margin-top: 20px; text-align: center;">
+            ${
+              config.base64UploadLimit
+                ? ""
+                : `<div style="margin-top: 20px; text-align: center;">
                 <button class="btn btn-secondary" onclick="showSingleFileUpload()" style="padding: 10px 20px; background: #444; color: white; border: none; border-radius: 5px; cursor: pointer;">
                     📤 Having issues? Try uploading files separately
                 </button>
-            </div>
+            </div>`
+            }
             
             <!-- Single file upload section (hidden by default) -->
             <div id="singleFileUpload" style="display: none; margin-top: 20px; padding: 20px; border: 2px dashed #444; border-radius: 5px; background: #1a1a1a;">
@@ -311,11 +403,142 @@ export function getWebUIHTML(config: WebUIConfig): string {
         `
             : ""
         }
+        </div>
         
         <div class="message" id="message"></div>
     </div>
     
     <script>
+        const AUTH_REQUIRED = ${config.auth ? "true" : "false"};
+        const ADMIN_CLIENT_ID = '${ADMIN_CLIENT_ID}';
+        const AUTH_STORAGE_KEY = '${AUTH_STORAGE_KEY}';
+        const REDIRECT_URI = window.location.origin + '/admin';
+        const BASE64_UPLOAD_LIMIT = ${config.base64UploadLimit ?? 0};
+        
+        // API calls carry the Authorization header saved at sign-in
+        async function apiFetch(path, init = {}) {
+            const credentials = sessionStorage.getItem(AUTH_STORAGE_KEY);
+            const headers = Object.assign({}, init.headers, credentials ? { Authorization: credentials } : {});
+            const response = await fetch(window.location.origin + path, Object.assign({}, init, { headers }));
+            if (AUTH_REQUIRED && response.status === 401) {
+                sessionStorage.removeItem(AUTH_STORAGE_KEY);
+                showLogin();
+                throw new Error('Please sign in');
+            }
+            if (response.status === 403) {
+                const body = await response.clone().json().catch(() => ({}));
+                throw new Error(body.error_description || body.error || 'Not allowed');
+            }
+            return response;
+        }
+        
+        function showLogin() {
+            document.getElementById('loginCard').style.display = 'block';
+            document.getElementById('adminContent').style.display = 'none';
+            document.getElementById('signOut').style.display = 'none';
+        }
+        
+        // Check the saved credentials and show the manager once they work
+        async function loadInfo() {
+            try {
+                const response = await apiFetch('/api/info');
+                const info = await response.json();
+                document.getElementById('databasePath').textContent = info.mainFile || '';
+                if (AUTH_REQUIRED) {
+                    document.getElementById('loginCard').style.display = 'none';
+                    document.getElementById('signOut').style.display = 'inline';
+                }
+                document.getElementById('adminContent').style.display = 'block';
+            } catch (error) {
+                showMessage('Sign-in failed: ' + error.message, 'error');
+            }
+        }
+        
+        function base64(bytes) {
+            return btoa(String.fromCharCode.apply(null, Array.from(bytes)));
+        }
+        
+        function base64url(bytes) {
+            return base64(bytes).replace(/\\+/g, '-').replace(/\\//g, '_').replace(/=+$/, '');
+        }
+        
+        // Authorization code flow with PKCE against this server's OAuth endpoints
+        async function signInWithOAuth() {
+            const verifier = base64url(crypto.getRandomValues(new Uint8Array(32)));
+            const state = base64url(crypto.getRandomValues(new Uint8Array(16)));
+            const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+            sessionStorage.setItem('kuzuAdminOAuth', JSON.stringify({ verifier, state }));
+            const params = new URLSearchParams({
+                response_type: 'code',
+                client_id: ADMIN_CLIENT_ID,
+                redirect_uri: REDIRECT_URI,
+                code_challenge: base64url(new Uint8Array(digest)),
+                code_challenge_method: 'S256',
+                state
+            });
+            window.location.href = '/oauth/authorize?' + params.toString();
+        }
+        
+        async function completeOAuthSignIn(code, state) {
+            const pending = JSON.parse(sessionStorage.getItem('kuzuAdminOAuth') || '{}');
+            sessionStorage.removeItem('kuzuAdminOAuth');
+            history.replaceState(null, '', '/admin');
+            if (!pending.verifier || pending.state !== state) {
+                showMessage('Sign-in failed: the login response does not match this browser session', 'error');
+                return;
+            }
+            const response = await fetch(window.location.origin + '/oauth/token', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                body: new URLSearchParams({
+                    grant_type: 'authorization_code',
+                    code,
+                    redirect_uri: REDIRECT_URI,
+                    code_verifier: pending.verifier,
+                    client_id: ADMIN_CLIENT_ID
+                }).toString()
+            });
+            const tokens = await response.json();
+            if (!response.ok) {
+                showMessage('Sign-in failed: ' + (tokens.error_description || tokens.error), 'error');
+                return;
+            }
+            sessionStorage.setItem(AUTH_STORAGE_KEY, 'Bearer ' + tokens.access_token);
+            await loadInfo();
+        }
+        
+        function signInWithPassword(event) {
+            event.preventDefault();
+            const credentials = document.getElementById('loginUsername').value + ':' + document.getElementById('loginPassword').value;
+            sessionStorage.setItem(AUTH_STORAGE_KEY, 'Basic ' + base64(new TextEncoder().encode(credentials)));
+            document.getElementById('loginPassword').value = '';
+            loadInfo();
+        }
+        
+        function signInWithApiKey(event) {
+            event.preventDefault();
+            sessionStorage.setItem(AUTH_STORAGE_KEY, 'Bearer ' + document.getElementById('loginApiKey').value.trim());
+            document.getElementById('loginApiKey').value = '';
+            loadInfo();
+        }
+        
+        function signOut() {
+            sessionStorage.removeItem(AUTH_STORAGE_KEY);
+            showLogin();
+        }
+        
+        window.addEventListener('load', () => {
+            if (!AUTH_REQUIRED) return;
+            const params = new URLSearchParams(window.location.search);
+            if (params.get('code')) {
+                completeOAuthSignIn(params.get('code'), params.get('state'));
+            } else if (sessionStorage.getItem(AUTH_STORAGE_KEY)) {
+                loadInfo();
+            } else {
+                showLogin();
+            }
+        });
+        
         // Drag and drop handling
         const uploadArea = document.getElementById('uploadArea');
         if (uploadArea) {
@@ -370,8 +593,7 @@ export function getWebUIHTML(config: WebUIConfig): string {
                 showProgress('downloadProgress', 'Preparing backup...');
                 updateProgress('downloadProgress', 30);
                 
-                const baseUrl = window.location.origin;
-                const response = await fetch(baseUrl + '/api/backup');
+                const response = await apiFetch('/api/backup');
                 if (!response.ok) {
                     throw new Error('Failed to download backup');
                 }
@@ -382,7 +604,7 @@ export function getWebUIHTML(config: WebUIConfig): string {
                 const url = window.URL.createObjectURL(blob);
                 const a = document.createElement('a');
                 a.href = url;
-                a.download = 'kuzu-backup-' + new Date().toISOString().slice(0, 10) + '.kuzu';
+                a.download = 'kuzu-backup-' + new Date().toISOString().slice(0, 10) + '.tar.gz';
                 document.body.appendChild(a);
                 a.click();
                 window.URL.revokeObjectURL(url);
@@ -403,7 +625,8 @@ export function getWebUIHTML(config: WebUIConfig): string {
                 showProgress('downloadProgress', 'Exporting database...');
                 updateProgress('downloadProgress', 30);
                 
-                const response = await fetch('/api/export');
+                const format = document.getElementById('exportFormat').value;
+                const response = await apiFetch('/api/export?format=' + format);
                 if (!response.ok) {
                     throw new Error('Failed to export database');
                 }
@@ -414,7 +637,7 @@ export function getWebUIHTML(config: WebUIConfig): string {
                 const url = window.URL.createObjectURL(blob);
                 const a = document.createElement('a');
                 a.href = url;
-                a.download = 'kuzu-export-' + new Date().toISOString().slice(0, 10) + '.zip';
+                a.download = 'kuzu-export-' + new Date().toISOString().slice(0, 10) + '-' + format + '.tar.gz';
                 document.body.appendChild(a);
                 a.click();
                 window.URL.revokeObjectURL(url);
@@ -430,6 +653,67 @@ export function getWebUIHTML(config: WebUIConfig): string {
             }
         }
         
+        function readBase64(file) {
+            return new Promise((resolve, reject) => {
+                const reader = new FileReader();
+                reader.onload = () => resolve(reader.result.slice(reader.result.indexOf(',') + 1));
+                reader.onerror = () => reject(reader.error);
+                reader.readAsDataURL(file);
+            });
+        }
+
+        // Request options posting [field, file] pairs as multipart/form-data. Servers
+        // that read bodies as text get base64-encoded parts within their limit.
+        async function uploadForm(fields) {
+            if (!BASE64_UPLOAD_LIMIT) {
+                const formData = new FormData();
+                for (const [field, file] of fields) formData.append(field, file);
+                return { method: 'POST', body: formData };
+            }
+            const total = fields.reduce((sum, [, file]) => sum + file.size, 0);
+            if (total > BASE64_UPLOAD_LIMIT) {
+                throw new Error('Uploads to this server are limited to ' + Math.floor(BASE64_UPLOAD_LIMIT / 1048576) + ' MB');
+            }
+            const boundary = '----KuzuUpload' + Math.random().toString(16).slice(2);
+            let body = '';
+            for (const [field, file] of fields) {
+                body += '--' + boundary + '\r\n' +
+                    'Content-Disposition: form-data; name="' + field + '"; filename="' + file.name.replace(/"/g, '') + '"\r\n' +
+                    'Content-Transfer-Encoding: base64\r\n\r\n' + await readBase64(file) + '\r\n';
+            }
+            body += '--' + boundary + '--\r\n';
+            return {
+                method: 'POST',
+                headers: { 'Content-Type': 'multipart/form-data; boundary=' + boundary },
+                body
+            };
+        }
+
+        async function importArchive(file) {
+            if (!file) return;
+            if (!confirm('Import ' + file.name + '? This will replace the current database.')) {
+                document.getElementById('importInput').value = '';
+                return;
+            }
+            try {
+                showProgress('importProgress', 'Importing ' + file.name + '...');
+                updateProgress('importProgress', 30);
+                const response = await apiFetch('/api/import', await uploadForm([['export', file]]));
+                const result = await response.json();
+                if (!response.ok) {
+                    throw new Error(result.error || 'Import failed');
+                }
+                updateProgress('importProgress', 100);
+                showMessage('Database imported successfully! The page will reload.', 'success');
+                setTimeout(() => window.location.reload(), 2000);
+            } catch (error) {
+                hideProgress('importProgress');
+                showMessage('Error importing database: ' + error.message, 'error');
+            } finally {
+                document.getElementById('importInput').value = '';
+            }
+        }
+
         function showSingleFileUpload() {
             document.getElementById('singleFileUpload').style.display = 'block';
             document.getElementById('uploadArea').style.display = 'none';
@@ -449,7 +733,7 @@ export function getWebUIHTML(config: WebUIConfig): string {
             formData.append('type', fileType);
             
             try {
-                const response = await fetch('/api/upload-single', {
+                const response = await apiFetch('/api/upload-single', {
                     method: 'POST',
                     body: formData
                 });
@@ -506,12 +790,12 @@ export function getWebUIHTML(config: WebUIConfig): string {
                 return;
             }
             
-            const formData = new FormData();
+            const fields = [];
             
             if (isSingleBackup) {
                 // Single backup file
                 console.log('Uploading single backup:', files[0].name);
-                formData.append('backup', files[0]);
+                fields.push(['backup', files[0]]);
             } else {
                 // Multiple raw database files
                 let mainFile = null;
@@ -520,11 +804,11 @@ export function getWebUIHTML(config: WebUIConfig): string {
                 for (const file of files) {
                     if (file.name.endsWith('.wal')) {
                         walFile = file;
-                        formData.append('walFile', file);
+                        fields.push(['walFile', file]);
                         console.log('Adding WAL file:', file.name);
                     } else {
                         mainFile = file;
-                        formData.append('mainFile', file);
+                        fields.push(['mainFile', file]);
                         console.log('Adding main file:', file.name);
                     }
                 }
@@ -540,16 +824,11 @@ export function getWebUIHTML(config: WebUIConfig): string {
                 showProgress('uploadProgress', 'Uploading database...');
                 
                 // Use fetch API instead of XHR for better handling of large files
-                const baseUrl = window.location.origin;
                 const startTime = Date.now();
                 
                 console.log('Starting upload with fetch API...');
                 
-                fetch(baseUrl + '/api/restore', {
-                    method: 'POST',
-                    body: formData,
-                    // Don't set Content-Type header, let browser set it with boundary
-                })
+                apiFetch('/api/restore', await uploadForm(fields))
                 .then(async response => {
                     console.log('Upload response received:', response.status);
                     